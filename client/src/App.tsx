@@ -13,6 +13,8 @@ import Login from "@/pages/login";
 import Register from "@/pages/register";
 import ForgotPassword from "@/pages/forgot-password";
 import Dashboard from "@/pages/dashboard";
+import VerifyReport from "@/pages/verify-report";
+import SharedReport from "@/pages/shared-report";
 import AdminLogin from "@/pages/admin/login";
 import AdminDashboard from "@/pages/admin/dashboard";
 import AdminPatients from "@/pages/admin/patients";
@@ -22,6 +24,14 @@ import AdminTests from "@/pages/admin/tests";
 import AdminBookings from "@/pages/admin/bookings";
 import AdminAdvertisements from "@/pages/admin/advertisements";
 import AdminReviews from "@/pages/admin/reviews";
+import AdminDoctors from "@/pages/admin/doctors";
+import AdminCommissions from "@/pages/admin/commissions";
+import AdminWorklist from "@/pages/admin/worklist";
+import AdminTurnaround from "@/pages/admin/turnaround";
+import AdminQc from "@/pages/admin/qc";
+import AdminAnalysers from "@/pages/admin/analysers";
+import DoctorLogin from "@/pages/doctor/login";
+import DoctorReports from "@/pages/doctor/reports";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -34,15 +44,25 @@ function Router() {
       <Route path="/register" component={Register} />
       <Route path="/forgot-password" component={ForgotPassword} />
       <Route path="/dashboard" component={Dashboard} />
+      <Route path="/verify/:code?" component={VerifyReport} />
+      <Route path="/shared/:token" component={SharedReport} />
       <Route path="/admin/login" component={AdminLogin} />
       <Route path="/admin" component={AdminDashboard} />
       <Route path="/admin/patients" component={AdminPatients} />
+      <Route path="/admin/worklist" component={AdminWorklist} />
+      <Route path="/admin/turnaround" component={AdminTurnaround} />
+      <Route path="/admin/qc" component={AdminQc} />
+      <Route path="/admin/analysers" component={AdminAnalysers} />
       <Route path="/admin/create-report" component={AdminCreateReport} />
       <Route path="/admin/reports" component={AdminReports} />
       <Route path="/admin/tests" component={AdminTests} />
       <Route path="/admin/bookings" component={AdminBookings} />
       <Route path="/admin/advertisements" component={AdminAdvertisements} />
       <Route path="/admin/reviews" component={AdminReviews} />
+      <Route path="/admin/doctors" component={AdminDoctors} />
+      <Route path="/admin/commissions" component={AdminCommissions} />
+      <Route path="/doctor/login" component={DoctorLogin} />
+      <Route path="/doctor" component={DoctorReports} />
       <Route component={NotFound} />
     </Switch>
   );
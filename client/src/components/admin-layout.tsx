@@ -1,16 +1,42 @@
 import { type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AdminSidebar } from "@/components/admin-sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { useAuth } from "@/lib/auth-context";
 import { Button } from "@/components/ui/button";
-import { Shield } from "lucide-react";
+import { Shield, AlertTriangle } from "lucide-react";
 
 interface AdminLayoutProps {
   children: ReactNode;
 }
 
+interface CriticalAlert {
+  reportId: string;
+}
+
+// Polls for reports held on critical values so every admin screen shows them
+function CriticalAlertIndicator() {
+  const { data: alerts } = useQuery<CriticalAlert[]>({
+    queryKey: ["/api/admin/critical-alerts"],
+    refetchInterval: 30000,
+  });
+
+  if (!alerts || alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Link href="/admin/reports">
+      <Button variant="destructive" size="sm" className="gap-2" data-testid="button-critical-alerts">
+        <AlertTriangle className="h-4 w-4" />
+        {alerts.length} critical {alerts.length === 1 ? "result" : "results"} awaiting notification
+      </Button>
+    </Link>
+  );
+}
+
 export function AdminLayout({ children }: AdminLayoutProps) {
   const { admin } = useAuth();
   const [, navigate] = useLocation();
@@ -42,7 +68,10 @@ export function AdminLayout({ children }: AdminLayoutProps) {
         <div className="flex flex-col flex-1 overflow-hidden">
           <header className="flex items-center justify-between gap-4 h-14 px-4 border-b bg-background shrink-0">
             <SidebarTrigger data-testid="button-sidebar-toggle" />
-            <ThemeToggle />
+            <div className="flex items-center gap-2">
+              <CriticalAlertIndicator />
+              <ThemeToggle />
+            </div>
           </header>
           <main className="flex-1 overflow-auto bg-muted/30">
             {children}
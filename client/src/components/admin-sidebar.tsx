@@ -10,6 +10,12 @@ import {
   LogOut,
   Megaphone,
   MessageSquare,
+  Stethoscope,
+  IndianRupee,
+  ClipboardList,
+  Timer,
+  ShieldCheck,
+  Cpu,
 } from "lucide-react";
 import {
   Sidebar,
@@ -29,6 +35,12 @@ import { useAuth } from "@/lib/auth-context";
 const menuItems = [
   { title: "Dashboard", url: "/admin", icon: LayoutDashboard },
   { title: "Patients", url: "/admin/patients", icon: Users },
+  { title: "Doctors", url: "/admin/doctors", icon: Stethoscope },
+  { title: "Commissions", url: "/admin/commissions", icon: IndianRupee },
+  { title: "Worklist", url: "/admin/worklist", icon: ClipboardList },
+  { title: "Turnaround", url: "/admin/turnaround", icon: Timer },
+  { title: "Quality Control", url: "/admin/qc", icon: ShieldCheck },
+  { title: "Analysers", url: "/admin/analysers", icon: Cpu },
   { title: "Create Report", url: "/admin/create-report", icon: FilePlus },
   { title: "Reports", url: "/admin/reports", icon: FileText },
   { title: "Tests", url: "/admin/tests", icon: FlaskConical },
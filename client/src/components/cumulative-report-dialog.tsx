@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FileSpreadsheet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CumulativeTestSummary } from "@shared/schema";
+
+interface CumulativeReportDialogProps {
+  // List endpoint; each test's PDF is served at `${baseUrl}/${testId}`
+  baseUrl: string;
+  patientName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CumulativeReportDialog({ baseUrl, patientName, open, onOpenChange }: CumulativeReportDialogProps) {
+  const { toast } = useToast();
+
+  const { data: tests, isLoading } = useQuery<CumulativeTestSummary[]>({
+    queryKey: [baseUrl],
+    enabled: open,
+  });
+
+  // The PDF route needs the auth token, so fetch it rather than linking
+  const openReport = async (testId: string) => {
+    try {
+      const res = await apiRequest("GET", `${baseUrl}/${testId}`);
+      const blob = await res.blob();
+      window.open(URL.createObjectURL(blob), "_blank");
+    } catch (error) {
+      toast({
+        title: "Report Failed",
+        description: (error as Error).message || "Unable to open cumulative report.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cumulative Report</DialogTitle>
+          <DialogDescription>
+            {patientName ? `${patientName}: a` : "A"}ll results of a test side by side, one column per visit
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : tests && tests.length > 0 ? (
+          <div className="space-y-2">
+            {tests.map((test) => (
+              <div
+                key={test.testId}
+                className="flex items-center justify-between gap-3 p-3 rounded-md border"
+                data-testid={`cumulative-${test.testCode}`}
+              >
+                <div className="min-w-0">
+                  <div className="font-medium text-sm">{test.testName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {test.count} {test.count === 1 ? "visit" : "visits"}, last on {format(new Date(test.lastDate), "PP")}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2 shrink-0"
+                  onClick={() => openReport(test.testId)}
+                  data-testid={`button-cumulative-${test.testCode}`}
+                >
+                  <FileSpreadsheet className="h-4 w-4" />
+                  Open
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No released results yet
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
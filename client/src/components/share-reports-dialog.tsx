@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, Ban, Eye, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ReportShare } from "@shared/schema";
+
+interface ShareSummary extends Omit<ReportShare, "pinHash"> {
+  hasPin: boolean;
+  reportTitle: string | null;
+}
+
+const shareLifetimes: Record<string, string> = {
+  "1": "1 day",
+  "7": "7 days",
+  "30": "30 days",
+  "90": "90 days",
+};
+
+const ALL_REPORTS = "all";
+
+function shareUrl(token: string): string {
+  return `${window.location.origin}/shared/${token}`;
+}
+
+interface ShareReportsDialogProps {
+  // Reports the patient may share, as { id, title }
+  reports: { id: string; title: string }[];
+  // Report to preselect, or undefined to share the whole history
+  initialReportId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ShareReportsDialog({ reports, initialReportId, open, onOpenChange }: ShareReportsDialogProps) {
+  const { toast } = useToast();
+  const [scope, setScope] = useState(initialReportId || ALL_REPORTS);
+  const [lifetime, setLifetime] = useState("7");
+  const [pin, setPin] = useState("");
+  const [label, setLabel] = useState("");
+
+  const { data: shares, isLoading } = useQuery<ShareSummary[]>({
+    queryKey: ["/api/patient/shares"],
+    enabled: open,
+  });
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(shareUrl(token));
+    toast({ title: "Link Copied", description: "Send it to your doctor along with the PIN, if you set one." });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/patient/shares", {
+        reportId: scope === ALL_REPORTS ? undefined : scope,
+        expiresInDays: Number(lifetime),
+        pin: pin || undefined,
+        label: label || undefined,
+      });
+      return res.json() as Promise<ShareSummary>;
+    },
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patient/shares"] });
+      setPin("");
+      setLabel("");
+      copyLink(share.token);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Share",
+        description: error.message || "Unable to create the link.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("POST", `/api/patient/shares/${id}/revoke`),
+    onSuccess: () => {
+      toast({ title: "Link Revoked", description: "The link no longer works." });
+      queryClient.invalidateQueries({ queryKey: ["/api/patient/shares"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Revoke Failed",
+        description: error.message || "Unable to revoke the link.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isLive = (share: ShareSummary) => !share.revokedAt && new Date(share.expiresAt) > new Date();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share Reports</DialogTitle>
+          <DialogDescription>
+            Create a link your doctor can open without logging in. You can revoke it at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>What to share</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger data-testid="select-share-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_REPORTS}>All my reports</SelectItem>
+                {reports.map((report) => (
+                  <SelectItem key={report.id} value={report.id}>{report.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Valid for</Label>
+              <Select value={lifetime} onValueChange={setLifetime}>
+                <SelectTrigger data-testid="select-share-lifetime">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(shareLifetimes).map(([value, text]) => (
+                    <SelectItem key={value} value={value}>{text}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-pin">PIN (optional)</Label>
+              <Input
+                id="share-pin"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                placeholder="4-6 digits"
+                inputMode="numeric"
+                data-testid="input-share-pin"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="share-label">Shared with (optional)</Label>
+            <Input
+              id="share-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Dr. Mehta"
+              data-testid="input-share-label"
+            />
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => createMutation.mutate()}
+            disabled={(pin.length > 0 && pin.length < 4) || createMutation.isPending}
+            data-testid="button-create-share"
+          >
+            {createMutation.isPending ? "Creating..." : "Create & Copy Link"}
+          </Button>
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <Label>Your Links</Label>
+          {isLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : shares && shares.length > 0 ? (
+            shares.map((share) => (
+              <div key={share.id} className="p-3 rounded-md border space-y-1" data-testid={`share-${share.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium truncate">
+                    {share.reportTitle || "All reports"}
+                    {share.label && <span className="text-muted-foreground font-normal"> - {share.label}</span>}
+                  </span>
+                  {isLive(share) ? (
+                    <Badge className="bg-success text-success-foreground shrink-0">Active</Badge>
+                  ) : (
+                    <Badge variant="outline" className="shrink-0">{share.revokedAt ? "Revoked" : "Expired"}</Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Eye className="h-3 w-3" />
+                    {share.viewCount} {share.viewCount === 1 ? "view" : "views"}
+                  </span>
+                  {share.hasPin && (
+                    <span className="flex items-center gap-1">
+                      <Lock className="h-3 w-3" />
+                      PIN
+                    </span>
+                  )}
+                  <span>
+                    {isLive(share) ? "Expires" : "Ended"}{" "}
+                    {format(new Date(share.revokedAt || share.expiresAt), "PP")}
+                  </span>
+                </div>
+                {isLive(share) && (
+                  <div className="flex gap-2 pt-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => copyLink(share.token)}
+                      data-testid={`button-copy-share-${share.id}`}
+                    >
+                      <Copy className="h-3 w-3" />
+                      Copy
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => revokeMutation.mutate(share.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-share-${share.id}`}
+                    >
+                      <Ban className="h-3 w-3" />
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">You have not shared any reports yet</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,15 +5,20 @@ import {
   type User as FirebaseUser
 } from "firebase/auth";
 import { auth } from "./firebase";
-import type { Patient, Admin } from "@shared/schema";
+import type { Patient, Admin, Doctor } from "@shared/schema";
+
+// What the server returns for a logged-in doctor
+export type DoctorProfile = Omit<Doctor, "password">;
 
 interface AuthContextType {
   user: FirebaseUser | null;
   patient: Patient | null;
   admin: Admin | null;
+  doctor: DoctorProfile | null;
   isLoading: boolean;
   loginPatient: (patient: Patient, token: string) => void;
   loginAdmin: (admin: Admin, token: string) => void;
+  loginDoctor: (doctor: DoctorProfile, token: string) => void;
   logout: () => Promise<void>;
   getToken: () => string | null;
 }
@@ -24,6 +29,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<FirebaseUser | null>(null);
   const [patient, setPatient] = useState<Patient | null>(null);
   const [admin, setAdmin] = useState<Admin | null>(null);
+  const [doctor, setDoctor] = useState<DoctorProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -50,6 +56,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
     }
 
+    const storedDoctor = localStorage.getItem("doctor");
+    const storedDoctorToken = localStorage.getItem("doctorToken");
+    if (storedDoctor && storedDoctorToken) {
+      try {
+        setDoctor(JSON.parse(storedDoctor));
+      } catch (e) {
+        localStorage.removeItem("doctor");
+        localStorage.removeItem("doctorToken");
+      }
+    }
+
     // Then listen to Firebase auth state changes (for Firebase auth)
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
       setUser(firebaseUser);
@@ -79,6 +96,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     localStorage.setItem("adminToken", token);
   };
 
+  const loginDoctor = (doctorData: DoctorProfile, token: string) => {
+    setDoctor(doctorData);
+    localStorage.setItem("doctor", JSON.stringify(doctorData));
+    localStorage.setItem("doctorToken", token);
+  };
+
   const logout = async () => {
     try {
       await signOut(auth);
@@ -87,11 +110,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
     setPatient(null);
     setAdmin(null);
+    setDoctor(null);
     setUser(null);
     localStorage.removeItem("patient");
     localStorage.removeItem("admin");
     localStorage.removeItem("token");
     localStorage.removeItem("adminToken");
+    localStorage.removeItem("doctor");
+    localStorage.removeItem("doctorToken");
   };
 
   const getToken = () => {
@@ -99,7 +125,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, patient, admin, isLoading, loginPatient, loginAdmin, logout, getToken }}>
+    <AuthContext.Provider value={{ user, patient, admin, doctor, isLoading, loginPatient, loginAdmin, loginDoctor, logout, getToken }}>
       {children}
     </AuthContext.Provider>
   );
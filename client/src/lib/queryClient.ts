@@ -1,7 +1,10 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
-function getAuthHeader(): Record<string, string> {
-  const token = localStorage.getItem("adminToken") || localStorage.getItem("token");
+function getAuthHeader(url: string): Record<string, string> {
+  // Doctor portal requests carry the doctor's own token
+  const token = url.startsWith("/api/doctor/")
+    ? localStorage.getItem("doctorToken")
+    : localStorage.getItem("adminToken") || localStorage.getItem("token");
   if (token) {
     return { "Authorization": `Bearer ${token}` };
   }
@@ -21,7 +24,7 @@ export async function apiRequest(
   data?: unknown | undefined,
 ): Promise<Response> {
   const headers: Record<string, string> = {
-    ...getAuthHeader(),
+    ...getAuthHeader(url),
   };
   
   if (data) {
@@ -45,10 +48,11 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const url = queryKey.join("/") as string;
+    const res = await fetch(url, {
       credentials: "include",
       headers: {
-        ...getAuthHeader(),
+        ...getAuthHeader(url),
       },
     });
 
@@ -0,0 +1,421 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Cpu, Upload, RefreshCw, Trash2, Plus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { AdminLayout } from "@/components/admin-layout";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AnalyserImport, InstrumentCodeMapping, Test, TestParameter } from "@shared/schema";
+
+const statusColors: Record<string, string> = {
+  pending: "bg-primary text-primary-foreground",
+  unmatched: "bg-warning text-warning-foreground",
+  applied: "bg-success text-success-foreground",
+  discarded: "bg-muted text-muted-foreground",
+};
+
+const statusLabels: Record<string, string> = {
+  pending: "Awaiting Review",
+  unmatched: "Unmatched",
+  applied: "Saved",
+  discarded: "Discarded",
+};
+
+const sourceLabels: Record<string, string> = {
+  listener: "Listener",
+  file: "File drop",
+  upload: "Upload",
+};
+
+function ImportsTab() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("all");
+  const [message, setMessage] = useState("");
+
+  const importsKey = status === "all" ? "/api/admin/analyser/imports" : `/api/admin/analyser/imports?status=${status}`;
+  const { data: imports, isLoading } = useQuery<AnalyserImport[]>({
+    queryKey: [importsKey],
+    refetchInterval: 30000,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [importsKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/worklist"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/analyser/imports", { data: message });
+      return res.json() as Promise<AnalyserImport[]>;
+    },
+    onSuccess: (created) => {
+      const matched = created.filter((i) => i.status === "pending").length;
+      toast({
+        title: "Message Imported",
+        description: `${created.length} ${created.length === 1 ? "specimen" : "specimens"}, ${matched} matched to a sample.`,
+      });
+      setMessage("");
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message || "Unable to read the message.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "rematch" | "discard" }) => {
+      const res = await apiRequest("POST", `/api/admin/analyser/imports/${id}/${action}`);
+      return res.json() as Promise<AnalyserImport>;
+    },
+    onSuccess: (updated, { action }) => {
+      if (action === "rematch") {
+        toast({
+          title: updated.status === "pending" ? "Matched" : "Still Unmatched",
+          description: updated.status === "pending" ? "The results are on the worklist for review." : updated.note || "",
+          variant: updated.status === "pending" ? undefined : "destructive",
+        });
+      }
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action Failed",
+        description: error.message || "Unable to update the import.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const readFile = async (file: File | undefined) => {
+    if (file) {
+      setMessage(await file.text());
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import a Message
+          </CardTitle>
+          <CardDescription>
+            Paste or load an ASTM E1394 message exported by an analyser, with or without its transmission framing
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={6}
+            className="font-mono text-xs"
+            placeholder={"H|\\^&|||XN-350\nO|1|A2610190001||^^^CBC\nR|1|^^^WBC|7.2|10*3/uL||N||F\nL|1|N"}
+            data-testid="textarea-astm-message"
+          />
+          <div className="flex items-center justify-between gap-3">
+            <Input
+              type="file"
+              accept=".astm,.txt,.log"
+              className="max-w-xs"
+              onChange={(e) => readFile(e.target.files?.[0])}
+              data-testid="input-astm-file"
+            />
+            <Button
+              onClick={() => uploadMutation.mutate()}
+              disabled={!message.trim() || uploadMutation.isPending}
+              data-testid="button-import-astm"
+            >
+              {uploadMutation.isPending ? "Importing..." : "Import"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="text-lg">Received Results</CardTitle>
+            <CardDescription>
+              Matched results wait on the worklist until a technician reviews and saves them
+            </CardDescription>
+          </div>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-44" data-testid="select-import-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : imports && imports.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="py-2 pr-3 font-medium">Received</th>
+                    <th className="py-2 pr-3 font-medium">Analyser</th>
+                    <th className="py-2 pr-3 font-medium">Barcode</th>
+                    <th className="py-2 pr-3 font-medium">Status</th>
+                    <th className="py-2 pr-3 font-medium">Values</th>
+                    <th className="py-2 pr-3 font-medium"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {imports.map((i) => (
+                    <tr key={i.id} className="border-b last:border-0 align-top" data-testid={`row-import-${i.id}`}>
+                      <td className="py-2 pr-3 whitespace-nowrap">
+                        {format(new Date(i.receivedAt), "dd MMM HH:mm")}
+                        <div className="text-xs text-muted-foreground">{sourceLabels[i.source] || i.source}</div>
+                      </td>
+                      <td className="py-2 pr-3">{i.analyser}</td>
+                      <td className="py-2 pr-3 font-mono">{i.accessionNumber || "-"}</td>
+                      <td className="py-2 pr-3">
+                        <Badge className={statusColors[i.status]}>{statusLabels[i.status] || i.status}</Badge>
+                        {i.note && <div className="text-xs text-muted-foreground mt-1">{i.note}</div>}
+                      </td>
+                      <td className="py-2 pr-3 text-xs">
+                        <div className="flex flex-wrap gap-x-3 gap-y-1">
+                          {i.values.map((v) => (
+                            <span key={v.instrumentCode} className={v.paramCode ? "" : "text-muted-foreground"}>
+                              <span className="font-mono">{v.paramCode || `${v.instrumentCode}?`}</span> {v.value}
+                              {v.flags && v.flags !== "N" && <span className="text-destructive"> {v.flags}</span>}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-3 text-right whitespace-nowrap">
+                        {i.status === "unmatched" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => actionMutation.mutate({ id: i.id, action: "rematch" })}
+                            title="Match again"
+                            data-testid={`button-rematch-${i.id}`}
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {(i.status === "pending" || i.status === "unmatched") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => actionMutation.mutate({ id: i.id, action: "discard" })}
+                            title="Discard"
+                            data-testid={`button-discard-${i.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-8">No results received</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function MappingsTab() {
+  const { toast } = useToast();
+  const [form, setForm] = useState({ analyser: "", instrumentCode: "", paramCode: "", factor: "1" });
+
+  const { data: mappings, isLoading } = useQuery<InstrumentCodeMapping[]>({
+    queryKey: ["/api/admin/analyser/mappings"],
+  });
+  const { data: tests } = useQuery<Test[]>({ queryKey: ["/api/tests"] });
+
+  const parameters = new Map<string, string>();
+  tests?.forEach((test) =>
+    (test.parameters as TestParameter[])
+      .filter((p) => p.type !== "calculated")
+      .forEach((p) => parameters.has(p.paramCode) || parameters.set(p.paramCode, `${p.name} (${p.paramCode})`))
+  );
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/admin/analyser/mappings", form);
+    },
+    onSuccess: () => {
+      setForm({ ...form, instrumentCode: "", paramCode: "", factor: "1" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/analyser/mappings"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Add Mapping",
+        description: error.message || "Unable to save the mapping.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/admin/analyser/mappings/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/analyser/mappings"] });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Instrument Codes</CardTitle>
+        <CardDescription>
+          Map each analyser's test codes to our parameters. Codes that already match a parameter code, such as WBC or HGB,
+          need no mapping. The factor converts the analyser's unit to ours, e.g. 1000 for 10^3/uL to cells/mcL.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="mapping-analyser">Analyser</Label>
+            <Input
+              id="mapping-analyser"
+              value={form.analyser}
+              onChange={(e) => setForm({ ...form, analyser: e.target.value })}
+              placeholder="As sent in the header"
+              data-testid="input-mapping-analyser"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mapping-code">Instrument Code</Label>
+            <Input
+              id="mapping-code"
+              value={form.instrumentCode}
+              onChange={(e) => setForm({ ...form, instrumentCode: e.target.value })}
+              data-testid="input-mapping-code"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Parameter</Label>
+            <Select value={form.paramCode} onValueChange={(paramCode) => setForm({ ...form, paramCode })}>
+              <SelectTrigger data-testid="select-mapping-parameter">
+                <SelectValue placeholder="Select" />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(parameters.entries()).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mapping-factor">Factor</Label>
+            <Input
+              id="mapping-factor"
+              type="number"
+              step="any"
+              value={form.factor}
+              onChange={(e) => setForm({ ...form, factor: e.target.value })}
+              data-testid="input-mapping-factor"
+            />
+          </div>
+          <Button
+            className="gap-2"
+            onClick={() => createMutation.mutate()}
+            disabled={!form.analyser.trim() || !form.instrumentCode.trim() || !form.paramCode || createMutation.isPending}
+            data-testid="button-add-mapping"
+          >
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : mappings && mappings.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left">
+                <th className="py-2 pr-3 font-medium">Analyser</th>
+                <th className="py-2 pr-3 font-medium">Instrument Code</th>
+                <th className="py-2 pr-3 font-medium">Parameter</th>
+                <th className="py-2 pr-3 font-medium text-right">Factor</th>
+                <th className="py-2 pr-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {mappings.map((m) => (
+                <tr key={m.id} className="border-b last:border-0" data-testid={`row-mapping-${m.id}`}>
+                  <td className="py-2 pr-3">{m.analyser}</td>
+                  <td className="py-2 pr-3 font-mono">{m.instrumentCode}</td>
+                  <td className="py-2 pr-3">{parameters.get(m.paramCode) || m.paramCode}</td>
+                  <td className="py-2 pr-3 text-right font-mono">{Number(m.factor)}</td>
+                  <td className="py-2 pr-3 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(m.id)}
+                      data-testid={`button-delete-mapping-${m.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No mappings yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminAnalysers() {
+  return (
+    <AdminLayout>
+      <div className="p-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold flex items-center gap-2" data-testid="text-page-title">
+            <Cpu className="h-6 w-6" />
+            Analysers
+          </h1>
+          <p className="text-muted-foreground">Results received from instruments over ASTM, and how their codes map to our parameters</p>
+        </div>
+
+        <Tabs defaultValue="imports">
+          <TabsList className="mb-4">
+            <TabsTrigger value="imports" data-testid="tab-imports">Received Results</TabsTrigger>
+            <TabsTrigger value="mappings" data-testid="tab-mappings">Code Mappings</TabsTrigger>
+          </TabsList>
+          <TabsContent value="imports">
+            <ImportsTab />
+          </TabsContent>
+          <TabsContent value="mappings">
+            <MappingsTab />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -1,12 +1,19 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { format } from "date-fns";
-import { Calendar, Clock, MapPin, Home, Phone, Search, CreditCard, CheckCircle, AlertCircle, Banknote } from "lucide-react";
+import {
+  Calendar, Clock, MapPin, Home, Phone, Search, CreditCard, CheckCircle, AlertCircle, Banknote, FilePlus, Stethoscope,
+  TestTube, Printer, Download, History, XCircle, RotateCcw,
+} from "lucide-react";
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { AdminLayout } from "@/components/admin-layout";
@@ -21,19 +28,58 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import type { Booking, Patient, Test, BookingStatus } from "@shared/schema";
+import {
+  sampleContainers, sampleStatusTransitions, sampleRejectableStatuses, sampleRejectionReasons, bookingPriorities,
+  type Booking, type Patient, type Test, type BookingStatus, type Doctor, type Sample, type SampleEvent, type SampleStatus,
+} from "@shared/schema";
 
 interface BookingWithDetails extends Booking {
   patient?: Patient;
   tests: Test[];
+  completedTestIds: string[];
+  samples: Sample[];
 }
 
+const containerLabels: Record<string, string> = {
+  edta: "EDTA (lavender)",
+  plain: "Plain (red)",
+  fluoride: "Fluoride (grey)",
+  urine: "Urine container",
+};
+
+const sampleStatusLabels: Record<string, string> = {
+  collected: "Collected",
+  in_transit: "In Transit",
+  received: "Received at Lab",
+  processing: "Processing",
+  stored: "Stored",
+  discarded: "Discarded",
+  rejected: "Rejected",
+};
+
+// Button text for moving a sample into each state
+const sampleStepLabels: Record<string, string> = {
+  in_transit: "Dispatch",
+  received: "Receive",
+  processing: "Start Processing",
+  stored: "Store",
+  discarded: "Discard",
+};
+
+const rejectionReasonLabels: Record<string, string> = {
+  haemolysed: "Haemolysed",
+  clotted: "Clotted",
+  insufficient: "Insufficient quantity",
+  other: "Other",
+};
+
 const statusColors: Record<string, string> = {
   pending: "bg-warning text-warning-foreground",
   collected: "bg-info text-info-foreground",
   processing: "bg-info text-info-foreground",
   report_ready: "bg-success text-success-foreground",
   delivered: "bg-success text-success-foreground",
+  sample_rejected: "bg-destructive text-destructive-foreground",
 };
 
 const statusLabels: Record<string, string> = {
@@ -42,6 +88,7 @@ const statusLabels: Record<string, string> = {
   processing: "Processing",
   report_ready: "Report Ready",
   delivered: "Delivered",
+  sample_rejected: "Sample Rejected",
 };
 
 const paymentStatusColors: Record<string, string> = {
@@ -71,7 +118,273 @@ const paymentMethodLabels: Record<string, string> = {
   pay_at_lab: "Pay at Lab",
 };
 
-const statusOptions: BookingStatus[] = ["pending", "collected", "processing", "report_ready", "delivered"];
+const priorityLabels: Record<string, string> = {
+  stat: "STAT",
+  urgent: "Urgent",
+  routine: "Routine",
+};
+
+const statusOptions: BookingStatus[] = ["pending", "collected", "processing", "report_ready", "delivered", "sample_rejected"];
+
+// datetime-local inputs want local time without a zone
+function toLocalInputValue(date: Date): string {
+  return format(date, "yyyy-MM-dd'T'HH:mm");
+}
+
+function RejectSampleDialog({ sample, onOpenChange }: { sample: Sample; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [note, setNote] = useState("");
+  const [slot, setSlot] = useState(() => toLocalInputValue(new Date()));
+
+  const rejectMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/samples/${sample.id}/reject`, {
+        reason,
+        note: note.trim() || undefined,
+        slot: new Date(slot).toISOString(),
+      });
+      return res.json() as Promise<{ patientNotified: boolean }>;
+    },
+    onSuccess: ({ patientNotified }) => {
+      toast({
+        title: "Sample Rejected",
+        description: patientNotified
+          ? "A free recollection booking has been created and the patient has been emailed."
+          : "A free recollection booking has been created. The patient has no email on file; please call them.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patient/bookings"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Rejection Failed",
+        description: error.message || "Unable to reject sample.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reject Sample {sample.accessionNumber}</DialogTitle>
+          <DialogDescription>
+            The sample's tests move to a new booking for recollection at no charge, and the patient is notified
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Reason *</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger data-testid="select-rejection-reason">
+                <SelectValue placeholder="Why is the sample unusable?" />
+              </SelectTrigger>
+              <SelectContent>
+                {sampleRejectionReasons.map((r) => (
+                  <SelectItem key={r} value={r}>
+                    {rejectionReasonLabels[r]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-note">Note{reason === "other" ? " *" : ""}</Label>
+            <Textarea
+              id="rejection-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              data-testid="input-rejection-note"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="recollection-slot">Recollect From</Label>
+            <Input
+              id="recollection-slot"
+              type="datetime-local"
+              value={slot}
+              onChange={(e) => setSlot(e.target.value)}
+              data-testid="input-recollection-slot"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => rejectMutation.mutate()}
+            disabled={!reason || (reason === "other" && !note.trim()) || !slot || rejectMutation.isPending}
+            data-testid="button-confirm-reject"
+          >
+            {rejectMutation.isPending ? "Rejecting..." : "Reject Sample"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SampleHistoryDialog({ sample, onOpenChange }: { sample: Sample; onOpenChange: (open: boolean) => void }) {
+  const { data: events, isLoading } = useQuery<(SampleEvent & { performedByName: string | null })[]>({
+    queryKey: ["/api/admin/samples", sample.id, "events"],
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Chain of Custody - {sample.accessionNumber}</DialogTitle>
+          <DialogDescription>Every hand-over of this sample, oldest first</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="space-y-3">
+            {events?.map((event) => (
+              <div key={event.id} className="border-l-2 pl-3" data-testid={`sample-event-${event.id}`}>
+                <div className="text-sm font-medium">{sampleStatusLabels[event.status] || event.status}</div>
+                <div className="text-xs text-muted-foreground">
+                  {format(new Date(event.createdAt), "PPp")}
+                  {event.performedByName && ` - ${event.performedByName}`}
+                </div>
+                {event.note && <div className="text-sm mt-1">{event.note}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CollectSampleDialog({
+  booking,
+  onOpenChange,
+}: {
+  booking: BookingWithDetails;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [collectedBy, setCollectedBy] = useState("");
+  const [collectedAt, setCollectedAt] = useState(() => toLocalInputValue(new Date()));
+  const [containers, setContainers] = useState<Record<string, string>>(() =>
+    Object.fromEntries(booking.tests.map((t) => [t.id, t.container]))
+  );
+
+  const tubeCount = new Set(Object.values(containers)).size;
+
+  const collectMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/bookings/${booking.id}/samples`, {
+        collectedBy,
+        collectedAt: new Date(collectedAt).toISOString(),
+        containers,
+      });
+      return res.json() as Promise<Sample[]>;
+    },
+    onSuccess: (samples) => {
+      toast({
+        title: "Sample Collected",
+        description: `Accession ${samples.map((s) => s.accessionNumber).join(", ")}. Print the labels from the booking.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patient/bookings"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Collection Failed",
+        description: error.message || "Unable to record sample collection.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Collect Sample</DialogTitle>
+          <DialogDescription>
+            {booking.patient?.name || booking.guestName || "Guest"} - tests sharing a container go in one tube with one
+            accession number
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            {booking.tests.map((test) => (
+              <div key={test.id} className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">{test.name}</div>
+                  <div className="text-xs text-muted-foreground">{test.sampleType}</div>
+                </div>
+                <Select
+                  value={containers[test.id]}
+                  onValueChange={(container) => setContainers({ ...containers, [test.id]: container })}
+                >
+                  <SelectTrigger className="w-44 h-8" data-testid={`select-container-${test.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sampleContainers.map((container) => (
+                      <SelectItem key={container} value={container}>
+                        {containerLabels[container]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              {tubeCount} {tubeCount === 1 ? "tube" : "tubes"} will be labelled
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="collected-by">Collected By *</Label>
+              <Input
+                id="collected-by"
+                value={collectedBy}
+                onChange={(e) => setCollectedBy(e.target.value)}
+                placeholder="Phlebotomist name"
+                data-testid="input-collected-by"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="collected-at">Collection Time</Label>
+              <Input
+                id="collected-at"
+                type="datetime-local"
+                value={collectedAt}
+                max={toLocalInputValue(new Date())}
+                onChange={(e) => setCollectedAt(e.target.value)}
+                data-testid="input-collected-at"
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => collectMutation.mutate()}
+            disabled={!collectedBy.trim() || !collectedAt || collectMutation.isPending}
+            data-testid="button-save-collection"
+          >
+            {collectMutation.isPending ? "Saving..." : "Record Collection"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
 
 export default function AdminBookings() {
   const { toast } = useToast();
@@ -80,6 +393,9 @@ export default function AdminBookings() {
   const [paymentFilter, setPaymentFilter] = useState<string>("all");
   const [verifyDialogOpen, setVerifyDialogOpen] = useState(false);
   const [selectedBookingId, setSelectedBookingId] = useState<string | null>(null);
+  const [collectingBooking, setCollectingBooking] = useState<BookingWithDetails | null>(null);
+  const [rejectingSample, setRejectingSample] = useState<Sample | null>(null);
+  const [historySample, setHistorySample] = useState<Sample | null>(null);
 
   const { data: bookings, isLoading } = useQuery<BookingWithDetails[]>({
     queryKey: ["/api/admin/bookings"],
@@ -87,6 +403,47 @@ export default function AdminBookings() {
     refetchOnWindowFocus: true,
   });
 
+  const { data: doctors } = useQuery<Omit<Doctor, "password">[]>({
+    queryKey: ["/api/admin/doctors"],
+  });
+
+  const setDoctorMutation = useMutation({
+    mutationFn: async ({ id, doctorId }: { id: string; doctorId: string | null }) => {
+      return apiRequest("PATCH", `/api/admin/bookings/${id}/doctor`, { doctorId });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Referral Updated",
+        description: "The referring doctor has been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Unable to set the referring doctor.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setPriorityMutation = useMutation({
+    mutationFn: async ({ id, priority }: { id: string; priority: string }) => {
+      return apiRequest("PATCH", `/api/admin/bookings/${id}/priority`, { priority });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/worklist"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Unable to set priority.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateStatusMutation = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: string }) => {
       return apiRequest("PATCH", `/api/admin/bookings/${id}/status`, { status });
@@ -108,6 +465,23 @@ export default function AdminBookings() {
     },
   });
 
+  const sampleStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: SampleStatus }) => {
+      return apiRequest("PATCH", `/api/admin/samples/${id}/status`, { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/samples"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Unable to update sample.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const verifyPaymentMutation = useMutation({
     mutationFn: async (id: string) => {
       return apiRequest("PATCH", `/api/admin/bookings/${id}/verify-payment`, {});
@@ -143,6 +517,31 @@ export default function AdminBookings() {
     }
   };
 
+  // Labels need the admin token, so fetch them rather than linking. The PDF
+  // opens for printing; ZPL is saved for sending to a Zebra printer.
+  const printLabels = async (booking: BookingWithDetails, fileFormat: "pdf" | "zpl", sample?: Sample) => {
+    try {
+      const query = new URLSearchParams({ format: fileFormat, ...(sample ? { sampleId: sample.id } : {}) });
+      const res = await apiRequest("GET", `/api/admin/bookings/${booking.id}/labels?${query}`);
+      const url = URL.createObjectURL(await res.blob());
+      if (fileFormat === "pdf") {
+        window.open(url, "_blank");
+        return;
+      }
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `labels-${(sample || booking.samples[0]).accessionNumber}.zpl`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Could Not Print Labels",
+        description: (error as Error).message || "Unable to generate labels.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const filteredBookings = bookings?.filter((b) => {
     const matchesStatus = statusFilter === "all" || b.status === statusFilter;
     const matchesPayment = paymentFilter === "all" || b.paymentStatus === paymentFilter;
@@ -152,7 +551,8 @@ export default function AdminBookings() {
       b.patient?.patientId?.toLowerCase().includes(query) ||
       b.patient?.name?.toLowerCase().includes(query) ||
       b.guestName?.toLowerCase().includes(query) ||
-      b.phone?.toLowerCase().includes(query);
+      b.phone?.toLowerCase().includes(query) ||
+      b.samples?.some((s) => s.accessionNumber.includes(query));
     return matchesStatus && matchesPayment && matchesSearch;
   });
 
@@ -170,7 +570,7 @@ export default function AdminBookings() {
               <div className="relative flex-1">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search by name, patient ID, or phone..."
+                  placeholder="Search by name, patient ID, phone or accession number..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10"
@@ -250,9 +650,18 @@ export default function AdminBookings() {
                             <Badge variant="outline">
                               {booking.type === "pickup" ? "Home Collection" : "Walk-in"}
                             </Badge>
+                            {booking.recollectionOfId && (
+                              <Badge variant="outline" className="gap-1">
+                                <RotateCcw className="h-3 w-3" />
+                                Recollection
+                              </Badge>
+                            )}
                           </div>
                           <div className="text-sm text-muted-foreground mb-2">
                             {booking.tests?.map((t) => t.name).join(", ") || "Test Booking"}
+                            <span className="ml-2 text-xs" data-testid={`text-results-progress-${booking.id}`}>
+                              ({booking.completedTestIds?.length || 0}/{booking.tests?.length || 0} results entered)
+                            </span>
                           </div>
                           <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
                             <div className="flex items-center gap-1">
@@ -271,6 +680,29 @@ export default function AdminBookings() {
                         </div>
                       </div>
                       <div className="flex items-center gap-3 lg:shrink-0">
+                        {booking.patientId && (booking.completedTestIds?.length || 0) < booking.tests.length && (
+                          <Link href={`/admin/create-report?patient=${booking.patientId}&booking=${booking.id}`}>
+                            <Button variant="outline" size="sm" className="gap-2" data-testid={`button-enter-results-${booking.id}`}>
+                              <FilePlus className="h-4 w-4" />
+                              Enter Results
+                            </Button>
+                          </Link>
+                        )}
+                        <Select
+                          value={booking.priority}
+                          onValueChange={(priority) => setPriorityMutation.mutate({ id: booking.id, priority })}
+                        >
+                          <SelectTrigger className="w-28" data-testid={`select-priority-${booking.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {bookingPriorities.map((priority) => (
+                              <SelectItem key={priority} value={priority}>
+                                {priorityLabels[priority]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                         <Badge className={statusColors[booking.status] || "bg-muted"}>
                           {statusLabels[booking.status] || booking.status}
                         </Badge>
@@ -283,7 +715,11 @@ export default function AdminBookings() {
                           </SelectTrigger>
                           <SelectContent>
                             {statusOptions.map((status) => (
-                              <SelectItem key={status} value={status}>
+                              <SelectItem
+                                key={status}
+                                value={status}
+                                disabled={status === "report_ready" && (booking.completedTestIds?.length || 0) < booking.tests.length}
+                              >
                                 {statusLabels[status]}
                               </SelectItem>
                             ))}
@@ -292,6 +728,123 @@ export default function AdminBookings() {
                       </div>
                     </div>
 
+                    {/* Sample Collection Section */}
+                    <div className="pt-3 border-t">
+                      <div className="flex items-center gap-2 mb-3">
+                        <TestTube className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-sm font-medium">Samples</span>
+                      </div>
+                      {booking.samples?.length > 0 ? (
+                        <div className="space-y-2">
+                          {booking.samples.map((sample) => (
+                            <div
+                              key={sample.id}
+                              className="flex flex-wrap items-center gap-3 text-sm"
+                              data-testid={`sample-${sample.accessionNumber}`}
+                            >
+                              <span className="font-mono font-medium">{sample.accessionNumber}</span>
+                              <Badge variant="outline">{containerLabels[sample.container] || sample.container}</Badge>
+                              <Badge
+                                variant={sample.status === "rejected" ? "destructive" : "secondary"}
+                                data-testid={`sample-status-${sample.accessionNumber}`}
+                              >
+                                {sampleStatusLabels[sample.status] || sample.status}
+                                {sample.rejectionReason && ` - ${rejectionReasonLabels[sample.rejectionReason] || sample.rejectionReason}`}
+                              </Badge>
+                              {/* Tests on a rejected sample have moved to the recollection booking */}
+                              {sample.status !== "rejected" && (
+                                <span className="text-muted-foreground">
+                                  {booking.tests.filter((t) => sample.testIds.includes(t.id)).map((t) => t.code).join(", ")}
+                                </span>
+                              )}
+                              <span className="text-muted-foreground">
+                                {format(new Date(sample.collectedAt), "PPp")} by {sample.collectedBy}
+                              </span>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="gap-1 h-7"
+                                onClick={() => printLabels(booking, "pdf", sample)}
+                                data-testid={`button-reprint-label-${sample.accessionNumber}`}
+                              >
+                                <Printer className="h-3 w-3" />
+                                Reprint
+                              </Button>
+                              {(sampleStatusTransitions[sample.status as SampleStatus] || []).map((next) => (
+                                <Button
+                                  key={next}
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-7"
+                                  onClick={() => sampleStatusMutation.mutate({ id: sample.id, status: next })}
+                                  disabled={sampleStatusMutation.isPending}
+                                  data-testid={`button-sample-${next}-${sample.accessionNumber}`}
+                                >
+                                  {sampleStepLabels[next]}
+                                </Button>
+                              ))}
+                              {sampleRejectableStatuses.includes(sample.status as SampleStatus) && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="gap-1 h-7 text-destructive"
+                                  onClick={() => setRejectingSample(sample)}
+                                  data-testid={`button-reject-sample-${sample.accessionNumber}`}
+                                >
+                                  <XCircle className="h-3 w-3" />
+                                  Reject
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="gap-1 h-7"
+                                onClick={() => setHistorySample(sample)}
+                                data-testid={`button-sample-history-${sample.accessionNumber}`}
+                              >
+                                <History className="h-3 w-3" />
+                                History
+                              </Button>
+                            </div>
+                          ))}
+                          <div className="flex flex-wrap gap-2 pt-1">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() => printLabels(booking, "pdf")}
+                              data-testid={`button-print-labels-${booking.id}`}
+                            >
+                              <Printer className="h-4 w-4" />
+                              Print Labels
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() => printLabels(booking, "zpl")}
+                              data-testid={`button-zpl-labels-${booking.id}`}
+                            >
+                              <Download className="h-4 w-4" />
+                              ZPL
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => setCollectingBooking(booking)}
+                          disabled={booking.tests.length === 0}
+                          data-testid={`button-collect-sample-${booking.id}`}
+                        >
+                          <TestTube className="h-4 w-4" />
+                          Collect Sample
+                        </Button>
+                      )}
+                    </div>
+
                     {/* Payment Details Section */}
                     <div className="pt-3 border-t">
                       <div className="flex items-center gap-2 mb-3">
@@ -342,6 +895,31 @@ export default function AdminBookings() {
                           </div>
                         )}
                       </div>
+
+                      <div className="flex items-center gap-2 mt-3 text-sm">
+                        <Stethoscope className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-muted-foreground">Referred By:</span>
+                        <Select
+                          value={booking.referringDoctorId || "none"}
+                          onValueChange={(v) =>
+                            setDoctorMutation.mutate({ id: booking.id, doctorId: v === "none" ? null : v })
+                          }
+                        >
+                          <SelectTrigger className="w-56 h-8" data-testid={`select-doctor-${booking.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Self / not referred</SelectItem>
+                            {doctors
+                              ?.filter((d) => d.isActive || d.id === booking.referringDoctorId)
+                              .map((doctor) => (
+                                <SelectItem key={doctor.id} value={doctor.id}>
+                                  {doctor.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
                       
                       {/* Verify Payment Button */}
                       {booking.paymentStatus === 'paid_unverified' && (
@@ -379,6 +957,16 @@ export default function AdminBookings() {
         )}
       </div>
 
+      {collectingBooking && (
+        <CollectSampleDialog booking={collectingBooking} onOpenChange={(open) => !open && setCollectingBooking(null)} />
+      )}
+      {rejectingSample && (
+        <RejectSampleDialog sample={rejectingSample} onOpenChange={(open) => !open && setRejectingSample(null)} />
+      )}
+      {historySample && (
+        <SampleHistoryDialog sample={historySample} onOpenChange={(open) => !open && setHistorySample(null)} />
+      )}
+
       <AlertDialog open={verifyDialogOpen} onOpenChange={setVerifyDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,552 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { IndianRupee, FileDown, FileText, CheckCircle, Trash2, Plus, Receipt } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AdminLayout } from "@/components/admin-layout";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CommissionRule, CommissionStatement, CommissionRateType, Doctor, Test } from "@shared/schema";
+
+interface LedgerEntry {
+  id: string;
+  doctorId: string;
+  bookingId: string;
+  statementId: string | null;
+  accruedAt: string;
+  patientName: string;
+  patientId: string | null;
+  testName: string;
+  category: string;
+  baseAmount: string;
+  rateType: CommissionRateType;
+  rate: string;
+  amount: string;
+}
+
+const ANY = "any";
+
+function thisMonth(): string {
+  return format(new Date(), "yyyy-MM");
+}
+
+function formatRate(rateType: string, rate: string): string {
+  return rateType === "flat" ? `Rs. ${rate} flat` : `${Number(rate)}%`;
+}
+
+function SettleDialog({
+  statement,
+  doctorName,
+  onOpenChange,
+}: {
+  statement: CommissionStatement;
+  doctorName: string;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [reference, setReference] = useState("");
+
+  const settleMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", `/api/admin/commission/statements/${statement.id}/settle`, {
+        paymentReference: reference || undefined,
+      }),
+    onSuccess: () => {
+      toast({ title: "Statement Settled", description: `Payout to ${doctorName} recorded.` });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/commission/statements?month=${statement.month}`] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Settle Failed",
+        description: error.message || "Unable to settle statement.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Mark as Settled</DialogTitle>
+          <DialogDescription>
+            Record that Rs. {statement.totalAmount} has been paid to {doctorName}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="payment-reference">Payment Reference (optional)</Label>
+          <Input
+            id="payment-reference"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            placeholder="e.g. UTR / cheque number"
+            data-testid="input-payment-reference"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => settleMutation.mutate()} disabled={settleMutation.isPending} data-testid="button-confirm-settle">
+            {settleMutation.isPending ? "Saving..." : "Mark Settled"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RulesTab({ doctors, categories }: { doctors: Omit<Doctor, "password">[]; categories: string[] }) {
+  const { toast } = useToast();
+  const [doctorId, setDoctorId] = useState(ANY);
+  const [category, setCategory] = useState(ANY);
+  const [rateType, setRateType] = useState<CommissionRateType>("percent");
+  const [rate, setRate] = useState("");
+
+  const { data: rules, isLoading } = useQuery<CommissionRule[]>({
+    queryKey: ["/api/admin/commission/rules"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", "/api/admin/commission/rules", {
+        doctorId: doctorId === ANY ? undefined : doctorId,
+        category: category === ANY ? undefined : category,
+        rateType,
+        rate,
+      }),
+    onSuccess: () => {
+      toast({ title: "Rule Saved", description: "Applies to bookings paid from now on." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/commission/rules"] });
+      setRate("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Unable to save rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/admin/commission/rules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/commission/rules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Unable to delete rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const doctorName = (id: string | null) => (id ? doctors.find((d) => d.id === id)?.name || "Unknown doctor" : "All doctors");
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Add Rule</CardTitle>
+          <CardDescription>
+            The most specific rule wins: doctor and category, then doctor, then category, then the default for all doctors.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label>Doctor</Label>
+              <Select value={doctorId} onValueChange={setDoctorId}>
+                <SelectTrigger data-testid="select-rule-doctor">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All doctors</SelectItem>
+                  {doctors.map((doctor) => (
+                    <SelectItem key={doctor.id} value={doctor.id}>{doctor.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger data-testid="select-rule-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All categories</SelectItem>
+                  {categories.map((c) => (
+                    <SelectItem key={c} value={c}>{c}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Rate</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                  placeholder={rateType === "percent" ? "%" : "Rs."}
+                  data-testid="input-rule-rate"
+                />
+                <Select value={rateType} onValueChange={(v) => setRateType(v as CommissionRateType)}>
+                  <SelectTrigger className="w-24" data-testid="select-rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">%</SelectItem>
+                    <SelectItem value="flat">Flat</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button
+              className="gap-2"
+              onClick={() => saveMutation.mutate()}
+              disabled={rate === "" || saveMutation.isPending}
+              data-testid="button-save-rule"
+            >
+              <Plus className="h-4 w-4" />
+              Save Rule
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : rules && rules.length > 0 ? (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-md border bg-background"
+              data-testid={`rule-${rule.id}`}
+            >
+              <div className="text-sm">
+                <span className="font-medium">{doctorName(rule.doctorId)}</span>
+                <span className="text-muted-foreground"> | {rule.category || "All categories"}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <Badge variant="secondary">{formatRate(rule.rateType, rule.rate)}</Badge>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(rule.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-rule-${rule.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-6">
+          No rules yet. Referred bookings earn no commission until a rule applies.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function AdminCommissions() {
+  const { toast } = useToast();
+  const [month, setMonth] = useState(thisMonth());
+  const [settling, setSettling] = useState<CommissionStatement | null>(null);
+
+  const { data: doctors } = useQuery<Omit<Doctor, "password">[]>({
+    queryKey: ["/api/admin/doctors"],
+  });
+
+  const { data: tests } = useQuery<Test[]>({
+    queryKey: ["/api/tests"],
+  });
+
+  const { data: statements, isLoading: statementsLoading } = useQuery<CommissionStatement[]>({
+    queryKey: [`/api/admin/commission/statements?month=${month}`],
+    enabled: !!month,
+  });
+
+  const { data: ledger, isLoading: ledgerLoading } = useQuery<LedgerEntry[]>({
+    queryKey: [`/api/admin/commission/ledger?month=${month}`],
+    enabled: !!month,
+  });
+
+  const categories = Array.from(new Set((tests || []).map((t) => t.category))).sort();
+  const doctorName = (id: string) => doctors?.find((d) => d.id === id)?.name || "Unknown doctor";
+  const monthEnded = !!month && month < thisMonth();
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/commission/statements", { month });
+      return res.json() as Promise<CommissionStatement[]>;
+    },
+    onSuccess: (created) => {
+      toast({
+        title: "Statements Ready",
+        description: `${created.length} ${created.length === 1 ? "statement" : "statements"} for ${month}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/commission/statements?month=${month}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/commission/ledger?month=${month}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Generation Failed",
+        description: error.message || "Unable to produce statements.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Exports need the admin token, so fetch them rather than linking
+  const exportStatement = async (statement: CommissionStatement, fileFormat: "csv" | "pdf") => {
+    try {
+      const res = await apiRequest("GET", `/api/admin/commission/statements/${statement.id}/export?format=${fileFormat}`);
+      const url = URL.createObjectURL(await res.blob());
+      if (fileFormat === "pdf") {
+        window.open(url, "_blank");
+        return;
+      }
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `Commission-${statement.month}-${doctorName(statement.doctorId).replace(/[^A-Za-z0-9]+/g, "-")}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: (error as Error).message || "Unable to export statement.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const ledgerTotal = (ledger || []).reduce((sum, e) => sum + Number(e.amount), 0);
+
+  return (
+    <AdminLayout>
+      <div className="p-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold" data-testid="text-page-title">Commissions</h1>
+            <p className="text-muted-foreground">Referral commission ledger and monthly payout statements</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="commission-month" className="shrink-0">Month</Label>
+            <Input
+              id="commission-month"
+              type="month"
+              value={month}
+              max={thisMonth()}
+              onChange={(e) => setMonth(e.target.value)}
+              className="w-44"
+              data-testid="input-commission-month"
+            />
+          </div>
+        </div>
+
+        <Tabs defaultValue="statements">
+          <TabsList className="mb-4">
+            <TabsTrigger value="statements" data-testid="tab-statements">Statements</TabsTrigger>
+            <TabsTrigger value="ledger" data-testid="tab-ledger">Ledger</TabsTrigger>
+            <TabsTrigger value="rules" data-testid="tab-rules">Rules</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="statements" className="space-y-4">
+            <Card>
+              <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <p className="text-sm text-muted-foreground">
+                  {monthEnded
+                    ? "Collect this month's unbilled commission into one statement per doctor."
+                    : "Statements can be produced once the month has ended. Commission accrued so far is on the Ledger tab."}
+                </p>
+                <Button
+                  className="gap-2 shrink-0"
+                  onClick={() => generateMutation.mutate()}
+                  disabled={!monthEnded || generateMutation.isPending}
+                  data-testid="button-generate-statements"
+                >
+                  <Receipt className="h-4 w-4" />
+                  {generateMutation.isPending ? "Generating..." : "Generate Statements"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {statementsLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : statements && statements.length > 0 ? (
+              statements.map((statement) => (
+                <Card key={statement.id} data-testid={`card-statement-${statement.id}`}>
+                  <CardContent className="pt-6">
+                    <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-semibold">{doctorName(statement.doctorId)}</span>
+                          {statement.settledAt ? (
+                            <Badge className="bg-success text-success-foreground gap-1">
+                              <CheckCircle className="h-3 w-3" />
+                              Settled
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">Unsettled</Badge>
+                          )}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {statement.entryCount} {statement.entryCount === 1 ? "referral" : "referrals"}
+                          {statement.settledAt && `, paid ${format(new Date(statement.settledAt), "PP")}`}
+                          {statement.paymentReference && ` (${statement.paymentReference})`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-semibold flex items-center mr-2">
+                          <IndianRupee className="h-4 w-4" />
+                          {statement.totalAmount}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => exportStatement(statement, "csv")}
+                          data-testid={`button-export-csv-${statement.id}`}
+                        >
+                          <FileDown className="h-4 w-4" />
+                          CSV
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => exportStatement(statement, "pdf")}
+                          data-testid={`button-export-pdf-${statement.id}`}
+                        >
+                          <FileText className="h-4 w-4" />
+                          PDF
+                        </Button>
+                        {!statement.settledAt && (
+                          <Button
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => setSettling(statement)}
+                            data-testid={`button-settle-${statement.id}`}
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                            Mark Settled
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <Receipt className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="font-medium mb-2">No Statements</h3>
+                  <p className="text-muted-foreground text-sm">No statements have been produced for this month</p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="ledger">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Accrued in {month}</CardTitle>
+                <CardDescription>
+                  Commission is accrued per test when a referred booking's payment is verified
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {ledgerLoading ? (
+                  <Skeleton className="h-24 w-full" />
+                ) : ledger && ledger.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="py-2 pr-3 font-medium">Date</th>
+                          <th className="py-2 pr-3 font-medium">Doctor</th>
+                          <th className="py-2 pr-3 font-medium">Patient</th>
+                          <th className="py-2 pr-3 font-medium">Test</th>
+                          <th className="py-2 pr-3 font-medium text-right">Base</th>
+                          <th className="py-2 pr-3 font-medium text-right">Rate</th>
+                          <th className="py-2 pr-3 font-medium text-right">Commission</th>
+                          <th className="py-2 font-medium" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {ledger.map((entry) => (
+                          <tr key={entry.id} className="border-b" data-testid={`ledger-${entry.id}`}>
+                            <td className="py-2 pr-3">{format(new Date(entry.accruedAt), "PP")}</td>
+                            <td className="py-2 pr-3">{doctorName(entry.doctorId)}</td>
+                            <td className="py-2 pr-3">
+                              {entry.patientName}
+                              {entry.patientId && (
+                                <span className="text-xs text-muted-foreground font-mono ml-1">{entry.patientId}</span>
+                              )}
+                            </td>
+                            <td className="py-2 pr-3">{entry.testName}</td>
+                            <td className="py-2 pr-3 text-right">{entry.baseAmount}</td>
+                            <td className="py-2 pr-3 text-right">{formatRate(entry.rateType, entry.rate)}</td>
+                            <td className="py-2 pr-3 text-right font-medium">{entry.amount}</td>
+                            <td className="py-2">
+                              {entry.statementId ? (
+                                <Badge variant="secondary">Billed</Badge>
+                              ) : (
+                                <Badge variant="outline">Unbilled</Badge>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        <tr>
+                          <td colSpan={6} className="py-2 pr-3 text-right font-medium">Total</td>
+                          <td className="py-2 pr-3 text-right font-semibold">{ledgerTotal.toFixed(2)}</td>
+                          <td />
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-6">No commission accrued this month</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="rules">
+            <RulesTab doctors={doctors || []} categories={categories} />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {settling && (
+        <SettleDialog
+          statement={settling}
+          doctorName={doctorName(settling.doctorId)}
+          onOpenChange={(open) => !open && setSettling(null)}
+        />
+      )}
+    </AdminLayout>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useSearch, useLocation } from "wouter";
-import { Search, User, AlertCircle, Check, FileText, Send } from "lucide-react";
+import { format, differenceInYears } from "date-fns";
+import { Search, User, AlertCircle, AlertTriangle, Check, FileText, Send, MessageSquare, Stethoscope, X, ScanBarcode } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -13,54 +14,78 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { AdminLayout } from "@/components/admin-layout";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Patient, Test, TestParameter } from "@shared/schema";
+import type {
+  Patient, Test, TestParameter, Booking, ParameterResult, DeltaCheck, ResultFlag, ParameterType, TestComment, Doctor, Sample,
+} from "@shared/schema";
+import { computeCalculatedValues } from "@shared/formula";
+
+interface BookingWithDetails extends Booking {
+  tests: Test[];
+  completedTestIds: string[];
+  samples: Sample[];
+}
+
+interface SampleLookup {
+  sample: Sample;
+  bookingId: string;
+  patientId: string | null;
+  pendingTestIds: string[];
+}
+
+interface GenerateReportResponse {
+  report: { id: string } | null;
+  pendingTests: number;
+  hasCriticalValues: boolean;
+}
 
 interface ParameterInput {
   parameterName: string;
   value: string;
   unit: string;
   normalRange: string;
-  isAbnormal: boolean;
+  type: ParameterType;
+  options?: string[];
+  // Set once the server has flagged the current value
+  checked: boolean;
+  flag?: ResultFlag;
+  isCritical?: boolean;
+  deltaCheck?: DeltaCheck;
+  comment?: string;
 }
 
-function isValueAbnormal(value: string, normalRange: string): boolean {
-  if (!value || !normalRange) return false;
-  
-  const numValue = parseFloat(value);
-  if (isNaN(numValue)) return false;
-  
-  const rangeMatch = normalRange.match(/(\d+\.?\d*)\s*-\s*(\d+\.?\d*)/);
-  if (rangeMatch) {
-    const [, min, max] = rangeMatch;
-    return numValue < parseFloat(min) || numValue > parseFloat(max);
-  }
-  
-  const lessThan = normalRange.match(/<\s*(\d+\.?\d*)/);
-  if (lessThan) {
-    return numValue >= parseFloat(lessThan[1]);
-  }
-  
-  const greaterThan = normalRange.match(/>\s*(\d+\.?\d*)/);
-  if (greaterThan) {
-    return numValue <= parseFloat(greaterThan[1]);
-  }
-  
-  return false;
+function formatDelta(check: DeltaCheck): string {
+  return check.limitType === "percent" ? `${check.change}% (limit ${check.limit}%)` : `${check.change} (limit ${check.limit})`;
 }
 
+const flagLabels: Record<ResultFlag, string> = {
+  H: "High",
+  L: "Low",
+  HH: "Critical High",
+  LL: "Critical Low",
+  A: "Abnormal",
+};
+
 export default function CreateReport() {
   const searchParams = useSearch();
   const preselectedPatientId = new URLSearchParams(searchParams).get("patient");
+  const preselectedBookingId = new URLSearchParams(searchParams).get("booking");
   const [, navigate] = useLocation();
   const { toast } = useToast();
 
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
+  const [selectedBookingId, setSelectedBookingId] = useState<string>(preselectedBookingId || "none");
   const [selectedTest, setSelectedTest] = useState<Test | null>(null);
   const [parameterInputs, setParameterInputs] = useState<ParameterInput[]>([]);
   const [technician, setTechnician] = useState("");
   const [referredBy, setReferredBy] = useState("");
+  const [referringDoctor, setReferringDoctor] = useState<Omit<Doctor, "password"> | null>(null);
+  const [showDoctorMatches, setShowDoctorMatches] = useState(false);
   const [remarks, setRemarks] = useState("");
+  const [interpretation, setInterpretation] = useState("");
+  const [commentingIndex, setCommentingIndex] = useState<number | null>(null);
+  const [barcode, setBarcode] = useState("");
+  const [isScanning, setIsScanning] = useState(false);
 
   const { data: patients, isLoading: patientsLoading } = useQuery<Patient[]>({
     queryKey: ["/api/admin/patients"],
@@ -70,6 +95,100 @@ export default function CreateReport() {
     queryKey: ["/api/tests"],
   });
 
+  const { data: bookings } = useQuery<BookingWithDetails[]>({
+    queryKey: ["/api/admin/bookings"],
+  });
+
+  const { data: doctors } = useQuery<Omit<Doctor, "password">[]>({
+    queryKey: ["/api/admin/doctors"],
+  });
+
+  const { data: cannedComments } = useQuery<TestComment[]>({
+    queryKey: ["/api/admin/tests", selectedTest?.id, "comments"],
+    enabled: !!selectedTest,
+  });
+
+  const insertCannedComment = (commentId: string) => {
+    const comment = cannedComments?.find((c) => c.id === commentId);
+    if (comment) {
+      setInterpretation((prev) => (prev.trim() ? `${prev.trimEnd()}\n\n${comment.body}` : comment.body));
+    }
+  };
+
+  const updateParameterComment = (index: number, comment: string) => {
+    setParameterInputs((prev) => prev.map((p, i) => (i === index ? { ...p, comment } : p)));
+  };
+
+  // Bookings for the selected patient that still have tests awaiting results
+  const patientBookings = bookings?.filter(
+    (b) =>
+      b.patientId === selectedPatient?.id &&
+      b.tests.some((t) => !b.completedTestIds.includes(t.id))
+  ) || [];
+  const selectedBooking = patientBookings.find((b) => b.id === selectedBookingId) || null;
+  const availableTests = selectedBooking
+    ? selectedBooking.tests.filter((t) => !selectedBooking.completedTestIds.includes(t.id))
+    : tests;
+
+  const selectedSample = selectedBooking?.samples?.find((s) => selectedTest && s.testIds.includes(selectedTest.id));
+
+  // Barcode scanners type the accession number and press Enter. The scanned
+  // tube picks the patient and booking, and the test when only one of its
+  // tests is still waiting for results.
+  const scanSample = async () => {
+    const accession = barcode.trim();
+    if (!accession) return;
+    setIsScanning(true);
+    try {
+      const res = await apiRequest("GET", `/api/admin/samples/${encodeURIComponent(accession)}`);
+      const lookup = (await res.json()) as SampleLookup;
+      const patient = patients?.find((p) => p.id === lookup.patientId);
+      if (!patient) {
+        throw new Error("This sample's booking has no registered patient");
+      }
+      if (lookup.pendingTestIds.length === 0) {
+        throw new Error(`All tests on sample ${accession} already have results`);
+      }
+      setSelectedPatient(patient);
+      setSelectedBookingId(lookup.bookingId);
+      setSelectedTest(
+        lookup.pendingTestIds.length === 1 ? tests?.find((t) => t.id === lookup.pendingTestIds[0]) || null : null
+      );
+      setBarcode("");
+    } catch (error) {
+      toast({
+        title: "Sample Not Found",
+        description: (error as Error).message || "Unable to look up the scanned barcode.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  // A booking made for a doctor fills in the referral
+  useEffect(() => {
+    const doctor = doctors?.find((d) => d.id === selectedBooking?.referringDoctorId);
+    if (doctor && !referredBy) {
+      setReferringDoctor(doctor);
+      setReferredBy(doctor.name);
+    }
+  }, [selectedBooking?.id, doctors]);
+
+  const doctorMatches = referredBy.trim() && !referringDoctor
+    ? (doctors || [])
+        .filter((d) => d.isActive)
+        .filter((d) => {
+          const query = referredBy.toLowerCase().replace(/^dr\.?\s*/, "");
+          return (
+            d.name.toLowerCase().includes(query) ||
+            d.clinicName?.toLowerCase().includes(query) ||
+            d.registrationNumber?.toLowerCase().includes(query)
+          );
+        })
+        .slice(0, 6)
+    : [];
+
   useEffect(() => {
     if (preselectedPatientId && patients) {
       const patient = patients.find((p) => p.id === preselectedPatientId);
@@ -88,7 +207,9 @@ export default function CreateReport() {
           value: "",
           unit: p.unit,
           normalRange: p.normalRange,
-          isAbnormal: false,
+          type: p.type || "numeric",
+          options: p.options,
+          checked: false,
         }))
       );
     } else {
@@ -96,6 +217,53 @@ export default function CreateReport() {
     }
   }, [selectedTest]);
 
+  // Ask the server to resolve the patient's reference ranges and run the
+  // delta and critical value checks; debounced so it runs once the
+  // technician pauses typing
+  const enteredValues = parameterInputs.map((p) => p.value).join("|");
+  useEffect(() => {
+    if (!selectedPatient || !selectedTest || parameterInputs.length === 0) {
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const res = await apiRequest("POST", "/api/admin/results/check", {
+          patientId: selectedPatient.id,
+          testId: selectedTest.id,
+          bookingId: selectedBooking?.id,
+          parameterResults: parameterInputs.map(({ parameterName, value, unit, normalRange }) => ({
+            parameterName,
+            value,
+            unit,
+            normalRange,
+          })),
+        });
+        const checked = (await res.json()) as ParameterResult[];
+        setParameterInputs((prev) =>
+          prev.map((p) => {
+            const match = checked.find((c) => c.parameterName === p.parameterName && c.value === p.value);
+            return match
+              ? {
+                  ...p,
+                  normalRange: match.normalRange,
+                  checked: true,
+                  flag: match.flag,
+                  deltaCheck: match.deltaCheck,
+                  isCritical: match.isCritical,
+                }
+              : p;
+          })
+        );
+      } catch {
+        // Checks are advisory while typing; the server re-runs them on save
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [enteredValues, selectedPatient?.id, selectedTest?.id, selectedBooking?.id]);
+
+  const deltaFailures = parameterInputs.filter((p) => p.value && p.deltaCheck?.exceeded);
+  const criticalValues = parameterInputs.filter((p) => p.value && p.isCritical);
+
   const filteredPatients = patients?.filter((p) => {
     const query = searchQuery.toLowerCase();
     return (
@@ -106,17 +274,19 @@ export default function CreateReport() {
   });
 
   const updateParameterValue = (index: number, value: string) => {
-    setParameterInputs((prev) =>
-      prev.map((p, i) =>
-        i === index
-          ? {
-              ...p,
-              value,
-              isAbnormal: isValueAbnormal(value, p.normalRange),
-            }
+    setParameterInputs((prev) => {
+      const updated = prev.map((p, i) => (i === index ? { ...p, value } : p));
+      // Calculated parameters follow the values they are derived from
+      const calculated = computeCalculatedValues((selectedTest?.parameters || []) as TestParameter[], updated, {
+        age: selectedPatient?.dob ? differenceInYears(new Date(), new Date(selectedPatient.dob)) : undefined,
+        female: selectedPatient?.gender === "female",
+      });
+      return calculated.map((p, i) =>
+        p.value !== prev[i].value
+          ? { ...p, checked: false, flag: undefined, isCritical: undefined, deltaCheck: undefined }
           : p
-      )
-    );
+      );
+    });
   };
 
   const generateReportMutation = useMutation({
@@ -128,25 +298,49 @@ export default function CreateReport() {
       const data = {
         patientId: selectedPatient.id,
         testId: selectedTest.id,
+        bookingId: selectedBooking?.id,
         technician,
-        referredBy: referredBy || undefined,
+        referredBy: referredBy.trim() || undefined,
+        referringDoctorId: referringDoctor?.id,
         collectedAt: new Date().toISOString(),
         parameterResults: parameterInputs.map((p) => ({
           parameterName: p.parameterName,
           value: p.value,
           unit: p.unit,
           normalRange: p.normalRange,
-          isAbnormal: p.isAbnormal,
+          ...(p.comment?.trim() && { comment: p.comment.trim() }),
         })),
         remarks: remarks || undefined,
+        interpretation: interpretation || undefined,
       };
       
-      return apiRequest("POST", "/api/admin/reports/generate", data);
+      const res = await apiRequest("POST", "/api/admin/reports/generate", data);
+      return res.json() as Promise<GenerateReportResponse>;
     },
-    onSuccess: () => {
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+      if (response.hasCriticalValues) {
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/critical-alerts"] });
+        toast({
+          title: "Critical Value Entered",
+          description: "The lab has been alerted. Inform the patient or doctor and log the call before release.",
+          variant: "destructive",
+        });
+      }
+      if (!response.report) {
+        toast({
+          title: "Results Saved",
+          description: `${response.pendingTests} more test(s) in this booking need results before the report is issued.`,
+        });
+        setSelectedTest(null);
+        setRemarks("");
+        setInterpretation("");
+        setCommentingIndex(null);
+        return;
+      }
       toast({
         title: "Report Generated",
-        description: "The report has been created and notifications sent.",
+        description: "The report has been created and is awaiting technical verification.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
       queryClient.invalidateQueries({ queryKey: ["/api/patient/reports"] });
@@ -161,7 +355,8 @@ export default function CreateReport() {
     },
   });
 
-  const isFormValid = selectedPatient && selectedTest && technician && parameterInputs.every((p) => p.value);
+  const isFormValid = selectedPatient && selectedTest && technician &&
+    parameterInputs.every((p) => p.type === "calculated" || p.value);
 
   return (
     <AdminLayout>
@@ -173,6 +368,33 @@ export default function CreateReport() {
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-1 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Scan Sample</CardTitle>
+                <CardDescription>Scan a tube label to pick up its patient, booking and test</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="relative">
+                  <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Accession number"
+                    value={barcode}
+                    onChange={(e) => setBarcode(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        scanSample();
+                      }
+                    }}
+                    disabled={isScanning}
+                    className="pl-10 font-mono"
+                    autoFocus
+                    data-testid="input-scan-sample"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">Select Patient</CardTitle>
@@ -234,6 +456,8 @@ export default function CreateReport() {
                       className="w-full"
                       onClick={() => {
                         setSelectedPatient(null);
+                        setSelectedBookingId("none");
+                        setSelectedTest(null);
                         setSearchQuery("");
                       }}
                       data-testid="button-change-patient"
@@ -245,6 +469,38 @@ export default function CreateReport() {
               </CardContent>
             </Card>
 
+            {selectedPatient && patientBookings.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Booking</CardTitle>
+                  <CardDescription>
+                    Booked tests are issued together as one report
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Select
+                    value={selectedBooking ? selectedBooking.id : "none"}
+                    onValueChange={(v) => {
+                      setSelectedBookingId(v);
+                      setSelectedTest(null);
+                    }}
+                  >
+                    <SelectTrigger data-testid="select-booking">
+                      <SelectValue placeholder="Choose a booking" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No booking (walk-in test)</SelectItem>
+                      {patientBookings.map((booking) => (
+                        <SelectItem key={booking.id} value={booking.id}>
+                          {format(new Date(booking.slot), "PP")} - {booking.completedTestIds.length}/{booking.tests.length} tests done
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </CardContent>
+              </Card>
+            )}
+
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">Select Test</CardTitle>
@@ -256,7 +512,7 @@ export default function CreateReport() {
                   <Select
                     value={selectedTest?.id || ""}
                     onValueChange={(v) => {
-                      const test = tests?.find((t) => t.id === v);
+                      const test = availableTests?.find((t) => t.id === v);
                       setSelectedTest(test || null);
                     }}
                   >
@@ -264,7 +520,7 @@ export default function CreateReport() {
                       <SelectValue placeholder="Choose a test" />
                     </SelectTrigger>
                     <SelectContent>
-                      {tests?.map((test) => (
+                      {availableTests?.map((test) => (
                         <SelectItem key={test.id} value={test.id}>
                           {test.name} ({test.code})
                         </SelectItem>
@@ -272,6 +528,12 @@ export default function CreateReport() {
                     </SelectContent>
                   </Select>
                 )}
+                {selectedSample && (
+                  <p className="text-xs text-muted-foreground mt-2" data-testid="text-selected-sample">
+                    Sample <span className="font-mono">{selectedSample.accessionNumber}</span>, collected{" "}
+                    {format(new Date(selectedSample.collectedAt), "PPp")} by {selectedSample.collectedBy}
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -303,24 +565,87 @@ export default function CreateReport() {
                         <tbody>
                           {parameterInputs.map((param, index) => (
                             <tr key={param.parameterName} className="border-b">
-                              <td className="py-3 px-2 font-medium">{param.parameterName}</td>
+                              <td className="py-3 px-2 font-medium">
+                                {param.parameterName}
+                                {param.type === "calculated" && (
+                                  <span className="ml-2 text-xs font-normal text-muted-foreground">Calculated</span>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className={`h-6 w-6 ml-1 align-middle ${param.comment ? "text-primary" : "text-muted-foreground"}`}
+                                  onClick={() => setCommentingIndex(commentingIndex === index ? null : index)}
+                                  title="Add a comment for this parameter"
+                                  data-testid={`button-comment-${param.parameterName.toLowerCase().replace(/\s+/g, "-")}`}
+                                >
+                                  <MessageSquare className="h-3 w-3" />
+                                </Button>
+                                {commentingIndex === index && (
+                                  <Input
+                                    value={param.comment || ""}
+                                    onChange={(e) => updateParameterComment(index, e.target.value)}
+                                    placeholder="Comment printed under this result"
+                                    className="mt-2 h-8 text-xs font-normal"
+                                    autoFocus
+                                    data-testid={`input-comment-${param.parameterName.toLowerCase().replace(/\s+/g, "-")}`}
+                                  />
+                                )}
+                                {param.value && param.deltaCheck && (
+                                  <div
+                                    className={`text-xs font-normal ${param.deltaCheck.exceeded ? "text-destructive" : "text-muted-foreground"}`}
+                                    data-testid={`text-delta-${param.parameterName.toLowerCase().replace(/\s+/g, "-")}`}
+                                  >
+                                    Previous {param.deltaCheck.previousValue} on {format(new Date(param.deltaCheck.previousDate), "PP")}
+                                    {param.deltaCheck.exceeded && <> - change {formatDelta(param.deltaCheck)}</>}
+                                  </div>
+                                )}
+                              </td>
                               <td className="py-3 px-2">
-                                <Input
-                                  type="text"
-                                  value={param.value}
-                                  onChange={(e) => updateParameterValue(index, e.target.value)}
-                                  className={`w-24 ${param.isAbnormal ? "border-destructive" : ""}`}
-                                  data-testid={`input-param-${param.parameterName.toLowerCase().replace(/\s+/g, "-")}`}
-                                />
+                                {param.type === "qualitative" && param.options?.length ? (
+                                  <Select value={param.value} onValueChange={(v) => updateParameterValue(index, v)}>
+                                    <SelectTrigger
+                                      className={`w-36 ${param.flag ? "border-destructive" : ""}`}
+                                      data-testid={`select-param-${param.parameterName.toLowerCase().replace(/\s+/g, "-")}`}
+                                    >
+                                      <SelectValue placeholder="Select" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {param.options.map((option) => (
+                                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <Input
+                                    type="text"
+                                    value={param.value}
+                                    onChange={(e) => updateParameterValue(index, e.target.value)}
+                                    readOnly={param.type === "calculated"}
+                                    placeholder={param.type === "calculated" ? "Auto" : undefined}
+                                    className={`w-24 ${param.type === "calculated" ? "bg-muted" : ""} ${param.flag ? "border-destructive" : ""}`}
+                                    data-testid={`input-param-${param.parameterName.toLowerCase().replace(/\s+/g, "-")}`}
+                                  />
+                                )}
                               </td>
                               <td className="py-3 px-2 text-muted-foreground">{param.unit}</td>
                               <td className="py-3 px-2 text-muted-foreground">{param.normalRange}</td>
                               <td className="py-3 px-2 text-center">
-                                {param.value && (
-                                  param.isAbnormal ? (
+                                {param.value && param.deltaCheck?.exceeded && (
+                                  <Badge variant="outline" className="border-warning text-warning mb-1">
+                                    <AlertTriangle className="h-3 w-3 mr-1" />
+                                    Delta
+                                  </Badge>
+                                )}
+                                {param.value && param.checked && (
+                                  param.isCritical ? (
+                                    <Badge variant="destructive" data-testid={`badge-critical-${param.parameterName.toLowerCase().replace(/\s+/g, "-")}`}>
+                                      <AlertTriangle className="h-3 w-3 mr-1" />
+                                      {param.flag ? flagLabels[param.flag] : "Critical"}
+                                    </Badge>
+                                  ) : param.flag ? (
                                     <Badge variant="destructive">
                                       <AlertCircle className="h-3 w-3 mr-1" />
-                                      High/Low
+                                      {flagLabels[param.flag]}
                                     </Badge>
                                   ) : (
                                     <Badge className="bg-success text-success-foreground">
@@ -336,6 +661,34 @@ export default function CreateReport() {
                       </table>
                     </div>
 
+                    {criticalValues.length > 0 && (
+                      <div className="flex items-start gap-2 p-3 rounded-md border border-destructive bg-destructive/10 text-sm" data-testid="alert-critical-values">
+                        <AlertTriangle className="h-4 w-4 text-destructive mt-0.5 shrink-0" />
+                        <div>
+                          <div className="font-medium">
+                            Critical value: {criticalValues.map((p) => `${p.parameterName} ${p.value} ${p.unit}`.trim()).join(", ")}
+                          </div>
+                          <div className="text-muted-foreground">
+                            The report will be held. Inform the patient or referring doctor and log who was told
+                            before it can be released.
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
+                    {deltaFailures.length > 0 && (
+                      <div className="flex items-start gap-2 p-3 rounded-md border border-warning bg-warning/10 text-sm" data-testid="alert-delta-failures">
+                        <AlertTriangle className="h-4 w-4 text-warning mt-0.5 shrink-0" />
+                        <div>
+                          <div className="font-medium">Delta check failed for {deltaFailures.map((p) => p.parameterName).join(", ")}</div>
+                          <div className="text-muted-foreground">
+                            These values differ sharply from the patient's previous results. Check for a sample mix-up;
+                            the report cannot be released until the failure is acknowledged.
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div className="space-y-2">
                         <Label htmlFor="technician">Technician Name *</Label>
@@ -348,16 +701,95 @@ export default function CreateReport() {
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="referredBy">Referred By (Doctor Email)</Label>
-                        <Input
-                          id="referredBy"
-                          type="email"
-                          value={referredBy}
-                          onChange={(e) => setReferredBy(e.target.value)}
-                          placeholder="doctor@example.com"
-                          data-testid="input-referred-by"
-                        />
+                        <Label htmlFor="referredBy">Referred By</Label>
+                        <div className="relative">
+                          <Stethoscope className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                          <Input
+                            id="referredBy"
+                            value={referredBy}
+                            onChange={(e) => {
+                              setReferredBy(e.target.value);
+                              setReferringDoctor(null);
+                              setShowDoctorMatches(true);
+                            }}
+                            onFocus={() => setShowDoctorMatches(true)}
+                            onBlur={() => setTimeout(() => setShowDoctorMatches(false), 150)}
+                            placeholder="Search doctor or type a name"
+                            className="pl-10 pr-9"
+                            autoComplete="off"
+                            data-testid="input-referred-by"
+                          />
+                          {referredBy && (
+                            <button
+                              type="button"
+                              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground"
+                              onClick={() => {
+                                setReferredBy("");
+                                setReferringDoctor(null);
+                              }}
+                              data-testid="button-clear-referred-by"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          )}
+                          {showDoctorMatches && doctorMatches.length > 0 && (
+                            <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md max-h-60 overflow-y-auto">
+                              {doctorMatches.map((doctor) => (
+                                <button
+                                  key={doctor.id}
+                                  type="button"
+                                  className="w-full px-3 py-2 text-left hover-elevate"
+                                  onMouseDown={(e) => e.preventDefault()}
+                                  onClick={() => {
+                                    setReferringDoctor(doctor);
+                                    setReferredBy(doctor.name);
+                                    setShowDoctorMatches(false);
+                                  }}
+                                  data-testid={`option-doctor-${doctor.id}`}
+                                >
+                                  <div className="text-sm font-medium">{doctor.name}</div>
+                                  <div className="text-xs text-muted-foreground">
+                                    {[doctor.clinicName, doctor.registrationNumber].filter(Boolean).join(" | ")}
+                                  </div>
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        {referredBy.trim() && (
+                          <p className="text-xs text-muted-foreground">
+                            {referringDoctor
+                              ? `Linked to ${referringDoctor.clinicName || "doctor master"}${referringDoctor.registrationNumber ? ` (Reg. ${referringDoctor.registrationNumber})` : ""}`
+                              : "Not in the doctor list; the name will be matched when saved"}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <Label htmlFor="interpretation">Interpretation</Label>
+                        {cannedComments && cannedComments.length > 0 && (
+                          <Select value="" onValueChange={insertCannedComment}>
+                            <SelectTrigger className="w-56 h-8" data-testid="select-canned-comment">
+                              <SelectValue placeholder="Insert saved comment..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {cannedComments.map((comment) => (
+                                <SelectItem key={comment.id} value={comment.id}>{comment.title}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
                       </div>
+                      <Textarea
+                        id="interpretation"
+                        value={interpretation}
+                        onChange={(e) => setInterpretation(e.target.value)}
+                        placeholder="Clinical interpretation printed with this test's results..."
+                        rows={4}
+                        data-testid="input-interpretation"
+                      />
                     </div>
 
                     <div className="space-y-2">
@@ -384,7 +816,7 @@ export default function CreateReport() {
                         ) : (
                           <>
                             <FileText className="h-4 w-4" />
-                            Generate & Publish Report
+                            Generate Report
                           </>
                         )}
                       </Button>
@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Search, Plus, Stethoscope, Phone, Mail, Building2, Pencil, Users, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AdminLayout } from "@/components/admin-layout";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Doctor } from "@shared/schema";
+
+interface DoctorSummary extends Omit<Doctor, "password"> {
+  hasPortalAccess: boolean;
+  referralCount: number;
+  patientCount: number;
+  lastReferralAt: string | null;
+}
+
+interface Referral {
+  resultId: string;
+  patientName: string | null;
+  patientId: string | null;
+  testName: string | null;
+  collectedAt: string;
+}
+
+const emptyForm = {
+  name: "",
+  registrationNumber: "",
+  qualification: "",
+  specialty: "",
+  clinicName: "",
+  phone: "",
+  email: "",
+  address: "",
+  username: "",
+  password: "",
+  isActive: true,
+};
+
+function DoctorFormDialog({
+  doctor,
+  open,
+  onOpenChange,
+}: {
+  doctor: DoctorSummary | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(() =>
+    doctor
+      ? {
+          name: doctor.name,
+          registrationNumber: doctor.registrationNumber || "",
+          qualification: doctor.qualification || "",
+          specialty: doctor.specialty || "",
+          clinicName: doctor.clinicName || "",
+          phone: doctor.phone || "",
+          email: doctor.email || "",
+          address: doctor.address || "",
+          username: doctor.username || "",
+          password: "",
+          isActive: doctor.isActive,
+        }
+      : emptyForm
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = doctor
+        ? await apiRequest("PATCH", `/api/admin/doctors/${doctor.id}`, form)
+        : await apiRequest("POST", "/api/admin/doctors", form);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: doctor ? "Doctor Updated" : "Doctor Added",
+        description: `${form.name} has been saved.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/doctors"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Unable to save doctor.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const field = (key: keyof typeof emptyForm, label: string, placeholder?: string, type = "text") => (
+    <div className="space-y-2">
+      <Label htmlFor={`doctor-${key}`}>{label}</Label>
+      <Input
+        id={`doctor-${key}`}
+        type={type}
+        value={form[key] as string}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+        placeholder={placeholder}
+        data-testid={`input-doctor-${key}`}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{doctor ? "Edit Doctor" : "Add Doctor"}</DialogTitle>
+          <DialogDescription>Referring doctor details used on reports and for referral tracking</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 py-2">
+          {field("name", "Name *", "Dr. Full Name")}
+          {field("registrationNumber", "Registration Number", "e.g. MMC 2011/04/1234")}
+          {field("qualification", "Qualification", "MBBS, MD")}
+          {field("specialty", "Specialty", "e.g. General Physician")}
+          {field("clinicName", "Clinic / Hospital")}
+          {field("phone", "Phone", "+91 XXXXX XXXXX")}
+          {field("email", "Email", "doctor@example.com", "email")}
+          {field("address", "Address")}
+        </div>
+        <div className="border-t pt-4 space-y-4">
+          <div>
+            <div className="font-medium text-sm">Portal Access</div>
+            <p className="text-xs text-muted-foreground">
+              With a username and password the doctor can log in at /doctor/login to see reports of patients they referred.
+              Clear the username to remove access.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {field("username", "Username")}
+            {field("password", doctor?.hasPortalAccess ? "New Password" : "Password", doctor?.hasPortalAccess ? "Leave blank to keep" : "", "password")}
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="doctor-active"
+              checked={form.isActive}
+              onCheckedChange={(isActive) => setForm({ ...form, isActive })}
+              data-testid="switch-doctor-active"
+            />
+            <Label htmlFor="doctor-active">Active (offered in Referred By and allowed to log in)</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!form.name.trim() || saveMutation.isPending}
+            data-testid="button-save-doctor"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReferralsDialog({ doctor, onOpenChange }: { doctor: DoctorSummary; onOpenChange: (open: boolean) => void }) {
+  const { data: referrals, isLoading } = useQuery<Referral[]>({
+    queryKey: ["/api/admin/doctors", doctor.id, "referrals"],
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Referrals - {doctor.name}</DialogTitle>
+          <DialogDescription>
+            {doctor.referralCount} {doctor.referralCount === 1 ? "test" : "tests"} for {doctor.patientCount}{" "}
+            {doctor.patientCount === 1 ? "patient" : "patients"}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : referrals && referrals.length > 0 ? (
+          <div className="space-y-2">
+            {referrals.map((referral) => (
+              <div key={referral.resultId} className="flex items-center justify-between gap-3 p-3 rounded-md border">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium">{referral.patientName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    <span className="font-mono">{referral.patientId}</span> | {referral.testName}
+                  </div>
+                </div>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {format(new Date(referral.collectedAt), "PP")}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No referrals recorded yet</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminDoctors() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [editing, setEditing] = useState<DoctorSummary | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [referralsDoctor, setReferralsDoctor] = useState<DoctorSummary | null>(null);
+
+  const { data: doctors, isLoading } = useQuery<DoctorSummary[]>({
+    queryKey: ["/api/admin/doctors"],
+  });
+
+  const filteredDoctors = doctors?.filter((d) => {
+    const query = searchQuery.toLowerCase();
+    return (
+      d.name.toLowerCase().includes(query) ||
+      (d.registrationNumber?.toLowerCase().includes(query) ?? false) ||
+      (d.clinicName?.toLowerCase().includes(query) ?? false) ||
+      (d.phone?.includes(query) ?? false)
+    );
+  });
+
+  const openForm = (doctor: DoctorSummary | null) => {
+    setEditing(doctor);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <AdminLayout>
+      <div className="p-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold" data-testid="text-page-title">Doctors</h1>
+            <p className="text-muted-foreground">Referring doctors and their referrals</p>
+          </div>
+          <Button className="gap-2" onClick={() => openForm(null)} data-testid="button-add-doctor">
+            <Plus className="h-4 w-4" />
+            Add Doctor
+          </Button>
+        </div>
+
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, registration number, clinic or phone..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+                data-testid="input-search-doctors"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Card key={i}>
+                <CardContent className="pt-6">
+                  <Skeleton className="h-12 w-full" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : filteredDoctors && filteredDoctors.length > 0 ? (
+          <div className="space-y-4">
+            {filteredDoctors.map((doctor) => (
+              <Card key={doctor.id} data-testid={`card-doctor-${doctor.id}`}>
+                <CardContent className="pt-6">
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                    <div className="flex items-center gap-4 flex-1">
+                      <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
+                        <Stethoscope className="h-6 w-6 text-primary" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-semibold">{doctor.name}</span>
+                          {doctor.qualification && (
+                            <span className="text-sm text-muted-foreground">{doctor.qualification}</span>
+                          )}
+                          {doctor.registrationNumber && (
+                            <span className="text-sm text-primary font-mono bg-primary/10 px-2 py-0.5 rounded">
+                              {doctor.registrationNumber}
+                            </span>
+                          )}
+                          {!doctor.isActive && <Badge variant="outline">Inactive</Badge>}
+                          {doctor.hasPortalAccess && (
+                            <Badge variant="secondary" className="gap-1">
+                              <KeyRound className="h-3 w-3" />
+                              Portal
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground mt-1">
+                          {doctor.clinicName && (
+                            <div className="flex items-center gap-1">
+                              <Building2 className="h-3 w-3" />
+                              {doctor.clinicName}
+                            </div>
+                          )}
+                          {doctor.phone && (
+                            <div className="flex items-center gap-1">
+                              <Phone className="h-3 w-3" />
+                              {doctor.phone}
+                            </div>
+                          )}
+                          {doctor.email && (
+                            <div className="flex items-center gap-1">
+                              <Mail className="h-3 w-3" />
+                              {doctor.email}
+                            </div>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {doctor.referralCount} {doctor.referralCount === 1 ? "referral" : "referrals"}
+                          {doctor.lastReferralAt && `, last on ${format(new Date(doctor.lastReferralAt), "PP")}`}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 sm:shrink-0">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => setReferralsDoctor(doctor)}
+                        data-testid={`button-referrals-${doctor.id}`}
+                      >
+                        <Users className="h-4 w-4" />
+                        Referrals
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => openForm(doctor)}
+                        data-testid={`button-edit-doctor-${doctor.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                        Edit
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <Stethoscope className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="font-medium mb-2">No Doctors Found</h3>
+              <p className="text-muted-foreground text-sm">
+                {searchQuery ? "Try a different search term" : "Add the doctors who refer patients to the lab"}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <DoctorFormDialog key={editing?.id || "new"} doctor={editing} open={isFormOpen} onOpenChange={setIsFormOpen} />
+      )}
+      {referralsDoctor && (
+        <ReferralsDialog doctor={referralsDoctor} onOpenChange={(open) => !open && setReferralsDoctor(null)} />
+      )}
+    </AdminLayout>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { format } from "date-fns";
-import { Search, Plus, User, Phone, Mail, FileText, ChevronRight } from "lucide-react";
+import { Search, Plus, User, Phone, Mail, FileText, ChevronRight, FileSpreadsheet } from "lucide-react";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,6 +12,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { AdminLayout } from "@/components/admin-layout";
+import { CumulativeReportDialog } from "@/components/cumulative-report-dialog";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Patient } from "@shared/schema";
 
@@ -19,11 +20,13 @@ export default function AdminPatients() {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [cumulativePatient, setCumulativePatient] = useState<Patient | null>(null);
   const [newPatient, setNewPatient] = useState({
     name: "",
     phone: "",
     email: "",
     gender: "",
+    dob: "",
     address: "",
   });
 
@@ -42,7 +45,7 @@ export default function AdminPatients() {
         description: "New patient has been registered successfully.",
       });
       setIsAddDialogOpen(false);
-      setNewPatient({ name: "", phone: "", email: "", gender: "", address: "" });
+      setNewPatient({ name: "", phone: "", email: "", gender: "", dob: "", address: "" });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/patients"] });
     },
     onError: (error: Error) => {
@@ -146,6 +149,16 @@ export default function AdminPatients() {
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dob">Date of Birth</Label>
+                  <Input
+                    id="dob"
+                    type="date"
+                    value={newPatient.dob}
+                    onChange={(e) => setNewPatient({ ...newPatient, dob: e.target.value })}
+                    data-testid="input-patient-dob"
+                  />
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="address">Address</Label>
                   <Input
@@ -237,6 +250,16 @@ export default function AdminPatients() {
                       </div>
                     </div>
                     <div className="flex gap-2 sm:shrink-0">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => setCumulativePatient(patient)}
+                        data-testid={`button-cumulative-${patient.patientId}`}
+                      >
+                        <FileSpreadsheet className="h-4 w-4" />
+                        Cumulative
+                      </Button>
                       <Link href={`/admin/create-report?patient=${patient.id}`}>
                         <Button variant="outline" size="sm" className="gap-2" data-testid={`button-create-report-${patient.patientId}`}>
                           <FileText className="h-4 w-4" />
@@ -275,6 +298,14 @@ export default function AdminPatients() {
           </Card>
         )}
       </div>
+      {cumulativePatient && (
+        <CumulativeReportDialog
+          baseUrl={`/api/admin/patients/${cumulativePatient.id}/cumulative`}
+          patientName={cumulativePatient.name}
+          open
+          onOpenChange={(open) => !open && setCumulativePatient(null)}
+        />
+      )}
     </AdminLayout>
   );
 }
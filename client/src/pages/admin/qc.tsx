@@ -0,0 +1,544 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ShieldCheck, Plus, AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { AdminLayout } from "@/components/admin-layout";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { qcLevels, type QcFailure, type QcMaterial, type QcRun, type Test, type TestParameter } from "@shared/schema";
+
+const levelLabels: Record<string, string> = {
+  low: "Level 1 (Low)",
+  normal: "Level 2 (Normal)",
+  high: "Level 3 (High)",
+};
+
+const outcomeColors: Record<string, string> = {
+  accepted: "bg-success text-success-foreground",
+  warning: "bg-warning text-warning-foreground",
+  rejected: "bg-destructive text-destructive-foreground",
+};
+
+const outcomeLabels: Record<string, string> = {
+  accepted: "Accepted",
+  warning: "Warning",
+  rejected: "Rejected",
+};
+
+// Point colours on the chart, matching the outcome badges
+const outcomeStrokes: Record<string, string> = {
+  accepted: "hsl(var(--primary))",
+  warning: "hsl(var(--warning))",
+  rejected: "hsl(var(--destructive))",
+};
+
+const chartPeriods: Record<string, string> = {
+  "30": "Last 30 days",
+  "90": "Last 90 days",
+  "180": "Last 6 months",
+};
+
+const ljChartConfig = {
+  value: { label: "Control", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function AddControlDialog({ onOpenChange }: { onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState({
+    paramCode: "",
+    analyser: "",
+    lotNumber: "",
+    level: "normal",
+    mean: "",
+    sd: "",
+    expiresAt: "",
+  });
+
+  const { data: tests } = useQuery<Test[]>({ queryKey: ["/api/tests"] });
+
+  // Controls are run for measured parameters only; calculated and
+  // qualitative ones have nothing to plot
+  const parameters = new Map<string, string>();
+  tests?.forEach((test) =>
+    (test.parameters as TestParameter[])
+      .filter((p) => !p.type || p.type === "numeric")
+      .forEach((p) => parameters.has(p.paramCode) || parameters.set(p.paramCode, `${p.name} (${p.paramCode})`))
+  );
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/admin/qc/materials", {
+        ...form,
+        mean: parseFloat(form.mean),
+        sd: parseFloat(form.sd),
+        expiresAt: form.expiresAt || null,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Control Added", description: `Lot ${form.lotNumber} is ready for runs.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/qc/materials"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Add Control",
+        description: error.message || "Unable to save the control material.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isValid = form.paramCode && form.analyser.trim() && form.lotNumber.trim() && form.mean && parseFloat(form.sd) > 0;
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Control</DialogTitle>
+          <DialogDescription>
+            A control lot at one level on one analyser. Use the mean and SD established from the lab's own baseline runs.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Parameter *</Label>
+            <Select value={form.paramCode} onValueChange={(paramCode) => setForm({ ...form, paramCode })}>
+              <SelectTrigger data-testid="select-qc-parameter">
+                <SelectValue placeholder="Select parameter" />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(parameters.entries()).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="qc-analyser">Analyser *</Label>
+              <Input
+                id="qc-analyser"
+                value={form.analyser}
+                onChange={(e) => setForm({ ...form, analyser: e.target.value })}
+                placeholder="e.g., Sysmex XN-350"
+                data-testid="input-qc-analyser"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qc-lot">Lot Number *</Label>
+              <Input
+                id="qc-lot"
+                value={form.lotNumber}
+                onChange={(e) => setForm({ ...form, lotNumber: e.target.value })}
+                data-testid="input-qc-lot"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Level *</Label>
+              <Select value={form.level} onValueChange={(level) => setForm({ ...form, level })}>
+                <SelectTrigger data-testid="select-qc-level">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {qcLevels.map((level) => (
+                    <SelectItem key={level} value={level}>{levelLabels[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qc-expires">Lot Expiry</Label>
+              <Input
+                id="qc-expires"
+                type="date"
+                value={form.expiresAt}
+                onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                data-testid="input-qc-expires"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="qc-mean">Target Mean *</Label>
+              <Input
+                id="qc-mean"
+                type="number"
+                step="any"
+                value={form.mean}
+                onChange={(e) => setForm({ ...form, mean: e.target.value })}
+                data-testid="input-qc-mean"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qc-sd">SD *</Label>
+              <Input
+                id="qc-sd"
+                type="number"
+                step="any"
+                min="0"
+                value={form.sd}
+                onChange={(e) => setForm({ ...form, sd: e.target.value })}
+                data-testid="input-qc-sd"
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!isValid || createMutation.isPending}
+            data-testid="button-save-control"
+          >
+            {createMutation.isPending ? "Saving..." : "Add Control"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LeveyJenningsCard({ material }: { material: QcMaterial }) {
+  const { toast } = useToast();
+  const [days, setDays] = useState("30");
+  const [value, setValue] = useState("");
+  const [note, setNote] = useState("");
+
+  const runsKey = `/api/admin/qc/materials/${material.id}/runs?days=${days}`;
+  const { data: runs, isLoading } = useQuery<QcRun[]>({ queryKey: [runsKey] });
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/qc/runs", { materialId: material.id, value: parseFloat(value), note });
+      return res.json() as Promise<QcRun>;
+    },
+    onSuccess: (run) => {
+      if (run.outcome === "rejected") {
+        toast({
+          title: "QC Rejected",
+          description: `${run.violations.join(", ")} violated. Release of ${material.paramCode} results is blocked until the control passes.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: run.outcome === "warning" ? "QC Warning" : "QC Accepted",
+          description: run.outcome === "warning" ? "1-2s: check the other rules before running patients." : "The control is within limits.",
+        });
+      }
+      setValue("");
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: [runsKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/qc/failures"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Record Run",
+        description: error.message || "Unable to save the control value.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mean = Number(material.mean);
+  const sd = Number(material.sd);
+  const chartData = runs?.map((r) => ({ ...r, value: Number(r.value), time: new Date(r.runAt).getTime() })) || [];
+  const values = chartData.map((p) => p.value);
+  const domain = [Math.min(mean - 4 * sd, ...values), Math.max(mean + 4 * sd, ...values)];
+
+  return (
+    <Card data-testid="card-levey-jennings">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-lg">
+            {material.paramCode} · {material.analyser}
+          </CardTitle>
+          <CardDescription>
+            Lot {material.lotNumber}, {levelLabels[material.level] || material.level}. Mean {mean}, SD {sd}
+          </CardDescription>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40" data-testid="select-qc-period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(chartPeriods).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-72 w-full" />
+        ) : chartData.length > 0 ? (
+          <ChartContainer config={ljChartConfig} className="h-72 w-full aspect-auto">
+            <LineChart data={chartData} margin={{ top: 8, right: 48, left: 0, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(time) => format(new Date(time), "d MMM")}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis domain={domain} tickLine={false} axisLine={false} width={56} />
+              <ReferenceLine y={mean} stroke="hsl(var(--foreground))" label={{ value: "Mean", position: "right", fontSize: 10 }} />
+              {[1, 2, 3].flatMap((k) => [1, -1].map((sign) => (
+                <ReferenceLine
+                  key={`${k}${sign}`}
+                  y={mean + sign * k * sd}
+                  stroke={k === 1 ? "hsl(var(--muted-foreground))" : k === 2 ? "hsl(var(--warning))" : "hsl(var(--destructive))"}
+                  strokeDasharray={k === 1 ? "2 4" : "6 3"}
+                  label={{ value: `${sign > 0 ? "+" : "-"}${k}SD`, position: "right", fontSize: 10 }}
+                />
+              )))}
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => format(new Date(payload[0]?.payload.runAt), "PPp")}
+                    formatter={(_, __, item) => (
+                      <span className="font-mono font-medium">
+                        {item.payload.value} ({Number(item.payload.zScore) > 0 ? "+" : ""}{item.payload.zScore} SD)
+                        {item.payload.violations.length > 0 && ` ${item.payload.violations.join(", ")}`}
+                      </span>
+                    )}
+                  />
+                }
+              />
+              <Line
+                dataKey="value"
+                type="linear"
+                stroke="var(--color-value)"
+                strokeWidth={1.5}
+                dot={({ cx, cy, payload }: { cx: number; cy: number; payload: QcRun }) => (
+                  <circle key={payload.id} cx={cx} cy={cy} r={4} fill={outcomeStrokes[payload.outcome]} stroke="none" />
+                )}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">No runs in this period</p>
+        )}
+
+        {material.isActive && (
+          <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+            <div className="space-y-2 sm:w-40">
+              <Label htmlFor="qc-value">Measured Value</Label>
+              <Input
+                id="qc-value"
+                type="number"
+                step="any"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                data-testid="input-qc-value"
+              />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="qc-note">Note</Label>
+              <Input
+                id="qc-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Corrective action, reagent change..."
+                data-testid="input-qc-note"
+              />
+            </div>
+            <Button
+              onClick={() => recordMutation.mutate()}
+              disabled={value === "" || recordMutation.isPending}
+              data-testid="button-record-run"
+            >
+              {recordMutation.isPending ? "Saving..." : "Record Run"}
+            </Button>
+          </div>
+        )}
+
+        {runs && runs.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2 pr-3 font-medium">Run</th>
+                  <th className="py-2 pr-3 font-medium text-right">Value</th>
+                  <th className="py-2 pr-3 font-medium text-right">SD Index</th>
+                  <th className="py-2 pr-3 font-medium">Outcome</th>
+                  <th className="py-2 pr-3 font-medium">Rules</th>
+                  <th className="py-2 pr-3 font-medium">Note</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...runs].reverse().map((run) => (
+                  <tr key={run.id} className="border-b last:border-0" data-testid={`row-qc-run-${run.id}`}>
+                    <td className="py-2 pr-3 whitespace-nowrap">{format(new Date(run.runAt), "dd MMM yyyy, HH:mm")}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{Number(run.value)}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{Number(run.zScore).toFixed(2)}</td>
+                    <td className="py-2 pr-3">
+                      <Badge className={outcomeColors[run.outcome]}>{outcomeLabels[run.outcome] || run.outcome}</Badge>
+                    </td>
+                    <td className="py-2 pr-3">{run.violations.join(", ") || "-"}</td>
+                    <td className="py-2 pr-3 text-muted-foreground">{run.note || ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminQc() {
+  const { toast } = useToast();
+  const [showAdd, setShowAdd] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: materials, isLoading } = useQuery<QcMaterial[]>({
+    queryKey: ["/api/admin/qc/materials"],
+  });
+
+  const { data: failures } = useQuery<QcFailure[]>({
+    queryKey: ["/api/admin/qc/failures"],
+  });
+
+  const retireMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest("PATCH", `/api/admin/qc/materials/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/qc/materials"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Update Control",
+        description: error.message || "Unable to update the control material.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selected = materials?.find((m) => m.id === selectedId) || materials?.find((m) => m.isActive);
+
+  return (
+    <AdminLayout>
+      <div className="p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold" data-testid="text-page-title">Quality Control</h1>
+            <p className="text-muted-foreground">Daily control runs, Levey-Jennings charts and Westgard rules</p>
+          </div>
+          <Button onClick={() => setShowAdd(true)} data-testid="button-add-control">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Control
+          </Button>
+        </div>
+
+        {failures && failures.length > 0 && (
+          <Card className="border-destructive" data-testid="card-qc-failures">
+            <CardContent className="pt-6 flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-destructive mt-0.5" />
+              <div className="text-sm">
+                <p className="font-medium">QC failed today. Reports with these parameters cannot be released until the control passes.</p>
+                <ul className="mt-1 text-muted-foreground">
+                  {failures.map((f) => (
+                    <li key={f.materialId}>
+                      {f.paramCode} on {f.analyser}, lot {f.lotNumber} {levelLabels[f.level] || f.level}: {f.violations.join(", ")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Controls
+            </CardTitle>
+            <CardDescription>Select a control to see its chart and record today's run</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : materials && materials.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left">
+                      <th className="py-2 pr-3 font-medium">Parameter</th>
+                      <th className="py-2 pr-3 font-medium">Analyser</th>
+                      <th className="py-2 pr-3 font-medium">Lot</th>
+                      <th className="py-2 pr-3 font-medium">Level</th>
+                      <th className="py-2 pr-3 font-medium text-right">Mean</th>
+                      <th className="py-2 pr-3 font-medium text-right">SD</th>
+                      <th className="py-2 pr-3 font-medium">Expires</th>
+                      <th className="py-2 pr-3 font-medium"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {materials.map((m) => (
+                      <tr
+                        key={m.id}
+                        className={`border-b last:border-0 cursor-pointer ${selected?.id === m.id ? "bg-muted" : ""} ${m.isActive ? "" : "text-muted-foreground"}`}
+                        onClick={() => setSelectedId(m.id)}
+                        data-testid={`row-control-${m.id}`}
+                      >
+                        <td className="py-2 pr-3 font-medium">{m.paramCode}</td>
+                        <td className="py-2 pr-3">{m.analyser}</td>
+                        <td className="py-2 pr-3">{m.lotNumber}</td>
+                        <td className="py-2 pr-3">{levelLabels[m.level] || m.level}</td>
+                        <td className="py-2 pr-3 text-right font-mono">{Number(m.mean)}</td>
+                        <td className="py-2 pr-3 text-right font-mono">{Number(m.sd)}</td>
+                        <td className="py-2 pr-3">{m.expiresAt ? format(new Date(m.expiresAt), "dd MMM yyyy") : "-"}</td>
+                        <td className="py-2 pr-3 text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              retireMutation.mutate({ id: m.id, isActive: !m.isActive });
+                            }}
+                            data-testid={`button-toggle-control-${m.id}`}
+                          >
+                            {m.isActive ? "Retire" : "Reactivate"}
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No controls yet. Add a control lot for each parameter and level you run.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {selected && <LeveyJenningsCard key={selected.id} material={selected} />}
+      </div>
+
+      {showAdd && <AddControlDialog onOpenChange={setShowAdd} />}
+    </AdminLayout>
+  );
+}
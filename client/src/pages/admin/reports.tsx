@@ -1,33 +1,686 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { format } from "date-fns";
-import { FileText, Download, User, Calendar, Search } from "lucide-react";
+import { FileText, Download, User, Calendar, Search, ShieldCheck, Eye, CheckCircle, PencilLine, AlertTriangle, PhoneCall, Link2, Copy, Ban, RefreshCw, FileCode } from "lucide-react";
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { AdminLayout } from "@/components/admin-layout";
-import type { Report, Patient, Test } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  reportStatusTransitions, criticalRecipientTypes, notificationMethods,
+  type Report, type CriticalNotification, type CriticalRecipientType, type NotificationMethod, type Patient, type Test, type Result, type ReportStatus, type AdminRole,
+  type ParameterResult, type ResultAmendment, type TestParameter, type ReportAccessLog, type ReportAccessOutcome,
+} from "@shared/schema";
 
 interface ReportWithDetails extends Report {
   patient: Patient;
   test: Test;
+  tests: Test[];
+  results: Result[];
+  verifiedByName: string | null;
+  authorisedByName: string | null;
+  releasedByName: string | null;
+  deltaAcknowledgedByName: string | null;
+}
+
+const reportStatusColors: Record<string, string> = {
+  entered: "bg-muted text-muted-foreground",
+  technically_verified: "bg-info text-info-foreground",
+  pathologist_authorised: "bg-warning text-warning-foreground",
+  released: "bg-success text-success-foreground",
+};
+
+const reportStatusLabels: Record<string, string> = {
+  entered: "Entered",
+  technically_verified: "Technically Verified",
+  pathologist_authorised: "Pathologist Authorised",
+  released: "Released",
+};
+
+const transitionActionLabels: Record<string, string> = {
+  technically_verified: "Verify",
+  pathologist_authorised: "Authorise",
+  released: "Release",
+};
+
+const recipientTypeLabels: Record<CriticalRecipientType, string> = {
+  patient: "Patient",
+  referring_doctor: "Referring Doctor",
+};
+
+const notificationMethodLabels: Record<NotificationMethod, string> = {
+  phone: "Phone Call",
+  sms: "SMS",
+  email: "Email",
+  in_person: "In Person",
+};
+
+const accessOutcomeLabels: Record<ReportAccessOutcome, string> = {
+  served: "Downloaded",
+  redirected: "Opened current version",
+  expired: "Blocked: expired",
+  revoked: "Blocked: revoked",
+  not_released: "Blocked: not released",
+  payment_pending: "Blocked: payment pending",
+  booking_missing: "Blocked: booking missing",
+};
+
+// Lifetimes offered when issuing a new download link; 0 never expires
+const linkLifetimeOptions: Record<string, string> = {
+  "1": "1 day",
+  "7": "7 days",
+  "30": "30 days",
+  "90": "90 days",
+  "0": "No expiry",
+};
+
+interface CriticalNotificationWithDetails extends CriticalNotification {
+  notifiedByName: string | null;
+}
+
+function CriticalNotificationDialog({
+  report,
+  open,
+  onOpenChange,
+}: {
+  report: ReportWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [recipientType, setRecipientType] = useState<CriticalRecipientType>("referring_doctor");
+  const [recipientName, setRecipientName] = useState(report.results[0]?.referredBy || "");
+  const [method, setMethod] = useState<NotificationMethod>("phone");
+  const [notifiedAt, setNotifiedAt] = useState(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+  const [notes, setNotes] = useState("");
+
+  const { data: notifications } = useQuery<CriticalNotificationWithDetails[]>({
+    queryKey: ["/api/admin/reports", report.id, "critical-notifications"],
+    enabled: open,
+  });
+
+  const criticalValues = report.results.flatMap((r) => r.parameterResults.filter((p) => p.isCritical));
+
+  const logMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/admin/reports/${report.id}/critical-notifications`, {
+        recipientType,
+        recipientName,
+        method,
+        notifiedAt: new Date(notifiedAt).toISOString(),
+        notes: notes || undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Notification Logged",
+        description: "The critical value communication has been recorded.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/critical-alerts"] });
+      setNotes("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Log",
+        description: error.message || "Unable to log notification.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Critical Value Notification</DialogTitle>
+          <DialogDescription>
+            {criticalValues.map((p) => `${p.parameterName} ${p.value} ${p.unit}`.trim()).join(", ")}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Person Informed</Label>
+              <Select value={recipientType} onValueChange={(v) => setRecipientType(v as CriticalRecipientType)}>
+                <SelectTrigger data-testid="select-recipient-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {criticalRecipientTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{recipientTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(v) => setMethod(v as NotificationMethod)}>
+                <SelectTrigger data-testid="select-notification-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {notificationMethods.map((m) => (
+                    <SelectItem key={m} value={m}>{notificationMethodLabels[m]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recipient-name">Name *</Label>
+              <Input
+                id="recipient-name"
+                value={recipientName}
+                onChange={(e) => setRecipientName(e.target.value)}
+                placeholder={recipientType === "patient" ? report.patient?.name : "Dr. ..."}
+                data-testid="input-recipient-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="notified-at">Informed At</Label>
+              <Input
+                id="notified-at"
+                type="datetime-local"
+                value={notifiedAt}
+                onChange={(e) => setNotifiedAt(e.target.value)}
+                data-testid="input-notified-at"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="notification-notes">Notes</Label>
+            <Textarea
+              id="notification-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Read back confirmed, advised to attend emergency"
+              rows={2}
+              data-testid="input-notification-notes"
+            />
+          </div>
+          {notifications && notifications.length > 0 && (
+            <div className="border-t pt-4 space-y-2">
+              <Label>Notification Log</Label>
+              {notifications.map((n) => (
+                <div key={n.id} className="text-sm p-2 bg-muted rounded-md">
+                  <div className="font-medium">
+                    {recipientTypeLabels[n.recipientType as CriticalRecipientType] || n.recipientType}: {n.recipientName}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {notificationMethodLabels[n.method as NotificationMethod] || n.method}, {format(new Date(n.notifiedAt), "PPp")} by{" "}
+                    {n.notifiedByName || "Unknown"}
+                  </div>
+                  {n.notes && <div className="text-xs mt-1">{n.notes}</div>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => logMutation.mutate()}
+            disabled={!recipientName.trim() || logMutation.isPending}
+            data-testid="button-log-notification"
+          >
+            {logMutation.isPending ? "Saving..." : "Log Notification"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AmendmentWithDetails extends ResultAmendment {
+  amendedByName: string | null;
+}
+
+function AmendReportDialog({
+  report,
+  open,
+  onOpenChange,
+}: {
+  report: ReportWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [resultId, setResultId] = useState(report.results[0]?.id || "");
+  const [values, setValues] = useState<ParameterResult[]>(report.results[0]?.parameterResults || []);
+  const [reason, setReason] = useState("");
+
+  const { data: amendments } = useQuery<AmendmentWithDetails[]>({
+    queryKey: ["/api/admin/reports", report.id, "amendments"],
+    enabled: open,
+  });
+
+  const selectedTest = report.tests.find((t) => t.id === report.results.find((r) => r.id === resultId)?.testId);
+  const isCalculated = (parameterName: string) =>
+    (selectedTest?.parameters as TestParameter[] | undefined)?.some((p) => p.name === parameterName && p.type === "calculated");
+
+  const selectResult = (id: string) => {
+    setResultId(id);
+    setValues(report.results.find((r) => r.id === id)?.parameterResults || []);
+  };
+
+  const amendMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/admin/reports/${report.id}/amend`, {
+        resultId,
+        parameterResults: values,
+        reason,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Report Amended",
+        description: report.status === "released"
+          ? "A new version has been created and needs to be verified and released."
+          : "The report has been corrected and sent back for verification.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+      setReason("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Amendment Failed",
+        description: error.message || "Unable to amend report.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Amend Report</DialogTitle>
+          <DialogDescription>
+            Corrections are recorded with your name and reason. Previous values are kept.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {report.results.length > 1 && (
+            <div className="space-y-2">
+              <Label>Test</Label>
+              <Select value={resultId} onValueChange={selectResult}>
+                <SelectTrigger data-testid="select-amend-test">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {report.results.map((result) => (
+                    <SelectItem key={result.id} value={result.id}>
+                      {report.tests.find((t) => t.id === result.testId)?.name || "Test"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            {values.map((param, index) => (
+              <div key={param.parameterName} className="grid grid-cols-3 items-center gap-3">
+                <Label className="col-span-1">{param.parameterName}</Label>
+                <Input
+                  value={param.value}
+                  onChange={(e) =>
+                    setValues((prev) => prev.map((p, i) => (i === index ? { ...p, value: e.target.value } : p)))
+                  }
+                  readOnly={isCalculated(param.parameterName)}
+                  className={isCalculated(param.parameterName) ? "bg-muted" : ""}
+                  data-testid={`input-amend-${param.parameterName.toLowerCase().replace(/\s+/g, "-")}`}
+                />
+                <span className="text-sm text-muted-foreground">{param.unit}</span>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="amend-reason">Reason for Amendment *</Label>
+            <Textarea
+              id="amend-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Transcription error in hemoglobin value"
+              rows={2}
+              data-testid="input-amend-reason"
+            />
+          </div>
+          {amendments && amendments.length > 0 && (
+            <div className="border-t pt-4 space-y-2">
+              <Label>Amendment History</Label>
+              {amendments.map((amendment) => (
+                <div key={amendment.id} className="text-sm p-2 bg-muted rounded-md">
+                  <div className="font-medium">{amendment.reason}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {amendment.amendedByName || "Unknown"}, {format(new Date(amendment.createdAt), "PPp")}
+                  </div>
+                  <ul className="text-xs mt-1">
+                    {amendment.changes.map((change) => (
+                      <li key={change.parameterName}>
+                        {change.parameterName}: {change.previousValue || "-"} to {change.newValue}
+                        {change.newRange !== undefined && `, range ${change.previousRange || "-"} to ${change.newRange || "-"}`}
+                        {change.newUnit !== undefined && `, unit ${change.previousUnit || "-"} to ${change.newUnit || "-"}`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => amendMutation.mutate()}
+            disabled={!reason.trim() || amendMutation.isPending}
+            data-testid="button-save-amendment"
+          >
+            {amendMutation.isPending ? "Saving..." : "Save Amendment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function getLinkState(report: Report): { label: string; className: string } {
+  if (report.downloadTokenRevokedAt) {
+    return { label: "Revoked", className: "bg-destructive text-destructive-foreground" };
+  }
+  if (report.downloadTokenExpiresAt && new Date(report.downloadTokenExpiresAt) < new Date()) {
+    return { label: "Expired", className: "bg-muted text-muted-foreground" };
+  }
+  return { label: "Active", className: "bg-success text-success-foreground" };
+}
+
+function DownloadLinkDialog({
+  report,
+  open,
+  onOpenChange,
+}: {
+  report: ReportWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [lifetime, setLifetime] = useState("30");
+  const linkState = getLinkState(report);
+  const link = `${window.location.origin}/api/reports/download/${report.secureDownloadToken}`;
+
+  const { data: accessLog, isLoading } = useQuery<ReportAccessLog[]>({
+    queryKey: ["/api/admin/reports", report.id, "access-log"],
+    enabled: open,
+  });
+
+  const onLinkChanged = (title: string, description: string) => {
+    toast({ title, description });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+  };
+
+  const onLinkError = (error: Error) => {
+    toast({
+      title: "Update Failed",
+      description: error.message || "Unable to update the download link.",
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/admin/reports/${report.id}/revoke-link`),
+    onSuccess: () => onLinkChanged("Link Revoked", "Links to every version of this report no longer work."),
+    onError: onLinkError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", `/api/admin/reports/${report.id}/regenerate-link`, { expiresInDays: Number(lifetime) }),
+    onSuccess: () => onLinkChanged("New Link Issued", "Previous links to this report no longer work."),
+    onError: onLinkError,
+  });
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(link);
+    toast({ title: "Link Copied", description: "The download link is on your clipboard." });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Download Link</DialogTitle>
+          <DialogDescription>
+            {report.patient?.name} - {report.tests?.map((t) => t.name).join(", ")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="p-3 bg-muted/50 rounded-md space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Badge className={linkState.className} data-testid="badge-link-state">{linkState.label}</Badge>
+              <span className="text-xs text-muted-foreground">
+                {report.downloadTokenRevokedAt
+                  ? `Revoked ${format(new Date(report.downloadTokenRevokedAt), "PPp")}`
+                  : report.downloadTokenExpiresAt
+                    ? `Expires ${format(new Date(report.downloadTokenExpiresAt), "PPp")}`
+                    : "Does not expire"}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <Input value={link} readOnly className="font-mono text-xs" data-testid="input-download-link" />
+              <Button variant="outline" size="icon" onClick={copyLink} data-testid="button-copy-link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {report.supersededBy && (
+            <p className="text-sm text-muted-foreground">
+              This version has been amended; its link opens the current version. Issue new links from the current
+              version.
+            </p>
+          )}
+          <div className="flex flex-wrap items-end gap-2">
+            {!report.supersededBy && (
+              <>
+                <div className="space-y-2">
+                  <Label>New link valid for</Label>
+                  <Select value={lifetime} onValueChange={setLifetime}>
+                    <SelectTrigger className="w-36" data-testid="select-link-lifetime">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(linkLifetimeOptions).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => regenerateMutation.mutate()}
+                  disabled={regenerateMutation.isPending}
+                  data-testid="button-regenerate-link"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                  Issue New Link
+                </Button>
+              </>
+            )}
+            <Button
+              variant="destructive"
+              className="gap-2"
+              onClick={() => revokeMutation.mutate()}
+              disabled={!!report.downloadTokenRevokedAt || revokeMutation.isPending}
+              data-testid="button-revoke-link"
+            >
+              <Ban className="h-4 w-4" />
+              Revoke
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Access Log</Label>
+            {isLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : accessLog && accessLog.length > 0 ? (
+              <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+                {accessLog.map((entry) => (
+                  <div key={entry.id} className="p-2 text-xs space-y-0.5" data-testid={`access-log-${entry.id}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{format(new Date(entry.accessedAt), "PPp")}</span>
+                      <span className={entry.outcome === "served" ? "text-success" : "text-muted-foreground"}>
+                        {accessOutcomeLabels[entry.outcome as ReportAccessOutcome] || entry.outcome}
+                      </span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {entry.ipAddress || "Unknown IP"}
+                      {entry.userAgent && <span className="block truncate">{entry.userAgent}</span>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">The link has not been opened yet</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
 }
 
 export default function AdminReports() {
   const [searchQuery, setSearchQuery] = useState("");
+  const [amendingReport, setAmendingReport] = useState<ReportWithDetails | null>(null);
+  const [notifyingReport, setNotifyingReport] = useState<ReportWithDetails | null>(null);
+  const [linkReportId, setLinkReportId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { admin } = useAuth();
 
   const { data: reports, isLoading } = useQuery<ReportWithDetails[]>({
     queryKey: ["/api/admin/reports"],
   });
 
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: ReportStatus }) => {
+      return apiRequest("PATCH", `/api/admin/reports/${id}/status`, { status });
+    },
+    onSuccess: (_, { status }) => {
+      toast({
+        title: "Report Updated",
+        description: `Report marked as ${reportStatusLabels[status].toLowerCase()}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Unable to update report.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const acknowledgeDeltaMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/admin/reports/${id}/acknowledge-delta`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Delta Check Acknowledged",
+        description: "The report can now be released.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Acknowledgement Failed",
+        description: error.message || "Unable to acknowledge delta check.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Looked up from the list so the dialog reflects a regenerated link
+  const linkReport = reports?.find((r) => r.id === linkReportId);
+
+  const getDeltaFailures = (report: ReportWithDetails) =>
+    (report.results || []).flatMap((r) => r.parameterResults.filter((p) => p.deltaCheck?.exceeded));
+
+  // The next workflow step, if the logged-in admin's role may take it
+  const getNextStatus = (report: Report): ReportStatus | null => {
+    const transition = reportStatusTransitions[report.status as ReportStatus];
+    if (!transition || !admin || !transition.roles.includes(admin.role as AdminRole)) {
+      return null;
+    }
+    return transition.next;
+  };
+
+  // The preview route needs the admin token, so fetch it rather than linking
+  const openPreview = async (reportId: string) => {
+    try {
+      const res = await apiRequest("GET", `/api/admin/reports/${reportId}/preview`);
+      const blob = await res.blob();
+      window.open(URL.createObjectURL(blob), "_blank");
+    } catch (error) {
+      toast({
+        title: "Preview Failed",
+        description: (error as Error).message || "Unable to open report.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // HL7 v2 and FHIR copies of a report for partner hospital systems
+  const downloadExport = async (reportId: string, exportFormat: "hl7" | "fhir") => {
+    try {
+      const res = await apiRequest("GET", `/api/admin/reports/${reportId}/${exportFormat}`);
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = exportFormat === "hl7" ? `report-${reportId}.hl7` : `report-${reportId}.fhir.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: (error as Error).message || "Unable to export report.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const filteredReports = reports?.filter((r) => {
     const query = searchQuery.toLowerCase();
     return (
       r.patient?.patientId?.toLowerCase().includes(query) ||
       r.patient?.name?.toLowerCase().includes(query) ||
-      r.test?.name?.toLowerCase().includes(query)
+      r.tests?.some((t) => t.name.toLowerCase().includes(query))
     );
   });
 
@@ -83,8 +736,23 @@ export default function AdminReports() {
                       </div>
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2 flex-wrap">
-                          <span className="font-semibold">{report.test?.name || "Test Report"}</span>
+                          <span className="font-semibold">{report.tests?.map((t) => t.name).join(", ") || "Test Report"}</span>
                           <Badge variant="secondary" size="sm">{report.patient?.patientId}</Badge>
+                          <Badge className={reportStatusColors[report.status] || "bg-muted"} data-testid={`status-report-${report.id}`}>
+                            {reportStatusLabels[report.status] || report.status}
+                          </Badge>
+                          {report.hasCriticalValues && (
+                            <Badge variant="destructive" data-testid={`badge-critical-${report.id}`}>
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              Critical
+                            </Badge>
+                          )}
+                          {report.version > 1 && (
+                            <Badge variant="outline">Amended v{report.version}</Badge>
+                          )}
+                          {report.supersededBy && (
+                            <Badge variant="outline" className="text-muted-foreground">Superseded</Badge>
+                          )}
                         </div>
                         <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground mt-1">
                           <div className="flex items-center gap-1">
@@ -95,19 +763,153 @@ export default function AdminReports() {
                             <Calendar className="h-3 w-3" />
                             {format(new Date(report.generatedAt), "PPP")}
                           </div>
+                          {report.verificationCode && (
+                            <div className="flex items-center gap-1">
+                              <ShieldCheck className="h-3 w-3" />
+                              <span className="font-mono">{report.verificationCode}</span>
+                            </div>
+                          )}
                         </div>
+                        {(report.verifiedByName || report.authorisedByName || report.releasedByName) && (
+                          <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground mt-1">
+                            {report.verifiedByName && report.technicallyVerifiedAt && (
+                              <span>Verified by {report.verifiedByName}, {format(new Date(report.technicallyVerifiedAt), "PPp")}</span>
+                            )}
+                            {report.authorisedByName && report.authorisedAt && (
+                              <span>Authorised by {report.authorisedByName}, {format(new Date(report.authorisedAt), "PPp")}</span>
+                            )}
+                            {report.releasedByName && report.releasedAt && (
+                              <span>Released by {report.releasedByName}, {format(new Date(report.releasedAt), "PPp")}</span>
+                            )}
+                          </div>
+                        )}
+                        {getDeltaFailures(report).length > 0 && (
+                          <div className="flex flex-wrap items-center gap-2 text-xs mt-2" data-testid={`delta-report-${report.id}`}>
+                            <AlertTriangle className="h-3 w-3 text-warning" />
+                            <span>
+                              Delta check failed:{" "}
+                              {getDeltaFailures(report)
+                                .map((p) => `${p.parameterName} ${p.deltaCheck!.previousValue} to ${p.value}`)
+                                .join(", ")}
+                            </span>
+                            {report.deltaAcknowledgedAt ? (
+                              <span className="text-muted-foreground">
+                                Acknowledged by {report.deltaAcknowledgedByName || "admin"}, {format(new Date(report.deltaAcknowledgedAt), "PPp")}
+                              </span>
+                            ) : (
+                              !report.supersededBy && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => acknowledgeDeltaMutation.mutate(report.id)}
+                                  disabled={acknowledgeDeltaMutation.isPending}
+                                  data-testid={`button-acknowledge-delta-${report.id}`}
+                                >
+                                  Acknowledge
+                                </Button>
+                              )
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
-                    <a
-                      href={`/api/reports/download/${report.secureDownloadToken}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                    >
-                      <Button variant="outline" size="sm" className="gap-2" data-testid={`button-download-${report.id}`}>
-                        <Download className="h-4 w-4" />
-                        Download
+                    <div className="flex items-center gap-2">
+                      {report.hasCriticalValues && !report.supersededBy && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => setNotifyingReport(report)}
+                          data-testid={`button-log-critical-${report.id}`}
+                        >
+                          <PhoneCall className="h-4 w-4" />
+                          Log Call
+                        </Button>
+                      )}
+                      {!report.supersededBy && report.results?.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => setAmendingReport(report)}
+                          data-testid={`button-amend-${report.id}`}
+                        >
+                          <PencilLine className="h-4 w-4" />
+                          Amend
+                        </Button>
+                      )}
+                      {getNextStatus(report) && (
+                        <Button
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => updateStatusMutation.mutate({ id: report.id, status: getNextStatus(report)! })}
+                          disabled={updateStatusMutation.isPending}
+                          data-testid={`button-advance-${report.id}`}
+                        >
+                          <CheckCircle className="h-4 w-4" />
+                          {transitionActionLabels[getNextStatus(report)!]}
+                        </Button>
+                      )}
+                      {report.status === "released" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => setLinkReportId(report.id)}
+                          data-testid={`button-link-${report.id}`}
+                        >
+                          <Link2 className="h-4 w-4" />
+                          Link
+                          <Badge className={getLinkState(report).className}>{getLinkState(report).label}</Badge>
+                        </Button>
+                      )}
+                      {report.status === "released" ? (
+                        // Staff open the PDF directly so their views stay out of the link's access log
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => openPreview(report.id)}
+                          data-testid={`button-download-${report.id}`}
+                        >
+                          <Download className="h-4 w-4" />
+                          Download
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => openPreview(report.id)}
+                          data-testid={`button-preview-${report.id}`}
+                        >
+                          <Eye className="h-4 w-4" />
+                          Preview
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => downloadExport(report.id, "hl7")}
+                        title="HL7 v2.5 ORU^R01 message"
+                        data-testid={`button-export-hl7-${report.id}`}
+                      >
+                        <FileCode className="h-4 w-4" />
+                        HL7
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => downloadExport(report.id, "fhir")}
+                        title="FHIR R4 Bundle"
+                        data-testid={`button-export-fhir-${report.id}`}
+                      >
+                        <FileCode className="h-4 w-4" />
+                        FHIR
                       </Button>
-                    </a>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -129,6 +931,30 @@ export default function AdminReports() {
           </Card>
         )}
       </div>
+      {notifyingReport && (
+        <CriticalNotificationDialog
+          key={notifyingReport.id}
+          report={notifyingReport}
+          open={!!notifyingReport}
+          onOpenChange={(open) => !open && setNotifyingReport(null)}
+        />
+      )}
+      {linkReport && (
+        <DownloadLinkDialog
+          key={linkReport.id}
+          report={linkReport}
+          open={!!linkReport}
+          onOpenChange={(open) => !open && setLinkReportId(null)}
+        />
+      )}
+      {amendingReport && (
+        <AmendReportDialog
+          key={amendingReport.id}
+          report={amendingReport}
+          open={!!amendingReport}
+          onOpenChange={(open) => !open && setAmendingReport(null)}
+        />
+      )}
     </AdminLayout>
   );
 }
@@ -1,6 +1,6 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { FlaskConical, Plus, Edit, Clock, IndianRupee, Beaker } from "lucide-react";
+import { FlaskConical, Plus, Edit, Clock, IndianRupee, Beaker, MessageSquare, Trash2, Timer, Tags } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,11 +8,696 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { AdminLayout } from "@/components/admin-layout";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Test, TestParameter } from "@shared/schema";
+import {
+  ageUnits, sampleContainers, loincCodePattern, MAX_PARAMETER_PRECISION,
+  type Test, type TestParameter, type ReferenceInterval, type AgeUnit, type ReferenceSex, type ParameterType,
+  type TestComment, type DeltaLimitType,
+} from "@shared/schema";
+import { getFormulaVariables, FORMULA_PATIENT_VARIABLES } from "@shared/formula";
+
+const containerLabels: Record<string, string> = {
+  edta: "EDTA (lavender)",
+  plain: "Plain (red)",
+  fluoride: "Fluoride (grey)",
+  urine: "Urine container",
+};
+
+const emptyInterval = { sex: "any", ageMin: "", ageMax: "", ageUnit: "years" as AgeUnit, range: "" };
+
+function describeInterval(interval: ReferenceInterval): string {
+  const sex = interval.sex ? interval.sex.charAt(0).toUpperCase() + interval.sex.slice(1) : "All";
+  const age =
+    interval.ageMin !== undefined && interval.ageMax !== undefined ? `${interval.ageMin}-${interval.ageMax} ${interval.ageUnit}` :
+    interval.ageMin !== undefined ? `${interval.ageMin}+ ${interval.ageUnit}` :
+    interval.ageMax !== undefined ? `under ${interval.ageMax} ${interval.ageUnit}` :
+    "all ages";
+  return `${sex}, ${age}: ${interval.range}`;
+}
+
+// Sex- and age-specific ranges of one parameter, edited as a list
+function ReferenceIntervalsEditor({ id, normalRange, intervals, onChange }: {
+  id: string | number;
+  normalRange: string;
+  intervals: ReferenceInterval[];
+  onChange: (intervals: ReferenceInterval[]) => void;
+}) {
+  const { toast } = useToast();
+  const [newInterval, setNewInterval] = useState(emptyInterval);
+
+  const addInterval = () => {
+    if (!newInterval.range.trim()) {
+      toast({
+        title: "Range Required",
+        description: "Please enter the reference range for this group.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const interval: ReferenceInterval = {
+      ageUnit: newInterval.ageUnit,
+      range: newInterval.range.trim(),
+      ...(newInterval.sex !== "any" && { sex: newInterval.sex as ReferenceSex }),
+      ...(newInterval.ageMin !== "" && { ageMin: parseFloat(newInterval.ageMin) }),
+      ...(newInterval.ageMax !== "" && { ageMax: parseFloat(newInterval.ageMax) }),
+    };
+    onChange([...intervals, interval]);
+    setNewInterval(emptyInterval);
+  };
+
+  return (
+    <div className="mt-2 space-y-2 border-t pt-2">
+      <p className="text-xs text-muted-foreground">
+        Ranges by sex and age band (upper age exclusive). {normalRange || "The default range"} applies
+        when none match.
+      </p>
+      {intervals.map((interval, intervalIndex) => (
+        <div key={intervalIndex} className="flex items-center gap-2 text-sm">
+          <span className="flex-1">{describeInterval(interval)}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(intervals.filter((_, j) => j !== intervalIndex))}
+            data-testid={`button-remove-interval-${id}-${intervalIndex}`}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+      <div className="grid grid-cols-6 gap-2">
+        <Select value={newInterval.sex} onValueChange={(v) => setNewInterval({ ...newInterval, sex: v })}>
+          <SelectTrigger data-testid="select-interval-sex">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">All</SelectItem>
+            <SelectItem value="male">Male</SelectItem>
+            <SelectItem value="female">Female</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          placeholder="Age from"
+          value={newInterval.ageMin}
+          onChange={(e) => setNewInterval({ ...newInterval, ageMin: e.target.value })}
+          data-testid="input-interval-age-min"
+        />
+        <Input
+          type="number"
+          placeholder="Age to"
+          value={newInterval.ageMax}
+          onChange={(e) => setNewInterval({ ...newInterval, ageMax: e.target.value })}
+          data-testid="input-interval-age-max"
+        />
+        <Select
+          value={newInterval.ageUnit}
+          onValueChange={(v) => setNewInterval({ ...newInterval, ageUnit: v as AgeUnit })}
+        >
+          <SelectTrigger data-testid="select-interval-age-unit">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ageUnits.map((unit) => (
+              <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Range"
+          value={newInterval.range}
+          onChange={(e) => setNewInterval({ ...newInterval, range: e.target.value })}
+          data-testid="input-interval-range"
+        />
+        <Button type="button" variant="outline" onClick={addInterval} data-testid="button-add-interval">
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Delta limits are entered as an absolute change ("2") or a percentage
+// ("25%"); null when the text is not a positive number
+function parseDeltaLimit(text: string): { deltaLimit: number; deltaLimitType: DeltaLimitType } | null {
+  const value = parseFloat(text);
+  if (isNaN(value) || value <= 0) return null;
+  return { deltaLimit: value, deltaLimitType: text.trim().endsWith("%") ? "percent" : "absolute" };
+}
+
+function formatDeltaLimit(param: TestParameter): string {
+  if (param.deltaLimit === undefined) return "";
+  return `${param.deltaLimit}${param.deltaLimitType === "percent" ? "%" : ""}`;
+}
+
+// Formulas may only use the given paramCodes and the patient variables
+function findFormulaError(formula: string, paramCodes: string[]): string | null {
+  let variables: string[];
+  try {
+    variables = getFormulaVariables(formula);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  const known: string[] = [...paramCodes, ...FORMULA_PATIENT_VARIABLES];
+  const unknown = variables.filter((v) => !known.includes(v));
+  if (unknown.length > 0) {
+    return `Unknown parameter codes: ${unknown.join(", ")}. Add those parameters first.`;
+  }
+  if (variables.length === 0) {
+    return "The formula must use at least one parameter code.";
+  }
+  return null;
+}
+
+// Checks the LOINC code and decimal places typed for a parameter; both are optional
+function findCodingError(loinc: string, precision: string): string | null {
+  if (loinc.trim() && !loincCodePattern.test(loinc.trim())) {
+    return "LOINC codes are a number and a check digit, e.g. 2345-7.";
+  }
+  const places = Number(precision);
+  if (precision.trim() && !(Number.isInteger(places) && places >= 0 && places <= MAX_PARAMETER_PRECISION)) {
+    return `Decimal places must be a whole number from 0 to ${MAX_PARAMETER_PRECISION}.`;
+  }
+  return null;
+}
+
+function TestCommentsDialog({
+  test,
+  onOpenChange,
+}: {
+  test: Test;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+
+  const { data: comments, isLoading } = useQuery<TestComment[]>({
+    queryKey: ["/api/admin/tests", test.id, "comments"],
+  });
+
+  const invalidateComments = () =>
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/tests", test.id, "comments"] });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/admin/tests/${test.id}/comments`, { title, body });
+    },
+    onSuccess: () => {
+      invalidateComments();
+      setTitle("");
+      setBody("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Save",
+        description: error.message || "Unable to save comment.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/admin/test-comments/${id}`);
+    },
+    onSuccess: invalidateComments,
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Delete",
+        description: error.message || "Unable to delete comment.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Interpretive Comments</DialogTitle>
+          <DialogDescription>
+            Saved comments for {test.name} that can be inserted when entering results
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          {isLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : comments && comments.length > 0 ? (
+            comments.map((comment) => (
+              <div key={comment.id} className="flex items-start justify-between gap-2 p-3 bg-muted/50 rounded-md" data-testid={`comment-${comment.id}`}>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{comment.title}</p>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{comment.body}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => deleteMutation.mutate(comment.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-comment-${comment.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">No saved comments yet</p>
+          )}
+        </div>
+        <div className="space-y-2 border-t pt-4">
+          <Label htmlFor="comment-title">New Comment</Label>
+          <Input
+            id="comment-title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Title, e.g. Iron deficiency pattern"
+            data-testid="input-comment-title"
+          />
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Comment text inserted into the interpretation"
+            rows={3}
+            data-testid="input-comment-body"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            onClick={() => addMutation.mutate()}
+            disabled={!title.trim() || !body.trim() || addMutation.isPending}
+            data-testid="button-save-comment"
+          >
+            {addMutation.isPending ? "Saving..." : "Add Comment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TatDialog({ test, onOpenChange }: { test: Test; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [hours, setHours] = useState(() => String(Number((test.tatMinutes / 60).toFixed(2))));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PATCH", `/api/admin/tests/${test.id}/tat`, { tatMinutes: Math.round(parseFloat(hours) * 60) });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Turnaround Updated",
+        description: `${test.name} is now due ${hours} hours after collection.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tests"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Save",
+        description: error.message || "Unable to update turnaround time.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Turnaround Time</DialogTitle>
+          <DialogDescription>
+            {test.name} is due this long after collection. Applies to samples collected from now on as well as open ones.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 py-2">
+          <Label htmlFor="tat-edit-hours">Hours</Label>
+          <Input
+            id="tat-edit-hours"
+            type="number"
+            min="0"
+            step="0.5"
+            value={hours}
+            onChange={(e) => setHours(e.target.value)}
+            data-testid="input-edit-tat"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!(parseFloat(hours) > 0) || saveMutation.isPending}
+            data-testid="button-save-tat"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type ParameterSettingsRow = { deltaLimit: string; criticalLow: string; criticalHigh: string; formula: string };
+
+// Checks on an existing test's parameters, so they can be set on tests
+// created before the checks existed
+function ParametersDialog({ test, onOpenChange }: { test: Test; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const params = test.parameters as TestParameter[];
+  const [rows, setRows] = useState<Record<string, ParameterSettingsRow>>(() =>
+    Object.fromEntries(params.map((p) => [p.paramCode, {
+      deltaLimit: formatDeltaLimit(p),
+      criticalLow: p.criticalLow !== undefined ? String(p.criticalLow) : "",
+      criticalHigh: p.criticalHigh !== undefined ? String(p.criticalHigh) : "",
+      formula: p.formula || "",
+    }]))
+  );
+  const [intervals, setIntervals] = useState<Record<string, ReferenceInterval[]>>(() =>
+    Object.fromEntries(params.map((p) => [p.paramCode, p.referenceIntervals || []]))
+  );
+  const [editingRangesCode, setEditingRangesCode] = useState<string | null>(null);
+
+  const updateRow = (paramCode: string, field: keyof ParameterSettingsRow, value: string) => {
+    setRows({ ...rows, [paramCode]: { ...rows[paramCode], [field]: value } });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (edits: Record<string, unknown>[]) => {
+      return apiRequest("PATCH", `/api/admin/tests/${test.id}/parameters`, { parameters: edits });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Parameters Updated",
+        description: `${test.name} parameters have been updated.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tests"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Save",
+        description: error.message || "Unable to update parameters.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const edits: Record<string, unknown>[] = [];
+    for (const p of params) {
+      const row = rows[p.paramCode];
+      const delta = row.deltaLimit.trim() ? parseDeltaLimit(row.deltaLimit) : null;
+      if (row.deltaLimit.trim() && !delta) {
+        toast({
+          title: `Invalid Delta Limit for ${p.name}`,
+          description: "Enter a positive number, or a percentage such as 25%.",
+          variant: "destructive",
+        });
+        return;
+      }
+      const criticalLow = row.criticalLow.trim() ? Number(row.criticalLow) : null;
+      const criticalHigh = row.criticalHigh.trim() ? Number(row.criticalHigh) : null;
+      if ((criticalLow !== null && isNaN(criticalLow)) || (criticalHigh !== null && isNaN(criticalHigh)) ||
+        (criticalLow !== null && criticalHigh !== null && criticalLow >= criticalHigh)) {
+        toast({
+          title: `Invalid Critical Limits for ${p.name}`,
+          description: "Enter numbers, with the low limit below the high limit.",
+          variant: "destructive",
+        });
+        return;
+      }
+      const formulaError = p.type === "calculated"
+        ? findFormulaError(row.formula, params.filter((other) => other !== p).map((other) => other.paramCode))
+        : null;
+      if (formulaError) {
+        toast({ title: `Invalid Formula for ${p.name}`, description: formulaError, variant: "destructive" });
+        return;
+      }
+      edits.push({
+        paramCode: p.paramCode,
+        ...(p.type === "calculated" && { formula: row.formula.trim() }),
+        ...(delta || { deltaLimit: null, deltaLimitType: null }),
+        criticalLow,
+        criticalHigh,
+        referenceIntervals: intervals[p.paramCode].length ? intervals[p.paramCode] : null,
+      });
+    }
+    saveMutation.mutate(edits);
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Parameter Checks - {test.name}</DialogTitle>
+          <DialogDescription>
+            Applied to results entered from now on. Leave a field empty to turn that check off.
+            Results without a matching range keep the test's normal range.
+          </DialogDescription>
+        </DialogHeader>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-2 pr-3 font-medium">Parameter</th>
+              <th className="py-2 pr-3 font-medium">Delta limit</th>
+              <th className="py-2 pr-3 font-medium">Critical low</th>
+              <th className="py-2 pr-3 font-medium">Critical high</th>
+              <th className="py-2 pr-3 font-medium">Ranges</th>
+            </tr>
+          </thead>
+          <tbody>
+            {params.map((p) => (
+              <Fragment key={p.paramCode}>
+                <tr className="border-t" data-testid={`row-parameter-${p.paramCode}`}>
+                  <td className="py-2 pr-3">
+                    <div>{p.name}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{p.paramCode} {p.unit && `(${p.unit})`}</div>
+                    {p.type === "calculated" && (
+                      <Input
+                        className="mt-1 font-mono"
+                        value={rows[p.paramCode].formula}
+                        onChange={(e) => updateRow(p.paramCode, "formula", e.target.value)}
+                        placeholder="Formula, e.g. TC - HDL - TG / 5"
+                        data-testid={`input-parameter-formula-${p.paramCode}`}
+                      />
+                    )}
+                  </td>
+                  <td className="py-2 pr-3 w-32">
+                    <Input
+                      value={rows[p.paramCode].deltaLimit}
+                      onChange={(e) => updateRow(p.paramCode, "deltaLimit", e.target.value)}
+                      placeholder="e.g. 25%"
+                      data-testid={`input-parameter-delta-${p.paramCode}`}
+                    />
+                  </td>
+                  <td className="py-2 pr-3 w-28">
+                    <Input
+                      type="number"
+                      value={rows[p.paramCode].criticalLow}
+                      onChange={(e) => updateRow(p.paramCode, "criticalLow", e.target.value)}
+                      data-testid={`input-parameter-critical-low-${p.paramCode}`}
+                    />
+                  </td>
+                  <td className="py-2 pr-3 w-28">
+                    <Input
+                      type="number"
+                      value={rows[p.paramCode].criticalHigh}
+                      onChange={(e) => updateRow(p.paramCode, "criticalHigh", e.target.value)}
+                      data-testid={`input-parameter-critical-high-${p.paramCode}`}
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingRangesCode(editingRangesCode === p.paramCode ? null : p.paramCode)}
+                      data-testid={`button-parameter-ranges-${p.paramCode}`}
+                    >
+                      {intervals[p.paramCode].length}
+                    </Button>
+                  </td>
+                </tr>
+                {editingRangesCode === p.paramCode && (
+                  <tr>
+                    <td colSpan={5} className="pb-2">
+                      <ReferenceIntervalsEditor
+                        id={p.paramCode}
+                        normalRange={p.normalRange}
+                        intervals={intervals[p.paramCode]}
+                        onChange={(list) => setIntervals({ ...intervals, [p.paramCode]: list })}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-parameters">
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type CodingRow = { loinc: string; ucumUnit: string; precision: string; method: string; specimen: string };
+
+function CodingDialog({ test, onOpenChange }: { test: Test; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const params = test.parameters as TestParameter[];
+  const [rows, setRows] = useState<Record<string, CodingRow>>(() =>
+    Object.fromEntries(params.map((p) => [p.paramCode, {
+      loinc: p.loinc || "",
+      ucumUnit: p.ucumUnit || "",
+      precision: p.precision !== undefined ? String(p.precision) : "",
+      method: p.method || "",
+      specimen: p.specimen || "",
+    }]))
+  );
+
+  const updateRow = (paramCode: string, field: keyof CodingRow, value: string) => {
+    setRows({ ...rows, [paramCode]: { ...rows[paramCode], [field]: value } });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PATCH", `/api/admin/tests/${test.id}/coding`, {
+        parameters: params.map((p) => ({
+          paramCode: p.paramCode,
+          ...rows[p.paramCode],
+          precision: rows[p.paramCode].precision.trim() ? Number(rows[p.paramCode].precision) : undefined,
+        })),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Coding Updated",
+        description: `${test.name} parameters have been updated.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tests"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Save",
+        description: error.message || "Unable to update parameter coding.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    for (const p of params) {
+      const error = findCodingError(rows[p.paramCode].loinc, rows[p.paramCode].precision);
+      if (error) {
+        toast({ title: `Invalid Coding for ${p.name}`, description: error, variant: "destructive" });
+        return;
+      }
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Parameter Coding - {test.name}</DialogTitle>
+          <DialogDescription>
+            LOINC codes and UCUM units are sent with HL7 and FHIR exports. Decimal places, method and specimen
+            apply to printed reports as well.
+          </DialogDescription>
+        </DialogHeader>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-2 pr-3 font-medium">Parameter</th>
+              <th className="py-2 pr-3 font-medium">LOINC</th>
+              <th className="py-2 pr-3 font-medium">UCUM unit</th>
+              <th className="py-2 pr-3 font-medium">Decimals</th>
+              <th className="py-2 pr-3 font-medium">Method</th>
+              <th className="py-2 pr-3 font-medium">Specimen</th>
+            </tr>
+          </thead>
+          <tbody>
+            {params.map((p) => (
+              <tr key={p.paramCode} className="border-t" data-testid={`row-coding-${p.paramCode}`}>
+                <td className="py-2 pr-3">
+                  <div>{p.name}</div>
+                  <div className="text-xs text-muted-foreground font-mono">{p.paramCode} {p.unit && `(${p.unit})`}</div>
+                </td>
+                <td className="py-2 pr-3 w-28">
+                  <Input
+                    value={rows[p.paramCode].loinc}
+                    onChange={(e) => updateRow(p.paramCode, "loinc", e.target.value)}
+                    placeholder="2345-7"
+                    data-testid={`input-coding-loinc-${p.paramCode}`}
+                  />
+                </td>
+                <td className="py-2 pr-3 w-28">
+                  <Input
+                    value={rows[p.paramCode].ucumUnit}
+                    onChange={(e) => updateRow(p.paramCode, "ucumUnit", e.target.value)}
+                    placeholder="mg/dL"
+                    data-testid={`input-coding-ucum-${p.paramCode}`}
+                  />
+                </td>
+                <td className="py-2 pr-3 w-20">
+                  <Input
+                    type="number"
+                    min="0"
+                    max={MAX_PARAMETER_PRECISION}
+                    value={rows[p.paramCode].precision}
+                    onChange={(e) => updateRow(p.paramCode, "precision", e.target.value)}
+                    data-testid={`input-coding-precision-${p.paramCode}`}
+                  />
+                </td>
+                <td className="py-2 pr-3">
+                  <Input
+                    value={rows[p.paramCode].method}
+                    onChange={(e) => updateRow(p.paramCode, "method", e.target.value)}
+                    placeholder="e.g. GOD-POD"
+                    data-testid={`input-coding-method-${p.paramCode}`}
+                  />
+                </td>
+                <td className="py-2 pr-3">
+                  <Input
+                    value={rows[p.paramCode].specimen}
+                    onChange={(e) => updateRow(p.paramCode, "specimen", e.target.value)}
+                    placeholder="e.g. Serum"
+                    data-testid={`input-coding-specimen-${p.paramCode}`}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-coding">
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
 
 export default function AdminTests() {
   const { toast } = useToast();
@@ -23,7 +708,10 @@ export default function AdminTests() {
     category: "",
     price: "",
     duration: "",
+    tatHours: "24",
     description: "",
+    sampleType: "Blood",
+    container: "plain",
     parameters: [] as TestParameter[],
   });
   const [newParameter, setNewParameter] = useState({
@@ -31,17 +719,36 @@ export default function AdminTests() {
     unit: "",
     normalRange: "",
     paramCode: "",
+    deltaLimit: "",
+    criticalLow: "",
+    criticalHigh: "",
+    type: "numeric" as ParameterType,
+    formula: "",
+    options: "",
+    loinc: "",
+    ucumUnit: "",
+    precision: "",
+    method: "",
+    specimen: "",
   });
 
+  const [editingRangesIndex, setEditingRangesIndex] = useState<number | null>(null);
+  const [commentsTest, setCommentsTest] = useState<Test | null>(null);
+
+  const [tatTest, setTatTest] = useState<Test | null>(null);
+  const [codingTest, setCodingTest] = useState<Test | null>(null);
+  const [parametersTest, setParametersTest] = useState<Test | null>(null);
+
   const { data: tests, isLoading } = useQuery<Test[]>({
     queryKey: ["/api/tests"],
   });
 
   const createTestMutation = useMutation({
-    mutationFn: async (data: typeof newTest) => {
+    mutationFn: async ({ tatHours, ...data }: typeof newTest) => {
       return apiRequest("POST", "/api/admin/tests", {
         ...data,
         price: parseFloat(data.price),
+        tatMinutes: Math.round(parseFloat(tatHours) * 60),
       });
     },
     onSuccess: () => {
@@ -56,7 +763,10 @@ export default function AdminTests() {
         category: "",
         price: "",
         duration: "",
+        tatHours: "24",
         description: "",
+        sampleType: "Blood",
+        container: "plain",
         parameters: [],
       });
       queryClient.invalidateQueries({ queryKey: ["/api/tests"] });
@@ -71,7 +781,7 @@ export default function AdminTests() {
   });
 
   const addParameter = () => {
-    if (!newParameter.name || !newParameter.unit) {
+    if (!newParameter.name || (!newParameter.unit && newParameter.type !== "qualitative")) {
       toast({
         title: "Required Fields",
         description: "Please enter parameter name and unit.",
@@ -79,17 +789,76 @@ export default function AdminTests() {
       });
       return;
     }
+    const {
+      deltaLimit, criticalLow, criticalHigh, type, formula, options, loinc, ucumUnit, precision, method, specimen, ...param
+    } = newParameter;
+
+    // Formulas may only use paramCodes already on this test
+    const formulaError = type === "calculated" ? findFormulaError(formula, newTest.parameters.map((p) => p.paramCode)) : null;
+    if (formulaError) {
+      toast({ title: "Invalid Formula", description: formulaError, variant: "destructive" });
+      return;
+    }
+    const optionList = options.split(",").map((o) => o.trim()).filter(Boolean);
+    if (type === "qualitative" && optionList.length < 2) {
+      toast({
+        title: "Options Required",
+        description: "Enter at least two comma-separated answers, e.g. Positive, Negative.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const delta = deltaLimit.trim() ? parseDeltaLimit(deltaLimit) : null;
+    if (deltaLimit.trim() && !delta) {
+      toast({
+        title: "Invalid Delta Limit",
+        description: "Enter a positive number, or a percentage such as 25%.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const codingError = findCodingError(loinc, precision);
+    if (codingError) {
+      toast({ title: "Invalid Coding", description: codingError, variant: "destructive" });
+      return;
+    }
     setNewTest({
       ...newTest,
       parameters: [
         ...newTest.parameters,
-        { ...newParameter, paramCode: newParameter.paramCode || newParameter.name.substring(0, 3).toUpperCase() },
+        {
+          ...param,
+          paramCode: param.paramCode || param.name.substring(0, 3).toUpperCase(),
+          ...(type !== "numeric" && { type }),
+          ...(type === "calculated" && { formula: formula.trim() }),
+          ...(type === "qualitative" && { options: optionList }),
+          ...delta,
+          ...(criticalLow.trim() && !isNaN(parseFloat(criticalLow)) && { criticalLow: parseFloat(criticalLow) }),
+          ...(criticalHigh.trim() && !isNaN(parseFloat(criticalHigh)) && { criticalHigh: parseFloat(criticalHigh) }),
+          ...(loinc.trim() && { loinc: loinc.trim() }),
+          ...(ucumUnit.trim() && { ucumUnit: ucumUnit.trim() }),
+          ...(precision.trim() && { precision: Number(precision) }),
+          ...(method.trim() && { method: method.trim() }),
+          ...(specimen.trim() && { specimen: specimen.trim() }),
+        },
       ],
     });
-    setNewParameter({ name: "", unit: "", normalRange: "", paramCode: "" });
+    setNewParameter({
+      name: "", unit: "", normalRange: "", paramCode: "", deltaLimit: "", criticalLow: "", criticalHigh: "",
+      type: "numeric", formula: "", options: "", loinc: "", ucumUnit: "", precision: "", method: "", specimen: "",
+    });
+  };
+
+  const setIntervals = (index: number, intervals: ReferenceInterval[]) => {
+    setNewTest({
+      ...newTest,
+      parameters: newTest.parameters.map((p, i) => (i === index ? { ...p, referenceIntervals: intervals } : p)),
+    });
   };
 
   const removeParameter = (index: number) => {
+    setEditingRangesIndex(null);
     setNewTest({
       ...newTest,
       parameters: newTest.parameters.filter((_, i) => i !== index),
@@ -97,7 +866,7 @@ export default function AdminTests() {
   };
 
   const handleCreateTest = () => {
-    if (!newTest.name || !newTest.code || !newTest.category || !newTest.price || !newTest.duration) {
+    if (!newTest.name || !newTest.code || !newTest.category || !newTest.price || !newTest.duration || !(parseFloat(newTest.tatHours) > 0)) {
       toast({
         title: "Required Fields",
         description: "Please fill in all required fields.",
@@ -203,6 +972,49 @@ export default function AdminTests() {
                     />
                   </div>
                 </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="tat-hours">Turnaround (hours) *</Label>
+                    <Input
+                      id="tat-hours"
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={newTest.tatHours}
+                      onChange={(e) => setNewTest({ ...newTest, tatHours: e.target.value })}
+                      placeholder="From collection to release"
+                      data-testid="input-test-tat"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sample-type">Sample Type</Label>
+                    <Input
+                      id="sample-type"
+                      value={newTest.sampleType}
+                      onChange={(e) => setNewTest({ ...newTest, sampleType: e.target.value })}
+                      placeholder="e.g., Serum"
+                      data-testid="input-test-sample-type"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Container</Label>
+                    <Select
+                      value={newTest.container}
+                      onValueChange={(container) => setNewTest({ ...newTest, container })}
+                    >
+                      <SelectTrigger data-testid="select-test-container">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sampleContainers.map((container) => (
+                          <SelectItem key={container} value={container}>
+                            {containerLabels[container]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="description">Description</Label>
                   <Textarea
@@ -220,18 +1032,68 @@ export default function AdminTests() {
                   {newTest.parameters.length > 0 && (
                     <div className="space-y-2 mb-4">
                       {newTest.parameters.map((param, index) => (
-                        <div key={index} className="flex items-center gap-2 p-2 bg-muted rounded-md">
-                          <span className="flex-1 text-sm">
-                            {param.name} ({param.unit}) - {param.normalRange}
-                          </span>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => removeParameter(index)}
-                            data-testid={`button-remove-param-${index}`}
-                          >
-                            Remove
-                          </Button>
+                        <div key={index} className="p-2 bg-muted rounded-md">
+                          <div className="flex items-center gap-2">
+                            <span className="flex-1 text-sm">
+                              {param.name} [{param.paramCode}] ({param.unit}) - {param.normalRange}
+                              {param.type === "calculated" && (
+                                <span className="text-muted-foreground font-mono"> | = {param.formula}</span>
+                              )}
+                              {param.type === "qualitative" && (
+                                <span className="text-muted-foreground"> | {param.options?.join(" / ")}</span>
+                              )}
+                              {param.deltaLimit !== undefined && (
+                                <span className="text-muted-foreground">
+                                  {" "}| Delta {param.deltaLimit}{param.deltaLimitType === "percent" ? "%" : ` ${param.unit}`}
+                                </span>
+                              )}
+                              {(param.criticalLow !== undefined || param.criticalHigh !== undefined) && (
+                                <span className="text-destructive">
+                                  {" "}| Critical {param.criticalLow !== undefined ? `<= ${param.criticalLow}` : ""}
+                                  {param.criticalLow !== undefined && param.criticalHigh !== undefined ? " or " : ""}
+                                  {param.criticalHigh !== undefined ? `>= ${param.criticalHigh}` : ""}
+                                </span>
+                              )}
+                              {(param.loinc || param.ucumUnit || param.precision !== undefined) && (
+                                <span className="text-muted-foreground">
+                                  {param.loinc && ` | LOINC ${param.loinc}`}
+                                  {param.ucumUnit && ` | UCUM ${param.ucumUnit}`}
+                                  {param.precision !== undefined && ` | ${param.precision} dp`}
+                                </span>
+                              )}
+                              {(param.method || param.specimen) && (
+                                <span className="text-muted-foreground">
+                                  {" "}| {[param.method, param.specimen].filter(Boolean).join(", ")}
+                                </span>
+                              )}
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEditingRangesIndex(editingRangesIndex === index ? null : index);
+                              }}
+                              data-testid={`button-ranges-param-${index}`}
+                            >
+                              Ranges ({param.referenceIntervals?.length || 0})
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeParameter(index)}
+                              data-testid={`button-remove-param-${index}`}
+                            >
+                              Remove
+                            </Button>
+                          </div>
+                          {editingRangesIndex === index && (
+                            <ReferenceIntervalsEditor
+                              id={index}
+                              normalRange={param.normalRange}
+                              intervals={param.referenceIntervals || []}
+                              onChange={(intervals) => setIntervals(index, intervals)}
+                            />
+                          )}
                         </div>
                       ))}
                     </div>
@@ -243,6 +1105,12 @@ export default function AdminTests() {
                       onChange={(e) => setNewParameter({ ...newParameter, name: e.target.value })}
                       data-testid="input-param-name"
                     />
+                    <Input
+                      placeholder="Code (e.g. HDL)"
+                      value={newParameter.paramCode}
+                      onChange={(e) => setNewParameter({ ...newParameter, paramCode: e.target.value.toUpperCase() })}
+                      data-testid="input-param-code"
+                    />
                     <Input
                       placeholder="Unit"
                       value={newParameter.unit}
@@ -255,6 +1123,91 @@ export default function AdminTests() {
                       onChange={(e) => setNewParameter({ ...newParameter, normalRange: e.target.value })}
                       data-testid="input-param-range"
                     />
+                    <Select
+                      value={newParameter.type}
+                      onValueChange={(v) => setNewParameter({ ...newParameter, type: v as ParameterType })}
+                    >
+                      <SelectTrigger data-testid="select-param-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="numeric">Numeric</SelectItem>
+                        <SelectItem value="calculated">Calculated</SelectItem>
+                        <SelectItem value="qualitative">Pick list</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {newParameter.type === "calculated" && (
+                      <Input
+                        className="col-span-4 font-mono"
+                        placeholder="Formula, e.g. TC - HDL - TG / 5 (AGE and FEMALE also available)"
+                        value={newParameter.formula}
+                        onChange={(e) => setNewParameter({ ...newParameter, formula: e.target.value })}
+                        data-testid="input-param-formula"
+                      />
+                    )}
+                    {newParameter.type === "qualitative" && (
+                      <Input
+                        className="col-span-4"
+                        placeholder="Answers, comma separated, e.g. Reactive, Non-reactive"
+                        value={newParameter.options}
+                        onChange={(e) => setNewParameter({ ...newParameter, options: e.target.value })}
+                        data-testid="input-param-options"
+                      />
+                    )}
+                    <Input
+                      placeholder="Delta (e.g. 25%)"
+                      value={newParameter.deltaLimit}
+                      onChange={(e) => setNewParameter({ ...newParameter, deltaLimit: e.target.value })}
+                      data-testid="input-param-delta"
+                    />
+                    <Input
+                      type="number"
+                      placeholder="Critical low"
+                      value={newParameter.criticalLow}
+                      onChange={(e) => setNewParameter({ ...newParameter, criticalLow: e.target.value })}
+                      data-testid="input-param-critical-low"
+                    />
+                    <Input
+                      type="number"
+                      placeholder="Critical high"
+                      value={newParameter.criticalHigh}
+                      onChange={(e) => setNewParameter({ ...newParameter, criticalHigh: e.target.value })}
+                      data-testid="input-param-critical-high"
+                    />
+                    <Input
+                      placeholder="LOINC (e.g. 2345-7)"
+                      value={newParameter.loinc}
+                      onChange={(e) => setNewParameter({ ...newParameter, loinc: e.target.value })}
+                      data-testid="input-param-loinc"
+                    />
+                    <Input
+                      placeholder="UCUM unit (e.g. mg/dL)"
+                      value={newParameter.ucumUnit}
+                      onChange={(e) => setNewParameter({ ...newParameter, ucumUnit: e.target.value })}
+                      data-testid="input-param-ucum"
+                    />
+                    <Input
+                      className="col-span-2"
+                      placeholder="Method (e.g. GOD-POD)"
+                      value={newParameter.method}
+                      onChange={(e) => setNewParameter({ ...newParameter, method: e.target.value })}
+                      data-testid="input-param-method"
+                    />
+                    <Input
+                      placeholder="Specimen (e.g. Serum)"
+                      value={newParameter.specimen}
+                      onChange={(e) => setNewParameter({ ...newParameter, specimen: e.target.value })}
+                      data-testid="input-param-specimen"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      max={MAX_PARAMETER_PRECISION}
+                      placeholder="Decimal places"
+                      value={newParameter.precision}
+                      onChange={(e) => setNewParameter({ ...newParameter, precision: e.target.value })}
+                      data-testid="input-param-precision"
+                    />
                     <Button type="button" onClick={addParameter} data-testid="button-add-param">
                       Add
                     </Button>
@@ -324,9 +1277,50 @@ export default function AdminTests() {
                             <Clock className="h-4 w-4" />
                             {test.duration}
                           </div>
+                          <button
+                            className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                            onClick={() => setTatTest(test)}
+                            title="Turnaround target"
+                            data-testid={`button-tat-${test.code}`}
+                          >
+                            <Timer className="h-4 w-4" />
+                            TAT {Number((test.tatMinutes / 60).toFixed(1))}h
+                          </button>
                         </div>
-                        <div className="text-xs text-muted-foreground">
-                          {(test.parameters as TestParameter[])?.length || 0} parameters
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-xs text-muted-foreground">
+                            {(test.parameters as TestParameter[])?.length || 0} parameters
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1 h-7 ml-auto"
+                            onClick={() => setParametersTest(test)}
+                            data-testid={`button-parameters-${test.code}`}
+                          >
+                            <Edit className="h-3 w-3" />
+                            Checks
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1 h-7"
+                            onClick={() => setCodingTest(test)}
+                            data-testid={`button-coding-${test.code}`}
+                          >
+                            <Tags className="h-3 w-3" />
+                            Coding
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1 h-7"
+                            onClick={() => setCommentsTest(test)}
+                            data-testid={`button-comments-${test.code}`}
+                          >
+                            <MessageSquare className="h-3 w-3" />
+                            Comments
+                          </Button>
                         </div>
                       </CardContent>
                     </Card>
@@ -350,6 +1344,21 @@ export default function AdminTests() {
           </Card>
         )}
       </div>
+      {commentsTest && (
+        <TestCommentsDialog test={commentsTest} onOpenChange={(open) => !open && setCommentsTest(null)} />
+      )}
+
+      {tatTest && (
+        <TatDialog test={tatTest} onOpenChange={(open) => !open && setTatTest(null)} />
+      )}
+
+      {parametersTest && (
+        <ParametersDialog test={parametersTest} onOpenChange={(open) => !open && setParametersTest(null)} />
+      )}
+
+      {codingTest && (
+        <CodingDialog test={codingTest} onOpenChange={(open) => !open && setCodingTest(null)} />
+      )}
     </AdminLayout>
   );
 }
@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNowStrict, subDays } from "date-fns";
+import { Timer, AlertTriangle, Clock, CheckCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AdminLayout } from "@/components/admin-layout";
+import type { TatBoardItem, TatStats, TatSummary } from "@shared/schema";
+
+const stateColors: Record<string, string> = {
+  overdue: "bg-destructive text-destructive-foreground",
+  due_soon: "bg-warning text-warning-foreground",
+  on_track: "bg-muted text-muted-foreground",
+};
+
+const stateLabels: Record<string, string> = {
+  overdue: "Overdue",
+  due_soon: "Due Soon",
+  on_track: "On Track",
+};
+
+const priorityLabels: Record<string, string> = {
+  stat: "STAT",
+  urgent: "Urgent",
+  routine: "Routine",
+};
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) {
+    const rest = Math.round(minutes % 60);
+    return rest ? `${hours}h ${rest}m` : `${hours}h`;
+  }
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+function onTimePercent(summary: TatSummary): string {
+  return summary.count > 0 ? `${Math.round((summary.withinTat / summary.count) * 100)}%` : "-";
+}
+
+function SummaryCells({ summary }: { summary: TatSummary }) {
+  const onTime = summary.count > 0 ? summary.withinTat / summary.count : 1;
+  return (
+    <>
+      <td className="py-2 pr-3 text-right">{summary.count}</td>
+      <td className="py-2 pr-3 text-right">{formatMinutes(summary.medianMinutes)}</td>
+      <td className="py-2 pr-3 text-right">{formatMinutes(summary.p90Minutes)}</td>
+      <td className={`py-2 pr-3 text-right font-medium ${onTime < 0.9 ? "text-destructive" : ""}`}>
+        {onTimePercent(summary)}
+      </td>
+    </>
+  );
+}
+
+const summaryHeadings = (
+  <>
+    <th className="py-2 pr-3 font-medium text-right">Released</th>
+    <th className="py-2 pr-3 font-medium text-right">Median</th>
+    <th className="py-2 pr-3 font-medium text-right">90th %ile</th>
+    <th className="py-2 pr-3 font-medium text-right">Within TAT</th>
+  </>
+);
+
+export default function AdminTurnaround() {
+  const [stateFilter, setStateFilter] = useState("late");
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 89), "yyyy-MM-dd"));
+  const [to, setTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  const { data: board, isLoading: boardLoading } = useQuery<TatBoardItem[]>({
+    queryKey: ["/api/admin/tat/board"],
+    refetchInterval: 60000,
+  });
+
+  const statsKey = `/api/admin/tat/stats?from=${from}&to=${to}`;
+  const { data: stats, isLoading: statsLoading } = useQuery<TatStats>({
+    queryKey: [statsKey],
+    enabled: !!from && !!to && from <= to,
+  });
+
+  const overdue = board?.filter((i) => i.state === "overdue").length || 0;
+  const dueSoon = board?.filter((i) => i.state === "due_soon").length || 0;
+  const visible = board?.filter((i) =>
+    stateFilter === "all" ? true : stateFilter === "late" ? i.state !== "on_track" : i.state === stateFilter
+  );
+
+  return (
+    <AdminLayout>
+      <div className="p-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">Turnaround</h1>
+          <p className="text-muted-foreground">Deadlines from sample collection to report release, and how the lab has kept them</p>
+        </div>
+
+        <Tabs defaultValue="deadlines">
+          <TabsList className="mb-4">
+            <TabsTrigger value="deadlines" data-testid="tab-deadlines">Deadlines</TabsTrigger>
+            <TabsTrigger value="statistics" data-testid="tab-statistics">Statistics</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="deadlines" className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <Card>
+                <CardContent className="pt-6 flex items-center gap-3">
+                  <AlertTriangle className="h-8 w-8 text-destructive" />
+                  <div>
+                    <div className="text-2xl font-bold" data-testid="text-overdue-count">{overdue}</div>
+                    <div className="text-sm text-muted-foreground">Past deadline</div>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6 flex items-center gap-3">
+                  <Clock className="h-8 w-8 text-warning" />
+                  <div>
+                    <div className="text-2xl font-bold" data-testid="text-due-soon-count">{dueSoon}</div>
+                    <div className="text-sm text-muted-foreground">Due soon</div>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6 flex items-center gap-3">
+                  <CheckCircle className="h-8 w-8 text-success" />
+                  <div>
+                    <div className="text-2xl font-bold">{(board?.length || 0) - overdue - dueSoon}</div>
+                    <div className="text-sm text-muted-foreground">On track</div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle className="text-lg">Open Tests</CardTitle>
+                  <CardDescription>Collected tests whose report has not been released, soonest deadline first</CardDescription>
+                </div>
+                <Select value={stateFilter} onValueChange={setStateFilter}>
+                  <SelectTrigger className="w-44" data-testid="select-tat-state">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="late">Overdue and due soon</SelectItem>
+                    <SelectItem value="overdue">Overdue</SelectItem>
+                    <SelectItem value="due_soon">Due soon</SelectItem>
+                    <SelectItem value="all">All open tests</SelectItem>
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                {boardLoading ? (
+                  <Skeleton className="h-32 w-full" />
+                ) : visible && visible.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="py-2 pr-3 font-medium">Due</th>
+                          <th className="py-2 pr-3 font-medium">Test</th>
+                          <th className="py-2 pr-3 font-medium">Patient</th>
+                          <th className="py-2 pr-3 font-medium">Sample</th>
+                          <th className="py-2 pr-3 font-medium">Collected</th>
+                          <th className="py-2 pr-3 font-medium">TAT</th>
+                          <th className="py-2 font-medium">Stage</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {visible.map((item) => (
+                          <tr key={`${item.bookingId}:${item.testId}`} className="border-b" data-testid={`tat-row-${item.accessionNumber}-${item.testCode}`}>
+                            <td className="py-2 pr-3 whitespace-nowrap">
+                              <Badge className={stateColors[item.state]}>{stateLabels[item.state]}</Badge>
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {format(new Date(item.dueAt), "dd MMM HH:mm")}
+                                {" "}
+                                ({item.state === "overdue" ? `${formatDistanceToNowStrict(new Date(item.dueAt))} late` : `in ${formatDistanceToNowStrict(new Date(item.dueAt))}`})
+                              </div>
+                            </td>
+                            <td className="py-2 pr-3">
+                              {item.testName}
+                              <div className="text-xs text-muted-foreground">{item.category}</div>
+                            </td>
+                            <td className="py-2 pr-3">
+                              {item.patientName}
+                              {item.patientId && <span className="text-xs text-muted-foreground font-mono ml-1">{item.patientId}</span>}
+                              {item.priority !== "routine" && (
+                                <Badge variant="outline" className="ml-2">{priorityLabels[item.priority] || item.priority}</Badge>
+                              )}
+                            </td>
+                            <td className="py-2 pr-3 font-mono">{item.accessionNumber}</td>
+                            <td className="py-2 pr-3 whitespace-nowrap">{format(new Date(item.collectedAt), "dd MMM HH:mm")}</td>
+                            <td className="py-2 pr-3">{formatMinutes(item.tatMinutes)}</td>
+                            <td className="py-2 text-muted-foreground">{item.resultEntered ? "Awaiting release" : "Awaiting result"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div className="py-8 text-center text-muted-foreground text-sm">
+                    <Timer className="h-10 w-10 mx-auto mb-3" />
+                    Nothing {stateFilter === "all" ? "open" : "late"} right now
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="statistics" className="space-y-4">
+            <Card>
+              <CardContent className="pt-6 flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tat-from">From</Label>
+                  <Input id="tat-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} data-testid="input-tat-from" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tat-to">To</Label>
+                  <Input id="tat-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} data-testid="input-tat-to" />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Measured from collection to first release; within TAT below 90% is highlighted
+                </p>
+              </CardContent>
+            </Card>
+
+            {statsLoading ? (
+              <Skeleton className="h-48 w-full" />
+            ) : stats && stats.byTest.length > 0 ? (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">By Department</CardTitle>
+                  </CardHeader>
+                  <CardContent className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="py-2 pr-3 font-medium">Department</th>
+                          {summaryHeadings}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stats.byCategory.map((row) => (
+                          <tr key={row.category} className="border-b" data-testid={`tat-category-${row.category}`}>
+                            <td className="py-2 pr-3">{row.category}</td>
+                            <SummaryCells summary={row} />
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">By Test</CardTitle>
+                  </CardHeader>
+                  <CardContent className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="py-2 pr-3 font-medium">Test</th>
+                          <th className="py-2 pr-3 font-medium">Department</th>
+                          <th className="py-2 pr-3 font-medium text-right">Target</th>
+                          {summaryHeadings}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stats.byTest.map((row) => (
+                          <tr key={row.testId} className="border-b" data-testid={`tat-test-${row.testCode}`}>
+                            <td className="py-2 pr-3">
+                              {row.testName} <span className="text-xs font-mono text-primary">{row.testCode}</span>
+                            </td>
+                            <td className="py-2 pr-3">{row.category}</td>
+                            <td className="py-2 pr-3 text-right">{formatMinutes(row.tatMinutes)}</td>
+                            <SummaryCells summary={row} />
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">By Month</CardTitle>
+                    <CardDescription>Each department month by month, by release date</CardDescription>
+                  </CardHeader>
+                  <CardContent className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="py-2 pr-3 font-medium">Month</th>
+                          <th className="py-2 pr-3 font-medium">Department</th>
+                          {summaryHeadings}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stats.byMonth.map((row) => (
+                          <tr key={`${row.month}-${row.category}`} className="border-b">
+                            <td className="py-2 pr-3">{format(new Date(`${row.month}-01T00:00:00`), "MMM yyyy")}</td>
+                            <td className="py-2 pr-3">{row.category}</td>
+                            <SummaryCells summary={row} />
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </CardContent>
+                </Card>
+              </>
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground text-sm">
+                  No reports were released in this period
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,341 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, differenceInYears } from "date-fns";
+import { ClipboardList, Save, AlertCircle, Cpu } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { AdminLayout } from "@/components/admin-layout";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Test, TestParameter, Patient, Sample } from "@shared/schema";
+
+interface WorklistItem {
+  bookingId: string;
+  priority: string;
+  slot: string;
+  patient: Pick<Patient, "id" | "patientId" | "name" | "gender"> & { dob: string | null };
+  test: Pick<Test, "id" | "name" | "code" | "category" | "parameters">;
+  sample: (Pick<Sample, "id" | "accessionNumber" | "status"> & { collectedAt: string }) | null;
+  dueAt: string | null;
+  imported: { importId: string; analyser: string; receivedAt: string; values: Record<string, string> } | null;
+}
+
+interface SaveResponse {
+  saved: { bookingId: string; testId: string; reportId: string | null }[];
+  failed: { bookingId: string; testId: string; message: string }[];
+}
+
+const priorityColors: Record<string, string> = {
+  stat: "bg-destructive text-destructive-foreground",
+  urgent: "bg-warning text-warning-foreground",
+  routine: "bg-muted text-muted-foreground",
+};
+
+const priorityLabels: Record<string, string> = {
+  stat: "STAT",
+  urgent: "Urgent",
+  routine: "Routine",
+};
+
+function rowKey(bookingId: string, testId: string): string {
+  return `${bookingId}:${testId}`;
+}
+
+// Calculated parameters are worked out by the server from the others
+function entryParameters(test: WorklistItem["test"]): TestParameter[] {
+  return (test.parameters as TestParameter[]).filter((p) => p.type !== "calculated");
+}
+
+function describePatient(patient: WorklistItem["patient"]): string {
+  const age = patient.dob ? `${differenceInYears(new Date(), new Date(patient.dob))}y` : null;
+  return [age, patient.gender?.charAt(0).toUpperCase()].filter(Boolean).join(" ");
+}
+
+export default function AdminWorklist() {
+  const { toast } = useToast();
+  const [technician, setTechnician] = useState("");
+  const [category, setCategory] = useState("");
+  // Values typed so far, by row then parameter name
+  const [values, setValues] = useState<Record<string, Record<string, string>>>({});
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+  // Rows prefilled from an analyser are only saved once a technician has
+  // looked them over
+  const [reviewed, setReviewed] = useState<Record<string, boolean>>({});
+
+  const { data: items, isLoading } = useQuery<WorklistItem[]>({
+    queryKey: ["/api/admin/worklist"],
+  });
+
+  const categories = Array.from(new Set((items || []).map((i) => i.test.category))).sort();
+  const activeCategory = categories.includes(category) ? category : categories[0] || "";
+
+  const setValue = (key: string, parameterName: string, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: { ...prev[key], [parameterName]: value } }));
+  };
+
+  // What the technician typed, or else what the analyser sent
+  const cellValue = (item: WorklistItem, parameterName: string) =>
+    values[rowKey(item.bookingId, item.test.id)]?.[parameterName] ?? item.imported?.values[parameterName] ?? "";
+
+  const isRowComplete = (item: WorklistItem) => {
+    if (item.imported && !reviewed[rowKey(item.bookingId, item.test.id)]) return false;
+    return entryParameters(item.test).every((p) => cellValue(item, p.name).trim());
+  };
+
+  const completeRows = (items || []).filter((i) => i.test.category === activeCategory && isRowComplete(i));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/worklist/results", {
+        technician,
+        entries: completeRows.map((item) => {
+          return {
+            bookingId: item.bookingId,
+            testId: item.test.id,
+            parameterResults: (item.test.parameters as TestParameter[]).map((p) => ({
+              parameterName: p.name,
+              value: p.type === "calculated" ? "" : cellValue(item, p.name).trim(),
+              unit: p.unit,
+              normalRange: p.normalRange,
+            })),
+          };
+        }),
+      });
+      return res.json() as Promise<SaveResponse>;
+    },
+    onSuccess: ({ saved, failed }) => {
+      const savedKeys = saved.map((s) => rowKey(s.bookingId, s.testId));
+      setValues((prev) => Object.fromEntries(Object.entries(prev).filter(([key]) => !savedKeys.includes(key))));
+      setReviewed((prev) => Object.fromEntries(Object.entries(prev).filter(([key]) => !savedKeys.includes(key))));
+      setRowErrors(Object.fromEntries(failed.map((f) => [rowKey(f.bookingId, f.testId), f.message])));
+
+      const reports = saved.filter((s) => s.reportId).length;
+      toast({
+        title: failed.length > 0 ? "Some Results Not Saved" : "Results Saved",
+        description:
+          `${saved.length} saved${reports > 0 ? `, ${reports} ${reports === 1 ? "report" : "reports"} ready for verification` : ""}.` +
+          (failed.length > 0 ? ` ${failed.length} failed; see the highlighted rows.` : ""),
+        variant: failed.length > 0 ? "destructive" : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/worklist"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Unable to save results.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // One grid per test within the department, in worklist order
+  const groupsFor = (dept: string) => {
+    const groups: { test: WorklistItem["test"]; items: WorklistItem[] }[] = [];
+    for (const item of (items || []).filter((i) => i.test.category === dept)) {
+      const group = groups.find((g) => g.test.id === item.test.id);
+      if (group) {
+        group.items.push(item);
+      } else {
+        groups.push({ test: item.test, items: [item] });
+      }
+    }
+    return groups;
+  };
+
+  return (
+    <AdminLayout>
+      <div className="p-6">
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold" data-testid="text-page-title">Worklist</h1>
+            <p className="text-muted-foreground">Pending tests by department, most urgent and oldest samples first</p>
+          </div>
+          <div className="flex items-end gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="worklist-technician">Technician *</Label>
+              <Input
+                id="worklist-technician"
+                value={technician}
+                onChange={(e) => setTechnician(e.target.value)}
+                placeholder="Your name"
+                className="w-48"
+                data-testid="input-worklist-technician"
+              />
+            </div>
+            <Button
+              className="gap-2"
+              onClick={() => saveMutation.mutate()}
+              disabled={!technician.trim() || completeRows.length === 0 || saveMutation.isPending}
+              data-testid="button-save-worklist"
+            >
+              <Save className="h-4 w-4" />
+              {saveMutation.isPending ? "Saving..." : `Save ${completeRows.length} ${completeRows.length === 1 ? "Result" : "Results"}`}
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : categories.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <ClipboardList className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="font-medium mb-2">Worklist Is Clear</h3>
+              <p className="text-muted-foreground text-sm">Every booked test has results</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Tabs value={activeCategory} onValueChange={setCategory}>
+            <TabsList className="mb-4 flex-wrap h-auto">
+              {categories.map((dept) => (
+                <TabsTrigger key={dept} value={dept} className="gap-2" data-testid={`tab-dept-${dept}`}>
+                  {dept}
+                  <Badge variant="secondary">{items!.filter((i) => i.test.category === dept).length}</Badge>
+                </TabsTrigger>
+              ))}
+            </TabsList>
+
+            {categories.map((dept) => (
+              <TabsContent key={dept} value={dept} className="space-y-4">
+                {groupsFor(dept).map(({ test, items: rows }) => {
+                  const params = entryParameters(test);
+                  return (
+                    <Card key={test.id} data-testid={`worklist-test-${test.code}`}>
+                      <CardHeader>
+                        <CardTitle className="text-lg">
+                          {test.name} <span className="text-sm font-mono text-primary">{test.code}</span>
+                        </CardTitle>
+                        <CardDescription>
+                          {rows.length} pending. Rows with every value filled in are saved; calculated values are worked out on save.
+                          Values from an analyser are saved once the row is ticked as reviewed.
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="border-b text-left text-muted-foreground">
+                                <th className="py-2 pr-3 font-medium">Priority</th>
+                                <th className="py-2 pr-3 font-medium">Sample</th>
+                                <th className="py-2 pr-3 font-medium">Patient</th>
+                                <th className="py-2 pr-3 font-medium">Collected</th>
+                                <th className="py-2 pr-3 font-medium">Due</th>
+                                {params.map((p) => (
+                                  <th key={p.name} className="py-2 pr-3 font-medium whitespace-nowrap">
+                                    {p.name}
+                                    {p.unit && <span className="font-normal text-xs ml-1">({p.unit})</span>}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {rows.map((item) => {
+                                const key = rowKey(item.bookingId, item.test.id);
+                                const error = rowErrors[key];
+                                return (
+                                  <tr
+                                    key={key}
+                                    className={`border-b ${error ? "bg-destructive/10" : ""}`}
+                                    data-testid={`worklist-row-${key}`}
+                                  >
+                                    <td className="py-2 pr-3">
+                                      <Badge className={priorityColors[item.priority] || "bg-muted"}>
+                                        {priorityLabels[item.priority] || item.priority}
+                                      </Badge>
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                      <div className="font-mono">
+                                        {item.sample?.accessionNumber || <span className="text-muted-foreground">Not collected</span>}
+                                      </div>
+                                      {item.imported && (
+                                        <label className="flex items-center gap-1.5 mt-1 text-xs whitespace-nowrap" title={`Received from ${item.imported.analyser}`}>
+                                          <Checkbox
+                                            checked={!!reviewed[key]}
+                                            onCheckedChange={(checked) => setReviewed((prev) => ({ ...prev, [key]: checked === true }))}
+                                            data-testid={`checkbox-reviewed-${key}`}
+                                          />
+                                          <Cpu className="h-3 w-3 text-primary" />
+                                          Reviewed
+                                        </label>
+                                      )}
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                      <div>{item.patient.name}</div>
+                                      <div className="text-xs text-muted-foreground">
+                                        <span className="font-mono">{item.patient.patientId}</span> {describePatient(item.patient)}
+                                      </div>
+                                      {error && (
+                                        <div className="text-xs text-destructive flex items-center gap-1 mt-1">
+                                          <AlertCircle className="h-3 w-3" />
+                                          {error}
+                                        </div>
+                                      )}
+                                    </td>
+                                    <td className="py-2 pr-3 whitespace-nowrap text-muted-foreground">
+                                      {item.sample ? format(new Date(item.sample.collectedAt), "dd MMM HH:mm") : "-"}
+                                    </td>
+                                    <td
+                                      className={`py-2 pr-3 whitespace-nowrap ${
+                                        item.dueAt && new Date(item.dueAt) < new Date() ? "text-destructive font-medium" : "text-muted-foreground"
+                                      }`}
+                                    >
+                                      {item.dueAt ? format(new Date(item.dueAt), "dd MMM HH:mm") : "-"}
+                                    </td>
+                                    {params.map((p) => (
+                                      <td key={p.name} className="py-2 pr-3">
+                                        {p.type === "qualitative" ? (
+                                          <Select
+                                            value={cellValue(item, p.name)}
+                                            onValueChange={(v) => setValue(key, p.name, v)}
+                                          >
+                                            <SelectTrigger className="h-8 w-32" data-testid={`select-${key}-${p.paramCode}`}>
+                                              <SelectValue placeholder="-" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                              {p.options?.map((option) => (
+                                                <SelectItem key={option} value={option}>
+                                                  {option}
+                                                </SelectItem>
+                                              ))}
+                                            </SelectContent>
+                                          </Select>
+                                        ) : (
+                                          <Input
+                                            value={cellValue(item, p.name)}
+                                            onChange={(e) => setValue(key, p.name, e.target.value)}
+                                            inputMode="decimal"
+                                            className={`h-8 w-24 ${
+                                              values[key]?.[p.name] === undefined && item.imported?.values[p.name] ? "bg-primary/5 border-primary/40" : ""
+                                            }`}
+                                            data-testid={`input-${key}-${p.paramCode}`}
+                                          />
+                                        )}
+                                      </td>
+                                    ))}
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -1,16 +1,23 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
-import { User, Phone, Mail, Calendar, FileText, Clock, Download, MapPin, ChevronRight, CreditCard, CheckCircle, AlertCircle, Banknote } from "lucide-react";
+import { User, Phone, Mail, Calendar, FileText, Clock, Download, MapPin, ChevronRight, CreditCard, CheckCircle, AlertCircle, Banknote, TrendingUp, FileSpreadsheet, Share2 } from "lucide-react";
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from "recharts";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
 import { Header } from "@/components/header";
 import { Footer } from "@/components/footer";
+import { CumulativeReportDialog } from "@/components/cumulative-report-dialog";
+import { ShareReportsDialog } from "@/components/share-reports-dialog";
 import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -20,7 +27,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import type { Booking, Report, Test } from "@shared/schema";
+import type { Booking, Report, Test, TrendParameter, ParameterTrend } from "@shared/schema";
 
 const statusColors: Record<string, string> = {
   pending: "bg-warning text-warning-foreground",
@@ -28,6 +35,7 @@ const statusColors: Record<string, string> = {
   processing: "bg-info text-info-foreground",
   report_ready: "bg-success text-success-foreground",
   delivered: "bg-success text-success-foreground",
+  sample_rejected: "bg-destructive text-destructive-foreground",
 };
 
 const statusLabels: Record<string, string> = {
@@ -36,6 +44,7 @@ const statusLabels: Record<string, string> = {
   processing: "Processing",
   report_ready: "Report Ready",
   delivered: "Delivered",
+  sample_rejected: "Sample Rejected - Recollection Booked",
 };
 
 const paymentStatusColors: Record<string, string> = {
@@ -65,15 +74,160 @@ const paymentMethodLabels: Record<string, string> = {
   pay_at_lab: "Pay at Lab",
 };
 
+const trendPeriods: Record<string, string> = {
+  "6": "Last 6 months",
+  "12": "Last year",
+  "24": "Last 2 years",
+  all: "All time",
+};
+
+const trendChartConfig = {
+  value: { label: "Result", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function TrendsCard() {
+  const [paramCode, setParamCode] = useState("");
+  const [period, setPeriod] = useState("24");
+
+  const { data: parameters, isLoading } = useQuery<TrendParameter[]>({
+    queryKey: ["/api/patient/trends"],
+  });
+
+  const selectedCode = paramCode || parameters?.[0]?.paramCode || "";
+  const { data: trend, isLoading: trendLoading } = useQuery<ParameterTrend>({
+    queryKey: [`/api/patient/trends/${encodeURIComponent(selectedCode)}${period === "all" ? "" : `?months=${period}`}`],
+    enabled: !!selectedCode,
+  });
+
+  if (isLoading || !parameters || parameters.length === 0) {
+    return null;
+  }
+
+  // Shade the reference range that applied to the latest result
+  const latest = trend?.points[trend.points.length - 1];
+  const chartData = trend?.points.map((p) => ({ ...p, time: new Date(p.date).getTime() })) || [];
+
+  return (
+    <Card data-testid="card-trends">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Health Trends
+            </CardTitle>
+            <CardDescription>How your results have changed over time</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={selectedCode} onValueChange={setParamCode}>
+              <SelectTrigger className="w-48" data-testid="select-trend-parameter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {parameters.map((p) => (
+                  <SelectItem key={p.paramCode} value={p.paramCode}>
+                    {p.parameterName} ({p.count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger className="w-36" data-testid="select-trend-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(trendPeriods).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {trendLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : trend && chartData.length > 0 ? (
+          <>
+            <ChartContainer config={trendChartConfig} className="h-64 w-full aspect-auto">
+              <LineChart data={chartData} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={(time) => format(new Date(time), "MMM yy")}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  domain={["auto", "auto"]}
+                  tickLine={false}
+                  axisLine={false}
+                  width={48}
+                />
+                {latest && (latest.low !== undefined || latest.high !== undefined) && (
+                  <ReferenceArea
+                    y1={latest.low}
+                    y2={latest.high}
+                    fill="hsl(var(--success))"
+                    fillOpacity={0.12}
+                    ifOverflow="extendDomain"
+                  />
+                )}
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => format(new Date(payload[0]?.payload.date), "PPP")}
+                      formatter={(_, __, item) => (
+                        <span className="font-mono font-medium">
+                          {item.payload.displayValue} {trend.unit}
+                          {item.payload.flag && ` (${item.payload.flag})`}
+                        </span>
+                      )}
+                    />
+                  }
+                />
+                <Line
+                  dataKey="value"
+                  type="monotone"
+                  stroke="var(--color-value)"
+                  strokeWidth={2}
+                  dot={{ r: 4 }}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ChartContainer>
+            <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-xs text-muted-foreground">
+              <span>{trend.parameterName}{trend.unit && ` (${trend.unit})`}</span>
+              {latest?.normalRange && <span>Reference range: {latest.normalRange}</span>}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No results for this parameter in the selected period
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 interface ExtendedReport extends Report {
   test: Test;
+  tests: Test[];
   paymentVerified?: boolean;
   paymentStatus?: string;
 }
 
 export default function Dashboard() {
   const { patient } = useAuth();
+  const { toast } = useToast();
   const [showPaymentAlert, setShowPaymentAlert] = useState(false);
+  const [showCumulative, setShowCumulative] = useState(false);
+  // Set while the share dialog is open; reportId is empty when sharing everything
+  const [sharing, setSharing] = useState<{ reportId?: string } | null>(null);
 
   const { data: bookings, isLoading: bookingsLoading } = useQuery<(Booking & { tests: Test[] })[]>({
     queryKey: ["/api/patient/bookings"],
@@ -93,12 +247,24 @@ export default function Dashboard() {
     enabled: !!patient,
   });
 
-  const handleReportDownload = (report: ExtendedReport) => {
+  // Downloaded with the login token rather than the shareable link, which
+  // may have expired or been withdrawn
+  const handleReportDownload = async (report: ExtendedReport) => {
     if (!report.paymentVerified) {
       setShowPaymentAlert(true);
       return;
     }
-    window.open(`/api/reports/download/${report.secureDownloadToken}`, '_blank');
+    try {
+      const res = await apiRequest("GET", `/api/patient/reports/${report.id}/download`);
+      const blob = await res.blob();
+      window.open(URL.createObjectURL(blob), '_blank');
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: (error as Error).message || "Unable to open report.",
+        variant: "destructive",
+      });
+    }
   };
 
   if (!patient) {
@@ -242,6 +408,7 @@ export default function Dashboard() {
                                   <Badge variant="outline">
                                     {booking.type === "pickup" ? "Home Collection" : "Walk-in"}
                                   </Badge>
+                                  {booking.recollectionOfId && <Badge variant="outline">Free Recollection</Badge>}
                                 </div>
                               </div>
                               <Badge className={statusColors[booking.status] || "bg-muted"}>
@@ -328,6 +495,30 @@ export default function Dashboard() {
                       </div>
                     ) : reports && reports.length > 0 ? (
                       <div className="space-y-4">
+                        <div className="flex justify-end gap-2">
+                          {reports.some((r) => r.paymentVerified) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() => setSharing({})}
+                              data-testid="button-share-reports"
+                            >
+                              <Share2 className="h-4 w-4" />
+                              Share
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => setShowCumulative(true)}
+                            data-testid="button-cumulative-report"
+                          >
+                            <FileSpreadsheet className="h-4 w-4" />
+                            Cumulative Report
+                          </Button>
+                        </div>
                         {reports.map((report) => (
                           <div
                             key={report.id}
@@ -335,7 +526,14 @@ export default function Dashboard() {
                             data-testid={`report-${report.id}`}
                           >
                             <div className="space-y-1">
-                              <div className="font-medium">{report.test?.name || "Test Report"}</div>
+                              <div className="font-medium flex items-center gap-2">
+                                {report.tests?.map((t) => t.name).join(", ") || "Test Report"}
+                                {report.version > 1 && (
+                                  <Badge variant="outline" data-testid={`badge-revised-${report.id}`}>
+                                    Revised (v{report.version})
+                                  </Badge>
+                                )}
+                              </div>
                               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                                 <Calendar className="h-3 w-3" />
                                 {format(new Date(report.generatedAt), "PPP")}
@@ -347,17 +545,31 @@ export default function Dashboard() {
                                 </Badge>
                               )}
                             </div>
-                            <Button 
-                              variant={report.paymentVerified ? "outline" : "secondary"}
-                              size="sm" 
-                              className="gap-2" 
-                              data-testid={`button-download-${report.id}`}
-                              onClick={() => handleReportDownload(report)}
-                              disabled={!report.paymentVerified}
-                            >
-                              <Download className="h-4 w-4" />
-                              {report.paymentVerified ? "Download" : "Locked"}
-                            </Button>
+                            <div className="flex gap-2">
+                              {report.paymentVerified && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="gap-2"
+                                  onClick={() => setSharing({ reportId: report.id })}
+                                  data-testid={`button-share-${report.id}`}
+                                >
+                                  <Share2 className="h-4 w-4" />
+                                  Share
+                                </Button>
+                              )}
+                              <Button 
+                                variant={report.paymentVerified ? "outline" : "secondary"}
+                                size="sm" 
+                                className="gap-2" 
+                                data-testid={`button-download-${report.id}`}
+                                onClick={() => handleReportDownload(report)}
+                                disabled={!report.paymentVerified}
+                              >
+                                <Download className="h-4 w-4" />
+                                {report.paymentVerified ? "Download" : "Locked"}
+                              </Button>
+                            </div>
                           </div>
                         ))}
                       </div>
@@ -375,11 +587,32 @@ export default function Dashboard() {
               </Tabs>
             </Card>
           </div>
+
+          <TrendsCard />
         </div>
       </main>
 
       <Footer />
 
+      <CumulativeReportDialog
+        baseUrl="/api/patient/cumulative"
+        open={showCumulative}
+        onOpenChange={setShowCumulative}
+      />
+
+      {sharing && (
+        <ShareReportsDialog
+          key={sharing.reportId || "all"}
+          reports={(reports || []).filter((r) => r.paymentVerified).map((r) => ({
+            id: r.id,
+            title: `${r.tests?.map((t) => t.name).join(", ") || "Test Report"} (${format(new Date(r.generatedAt), "PP")})`,
+          }))}
+          initialReportId={sharing.reportId}
+          open
+          onOpenChange={(open) => !open && setSharing(null)}
+        />
+      )}
+
       <AlertDialog open={showPaymentAlert} onOpenChange={setShowPaymentAlert}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { format } from "date-fns";
+import { Search, Eye, Calendar, FileText, LogOut, Stethoscope, AlertTriangle, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { apiRequest } from "@/lib/queryClient";
+
+interface DoctorReport {
+  id: string;
+  patientName: string | null;
+  patientId: string | null;
+  tests: string[];
+  collectedAt: string | null;
+  generatedAt: string;
+  version: number;
+  hasCriticalValues: boolean;
+  paymentVerified: boolean;
+}
+
+export default function DoctorReports() {
+  const { doctor, logout } = useAuth();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+
+  const { data: reports, isLoading } = useQuery<DoctorReport[]>({
+    queryKey: ["/api/doctor/reports"],
+    enabled: !!doctor,
+  });
+
+  if (!doctor) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <div className="text-center space-y-4">
+          <Stethoscope className="h-16 w-16 mx-auto text-muted-foreground" />
+          <h1 className="text-2xl font-bold">Doctor Login Required</h1>
+          <p className="text-muted-foreground">Please login to see your patients' reports</p>
+          <Link href="/doctor/login">
+            <Button data-testid="button-doctor-login">Go to Login</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // The PDF route needs the doctor's token, so fetch it rather than linking
+  const viewReport = async (reportId: string) => {
+    try {
+      const res = await apiRequest("GET", `/api/doctor/reports/${reportId}/download`);
+      const blob = await res.blob();
+      window.open(URL.createObjectURL(blob), "_blank");
+    } catch (error) {
+      toast({
+        title: "Could Not Open Report",
+        description: (error as Error).message || "Unable to open report.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const filteredReports = reports?.filter((r) => {
+    const query = searchQuery.toLowerCase();
+    return (
+      (r.patientName?.toLowerCase().includes(query) ?? false) ||
+      (r.patientId?.toLowerCase().includes(query) ?? false) ||
+      r.tests.some((t) => t.toLowerCase().includes(query))
+    );
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="flex items-center justify-between p-4 border-b">
+        <div className="flex items-center gap-2">
+          <Stethoscope className="h-6 w-6 text-primary" />
+          <span className="font-semibold">Archana Pathology - Doctor Portal</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <ThemeToggle />
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={async () => {
+              await logout();
+              navigate("/doctor/login");
+            }}
+            data-testid="button-doctor-logout"
+          >
+            <LogOut className="h-4 w-4" />
+            Logout
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 bg-muted/30 p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold" data-testid="text-page-title">{doctor.name}</h1>
+            <p className="text-muted-foreground">Released reports of patients you referred</p>
+          </div>
+
+          <Card className="mb-6">
+            <CardContent className="pt-6">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by patient name, Patient ID or test..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10"
+                  data-testid="input-search-reports"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          {isLoading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <Card key={i}>
+                  <CardContent className="pt-6">
+                    <Skeleton className="h-12 w-full" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : filteredReports && filteredReports.length > 0 ? (
+            <div className="space-y-4">
+              {filteredReports.map((report) => (
+                <Card key={report.id} data-testid={`card-report-${report.id}`}>
+                  <CardContent className="pt-6">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                      <div className="space-y-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-semibold">{report.patientName}</span>
+                          {report.patientId && (
+                            <span className="text-sm text-primary font-mono bg-primary/10 px-2 py-0.5 rounded">
+                              {report.patientId}
+                            </span>
+                          )}
+                          {report.hasCriticalValues && (
+                            <Badge variant="destructive" className="gap-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              Critical
+                            </Badge>
+                          )}
+                          {report.version > 1 && <Badge variant="outline">Revised (v{report.version})</Badge>}
+                        </div>
+                        <div className="text-sm">{report.tests.join(", ")}</div>
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Calendar className="h-3 w-3" />
+                          {format(new Date(report.collectedAt || report.generatedAt), "PPP")}
+                        </div>
+                      </div>
+                      {report.paymentVerified ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2 sm:shrink-0"
+                          onClick={() => viewReport(report.id)}
+                          data-testid={`button-view-report-${report.id}`}
+                        >
+                          <Eye className="h-4 w-4" />
+                          View
+                        </Button>
+                      ) : (
+                        <Badge variant="outline" className="gap-1 sm:shrink-0">
+                          <Clock className="h-3 w-3" />
+                          Awaiting payment
+                        </Badge>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                <h3 className="font-medium mb-2">No Reports Found</h3>
+                <p className="text-muted-foreground text-sm">
+                  {searchQuery
+                    ? "Try a different search term"
+                    : "Reports of patients you refer will appear here once released"}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { format } from "date-fns";
+import { FileText, Lock, ShieldAlert, User, Calendar, Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Header } from "@/components/header";
+import { Footer } from "@/components/footer";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ShareInfo {
+  pinRequired: boolean;
+  expiresAt: string;
+}
+
+interface SharedReports {
+  patientName: string | null;
+  patientId: string | null;
+  label: string | null;
+  expiresAt: string;
+  reports: { id: string; tests: string[]; generatedAt: string; version: number }[];
+}
+
+// apiRequest errors read "401: {"message": ...}"; show just the message
+function readError(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export default function SharedReport() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [pin, setPin] = useState("");
+
+  const { data: info, isLoading, error } = useQuery<ShareInfo>({
+    queryKey: ["/api/shared", token],
+    retry: false,
+  });
+
+  const openMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/shared/${token}/open`, { pin: pin || undefined });
+      return res.json() as Promise<SharedReports>;
+    },
+  });
+
+  // Links without a PIN open straight away
+  useEffect(() => {
+    if (info && !info.pinRequired && !openMutation.data && !openMutation.isPending) {
+      openMutation.mutate();
+    }
+  }, [info]);
+
+  const viewReport = async (reportId: string) => {
+    try {
+      const res = await apiRequest("POST", `/api/shared/${token}/reports/${reportId}`, { pin: pin || undefined });
+      const blob = await res.blob();
+      window.open(URL.createObjectURL(blob), "_blank");
+    } catch (err) {
+      toast({
+        title: "Could Not Open Report",
+        description: readError(err as Error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const shared = openMutation.data;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-1 bg-background py-12">
+        <div className="max-w-2xl mx-auto px-4 space-y-6">
+          <div className="text-center">
+            <h1 className="text-2xl md:text-3xl font-bold mb-2" data-testid="text-page-title">
+              Shared Reports
+            </h1>
+            <p className="text-muted-foreground">
+              Lab reports shared by a patient of Archana Pathology Lab
+            </p>
+          </div>
+
+          {isLoading ? (
+            <Card>
+              <CardContent className="pt-6 space-y-3">
+                <Skeleton className="h-6 w-1/2" />
+                <Skeleton className="h-4 w-3/4" />
+              </CardContent>
+            </Card>
+          ) : error || !info ? (
+            <Card className="border-destructive">
+              <CardContent className="pt-6 text-center">
+                <ShieldAlert className="h-12 w-12 mx-auto text-destructive mb-4" />
+                <h3 className="font-medium mb-2">Link Unavailable</h3>
+                <p className="text-muted-foreground text-sm">
+                  This link has expired or been withdrawn. Please ask the patient to share their reports again.
+                </p>
+              </CardContent>
+            </Card>
+          ) : shared ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <User className="h-5 w-5" />
+                  {shared.patientName}
+                  {shared.patientId && (
+                    <span className="text-sm text-primary font-mono bg-primary/10 px-2 py-0.5 rounded">
+                      {shared.patientId}
+                    </span>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  Link valid until {format(new Date(shared.expiresAt), "PPp")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {shared.reports.length > 0 ? (
+                  shared.reports.map((report) => (
+                    <div
+                      key={report.id}
+                      className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg border"
+                      data-testid={`shared-report-${report.id}`}
+                    >
+                      <div className="space-y-1">
+                        <div className="font-medium flex items-center gap-2">
+                          {report.tests.join(", ") || "Test Report"}
+                          {report.version > 1 && <Badge variant="outline">Revised (v{report.version})</Badge>}
+                        </div>
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Calendar className="h-3 w-3" />
+                          {format(new Date(report.generatedAt), "PPP")}
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => viewReport(report.id)}
+                        data-testid={`button-view-shared-${report.id}`}
+                      >
+                        <Eye className="h-4 w-4" />
+                        View
+                      </Button>
+                    </div>
+                  ))
+                ) : (
+                  <div className="text-center py-6">
+                    <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                    <p className="text-muted-foreground text-sm">No reports are available through this link</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ) : info.pinRequired ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Lock className="h-5 w-5" />
+                  Enter PIN
+                </CardTitle>
+                <CardDescription>The patient protected these reports with a PIN</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    openMutation.mutate();
+                  }}
+                  className="space-y-3"
+                >
+                  <div className="flex gap-2">
+                    <Input
+                      value={pin}
+                      onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                      placeholder="PIN"
+                      inputMode="numeric"
+                      className="font-mono"
+                      autoFocus
+                      data-testid="input-share-pin"
+                    />
+                    <Button type="submit" disabled={pin.length < 4 || openMutation.isPending} data-testid="button-unlock">
+                      {openMutation.isPending ? "Checking..." : "Open"}
+                    </Button>
+                  </div>
+                  {openMutation.error && (
+                    <p className="text-sm text-destructive" data-testid="text-pin-error">
+                      {readError(openMutation.error)}
+                    </p>
+                  )}
+                </form>
+              </CardContent>
+            </Card>
+          ) : openMutation.error ? (
+            <Card className="border-destructive">
+              <CardContent className="pt-6 text-center">
+                <ShieldAlert className="h-12 w-12 mx-auto text-destructive mb-4" />
+                <p className="text-muted-foreground text-sm">{readError(openMutation.error)}</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="pt-6 space-y-3">
+                <Skeleton className="h-6 w-1/2" />
+                <Skeleton className="h-4 w-3/4" />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { format } from "date-fns";
+import { ShieldCheck, ShieldAlert, Search, FileText, User, Calendar, Hash } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Header } from "@/components/header";
+import { Footer } from "@/components/footer";
+
+interface VerificationResult {
+  verificationCode: string;
+  patientInitials: string;
+  testName: string | null;
+  generatedAt: string;
+  resultHash: string;
+  integrityIntact: boolean;
+  version: number;
+  superseded: boolean;
+}
+
+export default function VerifyReport() {
+  const params = useParams<{ code?: string }>();
+  const [, navigate] = useLocation();
+  const [codeInput, setCodeInput] = useState(params.code || "");
+
+  const { data: verification, isLoading, error } = useQuery<VerificationResult>({
+    queryKey: ["/api/reports/verify", params.code],
+    enabled: !!params.code,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = codeInput.trim();
+    if (code) {
+      navigate(`/verify/${encodeURIComponent(code)}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-1 bg-background py-12">
+        <div className="max-w-2xl mx-auto px-4 space-y-6">
+          <div className="text-center">
+            <h1 className="text-2xl md:text-3xl font-bold mb-2" data-testid="text-page-title">
+              Verify a Report
+            </h1>
+            <p className="text-muted-foreground">
+              Enter the verification code printed beside the QR code on an Archana Pathology Lab report
+            </p>
+          </div>
+
+          <Card>
+            <CardContent className="pt-6">
+              <form onSubmit={handleSubmit} className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="e.g. 7KQM-4XRD"
+                    value={codeInput}
+                    onChange={(e) => setCodeInput(e.target.value.toUpperCase())}
+                    className="pl-10 font-mono"
+                    data-testid="input-verification-code"
+                  />
+                </div>
+                <Button type="submit" disabled={!codeInput.trim()} data-testid="button-verify">
+                  Verify
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {params.code && (
+            isLoading ? (
+              <Card>
+                <CardContent className="pt-6 space-y-3">
+                  <Skeleton className="h-6 w-1/2" />
+                  <Skeleton className="h-4 w-3/4" />
+                  <Skeleton className="h-4 w-2/3" />
+                </CardContent>
+              </Card>
+            ) : error || !verification ? (
+              <Card className="border-destructive">
+                <CardContent className="pt-6 text-center">
+                  <ShieldAlert className="h-12 w-12 mx-auto text-destructive mb-4" />
+                  <h3 className="font-medium mb-2">Report Not Found</h3>
+                  <p className="text-muted-foreground text-sm">
+                    No report matches this code. Please check the code or contact the lab.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : verification.superseded ? (
+              <Card className="border-warning">
+                <CardContent className="pt-6 text-center">
+                  <ShieldAlert className="h-12 w-12 mx-auto text-warning mb-4" />
+                  <h3 className="font-medium mb-2" data-testid="text-verification-status">Report Amended</h3>
+                  <p className="text-muted-foreground text-sm">
+                    This report ({verification.testName}, issued {format(new Date(verification.generatedAt), "PP")}) has been
+                    replaced by an amended version. Please ask the patient for the current report.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className={verification.integrityIntact ? "border-success" : "border-destructive"}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2" data-testid="text-verification-status">
+                    {verification.integrityIntact ? (
+                      <>
+                        <ShieldCheck className="h-6 w-6 text-success" />
+                        Genuine Report
+                      </>
+                    ) : (
+                      <>
+                        <ShieldAlert className="h-6 w-6 text-destructive" />
+                        Results Do Not Match
+                      </>
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    {verification.integrityIntact
+                      ? "This report was issued by Archana Pathology Lab and its results are unchanged."
+                      : "The results on record no longer match this report. Please contact the lab."}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="flex items-center gap-3">
+                    <User className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-muted-foreground">Patient:</span>
+                    <span className="font-medium" data-testid="text-patient-initials">{verification.patientInitials}</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <FileText className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-muted-foreground">Test:</span>
+                    <span className="font-medium">{verification.testName || "-"}</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Calendar className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-muted-foreground">Generated:</span>
+                    <span className="font-medium">{format(new Date(verification.generatedAt), "PPp")}</span>
+                  </div>
+                  <div className="flex items-start gap-3">
+                    <Hash className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <span className="text-muted-foreground">Hash:</span>
+                    <span className="font-mono text-xs break-all">{verification.resultHash}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
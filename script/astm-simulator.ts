@@ -0,0 +1,101 @@
+// Sends a haematology result message the way an analyser would, so the ASTM
+// interface can be tried without hardware.
+//
+//   npm run astm:simulate -- <accession> [--host localhost] [--port 5100]
+//   npm run astm:simulate -- <accession> --file <drop folder>
+//
+// The first form talks to the listener started with ASTM_PORT; the second
+// writes a file into the folder watched through ASTM_DROP_DIR.
+import net from "net";
+import fs from "fs";
+import path from "path";
+import { buildAstmFrames, ENQ, ACK, EOT } from "../server/astm";
+
+const ANALYSER = "SIM-HEM";
+const ACK_TIMEOUT_MS = 15000;
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+// A CBC with counts in the units most haematology analysers report;
+// randomised a little so repeated runs differ
+function cbcRecords(accession: string): string[] {
+  const vary = (value: number, digits: number) => (value * (0.9 + Math.random() * 0.2)).toFixed(digits);
+  const timestamp = new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14);
+  const results: [string, string, string][] = [
+    ["WBC", vary(7.2, 2), "10*3/uL"],
+    ["RBC", vary(4.9, 2), "10*6/uL"],
+    ["HGB", vary(14.1, 1), "g/dL"],
+    ["MCV", vary(89, 1), "fL"],
+    ["MCH", vary(29.5, 1), "pg"],
+    ["MCHC", vary(33.4, 1), "g/dL"],
+    ["PLT", vary(260, 0), "10*3/uL"],
+  ];
+
+  return [
+    `H|\\^&|||${ANALYSER}^1.0^00001|||||||P|LIS2-A2|${timestamp}`,
+    "P|1",
+    `O|1|${accession}||^^^CBC|R||||||N||||||||||||||F`,
+    ...results.map(([code, value, unit], i) => `R|${i + 1}|^^^${code}|${value}|${unit}||N||F||||${timestamp}`),
+    "L|1|N",
+  ];
+}
+
+function waitForAck(socket: net.Socket): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("No acknowledgement from the listener")), ACK_TIMEOUT_MS);
+    socket.once("data", (data: Buffer) => {
+      clearTimeout(timer);
+      data[0] === ACK ? resolve() : reject(new Error(`Listener replied 0x${data[0].toString(16)} instead of ACK`));
+    });
+  });
+}
+
+async function sendOverTcp(records: string[], host: string, port: number): Promise<void> {
+  const socket = net.createConnection({ host, port });
+  await new Promise<void>((resolve, reject) => {
+    socket.once("connect", resolve);
+    socket.once("error", reject);
+  });
+
+  try {
+    socket.write(Buffer.from([ENQ]));
+    await waitForAck(socket);
+    for (const frame of buildAstmFrames(records)) {
+      socket.write(frame, "latin1");
+      await waitForAck(socket);
+    }
+    socket.write(Buffer.from([EOT]));
+  } finally {
+    socket.end();
+  }
+}
+
+async function main() {
+  const accession = process.argv[2];
+  if (!accession || accession.startsWith("--")) {
+    console.error("Usage: astm-simulator <accession> [--host host] [--port port] [--file dir]");
+    process.exit(1);
+  }
+
+  const records = cbcRecords(accession);
+  const dir = option("file");
+  if (dir) {
+    const file = path.join(dir, `${ANALYSER}-${accession}-${Date.now()}.astm`);
+    fs.writeFileSync(file, buildAstmFrames(records).join(""), "latin1");
+    console.log(`Wrote ${file}`);
+    return;
+  }
+
+  const host = option("host") || "localhost";
+  const port = parseInt(option("port") || process.env.ASTM_PORT || "5100", 10);
+  await sendOverTcp(records, host, port);
+  console.log(`Sent CBC for ${accession} to ${host}:${port}`);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
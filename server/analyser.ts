@@ -0,0 +1,241 @@
+import net from "net";
+import path from "path";
+import fs from "fs";
+import { storage, type AnalyserImportMatch } from "./storage";
+import { parseAstmMessages, readAstmFrame, nextFrameNumber, ACK, NAK, ENQ, EOT, STX, type AstmResult } from "./astm";
+import type {
+  AnalyserImport, AnalyserImportSource, AnalyserValue, InstrumentCodeMapping, Test, TestParameter,
+} from "@shared/schema";
+
+// How often the drop folder is checked for new files
+const FILE_DROP_INTERVAL_MS = 10000;
+// A file is only read once it has not changed for this long, so one still
+// being written is not imported half-finished
+const FILE_SETTLE_MS = 5000;
+
+// Results the analyser could not produce carry status X and are left out
+function toAnalyserValues(analyser: string, results: AstmResult[], mappings: InstrumentCodeMapping[]): AnalyserValue[] {
+  return results
+    .filter((r) => r.value && r.status.toUpperCase() !== "X")
+    .map((r) => {
+      const mapping = mappings.find(
+        (m) => m.analyser.toLowerCase() === analyser.toLowerCase() && m.instrumentCode.toLowerCase() === r.instrumentCode.toLowerCase()
+      );
+      const factor = mapping ? Number(mapping.factor) : 1;
+      const numeric = Number(r.value);
+      return {
+        instrumentCode: r.instrumentCode,
+        paramCode: mapping?.paramCode || null,
+        value: factor !== 1 && Number.isFinite(numeric) ? String(Number((numeric * factor).toPrecision(12))) : r.value,
+        unit: r.unit,
+        ...(r.flags && { flags: r.flags }),
+      };
+    });
+}
+
+// Codes that equal one of our paramCodes need no mapping
+async function fillDirectCodes(values: AnalyserValue[]): Promise<AnalyserValue[]> {
+  const paramCodes = new Set(
+    (await storage.getAllTests()).flatMap((t) => (t.parameters as TestParameter[]).map((p) => p.paramCode))
+  );
+  return values.map((v) => (v.paramCode || !paramCodes.has(v.instrumentCode.toUpperCase())
+    ? v
+    : { ...v, paramCode: v.instrumentCode.toUpperCase() }));
+}
+
+async function matchSample(accessionNumber: string, values: AnalyserValue[]): Promise<AnalyserImportMatch> {
+  const sample = accessionNumber ? await storage.getSampleByAccession(accessionNumber) : undefined;
+  if (!sample) {
+    return { values, sampleId: null, bookingId: null, status: "unmatched", note: "No sample with this barcode" };
+  }
+  if (sample.status === "rejected") {
+    return { values, sampleId: sample.id, bookingId: sample.bookingId, status: "unmatched", note: "The sample was rejected" };
+  }
+  if (!values.some((v) => v.paramCode)) {
+    return {
+      values, sampleId: sample.id, bookingId: sample.bookingId, status: "unmatched", note: "None of the analyser's codes are mapped",
+    };
+  }
+  return { values, sampleId: sample.id, bookingId: sample.bookingId, status: "pending", note: null };
+}
+
+// Store every specimen in the data as an import, matched to its sample by
+// barcode where possible
+export async function importAstmData(data: string, source: AnalyserImportSource): Promise<AnalyserImport[]> {
+  const mappings = await storage.getInstrumentCodeMappings();
+  const imports: AnalyserImport[] = [];
+
+  for (const message of parseAstmMessages(data)) {
+    const analyser = message.sender || "Unknown analyser";
+    for (const order of message.orders) {
+      if (order.results.length === 0) continue;
+      const values = await fillDirectCodes(toAnalyserValues(analyser, order.results, mappings));
+      imports.push(await storage.createAnalyserImport({
+        analyser,
+        accessionNumber: order.specimenId,
+        source,
+        receivedAt: new Date(),
+        ...await matchSample(order.specimenId, values),
+      }));
+    }
+  }
+  return imports;
+}
+
+// Try an unmatched import again, after the sample has been collected or
+// its codes have been mapped
+export async function rematchAnalyserImport(analyserImport: AnalyserImport): Promise<AnalyserImport | undefined> {
+  const mappings = await storage.getInstrumentCodeMappings();
+  // Values mapped before keep their converted value; only unmapped ones are looked up again
+  const values = await fillDirectCodes(analyserImport.values.map((v) => v.paramCode
+    ? v
+    : toAnalyserValues(analyserImport.analyser, [{ ...v, flags: v.flags || "", status: "" }], mappings)[0]
+  ));
+  return storage.updateAnalyserImportMatch(analyserImport.id, await matchSample(analyserImport.accessionNumber, values));
+}
+
+// The newest pending value for each of the test's parameters, keyed by
+// parameter name as the result entry screens use
+export function getImportedValues(
+  imports: AnalyserImport[],
+  test: Test,
+  sampleId: string
+): { importId: string; analyser: string; receivedAt: Date; values: Record<string, string> } | null {
+  const sampleImports = imports.filter((i) => i.sampleId === sampleId);
+  const values: Record<string, string> = {};
+  let source: AnalyserImport | null = null;
+
+  for (const param of test.parameters as TestParameter[]) {
+    if (param.type === "calculated") continue;
+    for (const analyserImport of sampleImports) {
+      const value = analyserImport.values.find((v) => v.paramCode === param.paramCode);
+      if (value) {
+        values[param.name] = value.value;
+        source = source || analyserImport;
+        break;
+      }
+    }
+  }
+  return source ? { importId: source.id, analyser: source.analyser, receivedAt: source.receivedAt, values } : null;
+}
+
+// Once every test on an import's sample has results, the import is done
+export async function markAnalyserImportsApplied(bookingId: string): Promise<void> {
+  const imports = await storage.getPendingAnalyserImportsByBooking(bookingId);
+  if (imports.length === 0) return;
+  const [bookingResults, samples] = await Promise.all([
+    storage.getResultsByBooking(bookingId),
+    storage.getSamplesByBooking(bookingId),
+  ]);
+
+  for (const analyserImport of imports) {
+    const sample = samples.find((s) => s.id === analyserImport.sampleId);
+    if (sample && sample.testIds.every((testId) => bookingResults.some((r) => r.testId === testId))) {
+      await storage.setAnalyserImportStatus(analyserImport.id, "applied");
+    }
+  }
+}
+
+// LIS1-A low-level protocol over TCP: acknowledge the enquiry, check and
+// acknowledge each frame, and import the message when the analyser sends EOT.
+// A frame resent because our ACK was lost repeats the last frame number; it
+// is acknowledged again but its text is not added twice.
+export function startAstmListener(port: number): net.Server {
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let message = "";
+    let expectedFrame = 1;
+
+    socket.setEncoding("latin1");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      while (buffer.length > 0) {
+        const code = buffer.charCodeAt(0);
+        if (code === ENQ) {
+          message = "";
+          expectedFrame = 1;
+          buffer = buffer.slice(1);
+          socket.write(Buffer.from([ACK]));
+        } else if (code === EOT) {
+          buffer = buffer.slice(1);
+          if (message) {
+            importAstmData(message, "listener")
+              .then((imports) => console.log(`ASTM listener imported ${imports.length} specimen(s) from ${socket.remoteAddress}`))
+              .catch((error) => console.error("Error importing ASTM message:", error));
+          }
+          message = "";
+        } else if (code === STX) {
+          // A frame is complete once its trailing CR LF has arrived
+          const end = buffer.indexOf("\r\n");
+          if (end === -1) break;
+          const frame = readAstmFrame(buffer.slice(0, end + 2));
+          buffer = buffer.slice(end + 2);
+          const accepted = frame?.frameNumber === expectedFrame;
+          const repeated = frame?.frameNumber === (expectedFrame + 7) % 8;
+          if (frame && accepted) {
+            message += frame.text;
+            expectedFrame = nextFrameNumber(frame.frameNumber);
+          }
+          socket.write(Buffer.from([accepted || repeated ? ACK : NAK]));
+        } else {
+          buffer = buffer.slice(1);
+        }
+      }
+    });
+    socket.on("error", (error) => console.error("ASTM listener connection error:", error.message));
+  });
+
+  // A port that is taken or needs privileges only disables the listener;
+  // the rest of the app keeps running
+  server.on("error", (error) => console.error(`ASTM listener on port ${port} failed:`, error.message));
+  server.listen(port, () => console.log(`ASTM listener on port ${port}`));
+  return server;
+}
+
+// Pick up files written to the drop folder by analyser middleware. Each file
+// is moved to processed/ or failed/ so it is only imported once.
+export function startAstmFileDrop(dir: string): NodeJS.Timeout {
+  for (const sub of ["processed", "failed"]) {
+    fs.mkdirSync(path.join(dir, sub), { recursive: true });
+  }
+
+  let busy = false;
+  const poll = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      const settledBefore = Date.now() - FILE_SETTLE_MS;
+      const files = fs.readdirSync(dir, { withFileTypes: true })
+        .filter((f) => f.isFile() && fs.statSync(path.join(dir, f.name)).mtimeMs < settledBefore);
+      for (const file of files) {
+        const filePath = path.join(dir, file.name);
+        try {
+          const imports = await importAstmData(fs.readFileSync(filePath, "latin1"), "file");
+          fs.renameSync(filePath, path.join(dir, "processed", file.name));
+          console.log(`ASTM file drop imported ${imports.length} specimen(s) from ${file.name}`);
+        } catch (error) {
+          console.error(`Error importing ASTM file ${file.name}:`, error);
+          fs.renameSync(filePath, path.join(dir, "failed", file.name));
+        }
+      }
+    } catch (error) {
+      // Picked up again on the next poll
+      console.error("Error polling ASTM drop folder:", error);
+    } finally {
+      busy = false;
+    }
+  };
+
+  console.log(`ASTM file drop watching ${dir}`);
+  return setInterval(poll, FILE_DROP_INTERVAL_MS);
+}
+
+// Both interfaces are off unless configured
+export function startAnalyserInterfaces(): void {
+  if (process.env.ASTM_PORT) {
+    startAstmListener(parseInt(process.env.ASTM_PORT, 10));
+  }
+  if (process.env.ASTM_DROP_DIR) {
+    startAstmFileDrop(path.resolve(process.env.ASTM_DROP_DIR));
+  }
+}
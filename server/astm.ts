@@ -0,0 +1,175 @@
+// ASTM E1394 (LIS2-A2) records and the E1381 (LIS1-A) framing analysers use
+// to send them over a serial line or TCP socket.
+
+export const ENQ = 0x05;
+export const ACK = 0x06;
+export const NAK = 0x15;
+export const EOT = 0x04;
+export const STX = 0x02;
+export const ETX = 0x03;
+export const ETB = 0x17;
+const CR = "\r";
+const LF = "\n";
+
+// A frame carries at most 240 characters of message text; longer records
+// are split with ETB and the last piece ends with ETX
+const MAX_FRAME_TEXT = 240;
+
+export interface AstmResult {
+  instrumentCode: string;
+  value: string;
+  unit: string;
+  flags: string;
+  status: string;
+}
+
+export interface AstmOrder {
+  specimenId: string;
+  results: AstmResult[];
+}
+
+export interface AstmMessage {
+  sender: string;
+  orders: AstmOrder[];
+}
+
+// Modulo-256 sum of everything after STX up to and including ETX or ETB,
+// as two uppercase hex digits
+export function astmChecksum(body: string): string {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    sum = (sum + body.charCodeAt(i)) % 256;
+  }
+  return sum.toString(16).toUpperCase().padStart(2, "0");
+}
+
+// Split records into frames ready to send: <STX>FN text <ETX|ETB> C1 C2 <CR><LF>.
+// Frame numbers run 1-7 then wrap to 0.
+export function buildAstmFrames(records: string[]): string[] {
+  const frames: string[] = [];
+  for (const record of records) {
+    const text = record + CR;
+    for (let start = 0; start < text.length; start += MAX_FRAME_TEXT) {
+      const last = start + MAX_FRAME_TEXT >= text.length;
+      const body = `${(frames.length + 1) % 8}${text.slice(start, start + MAX_FRAME_TEXT)}${String.fromCharCode(last ? ETX : ETB)}`;
+      frames.push(`${String.fromCharCode(STX)}${body}${astmChecksum(body)}${CR}${LF}`);
+    }
+  }
+  return frames;
+}
+
+export interface AstmFrame {
+  frameNumber: number;
+  text: string;
+  final: boolean;
+}
+
+// Check one received frame and return its number and text, or null when the
+// checksum or layout is wrong and the sender should be sent NAK
+export function readAstmFrame(frame: string): AstmFrame | null {
+  const end = Math.max(frame.lastIndexOf(String.fromCharCode(ETX)), frame.lastIndexOf(String.fromCharCode(ETB)));
+  if (frame.charCodeAt(0) !== STX || end < 2) return null;
+  const body = frame.slice(1, end + 1);
+  const frameNumber = parseInt(body.charAt(0), 10);
+  if (!(frameNumber >= 0 && frameNumber <= 7)) return null;
+  if (frame.slice(end + 1, end + 3).toUpperCase() !== astmChecksum(body)) return null;
+  return { frameNumber, text: body.slice(1, -1), final: frame.charCodeAt(end) === ETX };
+}
+
+// The frame number that follows the given one; numbering starts at 1 after
+// ENQ and wraps from 7 to 0
+export function nextFrameNumber(frameNumber: number): number {
+  return (frameNumber + 1) % 8;
+}
+
+// Remove framing from a capture of a whole session so file drops can hold
+// either raw frames or bare records. A frame repeating the previous frame's
+// number within a session is a retransmission and is only kept once; ENQ and
+// EOT between frames start a new session, whose numbering restarts.
+export function stripAstmFraming(data: string): string {
+  if (!data.includes(String.fromCharCode(STX))) return data;
+  const frames = data.split(String.fromCharCode(STX)).slice(1);
+  let previous: number | null = null;
+  let text = "";
+  for (const raw of frames) {
+    const frame = readAstmFrame(String.fromCharCode(STX) + raw);
+    if (frame && frame.frameNumber !== previous) {
+      previous = frame.frameNumber;
+      text += frame.text;
+    }
+    if (raw.includes(String.fromCharCode(ENQ)) || raw.includes(String.fromCharCode(EOT))) {
+      previous = null;
+    }
+  }
+  return text;
+}
+
+interface Delimiters {
+  field: string;
+  repeat: string;
+  component: string;
+  escape: string;
+}
+
+function unescape(text: string, d: Delimiters): string {
+  const e = d.escape.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return text
+    .replace(new RegExp(`${e}F${e}`, "g"), d.field)
+    .replace(new RegExp(`${e}S${e}`, "g"), d.component)
+    .replace(new RegExp(`${e}R${e}`, "g"), d.repeat)
+    .replace(new RegExp(`${e}E${e}`, "g"), d.escape);
+}
+
+function components(field: string | undefined, d: Delimiters): string[] {
+  return (field || "").split(d.repeat)[0].split(d.component).map((c) => unescape(c, d).trim());
+}
+
+// Parse the record layer into messages, one per header record. Analysers
+// differ in where they put the barcode: the specimen ID (field 3) is used
+// when filled, otherwise the instrument specimen ID (field 4). The test code
+// is the manufacturer's local code: the first component filled from the
+// fourth on of the universal test ID (Sysmex puts it in the fifth).
+export function parseAstmMessages(data: string): AstmMessage[] {
+  const records = stripAstmFraming(data).split(/\r\n|\r|\n/).map((r) => r.trim()).filter(Boolean);
+  const messages: AstmMessage[] = [];
+  let d: Delimiters = { field: "|", repeat: "\\", component: "^", escape: "&" };
+  let message: AstmMessage | null = null;
+  let order: AstmOrder | null = null;
+
+  for (const record of records) {
+    // Some analysers prefix each record with its frame number
+    const line = /^[0-7][A-Z]\|/.test(record) ? record.slice(1) : record;
+    const type = line.charAt(0).toUpperCase();
+
+    if (type === "H") {
+      d = { field: line.charAt(1), repeat: line.charAt(2), component: line.charAt(3), escape: line.charAt(4) };
+      const fields = line.split(d.field);
+      message = { sender: components(fields[4], d).find(Boolean) || "", orders: [] };
+      messages.push(message);
+      order = null;
+      continue;
+    }
+    if (!message) continue;
+
+    const fields = line.split(d.field);
+    if (type === "O") {
+      const specimenId = components(fields[2], d).find(Boolean) || components(fields[3], d).find(Boolean) || "";
+      order = { specimenId, results: [] };
+      message.orders.push(order);
+    } else if (type === "R" && order) {
+      const testId = components(fields[2], d);
+      const instrumentCode = testId.slice(3).find(Boolean) || testId.find(Boolean) || "";
+      if (!instrumentCode) continue;
+      order.results.push({
+        instrumentCode,
+        value: components(fields[3], d).find(Boolean) || "",
+        unit: components(fields[4], d).join(d.component),
+        flags: components(fields[6], d).filter(Boolean).join(" "),
+        status: components(fields[8], d)[0] || "",
+      });
+    } else if (type === "L") {
+      order = null;
+    }
+  }
+  return messages;
+}
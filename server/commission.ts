@@ -0,0 +1,180 @@
+import { storage } from "./storage";
+import type {
+  Booking, Test, CommissionRule, CommissionEntry, CommissionStatement, InsertCommissionEntry, CommissionRateType,
+} from "@shared/schema";
+
+// The most specific rule that applies to a doctor and test category
+export function findCommissionRule(
+  rules: CommissionRule[],
+  doctorId: string,
+  category: string
+): CommissionRule | undefined {
+  const rank = (rule: CommissionRule) => (rule.doctorId ? 2 : 0) + (rule.category ? 1 : 0);
+  return rules
+    .filter((rule) => (!rule.doctorId || rule.doctorId === doctorId) && (!rule.category || rule.category === category))
+    .sort((a, b) => rank(b) - rank(a))[0];
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Ledger lines for a referred booking, one per test. When the patient paid
+// something other than the list prices (a discount, say) each test's base is
+// its share of what was actually paid. Tests without a rule earn nothing.
+export function calculateBookingCommission(
+  booking: Booking,
+  doctorId: string,
+  tests: Test[],
+  rules: CommissionRule[]
+): InsertCommissionEntry[] {
+  const listTotal = tests.reduce((sum, t) => sum + Number(t.price), 0);
+  const paid = booking.amountPaid ? Number(booking.amountPaid) : listTotal;
+  const scale = listTotal > 0 ? paid / listTotal : 0;
+
+  const entries: InsertCommissionEntry[] = [];
+  for (const test of tests) {
+    const rule = findCommissionRule(rules, doctorId, test.category);
+    if (!rule) continue;
+    const base = roundMoney(Number(test.price) * scale);
+    const rate = Number(rule.rate);
+    const amount = roundMoney(rule.rateType === "flat" ? Math.min(rate, base) : (base * rate) / 100);
+    if (amount <= 0) continue;
+    entries.push({
+      doctorId,
+      bookingId: booking.id,
+      testId: test.id,
+      category: test.category,
+      baseAmount: base.toFixed(2),
+      rateType: rule.rateType,
+      rate: rule.rate,
+      amount: amount.toFixed(2),
+      statementId: null,
+    });
+  }
+  return entries;
+}
+
+// Accrue commission once a booking has both a referring doctor and a
+// verified payment. Safe to call whenever either changes: a booking is only
+// ever accrued once.
+export async function accrueBookingCommission(booking: Booking): Promise<CommissionEntry[]> {
+  if (!booking.referringDoctorId || booking.paymentStatus !== "verified") return [];
+  if ((await storage.getCommissionEntriesByBooking(booking.id)).length > 0) return [];
+
+  const tests: Test[] = [];
+  for (const testId of booking.testIds as string[]) {
+    const test = await storage.getTest(testId);
+    if (test) tests.push(test);
+  }
+  const rules = await storage.getCommissionRules();
+  return storage.createCommissionEntries(calculateBookingCommission(booking, booking.referringDoctorId, tests, rules));
+}
+
+// First instant of a "YYYY-MM" month and of the month after it, or null if
+// the string is not a month
+export function getMonthRange(month: string): { start: Date; end: Date } | null {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  return { start: new Date(year, monthIndex, 1), end: new Date(year, monthIndex + 1, 1) };
+}
+
+export function currentMonth(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+}
+
+// Put every unbilled entry accrued in the month on its doctor's statement,
+// creating statements as needed. Entries accrue when payment is verified, so
+// once the month is over nothing new lands in it and its statements are final.
+export async function buildMonthlyStatements(month: string): Promise<CommissionStatement[]> {
+  const range = getMonthRange(month);
+  if (!range) return [];
+
+  const unbilled = (await storage.getCommissionEntriesBetween(range.start, range.end)).filter((e) => !e.statementId);
+  const existing = await storage.getCommissionStatementsByMonth(month);
+
+  const byDoctor = new Map<string, CommissionEntry[]>();
+  for (const entry of unbilled) {
+    byDoctor.set(entry.doctorId, [...(byDoctor.get(entry.doctorId) || []), entry]);
+  }
+
+  for (const [doctorId, entries] of Array.from(byDoctor.entries())) {
+    let statement = existing.find((s) => s.doctorId === doctorId);
+    if (!statement) {
+      statement = await storage.createCommissionStatement({ doctorId, month, totalAmount: "0", entryCount: 0 });
+      existing.push(statement);
+    }
+    await storage.assignCommissionEntries(entries.map((e) => e.id), statement.id);
+    const all = await storage.getCommissionEntriesByStatement(statement.id);
+    const total = roundMoney(all.reduce((sum, e) => sum + Number(e.amount), 0));
+    const updated = await storage.updateCommissionStatementTotals(statement.id, total.toFixed(2), all.length);
+    existing[existing.indexOf(statement)] = updated || statement;
+  }
+  return existing;
+}
+
+export interface StatementLine {
+  accruedAt: Date;
+  bookingDate: Date | null;
+  patientName: string;
+  patientId: string | null;
+  testName: string;
+  category: string;
+  baseAmount: string;
+  rateType: CommissionRateType;
+  rate: string;
+  amount: string;
+}
+
+// Ledger entries with the patient and test they were earned on
+export async function describeCommissionEntries(entries: CommissionEntry[]): Promise<StatementLine[]> {
+  const lines: StatementLine[] = [];
+  for (const entry of entries) {
+    const [booking, test] = await Promise.all([storage.getBooking(entry.bookingId), storage.getTest(entry.testId)]);
+    const patient = booking?.patientId ? await storage.getPatient(booking.patientId) : undefined;
+    lines.push({
+      accruedAt: entry.accruedAt,
+      bookingDate: booking?.slot || null,
+      patientName: patient?.name || booking?.guestName || "Guest",
+      patientId: patient?.patientId || null,
+      testName: test?.name || "Unknown test",
+      category: entry.category,
+      baseAmount: entry.baseAmount,
+      rateType: entry.rateType as CommissionRateType,
+      rate: entry.rate,
+      amount: entry.amount,
+    });
+  }
+  return lines;
+}
+
+export function formatCommissionRate(rateType: CommissionRateType, rate: string): string {
+  return rateType === "flat" ? `Rs. ${rate} flat` : `${Number(rate)}%`;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Statement as CSV for the accountant, one row per ledger entry and a total
+export function buildStatementCsv(lines: StatementLine[], totalAmount: string): string {
+  const rows = [
+    ["Accrued On", "Booking Date", "Patient", "Patient ID", "Test", "Category", "Base Amount", "Rate", "Commission"],
+    ...lines.map((line) => [
+      line.accruedAt.toISOString().slice(0, 10),
+      line.bookingDate ? line.bookingDate.toISOString().slice(0, 10) : "",
+      line.patientName,
+      line.patientId || "",
+      line.testName,
+      line.category,
+      line.baseAmount,
+      formatCommissionRate(line.rateType, line.rate),
+      line.amount,
+    ]),
+    ["", "", "", "", "", "", "", "Total", totalAmount],
+  ];
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
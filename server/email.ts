@@ -72,3 +72,110 @@ export async function sendOtpEmail(to: string, otp: string, purpose: string): Pr
     return true;
   }
 }
+
+export interface CriticalValueAlert {
+  patientName: string;
+  patientId: string;
+  testName: string;
+  values: { parameterName: string; value: string; unit: string }[];
+}
+
+// Alert the lab's on-call inbox as soon as a critical value is entered
+export async function sendCriticalValueAlert(alert: CriticalValueAlert): Promise<boolean> {
+  const to = process.env.CRITICAL_ALERT_EMAIL;
+  const summary = alert.values.map((v) => `${v.parameterName}: ${v.value} ${v.unit}`.trim()).join(", ");
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+      <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: #C0392B; color: white; padding: 16px; border-radius: 8px 8px 0 0;">
+          <h2 style="margin: 0;">Critical Value Alert</h2>
+        </div>
+        <div style="background: #f9f9f9; padding: 20px; border-radius: 0 0 8px 8px;">
+          <p><strong>Patient:</strong> ${alert.patientName} (${alert.patientId})</p>
+          <p><strong>Test:</strong> ${alert.testName}</p>
+          <ul>
+            ${alert.values.map((v) => `<li><strong>${v.parameterName}</strong>: ${v.value} ${v.unit}</li>`).join("")}
+          </ul>
+          <p>The report is on hold. Inform the patient or referring doctor and log the call before releasing it.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  try {
+    if (!to || !process.env.EMAIL_USER || !process.env.EMAIL_PASS) {
+      console.log(`[DEV MODE] Critical value alert for ${alert.patientId} (${alert.testName}): ${summary}`);
+      return true;
+    }
+
+    await transporter.sendMail({
+      from: `"Archana Pathology Lab" <${process.env.EMAIL_USER}>`,
+      to,
+      subject: `CRITICAL VALUE - ${alert.patientId} - ${alert.testName}`,
+      html,
+    });
+    console.log(`Critical value alert sent to ${to}`);
+    return true;
+  } catch (error) {
+    console.error("Failed to send critical value alert:", error);
+    return false;
+  }
+}
+
+export interface SampleRejectionNotice {
+  patientName: string;
+  accessionNumber: string;
+  reason: string;
+  testNames: string[];
+  recollectionSlot: Date;
+  homeCollection: boolean;
+}
+
+// Tell the patient their sample could not be used and when it will be
+// collected again, at no charge
+export async function sendSampleRejectionNotice(to: string, notice: SampleRejectionNotice): Promise<boolean> {
+  const slot = notice.recollectionSlot.toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+  const where = notice.homeCollection ? "We will visit you to collect a fresh sample" : "Please visit the lab to give a fresh sample";
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+      <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: #005B96; color: white; padding: 16px; border-radius: 8px 8px 0 0;">
+          <h2 style="margin: 0;">Archana Pathology Lab</h2>
+        </div>
+        <div style="background: #f9f9f9; padding: 20px; border-radius: 0 0 8px 8px;">
+          <p>Dear ${notice.patientName},</p>
+          <p>We are sorry, but your sample (${notice.accessionNumber}) for ${notice.testNames.join(", ")} could not be tested because it was <strong>${notice.reason}</strong>.</p>
+          <p>${where} on or after <strong>${slot}</strong>. There is no charge for the repeat collection.</p>
+          <p>Contact: +91 98765 43210 | info@archanapathology.com</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  try {
+    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASS) {
+      console.log(`[DEV MODE] Sample rejection notice for ${to}: ${notice.accessionNumber} (${notice.reason}), recollection ${slot}`);
+      return true;
+    }
+
+    await transporter.sendMail({
+      from: `"Archana Pathology Lab" <${process.env.EMAIL_USER}>`,
+      to,
+      subject: "Fresh sample needed - Archana Pathology Lab",
+      html,
+    });
+    console.log(`Sample rejection notice sent to ${to}`);
+    return true;
+  } catch (error) {
+    console.error("Failed to send sample rejection notice:", error);
+    return false;
+  }
+}
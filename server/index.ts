@@ -3,6 +3,7 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { seedDatabase } from "./seed";
+import { startAnalyserInterfaces } from "./analyser";
 import dotenv from "dotenv";
 
 dotenv.config(); // ✅ VERY IMPORTANT
@@ -68,6 +69,9 @@ app.use((req, res, next) => {
     // ✅ Seed DB (safe, idempotent)
     await seedDatabase();
 
+    // ✅ Analyser result import (ASTM_PORT / ASTM_DROP_DIR)
+    startAnalyserInterfaces();
+
     // ✅ Global error handler
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
       console.error("❌ Server Error:", err);
@@ -0,0 +1,359 @@
+import { createHash, randomBytes } from "crypto";
+import { getRangeBounds, findTestParameter, formatToPrecision } from "./result-checks";
+import { LAB_NAME, type ReportSection } from "./report-pdf";
+import type { Report, Patient, ParameterResult, TestParameter } from "@shared/schema";
+
+// Everything a standard export of one report is built from
+export interface ReportExport {
+  report: Report;
+  patient: Patient;
+  sections: ReportSection[];
+  // Identifier namespaces are minted under the lab's public address
+  baseUrl: string;
+}
+
+const SENDING_APPLICATION = "ARCHANA_LIS";
+
+// A reported value split into comparator and number when it is numeric,
+// e.g. "<0.5"; qualitative answers come back as text. text keeps the digits
+// as written so trailing zeros from the parameter's precision survive.
+function parseReportedValue(value: string): { comparator?: string; number: number; text: string } | null {
+  const match = value.trim().match(/^(<=|>=|<|>)?\s*(-?\d+(?:\.\d+)?)$/);
+  return match ? { ...(match[1] && { comparator: match[1] }), number: parseFloat(match[2]), text: match[2] } : null;
+}
+
+// Each reported value with its definition on the test, rounded to that
+// definition's precision
+function reportedParameters(section: ReportSection): { p: ParameterResult; param?: TestParameter }[] {
+  return section.result.parameterResults
+    .filter((p) => p.value?.trim())
+    .map((p) => {
+      const param = findTestParameter(section.test, p);
+      return { p: { ...p, value: formatToPrecision(p.value, param?.precision) }, param };
+    });
+}
+
+// The distinct specimens the section's parameters were measured on
+function sectionSpecimens(section: ReportSection): string[] {
+  return Array.from(new Set(
+    reportedParameters(section).map(({ param }) => param?.specimen).filter((s): s is string => !!s)
+  ));
+}
+
+// Split a single name field the way Indian names are usually written:
+// given names first, family name last
+function splitName(name: string): { family: string; given: string[] } {
+  const parts = name.trim().split(/\s+/);
+  return parts.length > 1 ? { family: parts[parts.length - 1], given: parts.slice(0, -1) } : { family: parts[0], given: [] };
+}
+
+function genderCode(gender: string | null): "male" | "female" | "other" | "unknown" {
+  const g = gender?.trim().toLowerCase();
+  if (g === "male" || g === "m") return "male";
+  if (g === "female" || g === "f") return "female";
+  return g ? "other" : "unknown";
+}
+
+// ---------------------------------------------------------------- HL7 v2.5
+
+// Escape the encoding characters declared in MSH-2
+function hl7Escape(text: string): string {
+  return text
+    .replace(/\\/g, "\\E\\")
+    .replace(/\|/g, "\\F\\")
+    .replace(/\^/g, "\\S\\")
+    .replace(/&/g, "\\T\\")
+    .replace(/~/g, "\\R\\")
+    .replace(/\r?\n/g, "\\.br\\");
+}
+
+function hl7Timestamp(date: Date | string): string {
+  const d = new Date(date);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+}
+
+// Fields are given in order from field 1; components are joined with ^ and
+// must already be escaped
+function segment(name: string, fields: (string | undefined | null)[]): string {
+  return [name, ...fields.map((f) => f ?? "")].join("|").replace(/\|+$/, "");
+}
+
+function hl7ResultStatus(report: Report): string {
+  if (report.status !== "released") return "P";
+  return report.amendsReportId ? "C" : "F";
+}
+
+function hl7Sex(gender: string | null): string {
+  return { male: "M", female: "F", other: "O", unknown: "U" }[genderCode(gender)];
+}
+
+// An ORU^R01 unsolicited result message: one OBR per test on the report and
+// one OBX per reported parameter, with remarks and comments as NTE segments.
+// Parameters with a LOINC code or UCUM unit send it alongside the local one,
+// and each specimen named on the parameters gets an SPM segment.
+export function buildHl7Oru({ report, patient, sections }: ReportExport): string {
+  const now = new Date();
+  const status = hl7ResultStatus(report);
+  const name = splitName(patient.name);
+  const segments: string[] = [];
+
+  segments.push(
+    `MSH|^~\\&|${SENDING_APPLICATION}|${hl7Escape(LAB_NAME)}|||${hl7Timestamp(now)}||ORU^R01^ORU_R01|` +
+      `${randomBytes(10).toString("hex")}|P|2.5|||NE|NE|IND`
+  );
+  segments.push(segment("PID", [
+    "1",
+    null,
+    `${hl7Escape(patient.patientId)}^^^${SENDING_APPLICATION}^MR`,
+    null,
+    `${hl7Escape(name.family)}^${hl7Escape(name.given.join(" "))}`,
+    null,
+    patient.dob ? hl7Timestamp(patient.dob).slice(0, 8) : null,
+    hl7Sex(patient.gender),
+    null,
+    null,
+    patient.address ? hl7Escape(patient.address) : null,
+    null,
+    hl7Escape(patient.phone),
+  ]));
+
+  sections.forEach(({ test, result }, i) => {
+    const orderNumber = hl7Escape(report.bookingId || report.id);
+    const doctor = result.referredBy ? `^${hl7Escape(result.referredBy)}` : null;
+    segments.push(segment("ORC", ["RE", orderNumber, hl7Escape(result.id), null, "CM"]));
+    segments.push(segment("OBR", [
+      String(i + 1),
+      orderNumber,
+      hl7Escape(result.id),
+      `${hl7Escape(test.code)}^${hl7Escape(test.name)}^L`,
+      null,
+      null,
+      hl7Timestamp(result.collectedAt),
+      null, null, null, null, null, null, null, null,
+      doctor,
+      null, null, null, null, null,
+      hl7Timestamp(report.releasedAt || report.generatedAt),
+      null,
+      "LAB",
+      status,
+    ]));
+    [result.remarks, result.interpretation]
+      .filter((note): note is string => !!note?.trim())
+      .forEach((note, n) => segments.push(segment("NTE", [String(n + 1), "L", hl7Escape(note)])));
+
+    reportedParameters({ test, result }).forEach(({ p, param }, j) => {
+      const numeric = parseReportedValue(p.value);
+      const name = hl7Escape(p.parameterName);
+      const local = `${hl7Escape(p.paramCode || p.parameterName)}^${name}^L`;
+      const valueType = numeric ? (numeric.comparator ? "SN" : "NM") : "ST";
+      const value = numeric
+        ? (numeric.comparator ? `${hl7Escape(numeric.comparator)}^${numeric.text}` : numeric.text)
+        : hl7Escape(p.value);
+      const unit = param?.ucumUnit
+        ? `${hl7Escape(param.ucumUnit)}^${hl7Escape(p.unit || param.ucumUnit)}^UCUM`
+        : (p.unit ? hl7Escape(p.unit) : null);
+      segments.push(segment("OBX", [
+        String(j + 1),
+        valueType,
+        param?.loinc ? `${hl7Escape(param.loinc)}^${name}^LN^${local}` : local,
+        null,
+        value,
+        unit,
+        p.normalRange ? hl7Escape(p.normalRange) : null,
+        p.flag || (numeric ? "N" : null),
+        null,
+        null,
+        status,
+        null,
+        null,
+        hl7Timestamp(result.collectedAt),
+        null,
+        null,
+        param?.method ? `^${hl7Escape(param.method)}` : null,
+      ]));
+      if (p.comment) segments.push(segment("NTE", ["1", "L", hl7Escape(p.comment)]));
+    });
+
+    sectionSpecimens({ test, result }).forEach((specimen, j) => {
+      segments.push(segment("SPM", [
+        String(j + 1),
+        null,
+        null,
+        `^${hl7Escape(specimen)}`,
+        null, null, null, null, null, null, null, null, null, null, null, null,
+        hl7Timestamp(result.collectedAt),
+      ]));
+    });
+  });
+
+  return segments.join("\r") + "\r";
+}
+
+// ------------------------------------------------------------------ FHIR R4
+
+type FhirResource = { resourceType: string; id: string; [key: string]: unknown };
+
+const OBSERVATION_CATEGORY = "http://terminology.hl7.org/CodeSystem/observation-category";
+const INTERPRETATION_SYSTEM = "http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation";
+const DIAGNOSTIC_SERVICE_SECTION = "http://terminology.hl7.org/CodeSystem/v2-0074";
+const LOINC = "http://loinc.org";
+const UCUM = "http://unitsofmeasure.org";
+
+const interpretationDisplay: Record<string, string> = {
+  H: "High",
+  L: "Low",
+  HH: "Critical high",
+  LL: "Critical low",
+  A: "Abnormal",
+  N: "Normal",
+};
+
+// Stable ids so exporting the same report twice gives the same resources
+function resourceId(...parts: string[]): string {
+  const hex = createHash("sha256").update(parts.join("/")).digest("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${((parseInt(hex[16], 16) & 3) | 8).toString(16)}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function fhirStatus(report: Report): "preliminary" | "final" | "amended" {
+  if (report.status !== "released") return "preliminary";
+  return report.amendsReportId ? "amended" : "final";
+}
+
+function reference(resource: FhirResource): { reference: string } {
+  return { reference: `urn:uuid:${resource.id}` };
+}
+
+function fhirPatient({ patient, baseUrl }: ReportExport): FhirResource {
+  const name = splitName(patient.name);
+  return {
+    resourceType: "Patient",
+    id: resourceId("Patient", patient.id),
+    identifier: [{ use: "usual", system: `${baseUrl}/fhir/sid/patient-id`, value: patient.patientId }],
+    name: [{ text: patient.name, family: name.family, ...(name.given.length > 0 && { given: name.given }) }],
+    telecom: [
+      { system: "phone", value: patient.phone },
+      ...(patient.email ? [{ system: "email", value: patient.email }] : []),
+    ],
+    gender: genderCode(patient.gender),
+    ...(patient.dob && { birthDate: new Date(patient.dob).toISOString().slice(0, 10) }),
+    ...(patient.address && { address: [{ text: patient.address }] }),
+  };
+}
+
+function specimenId(section: ReportSection, specimen: string): string {
+  return resourceId("Specimen", section.result.id, specimen);
+}
+
+function fhirSpecimens(section: ReportSection, subject: FhirResource): FhirResource[] {
+  return sectionSpecimens(section).map((specimen) => ({
+    resourceType: "Specimen",
+    id: specimenId(section, specimen),
+    type: { text: specimen },
+    subject: reference(subject),
+    collection: { collectedDateTime: new Date(section.result.collectedAt).toISOString() },
+  }));
+}
+
+function fhirObservation(
+  exportData: ReportExport,
+  section: ReportSection,
+  { p, param }: { p: ParameterResult; param?: TestParameter },
+  subject: FhirResource
+): FhirResource {
+  const { report, baseUrl } = exportData;
+  const code = p.paramCode || p.parameterName;
+  const numeric = parseReportedValue(p.value);
+  const bounds = numeric && p.normalRange ? getRangeBounds(p.normalRange) : {};
+  const quantity = (value: number) => ({
+    value,
+    ...((p.unit || param?.ucumUnit) && { unit: p.unit || param?.ucumUnit }),
+    ...(param?.ucumUnit && { system: UCUM, code: param.ucumUnit }),
+  });
+
+  return {
+    resourceType: "Observation",
+    id: resourceId("Observation", section.result.id, code),
+    status: fhirStatus(report),
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: "laboratory", display: "Laboratory" }] }],
+    code: {
+      coding: [
+        ...(param?.loinc ? [{ system: LOINC, code: param.loinc }] : []),
+        { system: `${baseUrl}/fhir/CodeSystem/parameters`, code, display: p.parameterName },
+      ],
+      text: p.parameterName,
+    },
+    subject: reference(subject),
+    effectiveDateTime: new Date(section.result.collectedAt).toISOString(),
+    issued: new Date(report.releasedAt || report.generatedAt).toISOString(),
+    ...(numeric
+      ? { valueQuantity: { ...quantity(numeric.number), ...(numeric.comparator && { comparator: numeric.comparator }) } }
+      : { valueString: p.value }),
+    ...(p.flag && {
+      interpretation: [{
+        coding: [{ system: INTERPRETATION_SYSTEM, code: p.flag, display: interpretationDisplay[p.flag] }],
+      }],
+    }),
+    ...(p.comment && { note: [{ text: p.comment }] }),
+    ...(param?.method && { method: { text: param.method } }),
+    ...(param?.specimen && { specimen: { reference: `urn:uuid:${specimenId(section, param.specimen)}` } }),
+    ...(p.normalRange && {
+      referenceRange: [{
+        ...(bounds.low !== undefined && { low: quantity(bounds.low) }),
+        ...(bounds.high !== undefined && { high: quantity(bounds.high) }),
+        text: p.normalRange,
+      }],
+    }),
+  };
+}
+
+// A collection Bundle holding the Patient, one Observation per reported
+// parameter, the Specimens named on the parameters and the DiagnosticReport
+// that groups them. Resources refer to each other by their urn:uuid fullUrl
+// so the Bundle stands on its own.
+export function buildFhirBundle(exportData: ReportExport): FhirResource {
+  const { report, sections, baseUrl } = exportData;
+  const patient = fhirPatient(exportData);
+  const observations = sections.flatMap((section) =>
+    reportedParameters(section).map((reported) => fhirObservation(exportData, section, reported, patient))
+  );
+  const specimens = sections.flatMap((section) => fhirSpecimens(section, patient));
+  const conclusion = sections
+    .map(({ test, result }) => result.interpretation && `${test.name}: ${result.interpretation}`)
+    .filter(Boolean)
+    .join("\n");
+  const collectedAt = sections.map((s) => new Date(s.result.collectedAt).getTime());
+
+  const diagnosticReport: FhirResource = {
+    resourceType: "DiagnosticReport",
+    id: resourceId("DiagnosticReport", report.id),
+    identifier: [{ system: `${baseUrl}/fhir/sid/report`, value: report.verificationCode || report.id }],
+    status: fhirStatus(report),
+    category: [{ coding: [{ system: DIAGNOSTIC_SERVICE_SECTION, code: "LAB", display: "Laboratory" }] }],
+    code: {
+      coding: [{ system: LOINC, code: "11502-2", display: "Laboratory report" }],
+      text: sections.map((s) => s.test.name).join(", ") || "Laboratory report",
+    },
+    subject: reference(patient),
+    ...(collectedAt.length > 0 && { effectiveDateTime: new Date(Math.min(...collectedAt)).toISOString() }),
+    issued: new Date(report.releasedAt || report.generatedAt).toISOString(),
+    performer: [{ display: LAB_NAME }],
+    ...(specimens.length > 0 && { specimen: specimens.map(reference) }),
+    result: observations.map(reference),
+    ...(conclusion && { conclusion }),
+  };
+
+  const entries = [diagnosticReport, patient, ...specimens, ...observations].map((resource) => ({
+    fullUrl: `urn:uuid:${resource.id}`,
+    resource,
+  }));
+
+  return {
+    resourceType: "Bundle",
+    id: resourceId("Bundle", report.id, String(report.version)),
+    meta: { lastUpdated: new Date().toISOString() },
+    type: "collection",
+    timestamp: new Date().toISOString(),
+    entry: entries,
+  };
+}
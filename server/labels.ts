@@ -0,0 +1,146 @@
+import PDFDocument from "pdfkit";
+import type { Sample, SampleContainer } from "@shared/schema";
+
+// Bar/space widths in modules for Code 128 symbol values 0-105, then stop
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+// Encode text as Code 128 bar widths, alternating bar and space starting
+// with a bar. Even-length digit strings use code set C (two digits per
+// symbol); anything else uses code set B, which covers printable ASCII.
+export function encodeCode128(text: string): number[] {
+  const values: number[] = [];
+  if (/^(\d\d)+$/.test(text)) {
+    values.push(START_C);
+    for (let i = 0; i < text.length; i += 2) {
+      values.push(Number(text.slice(i, i + 2)));
+    }
+  } else {
+    values.push(START_B);
+    for (const char of text) {
+      const code = char.charCodeAt(0);
+      if (code < 32 || code > 127) {
+        throw new Error(`Cannot encode "${char}" in Code 128`);
+      }
+      values.push(code - 32);
+    }
+  }
+
+  const checksum = values.reduce((sum, value, i) => sum + value * Math.max(i, 1), 0) % 103;
+  values.push(checksum, STOP);
+  return values.flatMap((value) => CODE128_PATTERNS[value].split("").map(Number));
+}
+
+export const containerLabels: Record<SampleContainer, string> = {
+  edta: "EDTA",
+  plain: "Plain",
+  fluoride: "Fluoride",
+  urine: "Urine",
+};
+
+export interface SampleLabel {
+  sample: Sample;
+  patientName: string;
+  patientId: string | null;
+  testCodes: string[];
+}
+
+// Labels are 50 x 25 mm, a common size for tube label rolls
+const LABEL_WIDTH = 141.7;
+const LABEL_HEIGHT = 70.9;
+const LABEL_MARGIN = 6;
+const QUIET_ZONE_MODULES = 10;
+
+function formatLabelDate(date: Date): string {
+  return new Date(date).toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+}
+
+function labelHeading(label: SampleLabel): string {
+  const container = containerLabels[label.sample.container as SampleContainer] || label.sample.container;
+  return [label.patientId, container].filter(Boolean).join("  ");
+}
+
+// One label per page, sized for the label printer's driver
+export async function generateLabelsPdf(labels: SampleLabel[]): Promise<Buffer> {
+  const doc = new PDFDocument({ size: [LABEL_WIDTH, LABEL_HEIGHT], margin: 0, autoFirstPage: false });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const width = LABEL_WIDTH - LABEL_MARGIN * 2;
+  for (const label of labels) {
+    doc.addPage();
+    doc.fillColor("#000000").font("Helvetica-Bold").fontSize(7)
+      .text(label.patientName, LABEL_MARGIN, 4, { width, height: 8, ellipsis: true, lineBreak: false });
+    doc.font("Helvetica").fontSize(6)
+      .text(labelHeading(label), LABEL_MARGIN, 12, { width, lineBreak: false });
+
+    const bars = encodeCode128(label.sample.accessionNumber);
+    const modules = bars.reduce((sum, w) => sum + w, 0) + QUIET_ZONE_MODULES * 2;
+    const moduleWidth = Math.min(1.2, width / modules);
+    let x = LABEL_MARGIN + (width - modules * moduleWidth) / 2 + QUIET_ZONE_MODULES * moduleWidth;
+    bars.forEach((w, i) => {
+      if (i % 2 === 0) {
+        doc.rect(x, 20, w * moduleWidth, 28).fill("#000000");
+      }
+      x += w * moduleWidth;
+    });
+
+    doc.font("Helvetica-Bold").fontSize(7)
+      .text(label.sample.accessionNumber, LABEL_MARGIN, 50, { width, align: "center", lineBreak: false });
+    doc.font("Helvetica").fontSize(5.5)
+      .text(
+        `${formatLabelDate(label.sample.collectedAt)}  ${label.testCodes.join(", ")}`,
+        LABEL_MARGIN, 59, { width, height: 7, ellipsis: true, lineBreak: false }
+      );
+  }
+
+  doc.end();
+  return finished;
+}
+
+// ^ and ~ start ZPL commands, so they cannot appear in field data
+function zplField(text: string): string {
+  return text.replace(/[\^~]/g, " ");
+}
+
+// The same labels in ZPL II for Zebra-compatible printers at 203 dpi
+export function generateLabelsZpl(labels: SampleLabel[]): string {
+  return labels
+    .map((label) => [
+      "^XA",
+      "^CI28",
+      "^PW400",
+      "^LL200",
+      `^FO16,10^A0N,24,24^FB368,1,0,L^FD${zplField(label.patientName)}^FS`,
+      `^FO16,38^A0N,20,20^FD${zplField(labelHeading(label))}^FS`,
+      `^FO40,64^BY2^BCN,70,Y,N,N^FD${zplField(label.sample.accessionNumber)}^FS`,
+      `^FO16,172^A0N,18,18^FB368,1,0,L^FD${zplField(`${formatLabelDate(label.sample.collectedAt)}  ${label.testCodes.join(", ")}`)}^FS`,
+      "^XZ",
+    ].join("\n"))
+    .join("\n") + "\n";
+}
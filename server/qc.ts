@@ -0,0 +1,110 @@
+import { storage } from "./storage";
+import type { QcFailure, QcMaterial, QcOutcome, QcRun, WestgardRule } from "@shared/schema";
+
+// Enough history for the longest rule, 10x, to look back over
+const HISTORY_LENGTH = 9;
+
+export interface QcPoint {
+  materialId: string;
+  zScore: number;
+  runAt: Date;
+}
+
+export function dayBounds(date: Date): { start: Date; end: Date } {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
+function sameSide(points: QcPoint[], limit: number): boolean {
+  return points.every((p) => p.zScore > limit) || points.every((p) => p.zScore < -limit);
+}
+
+// Westgard multirule on a new control value. previous holds the earlier runs
+// of every level for the same parameter and analyser, newest first, so the
+// consecutive rules read across levels as well as within one. R-4s compares
+// the levels run on the same day.
+export function evaluateWestgard(current: QcPoint, previous: QcPoint[]): WestgardRule[] {
+  const z = current.zScore;
+  const series = [current, ...previous];
+  const violations: WestgardRule[] = [];
+
+  if (Math.abs(z) > 2) violations.push("1-2s");
+  if (Math.abs(z) > 3) violations.push("1-3s");
+  if (series.length >= 2 && sameSide(series.slice(0, 2), 2)) violations.push("2-2s");
+
+  const { start } = dayBounds(current.runAt);
+  const sameDay = previous.filter((p) => p.materialId !== current.materialId && p.runAt >= start);
+  if (Math.abs(z) > 2 && sameDay.some((p) => Math.abs(p.zScore) > 2 && Math.sign(p.zScore) !== Math.sign(z))) {
+    violations.push("R-4s");
+  }
+
+  if (series.length >= 4 && sameSide(series.slice(0, 4), 1)) violations.push("4-1s");
+  if (series.length >= 10 && sameSide(series.slice(0, 10), 0)) violations.push("10x");
+  return violations;
+}
+
+export function getQcOutcome(violations: WestgardRule[]): QcOutcome {
+  if (violations.some((rule) => rule !== "1-2s")) return "rejected";
+  return violations.length > 0 ? "warning" : "accepted";
+}
+
+function toPoint(run: QcRun): QcPoint {
+  return { materialId: run.materialId, zScore: Number(run.zScore), runAt: new Date(run.runAt) };
+}
+
+export async function recordQcRun(
+  material: QcMaterial,
+  value: number,
+  runAt: Date,
+  note: string | null,
+  performedBy: string
+): Promise<QcRun> {
+  const zScore = (value - Number(material.mean)) / Number(material.sd);
+  const previous = await storage.getRecentQcRuns(material.paramCode, material.analyser, runAt, HISTORY_LENGTH);
+  const violations = evaluateWestgard({ materialId: material.id, zScore, runAt }, previous.map(toPoint));
+
+  return storage.createQcRun({
+    materialId: material.id,
+    paramCode: material.paramCode,
+    analyser: material.analyser,
+    value: String(value),
+    zScore: zScore.toFixed(3),
+    violations,
+    outcome: getQcOutcome(violations),
+    note,
+    performedBy,
+    runAt,
+  });
+}
+
+// Controls that stood failed at the given time: the latest run of each
+// control that day up to then was rejected. A successful rerun after
+// corrective action clears the failure from then on, but not for results
+// entered while the control was still failed.
+export async function getQcFailures(at: Date, paramCodes?: string[]): Promise<QcFailure[]> {
+  const { start } = dayBounds(at);
+  const latest = new Map<string, QcRun>();
+  for (const run of await storage.getQcRunsBetween(start, new Date(at.getTime() + 1), paramCodes)) {
+    latest.set(run.materialId, run);
+  }
+
+  const failures: QcFailure[] = [];
+  for (const run of Array.from(latest.values())) {
+    if (run.outcome !== "rejected") continue;
+    const material = await storage.getQcMaterial(run.materialId);
+    if (!material) continue;
+    failures.push({
+      materialId: material.id,
+      paramCode: material.paramCode,
+      analyser: material.analyser,
+      lotNumber: material.lotNumber,
+      level: material.level,
+      runAt: new Date(run.runAt).toISOString(),
+      violations: run.violations,
+    });
+  }
+  return failures;
+}
@@ -0,0 +1,708 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import fs from "fs";
+import path from "path";
+import type {
+  Patient, Test, Result, Report, ParameterResult, ResultAmendment, Doctor, CommissionStatement,
+} from "@shared/schema";
+import type { CumulativeTable } from "./trends";
+import { formatCommissionRate, type StatementLine } from "./commission";
+import { findTestParameter, formatToPrecision } from "./result-checks";
+
+const reportsDir = process.env.REPORTS_DIR || path.join(process.cwd(), "reports");
+if (!fs.existsSync(reportsDir)) {
+  fs.mkdirSync(reportsDir, { recursive: true });
+}
+
+export const LAB_NAME = "Archana Pathology Lab";
+const LAB_TAGLINE = "NABL Accredited | ISO 9001 Certified";
+const LAB_CONTACT = "Contact: +91 98765 43210 | info@archanapathology.com";
+
+const PRIMARY_COLOR = "#005B96";
+const ACCENT_COLOR = "#87CEEB";
+const ABNORMAL_COLOR = "#C0392B";
+const MUTED_COLOR = "#666666";
+
+const PAGE_MARGIN = 50;
+const FOOTER_HEIGHT = 40;
+
+// Parameter table column layout (x offset from left margin, width)
+const COLUMNS = [
+  { key: "parameterName", label: "Parameter", width: 185 },
+  { key: "value", label: "Result", width: 80 },
+  { key: "flag", label: "Flag", width: 40 },
+  { key: "unit", label: "Unit", width: 80 },
+  { key: "normalRange", label: "Reference Range", width: 110 },
+] as const;
+
+export interface ReportVerification {
+  code: string;
+  hash: string;
+  url: string;
+}
+
+// One test's results within a report. Booking-level reports carry one
+// section per booked test; standalone reports carry a single section.
+export interface ReportSection {
+  test: Test;
+  result: Result;
+}
+
+// Names of the staff who signed off each workflow step
+export interface ReportSignatories {
+  verifiedBy?: string;
+  authorisedBy?: string;
+}
+
+export interface ReportPdfData {
+  report: Report;
+  patient: Patient;
+  sections: ReportSection[];
+  verification?: ReportVerification;
+  signatories?: ReportSignatories;
+  amendments?: ResultAmendment[];
+}
+
+export function resolveReportPath(pdfPath: string): string {
+  return path.join(reportsDir, path.basename(pdfPath));
+}
+
+export function reportFileExists(pdfPath: string | null): pdfPath is string {
+  return !!pdfPath && fs.existsSync(resolveReportPath(pdfPath));
+}
+
+function formatDate(date: Date | string | null | undefined, withTime = false): string {
+  if (!date) return "-";
+  const d = new Date(date);
+  const options: Intl.DateTimeFormatOptions = withTime
+    ? { day: "2-digit", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" }
+    : { day: "2-digit", month: "short", year: "numeric" };
+  return d.toLocaleString("en-IN", options);
+}
+
+function formatAgeGender(patient: Patient): string {
+  let age = "-";
+  if (patient.dob) {
+    const dob = new Date(patient.dob);
+    const now = new Date();
+    let years = now.getFullYear() - dob.getFullYear();
+    const beforeBirthday =
+      now.getMonth() < dob.getMonth() ||
+      (now.getMonth() === dob.getMonth() && now.getDate() < dob.getDate());
+    if (beforeBirthday) years--;
+    age = `${years} Yrs`;
+  }
+  const gender = patient.gender
+    ? patient.gender.charAt(0).toUpperCase() + patient.gender.slice(1)
+    : "-";
+  return `${age} / ${gender}`;
+}
+
+function drawLetterhead(doc: PDFKit.PDFDocument) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+
+  doc.fillColor(PRIMARY_COLOR).font("Helvetica-Bold").fontSize(20)
+    .text(LAB_NAME, PAGE_MARGIN, PAGE_MARGIN, { width, align: "center" });
+  doc.fillColor(MUTED_COLOR).font("Helvetica").fontSize(9)
+    .text(LAB_TAGLINE, { width, align: "center" })
+    .text(LAB_CONTACT, { width, align: "center" });
+
+  const lineY = doc.y + 6;
+  doc.moveTo(PAGE_MARGIN, lineY).lineTo(PAGE_MARGIN + width, lineY)
+    .lineWidth(2).strokeColor(ACCENT_COLOR).stroke();
+  doc.y = lineY + 10;
+}
+
+function drawPatientBlock(doc: PDFKit.PDFDocument, data: ReportPdfData) {
+  const { patient, report } = data;
+  const result = data.sections[0].result;
+
+  const left: [string, string][] = [
+    ["Patient Name", patient.name],
+    ["Patient ID", patient.patientId],
+    ["Age / Gender", formatAgeGender(patient)],
+    ["Phone", patient.phone],
+  ];
+  const right: [string, string][] = [
+    ["Referred By", result.referredBy || "Self"],
+    ["Collected On", formatDate(result.collectedAt, true)],
+    ["Reported On", formatDate(report.generatedAt, true)],
+    ["Report ID", report.id.slice(0, 8).toUpperCase()],
+  ];
+  drawInfoBlock(doc, left, right);
+}
+
+// Shaded two-column block of label/value pairs
+function drawInfoBlock(doc: PDFKit.PDFDocument, left: [string, string][], right: [string, string][]) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const half = width / 2;
+  const top = doc.y;
+
+  const rowHeight = 15;
+  const blockHeight = Math.max(left.length, right.length) * rowHeight + 12;
+  doc.rect(PAGE_MARGIN, top, width, blockHeight).fillColor("#F8F9FA").fill();
+
+  const drawColumn = (rows: [string, string][], x: number) => {
+    rows.forEach(([label, value], i) => {
+      const y = top + 6 + i * rowHeight;
+      doc.fillColor(MUTED_COLOR).font("Helvetica").fontSize(9).text(`${label}:`, x, y, { width: 80 });
+      doc.fillColor("#000000").font("Helvetica-Bold").fontSize(9).text(value, x + 80, y, { width: half - 95 });
+    });
+  };
+
+  drawColumn(left, PAGE_MARGIN + 10);
+  drawColumn(right, PAGE_MARGIN + half + 10);
+
+  doc.y = top + blockHeight + 15;
+}
+
+function drawAmendmentNotice(doc: PDFKit.PDFDocument, data: ReportPdfData) {
+  const amendments = data.amendments || [];
+  if (amendments.length === 0) return;
+
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const top = doc.y;
+  const lines = amendments.flatMap((amendment) => [
+    `Reason: ${amendment.reason} (${formatDate(amendment.createdAt, true)})`,
+    ...amendment.changes.map((change) =>
+      `  ${change.parameterName}: changed from ${change.previousValue || "-"} to ${change.newValue}` +
+      (change.newRange !== undefined ? `, range ${change.previousRange || "-"} to ${change.newRange || "-"}` : "") +
+      (change.newUnit !== undefined ? `, unit ${change.previousUnit || "-"} to ${change.newUnit || "-"}` : "")
+    ),
+  ]);
+
+  doc.font("Helvetica").fontSize(8);
+  const textHeight = doc.heightOfString(lines.join("\n"), { width: width - 20 });
+  const blockHeight = textHeight + 30;
+
+  doc.rect(PAGE_MARGIN, top, width, blockHeight).lineWidth(1).strokeColor(ABNORMAL_COLOR).stroke();
+  doc.fillColor(ABNORMAL_COLOR).font("Helvetica-Bold").fontSize(10)
+    .text(`AMENDED REPORT - Version ${data.report.version}`, PAGE_MARGIN + 10, top + 6, { width: width - 20 });
+  doc.fillColor("#000000").font("Helvetica").fontSize(8)
+    .text(lines.join("\n"), PAGE_MARGIN + 10, top + 22, { width: width - 20 });
+
+  doc.y = top + blockHeight + 12;
+}
+
+function drawTableHeader(doc: PDFKit.PDFDocument) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const top = doc.y;
+
+  doc.rect(PAGE_MARGIN, top, width, 20).fillColor(ACCENT_COLOR).fill();
+  let x = PAGE_MARGIN + 5;
+  doc.fillColor("#FFFFFF").font("Helvetica-Bold").fontSize(9);
+  for (const col of COLUMNS) {
+    doc.text(col.label, x, top + 6, { width: col.width - 10 });
+    x += col.width;
+  }
+  doc.y = top + 24;
+}
+
+function drawSectionHeading(doc: PDFKit.PDFDocument, test: Test) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  // Keep the heading together with the table header and at least one row
+  const bottomLimit = doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT;
+  if (doc.y + 70 > bottomLimit) {
+    doc.addPage();
+    drawLetterhead(doc);
+  }
+
+  doc.fillColor(PRIMARY_COLOR).font("Helvetica-Bold").fontSize(13)
+    .text(test.name, PAGE_MARGIN, doc.y, { width, align: "center" });
+  doc.moveDown(0.5);
+}
+
+function drawParameterRow(doc: PDFKit.PDFDocument, test: Test, param: ParameterResult) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const definition = findTestParameter(test, param);
+  const cells: Record<(typeof COLUMNS)[number]["key"], string> = {
+    parameterName: param.parameterName,
+    value: formatToPrecision(param.value, definition?.precision),
+    unit: param.unit || "-",
+    normalRange: param.normalRange || "-",
+    // Results saved before flags were computed only carry isAbnormal
+    flag: param.flag || (param.isAbnormal ? "A" : ""),
+  };
+
+  doc.font("Helvetica").fontSize(9);
+  const cellHeight = Math.max(
+    ...COLUMNS.map((col) => doc.heightOfString(cells[col.key], { width: col.width - 10 }))
+  ) + 8;
+  // Method and specimen print in small type under the row, then any
+  // parameter comment in small italics
+  const details = [
+    definition?.method && `Method: ${definition.method}`,
+    definition?.specimen && `Specimen: ${definition.specimen}`,
+  ].filter(Boolean).join("   ");
+  doc.font("Helvetica").fontSize(7.5);
+  const detailsHeight = details ? doc.heightOfString(details, { width: width - 10 }) + 2 : 0;
+  doc.font("Helvetica-Oblique").fontSize(8);
+  const commentHeight = param.comment ? doc.heightOfString(param.comment, { width: width - 10 }) + 4 : 0;
+  const rowHeight = cellHeight + detailsHeight + commentHeight;
+
+  const bottomLimit = doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT;
+  if (doc.y + rowHeight > bottomLimit) {
+    doc.addPage();
+    drawLetterhead(doc);
+    drawTableHeader(doc);
+  }
+
+  const top = doc.y;
+  let x = PAGE_MARGIN + 5;
+  for (const col of COLUMNS) {
+    const highlight = !!cells.flag && (col.key === "value" || col.key === "flag");
+    doc.fillColor(highlight ? ABNORMAL_COLOR : "#000000")
+      .font(highlight ? "Helvetica-Bold" : "Helvetica")
+      .fontSize(9)
+      .text(cells[col.key], x, top + 4, { width: col.width - 10 });
+    x += col.width;
+  }
+  if (details) {
+    doc.fillColor(MUTED_COLOR).font("Helvetica").fontSize(7.5)
+      .text(details, PAGE_MARGIN + 5, top + cellHeight - 2, { width: width - 10 });
+  }
+  if (param.comment) {
+    doc.fillColor(MUTED_COLOR).font("Helvetica-Oblique").fontSize(8)
+      .text(param.comment, PAGE_MARGIN + 5, top + cellHeight + detailsHeight - 2, { width: width - 10 });
+  }
+
+  doc.moveTo(PAGE_MARGIN, top + rowHeight).lineTo(PAGE_MARGIN + width, top + rowHeight)
+    .lineWidth(0.5).strokeColor("#DDDDDD").stroke();
+  doc.y = top + rowHeight;
+}
+
+// Interpretation and remarks entered with a test's results
+function drawSectionNotes(doc: PDFKit.PDFDocument, result: Result) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const notes = [
+    { label: "Interpretation", text: result.interpretation },
+    { label: "Remarks", text: result.remarks },
+  ].filter((n): n is { label: string; text: string } => !!n.text);
+
+  for (const note of notes) {
+    doc.font("Helvetica").fontSize(8.5);
+    const height = doc.heightOfString(note.text, { width }) + 20;
+    if (doc.y + height > doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+      doc.addPage();
+      drawLetterhead(doc);
+    }
+    doc.moveDown(0.5);
+    doc.fillColor(PRIMARY_COLOR).font("Helvetica-Bold").fontSize(9)
+      .text(`${note.label}:`, PAGE_MARGIN, doc.y, { width });
+    doc.fillColor("#000000").font("Helvetica").fontSize(8.5)
+      .text(note.text, PAGE_MARGIN, doc.y + 2, { width });
+  }
+}
+
+function drawFlagLegend(doc: PDFKit.PDFDocument) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  doc.moveDown(0.5);
+  doc.fillColor(MUTED_COLOR).font("Helvetica").fontSize(7.5)
+    .text(
+      "Flags: H = High, L = Low (outside reference range); HH / LL = critical value; A = abnormal result.",
+      PAGE_MARGIN, doc.y, { width }
+    );
+}
+
+function drawSignatureArea(doc: PDFKit.PDFDocument, data: ReportPdfData, qrImage: Buffer | null) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const blockHeight = qrImage ? 110 : 70;
+
+  if (doc.y + blockHeight + 30 > doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+    doc.addPage();
+    drawLetterhead(doc);
+  }
+
+  doc.moveDown(1);
+  doc.fillColor(MUTED_COLOR).font("Helvetica-Oblique").fontSize(9)
+    .text("*** End of Report ***", PAGE_MARGIN, doc.y, { width, align: "center" });
+
+  const top = doc.y + 30;
+  const colWidth = 180;
+  const rightX = PAGE_MARGIN + width - colWidth;
+
+  doc.moveTo(PAGE_MARGIN, top + 25).lineTo(PAGE_MARGIN + colWidth, top + 25)
+    .lineWidth(0.5).strokeColor("#000000").stroke();
+  doc.moveTo(rightX, top + 25).lineTo(rightX + colWidth, top + 25).stroke();
+
+  const technicians = Array.from(new Set(data.sections.map((s) => s.result.technician))).join(", ");
+  const { report, signatories } = data;
+  doc.fillColor("#000000").font("Helvetica-Bold").fontSize(9)
+    .text(technicians, PAGE_MARGIN, top + 30, { width: colWidth, align: "center" })
+    .text(signatories?.authorisedBy || "Consultant Pathologist", rightX, top + 30, { width: colWidth, align: "center" });
+  doc.fillColor(MUTED_COLOR).font("Helvetica").fontSize(8)
+    .text("Lab Technician", PAGE_MARGIN, top + 42, { width: colWidth, align: "center" })
+    .text("MD (Pathology)", rightX, top + 42, { width: colWidth, align: "center" });
+  if (signatories?.verifiedBy) {
+    doc.text(
+      `Verified by ${signatories.verifiedBy} on ${formatDate(report.technicallyVerifiedAt, true)}`,
+      PAGE_MARGIN, top + 53, { width: colWidth, align: "center" }
+    );
+  }
+  if (signatories?.authorisedBy) {
+    doc.text(`Authorised on ${formatDate(report.authorisedAt, true)}`, rightX, top + 53, { width: colWidth, align: "center" });
+  }
+
+  if (qrImage && data.verification) {
+    const qrSize = 70;
+    const qrX = PAGE_MARGIN + (width - qrSize) / 2;
+    doc.image(qrImage, qrX, top - 5, { width: qrSize, height: qrSize });
+    doc.fillColor("#000000").font("Helvetica-Bold").fontSize(8)
+      .text(`Verify: ${data.verification.code}`, qrX - 40, top + qrSize - 2, { width: qrSize + 80, align: "center" });
+    doc.fillColor(MUTED_COLOR).font("Helvetica").fontSize(6)
+      .text(`Hash ${data.verification.hash.slice(0, 16)}`, qrX - 40, top + qrSize + 8, { width: qrSize + 80, align: "center" });
+  }
+
+  doc.y = top + blockHeight;
+}
+
+// Footer on every page; subject names whose document it is
+function drawFooters(doc: PDFKit.PDFDocument, subject: string, provisional: boolean) {
+  const range = doc.bufferedPageRange();
+  const width = doc.page.width - PAGE_MARGIN * 2;
+
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const y = doc.page.height - PAGE_MARGIN - 20;
+    // Writing below the bottom margin would otherwise trigger an automatic page break
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+
+    doc.moveTo(PAGE_MARGIN, y - 5).lineTo(PAGE_MARGIN + width, y - 5)
+      .lineWidth(0.5).strokeColor("#DDDDDD").stroke();
+    doc.fillColor(MUTED_COLOR).font("Helvetica").fontSize(8)
+      .text(
+        `${subject} | This is a computer generated report.`,
+        PAGE_MARGIN, y, { width: width - 80, lineBreak: false }
+      )
+      .text(`Page ${i - range.start + 1} of ${range.count}`, PAGE_MARGIN + width - 80, y, {
+        width: 80,
+        align: "right",
+        lineBreak: false,
+      });
+
+    // Unreleased reports are only ever seen by staff, but mark them clearly
+    if (provisional) {
+      const cx = doc.page.width / 2;
+      const cy = doc.page.height / 2;
+      doc.save();
+      doc.rotate(-45, { origin: [cx, cy] });
+      doc.fillColor(ABNORMAL_COLOR).opacity(0.12).font("Helvetica-Bold").fontSize(72)
+        .text("PROVISIONAL", cx - 260, cy - 36, { width: 520, align: "center", lineBreak: false });
+      doc.restore();
+    }
+
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+// Render a printable lab report and write it to the reports directory.
+// Returns the stored file name, to be saved as reports.pdfPath.
+export async function generateReportPdf(data: ReportPdfData): Promise<string> {
+  const fileName = `report-${data.report.id}.pdf`;
+  const filePath = path.join(reportsDir, fileName);
+
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `${data.sections.map((s) => s.test.code).join(", ")} - ${data.patient.patientId}`,
+      Author: LAB_NAME,
+    },
+  });
+
+  const stream = fs.createWriteStream(filePath);
+  const finished = new Promise<void>((resolve, reject) => {
+    stream.on("finish", () => resolve());
+    stream.on("error", reject);
+  });
+  doc.pipe(stream);
+
+  drawLetterhead(doc);
+  drawPatientBlock(doc, data);
+  drawAmendmentNotice(doc, data);
+
+  data.sections.forEach((section, index) => {
+    if (index > 0) doc.moveDown(1);
+    drawSectionHeading(doc, section.test);
+    drawTableHeader(doc);
+    for (const param of section.result.parameterResults) {
+      drawParameterRow(doc, section.test, param);
+    }
+    drawSectionNotes(doc, section.result);
+  });
+
+  drawFlagLegend(doc);
+
+  const qrImage = data.verification
+    ? await QRCode.toBuffer(data.verification.url, { margin: 1, width: 200 })
+    : null;
+
+  drawSignatureArea(doc, data, qrImage);
+  drawFooters(doc, `${data.patient.name} (${data.patient.patientId})`, data.report.status !== "released");
+
+  doc.end();
+  await finished;
+
+  return fileName;
+}
+
+export interface CumulativeReportData {
+  patient: Patient;
+  test: Test;
+  table: CumulativeTable;
+}
+
+// Fixed columns of the cumulative table; the rest of the page width is split
+// between collection dates
+const CUMULATIVE_COLUMNS = [
+  { label: "Parameter", width: 150 },
+  { label: "Unit", width: 60 },
+  { label: "Reference Range", width: 90 },
+];
+const CUMULATIVE_DATE_WIDTH = 73;
+
+function drawCumulativeHeader(doc: PDFKit.PDFDocument, dates: Date[]) {
+  const top = doc.y;
+  const width = CUMULATIVE_COLUMNS.reduce((sum, c) => sum + c.width, 0) + dates.length * CUMULATIVE_DATE_WIDTH;
+
+  doc.rect(PAGE_MARGIN, top, width, 20).fillColor(ACCENT_COLOR).fill();
+  let x = PAGE_MARGIN + 5;
+  doc.fillColor("#FFFFFF").font("Helvetica-Bold").fontSize(8.5);
+  for (const col of CUMULATIVE_COLUMNS) {
+    doc.text(col.label, x, top + 6, { width: col.width - 10 });
+    x += col.width;
+  }
+  for (const date of dates) {
+    doc.text(formatDate(date), x, top + 6, { width: CUMULATIVE_DATE_WIDTH - 10, align: "center" });
+    x += CUMULATIVE_DATE_WIDTH;
+  }
+  doc.y = top + 24;
+}
+
+function drawCumulativeRow(
+  doc: PDFKit.PDFDocument,
+  test: Test,
+  row: CumulativeTable["rows"][number],
+  dates: Date[],
+  values: (ParameterResult | undefined)[]
+) {
+  const width = CUMULATIVE_COLUMNS.reduce((sum, c) => sum + c.width, 0) + dates.length * CUMULATIVE_DATE_WIDTH;
+  const fixed = [row.parameterName, row.unit || "-", row.normalRange || "-"];
+
+  doc.font("Helvetica").fontSize(8.5);
+  const rowHeight = Math.max(
+    ...fixed.map((text, i) => doc.heightOfString(text, { width: CUMULATIVE_COLUMNS[i].width - 10 }))
+  ) + 8;
+
+  if (doc.y + rowHeight > doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+    doc.addPage();
+    drawLetterhead(doc);
+    drawCumulativeHeader(doc, dates);
+  }
+
+  const top = doc.y;
+  let x = PAGE_MARGIN + 5;
+  doc.fillColor("#000000").font("Helvetica").fontSize(8.5);
+  fixed.forEach((text, i) => {
+    doc.text(text, x, top + 4, { width: CUMULATIVE_COLUMNS[i].width - 10 });
+    x += CUMULATIVE_COLUMNS[i].width;
+  });
+  for (const param of values) {
+    const flag = param?.flag || (param?.isAbnormal ? "A" : "");
+    const value = param && formatToPrecision(param.value, findTestParameter(test, param)?.precision);
+    doc.fillColor(flag ? ABNORMAL_COLOR : "#000000")
+      .font(flag ? "Helvetica-Bold" : "Helvetica")
+      .text(param ? `${value}${flag ? ` ${flag}` : ""}` : "-", x, top + 4, {
+        width: CUMULATIVE_DATE_WIDTH - 10,
+        align: "center",
+      });
+    x += CUMULATIVE_DATE_WIDTH;
+  }
+
+  doc.moveTo(PAGE_MARGIN, top + rowHeight).lineTo(PAGE_MARGIN + width, top + rowHeight)
+    .lineWidth(0.5).strokeColor("#DDDDDD").stroke();
+  doc.y = top + rowHeight;
+}
+
+// Render a cumulative report: one row per parameter, one column per
+// collection date. Dates that do not fit across the page continue in a
+// further table below. Returned in memory since it is built on request.
+export async function generateCumulativePdf(data: CumulativeReportData): Promise<Buffer> {
+  const { patient, test, table } = data;
+  const doc = new PDFDocument({
+    size: "A4",
+    layout: "landscape",
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `Cumulative ${test.code} - ${patient.patientId}`,
+      Author: LAB_NAME,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  drawLetterhead(doc);
+  drawInfoBlock(
+    doc,
+    [
+      ["Patient Name", patient.name],
+      ["Patient ID", patient.patientId],
+      ["Age / Gender", formatAgeGender(patient)],
+    ],
+    [
+      ["Test", test.name],
+      ["Visits", String(table.dates.length)],
+      ["Printed On", formatDate(new Date(), true)],
+    ]
+  );
+
+  const tableWidth = doc.page.width - PAGE_MARGIN * 2;
+  const fixedWidth = CUMULATIVE_COLUMNS.reduce((sum, c) => sum + c.width, 0);
+  const perTable = Math.max(1, Math.floor((tableWidth - fixedWidth) / CUMULATIVE_DATE_WIDTH));
+
+  doc.fillColor(PRIMARY_COLOR).font("Helvetica-Bold").fontSize(13)
+    .text(`Cumulative Report - ${test.name}`, PAGE_MARGIN, doc.y, { width: tableWidth, align: "center" });
+  doc.moveDown(0.5);
+
+  for (let start = 0; start < table.dates.length; start += perTable) {
+    if (start > 0) {
+      doc.moveDown(1);
+      if (doc.y + 60 > doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+        doc.addPage();
+        drawLetterhead(doc);
+      }
+    }
+    const dates = table.dates.slice(start, start + perTable);
+    drawCumulativeHeader(doc, dates);
+    for (const row of table.rows) {
+      drawCumulativeRow(doc, test, row, dates, row.values.slice(start, start + perTable));
+    }
+  }
+
+  drawFlagLegend(doc);
+  drawFooters(doc, `${patient.name} (${patient.patientId})`, false);
+
+  doc.end();
+  return finished;
+}
+
+export interface CommissionStatementData {
+  doctor: Doctor;
+  statement: CommissionStatement;
+  lines: StatementLine[];
+}
+
+const STATEMENT_COLUMNS = [
+  { label: "Date", width: 62, align: "left" },
+  { label: "Patient", width: 120, align: "left" },
+  { label: "Test", width: 120, align: "left" },
+  { label: "Base (Rs.)", width: 64, align: "right" },
+  { label: "Rate", width: 62, align: "right" },
+  { label: "Commission (Rs.)", width: 67, align: "right" },
+] as const;
+
+function drawStatementRow(doc: PDFKit.PDFDocument, cells: string[], header = false) {
+  const width = STATEMENT_COLUMNS.reduce((sum, c) => sum + c.width, 0);
+  doc.font(header ? "Helvetica-Bold" : "Helvetica").fontSize(8.5);
+  const rowHeight = Math.max(
+    ...cells.map((text, i) => doc.heightOfString(text, { width: STATEMENT_COLUMNS[i].width - 10 }))
+  ) + 8;
+
+  if (!header && doc.y + rowHeight > doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+    doc.addPage();
+    drawLetterhead(doc);
+    drawStatementRow(doc, STATEMENT_COLUMNS.map((c) => c.label), true);
+  }
+
+  const top = doc.y;
+  if (header) {
+    doc.rect(PAGE_MARGIN, top, width, rowHeight).fillColor(ACCENT_COLOR).fill();
+  }
+  let x = PAGE_MARGIN + 5;
+  doc.fillColor(header ? "#FFFFFF" : "#000000").font(header ? "Helvetica-Bold" : "Helvetica");
+  cells.forEach((text, i) => {
+    doc.text(text, x, top + 4, { width: STATEMENT_COLUMNS[i].width - 10, align: STATEMENT_COLUMNS[i].align });
+    x += STATEMENT_COLUMNS[i].width;
+  });
+  if (!header) {
+    doc.moveTo(PAGE_MARGIN, top + rowHeight).lineTo(PAGE_MARGIN + width, top + rowHeight)
+      .lineWidth(0.5).strokeColor("#DDDDDD").stroke();
+  }
+  doc.y = top + rowHeight;
+}
+
+// Render a doctor's monthly commission statement. Returned in memory since
+// it is built on request.
+export async function generateCommissionStatementPdf(data: CommissionStatementData): Promise<Buffer> {
+  const { doctor, statement, lines } = data;
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `Commission Statement ${statement.month} - ${doctor.name}`,
+      Author: LAB_NAME,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const [year, month] = statement.month.split("-").map(Number);
+  const period = new Date(year, month - 1, 1).toLocaleDateString("en-IN", { month: "long", year: "numeric" });
+
+  drawLetterhead(doc);
+  drawInfoBlock(
+    doc,
+    [
+      ["Doctor", doctor.name],
+      ["Reg. No.", doctor.registrationNumber || "-"],
+      ["Clinic", doctor.clinicName || "-"],
+    ],
+    [
+      ["Period", period],
+      ["Referrals", String(statement.entryCount)],
+      ["Status", statement.settledAt
+        ? `Settled ${formatDate(statement.settledAt)}${statement.paymentReference ? ` (${statement.paymentReference})` : ""}`
+        : "Unsettled"],
+    ]
+  );
+
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  doc.fillColor(PRIMARY_COLOR).font("Helvetica-Bold").fontSize(13)
+    .text("Referral Commission Statement", PAGE_MARGIN, doc.y, { width, align: "center" });
+  doc.moveDown(0.5);
+
+  drawStatementRow(doc, STATEMENT_COLUMNS.map((c) => c.label), true);
+  for (const line of lines) {
+    drawStatementRow(doc, [
+      formatDate(line.accruedAt),
+      line.patientId ? `${line.patientName} (${line.patientId})` : line.patientName,
+      line.testName,
+      line.baseAmount,
+      formatCommissionRate(line.rateType, line.rate),
+      line.amount,
+    ]);
+  }
+
+  doc.moveDown(0.5);
+  doc.fillColor("#000000").font("Helvetica-Bold").fontSize(10)
+    .text(`Total Commission: Rs. ${statement.totalAmount}`, PAGE_MARGIN, doc.y, { width, align: "right" });
+
+  drawFooters(doc, `${doctor.name} - ${period}`, false);
+
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,275 @@
+import { storage } from "./storage";
+import { computeCalculatedValues } from "@shared/formula";
+import type {
+  Test, TestParameter, ParameterResult, DeltaCheck, Patient, ReferenceInterval, AgeUnit, ResultFlag,
+} from "@shared/schema";
+
+// Attach each entered value's paramCode from the test definition so later
+// checks can find the same analyte across different tests
+export function tagParameterCodes(test: Test, parameterResults: ParameterResult[]): ParameterResult[] {
+  const params = test.parameters as TestParameter[];
+  return parameterResults.map((p) => {
+    const param = params.find((tp) => tp.name === p.parameterName);
+    return param ? { ...p, paramCode: param.paramCode } : p;
+  });
+}
+
+// Find the patient's most recent earlier value for each paramCode. Results
+// saved before paramCodes were recorded are matched through their test.
+async function getPreviousValues(
+  patientId: string,
+  excludeResultIds: string[]
+): Promise<Map<string, { value: string; date: Date }>> {
+  const previous = new Map<string, { value: string; date: Date }>();
+  const testCache = new Map<string, Test | undefined>();
+  const history = await storage.getResultsByPatient(patientId);
+
+  for (const result of history) {
+    if (excludeResultIds.includes(result.id)) continue;
+
+    if (!testCache.has(result.testId)) {
+      testCache.set(result.testId, await storage.getTest(result.testId));
+    }
+    const test = testCache.get(result.testId);
+    const tagged = test ? tagParameterCodes(test, result.parameterResults) : result.parameterResults;
+
+    for (const p of tagged) {
+      // History is newest first, so the first value seen for a code wins
+      if (p.paramCode && p.value && !previous.has(p.paramCode)) {
+        previous.set(p.paramCode, { value: p.value, date: result.collectedAt });
+      }
+    }
+  }
+  return previous;
+}
+
+function evaluateDelta(
+  param: TestParameter,
+  value: string,
+  previous: { value: string; date: Date }
+): DeltaCheck | undefined {
+  const current = parseFloat(value);
+  const before = parseFloat(previous.value);
+  const limitType = param.deltaLimitType || "absolute";
+  // A percentage change from zero is undefined, so those pairs are skipped
+  if (param.deltaLimit === undefined || isNaN(current) || isNaN(before) || (limitType === "percent" && before === 0)) {
+    return undefined;
+  }
+
+  const difference = Math.abs(current - before);
+  const change = limitType === "percent" ? (difference / Math.abs(before)) * 100 : difference;
+
+  return {
+    previousValue: previous.value,
+    previousDate: previous.date.toISOString(),
+    change: Math.round(change * 100) / 100,
+    limit: param.deltaLimit,
+    limitType,
+    exceeded: change > param.deltaLimit,
+  };
+}
+
+// Compare entered values with the patient's previous results and record a
+// delta check on every parameter that has a delta limit configured
+export async function runDeltaChecks(
+  patientId: string,
+  test: Test,
+  parameterResults: ParameterResult[],
+  excludeResultIds: string[] = []
+): Promise<ParameterResult[]> {
+  const params = test.parameters as TestParameter[];
+  const tagged = tagParameterCodes(test, parameterResults);
+  if (!params.some((p) => p.deltaLimit !== undefined)) {
+    return tagged;
+  }
+
+  const previous = await getPreviousValues(patientId, excludeResultIds);
+  return tagged.map((p) => {
+    const { deltaCheck: _stale, ...rest } = p;
+    const param = params.find((tp) => tp.name === p.parameterName);
+    const prior = p.paramCode ? previous.get(p.paramCode) : undefined;
+    const deltaCheck = param && prior ? evaluateDelta(param, p.value, prior) : undefined;
+    return deltaCheck ? { ...rest, deltaCheck } : rest;
+  });
+}
+
+export function hasDeltaFailures(parameterResults: ParameterResult[]): boolean {
+  return parameterResults.some((p) => p.deltaCheck?.exceeded);
+}
+
+// Words that all mean "nothing found" on qualitative ranges
+const NEGATIVE_TERMS = ["nil", "negative", "absent", "not detected", "non reactive", "non-reactive", "none seen"];
+
+function normalizeTerm(term: string): string {
+  const t = term.trim().toLowerCase().replace(/\s+/g, " ");
+  return NEGATIVE_TERMS.includes(t) ? "negative" : t;
+}
+
+// Reported values may carry a comparator, e.g. "<0.5" or ">1000"
+export function parseNumericValue(value: string): number {
+  return parseFloat(value.trim().replace(/^[<>]=?\s*/, ""));
+}
+
+// The test's definition of a reported value, by paramCode where the result
+// carries one and by name for results saved before paramCodes were recorded
+export function findTestParameter(test: Test, p: ParameterResult): TestParameter | undefined {
+  const params = test.parameters as TestParameter[];
+  return (p.paramCode && params.find((tp) => tp.paramCode === p.paramCode)) ||
+    params.find((tp) => tp.name === p.parameterName);
+}
+
+// Round a numeric value to the parameter's decimal places, keeping any
+// comparator; text answers and parameters without a precision are unchanged
+export function formatToPrecision(value: string, precision?: number): string {
+  const match = value.trim().match(/^(<=|>=|<|>)?\s*(-?\d+(?:\.\d+)?)$/);
+  if (precision === undefined || !match) return value;
+  return `${match[1] || ""}${parseFloat(match[2]).toFixed(precision)}`;
+}
+
+function flagAgainstRange(value: string, normalRange: string): ResultFlag | undefined {
+  const range = normalRange.trim();
+  if (!value.trim() || !range) return undefined;
+
+  const num = parseNumericValue(value);
+  const between = range.match(/^(-?\d+\.?\d*)\s*(?:-|–|to)\s*(-?\d+\.?\d*)/i);
+  const below = range.match(/^(?:<=?|≤|up to)\s*(\d+\.?\d*)/i);
+  const above = range.match(/^(?:>=?|≥)\s*(\d+\.?\d*)/i);
+
+  if (between || below || above) {
+    if (isNaN(num)) return undefined;
+    if (between) {
+      if (num < parseFloat(between[1])) return "L";
+      if (num > parseFloat(between[2])) return "H";
+      return undefined;
+    }
+    if (below) {
+      const limit = parseFloat(below[1]);
+      const inclusive = !range.startsWith("<") || range.startsWith("<=");
+      return (inclusive ? num > limit : num >= limit) ? "H" : undefined;
+    }
+    const limit = parseFloat(above![1]);
+    const inclusive = range.startsWith(">=") || range.startsWith("≥");
+    return (inclusive ? num < limit : num <= limit) ? "L" : undefined;
+  }
+
+  // Qualitative range: any of the listed answers is normal, e.g. "Nil/Trace"
+  const accepted = range.split(/[\/,]|\bor\b/i).map(normalizeTerm).filter(Boolean);
+  return accepted.includes(normalizeTerm(value)) ? undefined : "A";
+}
+
+// Numeric bounds of a reference range, for charting. Qualitative ranges
+// have none.
+export function getRangeBounds(normalRange: string): { low?: number; high?: number } {
+  const range = normalRange.trim();
+  const between = range.match(/^(-?\d+\.?\d*)\s*(?:-|–|to)\s*(-?\d+\.?\d*)/i);
+  if (between) return { low: parseFloat(between[1]), high: parseFloat(between[2]) };
+  const below = range.match(/^(?:<=?|≤|up to)\s*(\d+\.?\d*)/i);
+  if (below) return { high: parseFloat(below[1]) };
+  const above = range.match(/^(?:>=?|≥)\s*(\d+\.?\d*)/i);
+  if (above) return { low: parseFloat(above[1]) };
+  return {};
+}
+
+function flagValue(param: TestParameter | undefined, value: string, normalRange: string): ResultFlag | undefined {
+  const num = parseNumericValue(value);
+  if (param && !isNaN(num)) {
+    if (param.criticalLow !== undefined && num <= param.criticalLow) return "LL";
+    if (param.criticalHigh !== undefined && num >= param.criticalHigh) return "HH";
+  }
+  return flagAgainstRange(value, normalRange);
+}
+
+// Compute each value's flag from its stored reference range and the
+// parameter's critical limits. HH/LL values are critical.
+export function flagResults(test: Test, parameterResults: ParameterResult[]): ParameterResult[] {
+  const params = test.parameters as TestParameter[];
+  return parameterResults.map((p) => {
+    const { isCritical: _critical, flag: _flag, isAbnormal: _abnormal, ...rest } = p;
+    const param = params.find((tp) => tp.name === p.parameterName);
+    const flag = flagValue(param, p.value, p.normalRange);
+    return {
+      ...rest,
+      isAbnormal: !!flag,
+      ...(flag && { flag }),
+      ...((flag === "HH" || flag === "LL") && { isCritical: true }),
+    };
+  });
+}
+
+export function hasCriticalValues(parameterResults: ParameterResult[]): boolean {
+  return parameterResults.some((p) => p.isCritical);
+}
+
+function ageIn(unit: AgeUnit, dob: Date, at: Date): number {
+  if (unit === "days") {
+    return Math.floor((at.getTime() - dob.getTime()) / (24 * 60 * 60 * 1000));
+  }
+  const months = (at.getFullYear() - dob.getFullYear()) * 12
+    + (at.getMonth() - dob.getMonth())
+    - (at.getDate() < dob.getDate() ? 1 : 0);
+  return unit === "months" ? months : Math.floor(months / 12);
+}
+
+function intervalMatches(interval: ReferenceInterval, patient: Patient, at: Date): boolean {
+  if (interval.sex && interval.sex !== patient.gender) {
+    return false;
+  }
+  if (interval.ageMin === undefined && interval.ageMax === undefined) {
+    return true;
+  }
+  if (!patient.dob) {
+    return false;
+  }
+  const age = ageIn(interval.ageUnit, new Date(patient.dob), at);
+  return (interval.ageMin === undefined || age >= interval.ageMin)
+    && (interval.ageMax === undefined || age < interval.ageMax);
+}
+
+// Pick the reference range that applies to this patient on the collection
+// date. Sex-specific intervals win over ones that apply to both sexes; among
+// equals the first listed wins.
+export function resolveReferenceRange(param: TestParameter, patient: Patient, at: Date): string {
+  const matches = (param.referenceIntervals || []).filter((i) => intervalMatches(i, patient, at));
+  const best = matches.find((i) => i.sex) || matches[0];
+  return best ? best.range : param.normalRange;
+}
+
+// Stamp each entered value with the range resolved for the patient, so the
+// report keeps the range that applied when the result was produced
+export function applyReferenceRanges(
+  test: Test,
+  patient: Patient,
+  at: Date,
+  parameterResults: ParameterResult[]
+): ParameterResult[] {
+  const params = test.parameters as TestParameter[];
+  return parameterResults.map((p) => {
+    const param = params.find((tp) => tp.name === p.parameterName);
+    return param ? { ...p, normalRange: resolveReferenceRange(param, patient, at) } : p;
+  });
+}
+
+// Work out calculated parameters (LDL, A/G ratio, eGFR...) from the entered
+// values, using the patient's age on the collection date
+export function applyCalculations(
+  test: Test,
+  patient: Patient,
+  at: Date,
+  parameterResults: ParameterResult[]
+): ParameterResult[] {
+  return computeCalculatedValues(test.parameters as TestParameter[], parameterResults, {
+    age: patient.dob ? ageIn("years", new Date(patient.dob), at) : undefined,
+    female: patient.gender === "female",
+  });
+}
+
+// Qualitative parameters only accept one of their listed answers
+export function findInvalidQualitativeValues(test: Test, parameterResults: ParameterResult[]): string[] {
+  const params = test.parameters as TestParameter[];
+  return parameterResults
+    .filter((p) => {
+      const param = params.find((tp) => tp.name === p.parameterName);
+      return param?.type === "qualitative" && param.options?.length && !param.options.includes(p.value);
+    })
+    .map((p) => p.parameterName);
+}
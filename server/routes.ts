@@ -6,11 +6,39 @@ import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import { z } from "zod";
 import { verifyFirebaseToken } from "./firebase-admin";
-import { sendOtpEmail } from "./email";
+import { sendOtpEmail, sendCriticalValueAlert, sendSampleRejectionNotice } from "./email";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
 import Razorpay from "razorpay";
+import {
+  generateReportPdf, generateCumulativePdf, generateCommissionStatementPdf, reportFileExists, resolveReportPath,
+  type ReportSection,
+} from "./report-pdf";
+import {
+  runDeltaChecks, hasDeltaFailures, flagResults, hasCriticalValues, applyReferenceRanges,
+  applyCalculations, findInvalidQualitativeValues,
+} from "./result-checks";
+import { listTrendParameters, getParameterTrend, listCumulativeTests, buildCumulativeTable } from "./trends";
+import { generateLabelsPdf, generateLabelsZpl, type SampleLabel } from "./labels";
+import { buildTatBoard, buildTatStats, getDueAt } from "./tat";
+import { recordQcRun, getQcFailures } from "./qc";
+import { importAstmData, rematchAnalyserImport, getImportedValues, markAnalyserImportsApplied } from "./analyser";
+import { buildHl7Oru, buildFhirBundle, type ReportExport } from "./interop";
+import { getFormulaVariables, FORMULA_PATIENT_VARIABLES } from "@shared/formula";
+import {
+  accrueBookingCommission, buildMonthlyStatements, describeCommissionEntries, buildStatementCsv, getMonthRange,
+  currentMonth,
+} from "./commission";
+import {
+  reportStatusTransitions, criticalRecipientTypes, notificationMethods, commissionRateTypes, sampleContainers,
+  sampleStatusTransitions, sampleRejectableStatuses, sampleRejectionReasons, bookingPriorities, qcLevels,
+  analyserImportStatuses, loincCodePattern, MAX_PARAMETER_PRECISION, deltaLimitTypes,
+  ageUnits, referenceSexes,
+  type Report, type Result, type Test, type Patient, type Booking, type AdminRole, type ReportStatus,
+  type ParameterResult, type ParameterChange, type ReportAccessOutcome, type ReportShare, type Doctor, type Sample,
+  type SampleStatus, type QcFailure, type TestParameter, type CriticalNotification,
+} from "@shared/schema";
 
 const uploadsDir = path.join(process.cwd(), "uploads", "banners");
 if (!fs.existsSync(uploadsDir)) {
@@ -69,6 +97,726 @@ function generateSecureToken(): string {
   return randomBytes(32).toString('hex');
 }
 
+// Generate a short, human-typeable report verification code (e.g. 7KQM-4XRD)
+function generateVerificationCode(): string {
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  const bytes = randomBytes(8);
+  const chars = Array.from(bytes, (b) => alphabet[b % alphabet.length]).join("");
+  return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+function normalizeVerificationCode(code: string): string {
+  const cleaned = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return cleaned.length === 8 ? `${cleaned.slice(0, 4)}-${cleaned.slice(4)}` : cleaned;
+}
+
+// Tamper-check hash over the reported values. Fields are hashed in a fixed
+// order because jsonb does not preserve object key order.
+function computeResultHash(results: Result[]): string {
+  const canonical = results.flatMap((r) =>
+    r.parameterResults.map((p) => [p.parameterName, p.value, p.unit, p.normalRange])
+  );
+  return createHash("sha256").update(JSON.stringify(canonical)).digest("hex");
+}
+
+// Download links stop working this many days after release unless an admin
+// issues a new one; 0 keeps them valid indefinitely
+const REPORT_LINK_TTL_DAYS = parseInt(process.env.REPORT_LINK_TTL_DAYS || "30");
+
+function getDownloadLinkExpiry(days: number = REPORT_LINK_TTL_DAYS): Date | null {
+  if (!days || days <= 0) return null;
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+}
+
+// Caller's address for the access log, allowing for the hosting proxy
+function getClientIp(req: Request): string | null {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.ip || null;
+}
+
+function getPublicBaseUrl(req: Request): string {
+  return process.env.APP_BASE_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+// Order a booking's results the way the tests were booked
+function orderBookingResults(booking: Booking, bookingResults: Result[]): Result[] {
+  return (booking.testIds as string[])
+    .map((testId) => bookingResults.find((r) => r.testId === testId))
+    .filter((r): r is Result => !!r);
+}
+
+// The values a report version shows. Results hold the released values; an
+// amended version shows its corrections until it is released, and a
+// superseded version shows the values it had before the amendment that
+// replaced it.
+async function getVersionValues(report: Report): Promise<Map<string, ParameterResult[]>> {
+  const values = new Map<string, ParameterResult[]>();
+  for (const amended of report.amendedResults || []) {
+    values.set(amended.resultId, amended.parameterResults);
+  }
+
+  if (report.supersededBy) {
+    // Corrections made while this version was still pending are part of it
+    const releasedAt = report.releasedAt ? new Date(report.releasedAt) : null;
+    const replaced = new Set<string>();
+    for (const amendment of await storage.getAmendmentsByReport(report.id)) {
+      if (releasedAt && new Date(amendment.createdAt) < releasedAt) continue;
+      if (replaced.has(amendment.resultId)) continue;
+      replaced.add(amendment.resultId);
+      values.set(amendment.resultId, amendment.previousParameterResults);
+    }
+  }
+  return values;
+}
+
+// Load every test section that belongs on a report: all of the booking's
+// results for booking-level reports, otherwise the report's single result
+async function getReportSections(report: Report): Promise<ReportSection[]> {
+  let reportResults: Result[] = [];
+
+  if (report.bookingId) {
+    const booking = await storage.getBooking(report.bookingId);
+    if (booking) {
+      reportResults = orderBookingResults(booking, await storage.getResultsByBooking(booking.id));
+    }
+  }
+
+  if (reportResults.length === 0) {
+    const result = await storage.getResult(report.resultId);
+    if (result) reportResults = [result];
+  }
+
+  const versionValues = await getVersionValues(report);
+  const sections = await Promise.all(
+    reportResults.map(async (result) => {
+      const test = await storage.getTest(result.testId);
+      const parameterResults = versionValues.get(result.id);
+      return test ? { test, result: parameterResults ? { ...result, parameterResults } : result } : null;
+    })
+  );
+  return sections.filter((s): s is ReportSection => !!s);
+}
+
+// Render (or re-render) a report's PDF and record where it was stored
+async function renderReportPdf(report: Report, baseUrl: string): Promise<string | null> {
+  const patient = await storage.getPatient(report.patientId);
+  const sections = await getReportSections(report);
+  if (!patient || sections.length === 0) {
+    return null;
+  }
+
+  if (!report.verificationCode || !report.resultHash) {
+    const verificationCode = generateVerificationCode();
+    const resultHash = computeResultHash(sections.map((s) => s.result));
+    report = await storage.updateReportVerification(report.id, verificationCode, resultHash) || report;
+  }
+
+  // Amended versions print the corrections made since the issued version
+  const amendments = report.amendsReportId
+    ? [
+        ...await storage.getAmendmentsByReport(report.amendsReportId),
+        ...await storage.getAmendmentsByReport(report.id),
+      ]
+    : [];
+
+  const verifiedBy = report.technicallyVerifiedBy ? await storage.getAdmin(report.technicallyVerifiedBy) : undefined;
+  const authorisedBy = report.authorisedBy ? await storage.getAdmin(report.authorisedBy) : undefined;
+
+  const pdfPath = await generateReportPdf({
+    report,
+    patient,
+    sections,
+    verification: {
+      code: report.verificationCode!,
+      hash: report.resultHash!,
+      url: `${baseUrl}/verify/${report.verificationCode}`,
+    },
+    signatories: {
+      verifiedBy: verifiedBy?.name,
+      authorisedBy: authorisedBy?.name,
+    },
+    amendments,
+  });
+  await storage.updateReportPdfPath(report.id, pdfPath);
+  return resolveReportPath(pdfPath);
+}
+
+// Follow the amendment chain from a report to its current version
+async function getCurrentReportVersion(report: Report): Promise<Report> {
+  let current = report;
+  while (current.supersededBy) {
+    const next = await storage.getReport(current.supersededBy);
+    if (!next) break;
+    current = next;
+  }
+  return current;
+}
+
+// Every version of a report, from the original to the newest amendment
+async function getReportVersionChain(report: Report): Promise<Report[]> {
+  let original = report;
+  while (original.amendsReportId) {
+    const previous = await storage.getReport(original.amendsReportId);
+    if (!previous) break;
+    original = previous;
+  }
+  const chain = [original];
+  for (let next = await storage.getAmendingReport(original.id); next; next = await storage.getAmendingReport(next.id)) {
+    chain.push(next);
+  }
+  return chain;
+}
+
+// Return the on-disk PDF for a report, rendering it first if it was never
+// generated (legacy reports) or the file has gone missing
+async function ensureReportPdf(report: Report, baseUrl: string): Promise<string | null> {
+  if (reportFileExists(report.pdfPath) && report.verificationCode) {
+    return resolveReportPath(report.pdfPath);
+  }
+  return renderReportPdf(report, baseUrl);
+}
+
+// Stream a report PDF to the response. A file that cannot be read ends the
+// request with an error rather than leaving it hanging.
+function sendReportPdf(res: Response, filePath: string) {
+  const stream = fs.createReadStream(filePath);
+  stream.on("error", (error) => {
+    console.error("Error reading report PDF:", error);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.removeHeader("Content-Disposition");
+    res.status(500).json({ message: "Failed to read report file" });
+  });
+  stream.pipe(res);
+}
+
+// A patient's results that appear on a released, current report. Patients
+// never see values that are still awaiting authorisation.
+async function getReleasedResults(patientId: string): Promise<Result[]> {
+  const released = (await storage.getReportsByPatient(patientId))
+    .filter((report) => report.status === 'released' && !report.supersededBy);
+  const releasedIds = new Set<string>();
+  for (const report of released) {
+    for (const section of await getReportSections(report)) {
+      releasedIds.add(section.result.id);
+    }
+  }
+  return (await storage.getResultsByPatient(patientId)).filter((r) => releasedIds.has(r.id));
+}
+
+// Payment states that unlock a patient's reports
+function isPaymentCleared(paymentStatus: string | null | undefined): boolean {
+  return paymentStatus === 'verified' || paymentStatus === 'cash_on_delivery' || paymentStatus === 'pay_at_lab';
+}
+
+// Released results the patient may see. Values from bookings still awaiting
+// payment stay hidden, just as their report downloads are locked.
+async function getPatientViewableResults(patientId: string): Promise<Result[]> {
+  const unpaid = new Set(
+    (await storage.getBookingsByPatient(patientId))
+      .filter((b) => !isPaymentCleared(b.paymentStatus))
+      .map((b) => b.id)
+  );
+  return (await getReleasedResults(patientId)).filter((r) => !r.bookingId || !unpaid.has(r.bookingId));
+}
+
+// A patient's released reports with the payment status that decides whether
+// they may be opened
+async function getPatientReports(patientId: string) {
+  // Patients only see reports that a pathologist has authorised and released
+  const reports = (await storage.getReportsByPatient(patientId))
+    .filter((report) => report.status === 'released' && !report.supersededBy);
+  const bookings = await storage.getBookingsByPatient(patientId);
+  
+  return Promise.all(
+    reports.map(async (report) => {
+      const sections = await getReportSections(report);
+      const tests = sections.map((s) => s.test);
+      const result = sections[0]?.result;
+      
+      // Find associated booking to check payment status
+      // First try to match by bookingId if available
+      let associatedBooking = report.bookingId 
+        ? bookings.find(b => b.id === report.bookingId)
+        : null;
+      
+      // Fallback: match by testId if no direct bookingId link
+      if (!associatedBooking && result?.testId) {
+        associatedBooking = bookings.find(b => 
+          (b.testIds as string[]).some(testId => testId === result.testId)
+        );
+      }
+      
+      const paymentVerified = isPaymentCleared(associatedBooking?.paymentStatus);
+      
+      return { 
+        ...report, 
+        test: tests[0] || null,
+        tests,
+        paymentVerified,
+        paymentStatus: associatedBooking?.paymentStatus || 'pending',
+        // Only include download token if payment is verified
+        secureDownloadToken: paymentVerified ? report.secureDownloadToken : null
+      };
+    })
+  );
+}
+
+// Share links last at most this long, and are revoked after this many wrong PINs
+const SHARE_MAX_DAYS = 90;
+const SHARE_MAX_PIN_ATTEMPTS = 5;
+
+// What the patient sees of a share link; the PIN hash never leaves the server
+function toShareSummary(share: ReportShare) {
+  const { pinHash, ...rest } = share;
+  return { ...rest, hasPin: !!pinHash };
+}
+
+// Reports a share link currently opens. The same access rules as the
+// patient's own report list apply, so a link stops showing a report the
+// patient could no longer open. A single shared report follows amendments.
+async function getSharedReports(share: ReportShare) {
+  const reports = (await getPatientReports(share.patientId)).filter((r) => r.paymentVerified);
+  if (!share.reportId) return reports;
+
+  const shared = await storage.getReport(share.reportId);
+  const current = shared ? await getCurrentReportVersion(shared) : undefined;
+  return reports.filter((r) => r.id === current?.id);
+}
+
+// Check a share link is live and the PIN (if any) matches. Wrong PINs count
+// towards revoking the link.
+async function unlockReportShare(
+  token: string,
+  pin: string | undefined
+): Promise<{ share: ReportShare } | { status: number; message: string }> {
+  const share = await storage.getReportShareByToken(token);
+  if (!share) {
+    return { status: 404, message: "Share link not found" };
+  }
+  if (share.revokedAt) {
+    return { status: 410, message: "This link has been withdrawn by the patient" };
+  }
+  if (share.expiresAt < new Date()) {
+    return { status: 410, message: "This link has expired" };
+  }
+  if (share.pinHash) {
+    if (!pin) {
+      return { status: 401, message: "PIN required" };
+    }
+    if (!(await bcrypt.compare(pin, share.pinHash))) {
+      const lockOut = share.failedPinAttempts + 1 >= SHARE_MAX_PIN_ATTEMPTS;
+      await storage.recordReportShareFailedPin(share.id, lockOut);
+      return {
+        status: lockOut ? 410 : 401,
+        message: lockOut ? "Too many incorrect PINs. This link has been withdrawn." : "Incorrect PIN",
+      };
+    }
+  }
+  return { share };
+}
+
+// "Dr. A. Sharma", "dr a sharma" and "A Sharma" all reduce to "a sharma"
+function normalizeDoctorName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z]+/g, " ")
+    .trim()
+    .replace(/^dr /, "");
+}
+
+// Match a typed "Referred By" name to the doctor master, so referrals entered
+// as free text are still counted. Ambiguous names are left unlinked.
+async function findDoctorByName(name: string): Promise<Doctor | undefined> {
+  const key = normalizeDoctorName(name);
+  if (!key) return undefined;
+  const matches = (await storage.getAllDoctors()).filter((d) => d.isActive && normalizeDoctorName(d.name) === key);
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+// Doctor details for the admin screens; the portal password never leaves the server
+function toDoctorSummary(doctor: Doctor) {
+  const { password, ...rest } = doctor;
+  return { ...rest, hasPortalAccess: !!(doctor.username && password) };
+}
+
+// Released reports that include at least one result the doctor referred
+async function getDoctorReports(doctorId: string) {
+  const referred = await storage.getResultsByDoctor(doctorId);
+  const referredIds = new Set(referred.map((r) => r.id));
+  const patientIds = Array.from(new Set(referred.map((r) => r.patientId)));
+
+  const reports = [];
+  for (const patientId of patientIds) {
+    const patient = await storage.getPatient(patientId);
+    const bookings = await storage.getBookingsByPatient(patientId);
+    for (const report of await storage.getReportsByPatient(patientId)) {
+      if (report.status !== 'released' || report.supersededBy) continue;
+      const sections = await getReportSections(report);
+      if (!sections.some((s) => referredIds.has(s.result.id))) continue;
+      const booking = report.bookingId ? bookings.find((b) => b.id === report.bookingId) : undefined;
+      reports.push({
+        id: report.id,
+        patientName: patient?.name || null,
+        patientId: patient?.patientId || null,
+        tests: sections.map((s) => s.test.name),
+        collectedAt: sections[0]?.result.collectedAt || null,
+        generatedAt: report.generatedAt,
+        version: report.version,
+        hasCriticalValues: report.hasCriticalValues,
+        paymentVerified: !booking || isPaymentCleared(booking.paymentStatus),
+      });
+    }
+  }
+  return reports.sort((a, b) => new Date(b.generatedAt).getTime() - new Date(a.generatedAt).getTime());
+}
+
+// Stream a patient's cumulative report for one test
+async function sendCumulativeReport(res: Response, patient: Patient, testId: string, history: Result[]) {
+  const test = await storage.getTest(testId);
+  if (!test) {
+    return res.status(404).json({ message: "Test not found" });
+  }
+  const table = buildCumulativeTable(history, test);
+  if (table.dates.length === 0) {
+    return res.status(404).json({ message: "No released results for this test" });
+  }
+
+  const pdf = await generateCumulativePdf({ patient, test, table });
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `inline; filename="cumulative-${test.code}-${patient.patientId}.pdf"`);
+  res.send(pdf);
+}
+
+// Calculate derived values, then flag every value and run the delta check
+async function checkParameterResults(
+  patient: Patient,
+  test: Test,
+  parameterResults: ParameterResult[],
+  collectedAt: Date,
+  excludeResultIds: string[]
+): Promise<ParameterResult[]> {
+  const calculated = applyCalculations(test, patient, collectedAt, parameterResults);
+  return flagResults(test, await runDeltaChecks(patient.id, test, calculated, excludeResultIds));
+}
+
+// Critical value calls that cover a report's current values. An amendment
+// can change which values are critical, so calls logged before the report
+// was last amended no longer count towards release.
+async function getCurrentCriticalNotifications(report: Report): Promise<CriticalNotification[]> {
+  const [notifications, amendments] = await Promise.all([
+    storage.getCriticalNotificationsByReport(report.id),
+    storage.getAmendmentsByReport(report.id),
+  ]);
+  const lastAmendment = amendments[amendments.length - 1];
+  return lastAmendment ? notifications.filter((n) => n.createdAt > lastAmendment.createdAt) : notifications;
+}
+
+// Email the lab as soon as a critical value has been saved. Failures are only
+// logged: the report stays held until the notification is recorded anyway.
+async function alertCriticalValues(patientId: string, test: Test, parameterResults: ParameterResult[]) {
+  const critical = parameterResults.filter((p) => p.isCritical);
+  if (critical.length === 0) return;
+
+  const patient = await storage.getPatient(patientId);
+  await sendCriticalValueAlert({
+    patientName: patient?.name || "Unknown",
+    patientId: patient?.patientId || patientId,
+    testName: test.name,
+    values: critical.map((p) => ({ parameterName: p.parameterName, value: p.value, unit: p.unit })),
+  });
+}
+
+const sampleRejectionReasonLabels: Record<string, string> = {
+  haemolysed: "haemolysed",
+  clotted: "clotted",
+  insufficient: "insufficient in quantity",
+  other: "unsuitable for testing",
+};
+
+// Failed QC for the report's parameters at the time each result was entered.
+// Results run while the analyser was out of control must not be released.
+async function getReportQcFailures(sections: ReportSection[]): Promise<QcFailure[]> {
+  const failures = new Map<string, QcFailure>();
+  for (const { result } of sections) {
+    const codes = result.parameterResults.map((p) => p.paramCode).filter((c): c is string => !!c);
+    if (codes.length === 0) continue;
+    for (const failure of await getQcFailures(new Date(result.createdAt), codes)) {
+      failures.set(`${failure.materialId}/${failure.runAt}`, failure);
+    }
+  }
+  return Array.from(failures.values());
+}
+
+// The data behind a standard export of a report, or null if its patient or
+// results are missing
+async function getReportExport(report: Report, baseUrl: string): Promise<ReportExport | null> {
+  const [patient, sections] = await Promise.all([storage.getPatient(report.patientId), getReportSections(report)]);
+  return patient && sections.length > 0 ? { report, patient, sections, baseUrl } : null;
+}
+
+// Check and reference range settings on test parameters. Returns a message
+// for the first problem.
+function findInvalidParameterSettings(parameters: TestParameter[]): string | null {
+  for (const p of parameters) {
+    if (p.deltaLimit !== undefined &&
+      !(typeof p.deltaLimit === "number" && p.deltaLimit > 0 && deltaLimitTypes.includes(p.deltaLimitType!))) {
+      return `${p.name}: delta limit must be a positive absolute or percentage change`;
+    }
+    for (const limit of [p.criticalLow, p.criticalHigh]) {
+      if (limit !== undefined && !(typeof limit === "number" && Number.isFinite(limit))) {
+        return `${p.name}: critical limits must be numbers`;
+      }
+    }
+    if (p.criticalLow !== undefined && p.criticalHigh !== undefined && p.criticalLow >= p.criticalHigh) {
+      return `${p.name}: the critical low limit must be below the critical high limit`;
+    }
+    if (p.referenceIntervals !== undefined && !Array.isArray(p.referenceIntervals)) {
+      return `${p.name}: reference ranges must be a list`;
+    }
+    for (const interval of p.referenceIntervals || []) {
+      if (!(typeof interval?.range === "string" && interval.range.trim() && ageUnits.includes(interval.ageUnit))) {
+        return `${p.name}: each reference range needs a range and an age unit`;
+      }
+      if (interval.sex !== undefined && !referenceSexes.includes(interval.sex)) {
+        return `${p.name}: reference range sex must be male or female`;
+      }
+      for (const age of [interval.ageMin, interval.ageMax]) {
+        if (age !== undefined && !(typeof age === "number" && Number.isFinite(age) && age >= 0)) {
+          return `${p.name}: reference range ages must be numbers of zero or more`;
+        }
+      }
+      if (interval.ageMin !== undefined && interval.ageMax !== undefined && interval.ageMin >= interval.ageMax) {
+        return `${p.name}: a reference range's lower age must be below its upper age`;
+      }
+    }
+  }
+  return null;
+}
+
+// Calculated parameters need a formula that parses and only uses the test's
+// other paramCodes and the patient variables. Returns a message for the
+// first problem.
+function findInvalidParameterFormulas(parameters: TestParameter[]): string | null {
+  for (const p of parameters) {
+    if (p.type !== "calculated") {
+      if (p.formula !== undefined) return `${p.name}: only calculated parameters have a formula`;
+      continue;
+    }
+    if (typeof p.formula !== "string" || !p.formula.trim()) {
+      return `${p.name}: calculated parameters need a formula`;
+    }
+    let variables: string[];
+    try {
+      variables = getFormulaVariables(p.formula);
+    } catch (error) {
+      return `${p.name}: ${(error as Error).message}`;
+    }
+    const known: string[] = [
+      ...parameters.filter((other) => other !== p).map((other) => other.paramCode),
+      ...FORMULA_PATIENT_VARIABLES,
+    ];
+    const unknown = variables.filter((v) => !known.includes(v));
+    if (unknown.length > 0) {
+      return `${p.name}: unknown parameter codes in formula: ${unknown.join(", ")}`;
+    }
+    if (variables.length === 0) {
+      return `${p.name}: the formula must use at least one parameter code`;
+    }
+  }
+  return null;
+}
+
+// Parameter fields that can be changed on an existing test
+const EDITABLE_PARAMETER_FIELDS = [
+  "deltaLimit", "deltaLimitType", "criticalLow", "criticalHigh", "referenceIntervals", "formula",
+] as const;
+
+// Coding on test parameters ends up in exports other systems parse, so it
+// is checked before it is stored. Returns a message for the first problem.
+function findInvalidParameterCoding(parameters: TestParameter[]): string | null {
+  for (const p of parameters) {
+    if (p.loinc !== undefined && !loincCodePattern.test(p.loinc)) {
+      return `${p.name}: LOINC code should look like 2345-7`;
+    }
+    if (p.precision !== undefined &&
+      !(Number.isInteger(p.precision) && p.precision >= 0 && p.precision <= MAX_PARAMETER_PRECISION)) {
+      return `${p.name}: decimal places must be a whole number from 0 to ${MAX_PARAMETER_PRECISION}`;
+    }
+  }
+  return null;
+}
+
+// What goes on a booking's tube labels
+async function getSampleLabels(booking: Booking, samples: Sample[]): Promise<SampleLabel[]> {
+  const patient = booking.patientId ? await storage.getPatient(booking.patientId) : undefined;
+  const labels: SampleLabel[] = [];
+  for (const sample of samples) {
+    const tests = await Promise.all(sample.testIds.map((id) => storage.getTest(id)));
+    labels.push({
+      sample,
+      patientName: patient?.name || booking.guestName || "Guest",
+      patientId: patient?.patientId || null,
+      testCodes: tests.filter((t): t is Test => !!t).map((t) => t.code),
+    });
+  }
+  return labels;
+}
+
+interface ResultEntry {
+  patientId: string;
+  testId: string;
+  bookingId?: string;
+  technician: string;
+  referredBy?: string;
+  referringDoctorId?: string;
+  collectedAt?: string;
+  parameterResults: ParameterResult[];
+  remarks?: string;
+  interpretation?: string;
+}
+
+// The tube a booked test is run on, once the booking has been accessioned
+async function findTestSample(bookingId: string, testId: string): Promise<Sample | undefined> {
+  return (await storage.getSamplesByBooking(bookingId)).find((s) => s.testIds.includes(testId));
+}
+
+// When the sample behind a result was collected: the tube's collection time,
+// else the time entered with the result, else now
+function getCollectionDate(sample: Sample | undefined, collectedAt?: string): Date {
+  return sample ? new Date(sample.collectedAt) : collectedAt ? new Date(collectedAt) : new Date();
+}
+
+// A booked test waiting for results, as listed on the worklist
+interface WorklistItem {
+  bookingId: string;
+  priority: string;
+  slot: Date;
+  patient: Pick<Patient, "id" | "patientId" | "name" | "gender" | "dob">;
+  test: Pick<Test, "id" | "name" | "code" | "category" | "parameters">;
+  sample: Pick<Sample, "id" | "accessionNumber" | "status" | "collectedAt"> | null;
+  dueAt: Date | null;
+  // Values received from an analyser, waiting for the technician to review
+  imported: ReturnType<typeof getImportedValues>;
+}
+
+// Save one test's results. Booking results are consolidated into one report
+// once every booked test has been entered; until then the booking stays in
+// processing. Shared by the create-report screen and worklist bulk entry.
+async function enterTestResult(
+  entry: ResultEntry
+): Promise<{ result: Result; report: Report | null; pendingTests: number } | { status: number; message: string }> {
+  const {
+    patientId, testId, bookingId, technician, referredBy, referringDoctorId, collectedAt, parameterResults, remarks,
+    interpretation,
+  } = entry;
+
+  const [patient, test] = await Promise.all([storage.getPatient(patientId), storage.getTest(testId)]);
+  if (!patient || !test) {
+    return { status: 404, message: "Patient or test not found" };
+  }
+
+  const invalidValues = findInvalidQualitativeValues(test, parameterResults);
+  if (invalidValues.length > 0) {
+    return { status: 400, message: `Choose a listed result for ${invalidValues.join(", ")}` };
+  }
+
+  let booking: Booking | undefined;
+  let bookingResultIds: string[] = [];
+  if (bookingId) {
+    booking = await storage.getBooking(bookingId);
+    if (!booking) {
+      return { status: 404, message: "Booking not found" };
+    }
+    if (booking.patientId !== patientId) {
+      return { status: 400, message: "Booking does not belong to this patient" };
+    }
+    if (!(booking.testIds as string[]).includes(testId)) {
+      return { status: 400, message: "Test is not part of this booking" };
+    }
+    const existingResults = await storage.getResultsByBooking(bookingId);
+    if (existingResults.some((r) => r.testId === testId)) {
+      return { status: 400, message: "Results for this test have already been entered for this booking" };
+    }
+    bookingResultIds = existingResults.map((r) => r.id);
+  }
+
+  // The referring doctor is picked from the master list, or matched from a
+  // typed name; a booking made for a doctor supplies one when neither is given
+  let doctor: Doctor | undefined;
+  if (referringDoctorId) {
+    doctor = await storage.getDoctor(referringDoctorId);
+    if (!doctor) {
+      return { status: 400, message: "Referring doctor not found" };
+    }
+  } else if (referredBy?.trim()) {
+    doctor = await findDoctorByName(referredBy);
+  } else if (booking?.referringDoctorId) {
+    doctor = await storage.getDoctor(booking.referringDoctorId);
+  }
+  if (booking && doctor && !booking.referringDoctorId) {
+    booking = await storage.setBookingReferringDoctor(booking.id, doctor.id);
+    await accrueBookingCommission(booking!);
+  }
+
+  // Results from an accessioned booking are tied to the tube they were run
+  // on, and take their collection time from it
+  const sample = booking ? await findTestSample(booking.id, testId) : undefined;
+
+  // Ranges are resolved for the patient's sex and age on the collection
+  // date and stored with the result
+  const collectedDate = getCollectionDate(sample, collectedAt);
+  const withRanges = applyReferenceRanges(test, patient, collectedDate, parameterResults);
+
+  const result = await storage.createResult({
+    patientId,
+    testId,
+    bookingId: booking?.id || null,
+    technician,
+    referredBy: doctor?.name || referredBy?.trim() || null,
+    referringDoctorId: doctor?.id || null,
+    sampleId: sample?.id || null,
+    remarks: remarks?.trim() || null,
+    interpretation: interpretation?.trim() || null,
+    collectedAt: collectedDate,
+    parameterResults: await checkParameterResults(patient, test, withRanges, collectedDate, bookingResultIds),
+  });
+  await alertCriticalValues(patientId, test, result.parameterResults);
+
+  let reportResults: Result[] = [result];
+  if (booking) {
+    await markAnalyserImportsApplied(booking.id);
+    reportResults = orderBookingResults(booking, await storage.getResultsByBooking(booking.id));
+    const pendingTests = (booking.testIds as string[]).length - reportResults.length;
+    if (pendingTests > 0) {
+      await storage.updateBookingStatus(booking.id, "processing");
+      return { result, report: null, pendingTests };
+    }
+  }
+
+  const report = await createConsolidatedReport(patientId, booking?.id || null, reportResults);
+  return { result, report, pendingTests: 0 };
+}
+
+// One report over all of a booking's results, in booking order, waiting for
+// review
+async function createConsolidatedReport(patientId: string, bookingId: string | null, reportResults: Result[]): Promise<Report> {
+  return storage.createReport({
+    patientId,
+    resultId: reportResults[0].id,
+    bookingId,
+    pdfPath: null,
+    secureDownloadToken: generateSecureToken(),
+    verificationCode: generateVerificationCode(),
+    resultHash: computeResultHash(reportResults),
+    status: "entered",
+    hasCriticalValues: reportResults.some((r) => hasCriticalValues(r.parameterResults)),
+  });
+}
+
 // JWT token verification middleware
 function authenticateToken(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers['authorization'];
@@ -96,6 +844,15 @@ function adminOnly(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// Referring doctor portal middleware
+function doctorOnly(req: Request, res: Response, next: NextFunction) {
+  const user = (req as any).user;
+  if (!user || user.type !== 'doctor') {
+    return res.status(403).json({ message: "Doctor access required" });
+  }
+  next();
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -624,6 +1381,34 @@ export async function registerRoutes(
     }
   });
 
+  // Referring doctor login
+  app.post("/api/doctor/login", async (req, res) => {
+    try {
+      const { username, password } = req.body;
+
+      if (!username || !password) {
+        return res.status(400).json({ message: "Username and password required" });
+      }
+
+      const doctor = await storage.getDoctorByUsername(username);
+      if (!doctor || !doctor.password || !doctor.isActive) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      const valid = await bcrypt.compare(password, doctor.password);
+      if (!valid) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      const token = jwt.sign({ id: doctor.id, type: 'doctor' }, JWT_SECRET, { expiresIn: '24h' });
+      const { password: _, ...doctorData } = doctor;
+      res.json({ doctor: doctorData, token });
+    } catch (error) {
+      console.error("Error in doctor login:", error);
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
   // ==================== PUBLIC ROUTES ====================
 
   // Get all tests
@@ -778,17 +1563,44 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Report not found or link expired" });
       }
 
+      const logAccess = (outcome: ReportAccessOutcome) => storage.logReportAccess({
+        reportId: report.id,
+        outcome,
+        ipAddress: getClientIp(req),
+        userAgent: req.headers['user-agent'] || null,
+      });
+
+      if (report.downloadTokenRevokedAt) {
+        await logAccess("revoked");
+        return res.status(410).json({ message: "This link has been withdrawn. Please contact the lab for a new one." });
+      }
+      if (report.downloadTokenExpiresAt && report.downloadTokenExpiresAt < new Date()) {
+        await logAccess("expired");
+        return res.status(410).json({ message: "This link has expired. Please log in or contact the lab for a new one." });
+      }
+
+      // Links to an amended report always open the current version. It is
+      // served under the old link, so the current version's token is never
+      // handed out; revoking links applies to every version.
+      const target = report.supersededBy ? await getCurrentReportVersion(report) : report;
+
+      if (target.status !== 'released') {
+        await logAccess("not_released");
+        return res.status(403).json({ message: "This report has not been released yet" });
+      }
+
       // Check payment status before allowing download
       // For reports with a booking, verify payment status
-      if (report.bookingId) {
-        const booking = await storage.getBooking(report.bookingId);
+      if (target.bookingId) {
+        const booking = await storage.getBooking(target.bookingId);
         if (!booking) {
+          await logAccess("booking_missing");
           return res.status(403).json({ 
             message: "Unable to verify payment status. Please contact support." 
           });
         }
-        const allowedPaymentStatuses = ['verified', 'cash_on_delivery', 'pay_at_lab'];
-        if (!allowedPaymentStatuses.includes(booking.paymentStatus)) {
+        if (!isPaymentCleared(booking.paymentStatus)) {
+          await logAccess("payment_pending");
           return res.status(403).json({ 
             message: "Payment is not verified. Please complete your payment to access the report." 
           });
@@ -797,74 +1609,140 @@ export async function registerRoutes(
       // Reports without bookingId are legacy reports created before payment tracking
       // These are allowed to be downloaded (admin-created reports)
 
-      // In production, serve the actual PDF file
-      // For now, generate a simple HTML response
-      const patient = await storage.getPatient(report.patientId);
-      const result = await storage.getResult(report.resultId);
-      const test = result ? await storage.getTest(result.testId) : null;
-
-      res.setHeader('Content-Type', 'text/html');
-      res.send(`
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <title>Report - ${patient?.patientId}</title>
-          <style>
-            body { font-family: Arial, sans-serif; padding: 40px; max-width: 800px; margin: 0 auto; }
-            h1 { color: #005B96; }
-            .header { text-align: center; border-bottom: 2px solid #87CEEB; padding-bottom: 20px; }
-            .patient-info { margin: 20px 0; padding: 15px; background: #f8f9fa; border-radius: 8px; }
-            table { width: 100%; border-collapse: collapse; margin: 20px 0; }
-            th, td { padding: 12px; text-align: left; border-bottom: 1px solid #ddd; }
-            th { background: #87CEEB; color: white; }
-            .abnormal { color: red; font-weight: bold; }
-            .normal { color: green; }
-            .footer { margin-top: 40px; text-align: center; font-size: 12px; color: #666; }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <h1>Archana Pathology Lab</h1>
-            <p>NABL Accredited | ISO 9001 Certified</p>
-          </div>
-          <div class="patient-info">
-            <strong>Patient ID:</strong> ${patient?.patientId}<br>
-            <strong>Name:</strong> ${patient?.name}<br>
-            <strong>Phone:</strong> ${patient?.phone}<br>
-            <strong>Date:</strong> ${new Date(report.generatedAt).toLocaleDateString()}
-          </div>
-          <h2>${test?.name || 'Test Report'}</h2>
-          <table>
-            <tr>
-              <th>Parameter</th>
-              <th>Value</th>
-              <th>Unit</th>
-              <th>Normal Range</th>
-              <th>Status</th>
-            </tr>
-            ${(result?.parameterResults as any[] || []).map((p: any) => `
-              <tr>
-                <td>${p.parameterName}</td>
-                <td>${p.value}</td>
-                <td>${p.unit}</td>
-                <td>${p.normalRange}</td>
-                <td class="${p.isAbnormal ? 'abnormal' : 'normal'}">${p.isAbnormal ? 'Abnormal' : 'Normal'}</td>
-              </tr>
-            `).join('')}
-          </table>
-          <div class="footer">
-            <p>This is a computer generated report.</p>
-            <p>Archana Pathology Lab | Contact: +91 98765 43210 | info@archanapathology.com</p>
-          </div>
-        </body>
-        </html>
-      `);
+      const filePath = await ensureReportPdf(target, getPublicBaseUrl(req));
+      if (!filePath) {
+        return res.status(404).json({ message: "Report data is incomplete" });
+      }
+
+      await logAccess(target === report ? "served" : "redirected");
+      const patient = await storage.getPatient(target.patientId);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="Report-${patient?.patientId || target.id}.pdf"`);
+      sendReportPdf(res, filePath);
     } catch (error) {
       console.error("Error downloading report:", error);
       res.status(500).json({ message: "Failed to download report" });
     }
   });
 
+  // What a share link is before it is unlocked (public). Only says whether a
+  // PIN is needed; nothing about the patient is revealed yet.
+  app.get("/api/shared/:token", async (req, res) => {
+    try {
+      const share = await storage.getReportShareByToken(req.params.token);
+      if (!share) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      if (share.revokedAt || share.expiresAt < new Date()) {
+        return res.status(410).json({ message: "This link has expired or been withdrawn" });
+      }
+      res.json({ pinRequired: !!share.pinHash, expiresAt: share.expiresAt });
+    } catch (error) {
+      console.error("Error fetching share link:", error);
+      res.status(500).json({ message: "Failed to open share link" });
+    }
+  });
+
+  // Unlock a share link and list its reports (public, PIN in the body).
+  // Each successful unlock counts as one view.
+  app.post("/api/shared/:token/open", async (req, res) => {
+    try {
+      const unlocked = await unlockReportShare(req.params.token, req.body.pin);
+      if (!("share" in unlocked)) {
+        return res.status(unlocked.status).json({ message: unlocked.message });
+      }
+      const { share } = unlocked;
+
+      const patient = await storage.getPatient(share.patientId);
+      const reports = await getSharedReports(share);
+      await storage.recordReportShareView(share.id);
+
+      res.json({
+        patientName: patient?.name || null,
+        patientId: patient?.patientId || null,
+        label: share.label,
+        expiresAt: share.expiresAt,
+        reports: reports.map((r) => ({
+          id: r.id,
+          tests: r.tests.map((t) => t.name),
+          generatedAt: r.generatedAt,
+          version: r.version,
+        })),
+      });
+    } catch (error) {
+      console.error("Error opening share link:", error);
+      res.status(500).json({ message: "Failed to open share link" });
+    }
+  });
+
+  // Download one report through a share link (public, PIN in the body)
+  app.post("/api/shared/:token/reports/:reportId", async (req, res) => {
+    try {
+      const unlocked = await unlockReportShare(req.params.token, req.body.pin);
+      if (!("share" in unlocked)) {
+        return res.status(unlocked.status).json({ message: unlocked.message });
+      }
+
+      const shared = (await getSharedReports(unlocked.share)).some((r) => r.id === req.params.reportId);
+      const report = shared ? await storage.getReport(req.params.reportId) : undefined;
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const filePath = await ensureReportPdf(report, getPublicBaseUrl(req));
+      if (!filePath) {
+        return res.status(404).json({ message: "Report data is incomplete" });
+      }
+
+      const patient = await storage.getPatient(report.patientId);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="Report-${patient?.patientId || report.id}.pdf"`);
+      sendReportPdf(res, filePath);
+    } catch (error) {
+      console.error("Error downloading shared report:", error);
+      res.status(500).json({ message: "Failed to download report" });
+    }
+  });
+
+  // Verify report authenticity (public, by the code printed on the report)
+  app.get("/api/reports/verify/:code", async (req, res) => {
+    try {
+      const code = normalizeVerificationCode(req.params.code);
+      const report = await storage.getReportByVerificationCode(code);
+
+      if (!report || !report.resultHash || report.status !== 'released') {
+        return res.status(404).json({ message: "No report found for this verification code" });
+      }
+
+      const patient = await storage.getPatient(report.patientId);
+      const sections = await getReportSections(report);
+
+      // Only initials are disclosed - the verifier already holds the report
+      const patientInitials = (patient?.name || "")
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((part) => `${part.charAt(0).toUpperCase()}.`)
+        .join(" ");
+
+      const currentHash = sections.length > 0 ? computeResultHash(sections.map((s) => s.result)) : null;
+      const superseded = !!report.supersededBy || !!(await storage.getAmendingReport(report.id));
+
+      res.json({
+        verificationCode: report.verificationCode,
+        patientInitials,
+        testName: sections.map((s) => s.test.name).join(", ") || null,
+        generatedAt: report.generatedAt,
+        resultHash: report.resultHash,
+        integrityIntact: currentHash === report.resultHash,
+        version: report.version,
+        superseded,
+      });
+    } catch (error) {
+      console.error("Error verifying report:", error);
+      res.status(500).json({ message: "Failed to verify report" });
+    }
+  });
+
   // ==================== PATIENT ROUTES ====================
 
   // Get patient bookings
@@ -894,46 +1772,179 @@ export async function registerRoutes(
   app.get("/api/patient/reports", authenticateToken, async (req, res) => {
     try {
       const user = (req as any).user;
-      const reports = await storage.getReportsByPatient(user.id);
-      const bookings = await storage.getBookingsByPatient(user.id);
-      
-      const reportsWithDetails = await Promise.all(
-        reports.map(async (report) => {
-          const result = await storage.getResult(report.resultId);
-          const test = result ? await storage.getTest(result.testId) : null;
-          
-          // Find associated booking to check payment status
-          // First try to match by bookingId if available
-          let associatedBooking = report.bookingId 
-            ? bookings.find(b => b.id === report.bookingId)
-            : null;
-          
-          // Fallback: match by testId if no direct bookingId link
-          if (!associatedBooking && result?.testId) {
-            associatedBooking = bookings.find(b => 
-              (b.testIds as string[]).some(testId => testId === result.testId)
-            );
-          }
-          
-          const paymentVerified = associatedBooking?.paymentStatus === 'verified' || 
-                                  associatedBooking?.paymentStatus === 'cash_on_delivery' ||
-                                  associatedBooking?.paymentStatus === 'pay_at_lab';
-          
-          return { 
-            ...report, 
-            test,
-            paymentVerified,
-            paymentStatus: associatedBooking?.paymentStatus || 'pending',
-            // Only include download token if payment is verified
-            secureDownloadToken: paymentVerified ? report.secureDownloadToken : null
-          };
+      res.json(await getPatientReports(user.id));
+    } catch (error) {
+      console.error("Error fetching patient reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  // Download one of the patient's own reports. Logged-in patients do not need
+  // the shareable link, so this keeps working after the link expires.
+  app.get("/api/patient/reports/:id/download", authenticateToken, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const report = await storage.getReport(req.params.id);
+      if (!report || report.patientId !== user.id || report.status !== 'released' || report.supersededBy) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      if (report.bookingId) {
+        const booking = await storage.getBooking(report.bookingId);
+        if (!isPaymentCleared(booking?.paymentStatus)) {
+          return res.status(403).json({
+            message: "Payment is not verified. Please complete your payment to access the report."
+          });
+        }
+      }
+
+      const filePath = await ensureReportPdf(report, getPublicBaseUrl(req));
+      if (!filePath) {
+        return res.status(404).json({ message: "Report data is incomplete" });
+      }
+
+      const patient = await storage.getPatient(report.patientId);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="Report-${patient?.patientId || report.id}.pdf"`);
+      sendReportPdf(res, filePath);
+    } catch (error) {
+      console.error("Error downloading patient report:", error);
+      res.status(500).json({ message: "Failed to download report" });
+    }
+  });
+
+  // Parameters in the patient's released results that can be charted
+  app.get("/api/patient/trends", authenticateToken, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const parameters = await listTrendParameters(await getPatientViewableResults(user.id));
+      res.json(parameters);
+    } catch (error) {
+      console.error("Error fetching trend parameters:", error);
+      res.status(500).json({ message: "Failed to fetch trends" });
+    }
+  });
+
+  // Time series for one parameter, optionally limited to the last N months
+  app.get("/api/patient/trends/:paramCode", authenticateToken, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const months = parseInt(req.query.months as string);
+      let since: Date | undefined;
+      if (!isNaN(months) && months > 0) {
+        since = new Date();
+        since.setMonth(since.getMonth() - months);
+      }
+
+      const trend = await getParameterTrend(await getPatientViewableResults(user.id), req.params.paramCode, since);
+      if (!trend) {
+        return res.status(404).json({ message: "No results found for this parameter" });
+      }
+      res.json(trend);
+    } catch (error) {
+      console.error("Error fetching parameter trend:", error);
+      res.status(500).json({ message: "Failed to fetch trend" });
+    }
+  });
+
+  // Tests the patient can get a cumulative report for
+  app.get("/api/patient/cumulative", authenticateToken, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      res.json(await listCumulativeTests(await getPatientViewableResults(user.id)));
+    } catch (error) {
+      console.error("Error fetching cumulative tests:", error);
+      res.status(500).json({ message: "Failed to fetch cumulative reports" });
+    }
+  });
+
+  app.get("/api/patient/cumulative/:testId", authenticateToken, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const patient = await storage.getPatient(user.id);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      await sendCumulativeReport(res, patient, req.params.testId, await getPatientViewableResults(patient.id));
+    } catch (error) {
+      console.error("Error generating cumulative report:", error);
+      res.status(500).json({ message: "Failed to generate cumulative report" });
+    }
+  });
+
+  // The patient's share links, newest first
+  app.get("/api/patient/shares", authenticateToken, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const shares = await storage.getReportSharesByPatient(user.id);
+      const sharesWithDetails = await Promise.all(
+        shares.map(async (share) => {
+          const report = share.reportId ? await storage.getReport(share.reportId) : null;
+          const tests = report ? (await getReportSections(report)).map((s) => s.test.name) : [];
+          return { ...toShareSummary(share), reportTitle: report ? tests.join(", ") : null };
         })
       );
+      res.json(sharesWithDetails);
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
 
-      res.json(reportsWithDetails);
+  // Create a share link for one report, or every report when reportId is omitted
+  app.post("/api/patient/shares", authenticateToken, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { reportId, expiresInDays, pin, label } = req.body;
+
+      const days = Number(expiresInDays);
+      if (!Number.isInteger(days) || days < 1 || days > SHARE_MAX_DAYS) {
+        return res.status(400).json({ message: `Links can last between 1 and ${SHARE_MAX_DAYS} days` });
+      }
+      if (pin && !/^\d{4,6}$/.test(pin)) {
+        return res.status(400).json({ message: "PIN must be 4 to 6 digits" });
+      }
+
+      const reports = await getPatientReports(user.id);
+      if (reportId) {
+        const report = reports.find((r) => r.id === reportId);
+        if (!report) {
+          return res.status(404).json({ message: "Report not found" });
+        }
+        if (!report.paymentVerified) {
+          return res.status(403).json({ message: "Reports can be shared once payment is complete" });
+        }
+      } else if (!reports.some((r) => r.paymentVerified)) {
+        return res.status(400).json({ message: "You have no reports to share yet" });
+      }
+
+      const share = await storage.createReportShare({
+        patientId: user.id,
+        reportId: reportId || null,
+        token: generateSecureToken(),
+        label: label?.trim() || null,
+        pinHash: pin ? await bcrypt.hash(pin, 10) : null,
+        expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+      });
+      res.json(toShareSummary(share));
     } catch (error) {
-      console.error("Error fetching patient reports:", error);
-      res.status(500).json({ message: "Failed to fetch reports" });
+      console.error("Error creating share link:", error);
+      res.status(500).json({ message: "Failed to create share link" });
+    }
+  });
+
+  app.post("/api/patient/shares/:id/revoke", authenticateToken, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const share = await storage.getReportShare(req.params.id);
+      if (!share || share.patientId !== user.id) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      const updated = await storage.revokeReportShare(share.id);
+      res.json(updated ? toShareSummary(updated) : null);
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
     }
   });
 
@@ -976,6 +1987,45 @@ export async function registerRoutes(
     }
   });
 
+  // ==================== DOCTOR PORTAL ROUTES ====================
+
+  // Released reports of patients the doctor referred
+  app.get("/api/doctor/reports", authenticateToken, doctorOnly, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      res.json(await getDoctorReports(user.id));
+    } catch (error) {
+      console.error("Error fetching doctor reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  app.get("/api/doctor/reports/:id/download", authenticateToken, doctorOnly, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const summary = (await getDoctorReports(user.id)).find((r) => r.id === req.params.id);
+      const report = summary && await storage.getReport(summary.id);
+      if (!summary || !report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (!summary.paymentVerified) {
+        return res.status(403).json({ message: "This report is awaiting payment and cannot be opened yet" });
+      }
+
+      const filePath = await ensureReportPdf(report, getPublicBaseUrl(req));
+      if (!filePath) {
+        return res.status(404).json({ message: "Report data is incomplete" });
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="Report-${summary.patientId || report.id}.pdf"`);
+      sendReportPdf(res, filePath);
+    } catch (error) {
+      console.error("Error downloading doctor report:", error);
+      res.status(500).json({ message: "Failed to download report" });
+    }
+  });
+
   // ==================== ADMIN ROUTES ====================
 
   // Dashboard stats
@@ -1006,11 +2056,14 @@ export async function registerRoutes(
   // Create patient
   app.post("/api/admin/patients", authenticateToken, adminOnly, async (req, res) => {
     try {
-      const { name, phone, email, gender, address } = req.body;
+      const { name, phone, email, gender, dob, address } = req.body;
 
       if (!name || !phone) {
         return res.status(400).json({ message: "Name and phone are required" });
       }
+      if (dob && isNaN(new Date(dob).getTime())) {
+        return res.status(400).json({ message: "Invalid date of birth" });
+      }
 
       const patientId = await storage.generatePatientId();
       
@@ -1020,7 +2073,7 @@ export async function registerRoutes(
         phone,
         email: email || null,
         gender: gender || null,
-        dob: null,
+        dob: dob ? new Date(dob) : null,
         address: address || null,
         password: null,
         notes: null,
@@ -1033,6 +2086,143 @@ export async function registerRoutes(
     }
   });
 
+  // Tests a patient can get a cumulative report for. Only released results
+  // are included, as the document goes to the referring clinician.
+  app.get("/api/admin/patients/:id/cumulative", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      res.json(await listCumulativeTests(await getReleasedResults(req.params.id)));
+    } catch (error) {
+      console.error("Error fetching cumulative tests:", error);
+      res.status(500).json({ message: "Failed to fetch cumulative reports" });
+    }
+  });
+
+  app.get("/api/admin/patients/:id/cumulative/:testId", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      await sendCumulativeReport(res, patient, req.params.testId, await getReleasedResults(patient.id));
+    } catch (error) {
+      console.error("Error generating cumulative report:", error);
+      res.status(500).json({ message: "Failed to generate cumulative report" });
+    }
+  });
+
+  // Referring doctors with how many results and patients each has referred
+  app.get("/api/admin/doctors", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const [doctors, counts] = await Promise.all([storage.getAllDoctors(), storage.getDoctorReferralCounts()]);
+      res.json(doctors.map((doctor) => {
+        const count = counts.find((c) => c.doctorId === doctor.id);
+        return {
+          ...toDoctorSummary(doctor),
+          referralCount: count?.results || 0,
+          patientCount: count?.patients || 0,
+          lastReferralAt: count?.lastReferralAt || null,
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching doctors:", error);
+      res.status(500).json({ message: "Failed to fetch doctors" });
+    }
+  });
+
+  // Create or update a referring doctor. A username and password give the
+  // doctor portal access; leaving the password blank on update keeps it.
+  const saveDoctor = async (req: Request, res: Response, existing?: Doctor) => {
+    const { name, registrationNumber, qualification, specialty, clinicName, phone, email, address, username, password, isActive } = req.body;
+
+    if (!name?.trim()) {
+      return res.status(400).json({ message: "Doctor name is required" });
+    }
+
+    const regNo = registrationNumber?.trim() || null;
+    const login = username?.trim() || null;
+    const others = (await storage.getAllDoctors()).filter((d) => d.id !== existing?.id);
+    if (regNo && others.some((d) => d.registrationNumber === regNo)) {
+      return res.status(400).json({ message: "Another doctor has this registration number" });
+    }
+    if (login && others.some((d) => d.username === login)) {
+      return res.status(400).json({ message: "Username is already taken" });
+    }
+    if (login && !password && !existing?.password) {
+      return res.status(400).json({ message: "Set a password for portal access" });
+    }
+    if (password && password.length < 6) {
+      return res.status(400).json({ message: "Password must be at least 6 characters" });
+    }
+
+    const data = {
+      name: name.trim(),
+      registrationNumber: regNo,
+      qualification: qualification?.trim() || null,
+      specialty: specialty?.trim() || null,
+      clinicName: clinicName?.trim() || null,
+      phone: phone?.trim() || null,
+      email: email?.trim() || null,
+      address: address?.trim() || null,
+      username: login,
+      // Removing the username also removes the password
+      password: !login ? null : password ? await bcrypt.hash(password, 10) : existing?.password || null,
+      isActive: isActive ?? existing?.isActive ?? true,
+    };
+
+    const doctor = existing
+      ? await storage.updateDoctor(existing.id, data)
+      : await storage.createDoctor(data);
+    res.json(toDoctorSummary(doctor!));
+  };
+
+  app.post("/api/admin/doctors", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      await saveDoctor(req, res);
+    } catch (error) {
+      console.error("Error creating doctor:", error);
+      res.status(500).json({ message: "Failed to create doctor" });
+    }
+  });
+
+  app.patch("/api/admin/doctors/:id", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const doctor = await storage.getDoctor(req.params.id);
+      if (!doctor) {
+        return res.status(404).json({ message: "Doctor not found" });
+      }
+      await saveDoctor(req, res, doctor);
+    } catch (error) {
+      console.error("Error updating doctor:", error);
+      res.status(500).json({ message: "Failed to update doctor" });
+    }
+  });
+
+  // Results a doctor has referred, newest first
+  app.get("/api/admin/doctors/:id/referrals", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const results = await storage.getResultsByDoctor(req.params.id);
+      const referrals = await Promise.all(
+        results.map(async (result) => {
+          const [patient, test] = await Promise.all([
+            storage.getPatient(result.patientId),
+            storage.getTest(result.testId),
+          ]);
+          return {
+            resultId: result.id,
+            patientName: patient?.name || null,
+            patientId: patient?.patientId || null,
+            testName: test?.name || null,
+            collectedAt: result.collectedAt,
+          };
+        })
+      );
+      res.json(referrals);
+    } catch (error) {
+      console.error("Error fetching referrals:", error);
+      res.status(500).json({ message: "Failed to fetch referrals" });
+    }
+  });
+
   // Get all bookings
   app.get("/api/admin/bookings", authenticateToken, adminOnly, async (req, res) => {
     try {
@@ -1044,7 +2234,10 @@ export async function registerRoutes(
           const tests = await Promise.all(
             (booking.testIds as string[]).map(id => storage.getTest(id))
           );
-          return { ...booking, patient, tests: tests.filter(Boolean) };
+          const bookingResults = await storage.getResultsByBooking(booking.id);
+          const completedTestIds = bookingResults.map((r) => r.testId);
+          const samples = await storage.getSamplesByBooking(booking.id);
+          return { ...booking, patient, tests: tests.filter(Boolean), completedTestIds, samples };
         })
       );
 
@@ -1061,6 +2254,24 @@ export async function registerRoutes(
       const { id } = req.params;
       const { status } = req.body;
 
+      // A booking's report is only ready once every booked test has results
+      // and the report has been released, as when release marks it ready
+      if (status === 'report_ready') {
+        const existing = await storage.getBooking(id);
+        if (!existing) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        const bookingResults = await storage.getResultsByBooking(id);
+        if (orderBookingResults(existing, bookingResults).length < (existing.testIds as string[]).length) {
+          return res.status(400).json({ message: "Results have not been entered for every test in this booking" });
+        }
+        const original = await storage.getOriginalReportByBooking(id);
+        const report = original && await getCurrentReportVersion(original);
+        if (!report || report.status !== 'released') {
+          return res.status(400).json({ message: "The report for this booking has not been released yet" });
+        }
+      }
+
       const booking = await storage.updateBookingStatus(id, status);
       if (!booking) {
         return res.status(404).json({ message: "Booking not found" });
@@ -1073,121 +2284,1685 @@ export async function registerRoutes(
     }
   });
 
-  // Verify booking payment
-  app.patch("/api/admin/bookings/:id/verify-payment", authenticateToken, adminOnly, async (req, res) => {
+  // Mark a booking STAT, urgent or routine; worklists sort on it
+  app.patch("/api/admin/bookings/:id/priority", authenticateToken, adminOnly, async (req, res) => {
     try {
-      const { id } = req.params;
-      const admin = (req as any).user;
+      const { priority } = req.body;
+      if (!(bookingPriorities as readonly string[]).includes(priority)) {
+        return res.status(400).json({ message: "Invalid priority" });
+      }
 
-      const booking = await storage.getBooking(id);
+      const booking = await storage.setBookingPriority(req.params.id, priority);
       if (!booking) {
         return res.status(404).json({ message: "Booking not found" });
       }
+      res.json(booking);
+    } catch (error) {
+      console.error("Error updating booking priority:", error);
+      res.status(500).json({ message: "Failed to update priority" });
+    }
+  });
 
-      if (booking.paymentStatus !== 'paid_unverified') {
-        return res.status(400).json({ message: "Payment is not pending verification" });
+  // Set or clear the doctor who referred a booking. Commission already
+  // accrued is recalculated for the new doctor unless it has been billed.
+  app.patch("/api/admin/bookings/:id/doctor", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { doctorId } = req.body as { doctorId: string | null };
+
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (doctorId && !(await storage.getDoctor(doctorId))) {
+        return res.status(400).json({ message: "Referring doctor not found" });
       }
 
-      const updated = await storage.verifyBookingPayment(id, admin.id);
-      if (!updated) {
-        return res.status(500).json({ message: "Failed to verify payment" });
+      const entries = await storage.getCommissionEntriesByBooking(booking.id);
+      if (entries.some((e) => e.statementId)) {
+        return res.status(400).json({ message: "Commission for this booking is already on a statement" });
       }
+      await storage.deleteCommissionEntriesByBooking(booking.id);
 
+      const updated = await storage.setBookingReferringDoctor(booking.id, doctorId || null);
+      await accrueBookingCommission(updated!);
       res.json(updated);
     } catch (error) {
-      console.error("Error verifying payment:", error);
-      res.status(500).json({ message: "Failed to verify payment" });
+      console.error("Error setting booking doctor:", error);
+      res.status(500).json({ message: "Failed to update booking" });
     }
   });
 
-  // Get all reports
-  app.get("/api/admin/reports", authenticateToken, adminOnly, async (req, res) => {
+  app.get("/api/admin/bookings/:id/samples", authenticateToken, adminOnly, async (req, res) => {
     try {
-      const reports = await storage.getAllReports();
-      
-      const reportsWithDetails = await Promise.all(
-        reports.map(async (report) => {
-          const patient = await storage.getPatient(report.patientId);
-          const result = await storage.getResult(report.resultId);
-          const test = result ? await storage.getTest(result.testId) : null;
-          return { ...report, patient, test };
-        })
-      );
-
-      res.json(reportsWithDetails);
+      res.json(await storage.getSamplesByBooking(req.params.id));
     } catch (error) {
-      console.error("Error fetching reports:", error);
-      res.status(500).json({ message: "Failed to fetch reports" });
+      console.error("Error fetching samples:", error);
+      res.status(500).json({ message: "Failed to fetch samples" });
     }
   });
 
-  // Generate report
-  app.post("/api/admin/reports/generate", authenticateToken, adminOnly, async (req, res) => {
+  // Record sample collection. Booked tests are grouped by container (the
+  // test's own unless overridden in `containers`, keyed by test id) and each
+  // container gets an accession number. The booking moves to collected.
+  app.post("/api/admin/bookings/:id/samples", authenticateToken, adminOnly, async (req, res) => {
     try {
-      const { patientId, testId, technician, referredBy, collectedAt, parameterResults, remarks } = req.body;
-
-      if (!patientId || !testId || !technician || !parameterResults) {
-        return res.status(400).json({ message: "Missing required fields" });
+      const { collectedBy, collectedAt, containers = {} } = req.body as {
+        collectedBy: string;
+        collectedAt?: string;
+        containers?: Record<string, string>;
+      };
+
+      if (!collectedBy?.trim()) {
+        return res.status(400).json({ message: "Enter who collected the sample" });
+      }
+      const collectedDate = collectedAt ? new Date(collectedAt) : new Date();
+      if (isNaN(collectedDate.getTime()) || collectedDate > new Date()) {
+        return res.status(400).json({ message: "Collection time cannot be in the future" });
       }
 
-      // Create result
-      const result = await storage.createResult({
-        patientId,
-        testId,
-        technician,
-        referredBy: referredBy || null,
-        collectedAt: new Date(collectedAt),
-        parameterResults,
-      });
-
-      // Generate secure token
-      const secureDownloadToken = generateSecureToken();
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if ((await storage.getSamplesByBooking(booking.id)).length > 0) {
+        return res.status(400).json({ message: "Samples have already been collected for this booking" });
+      }
 
-      // Create report
-      const report = await storage.createReport({
-        patientId,
-        resultId: result.id,
-        pdfPath: null,
-        secureDownloadToken,
-      });
+      const groups = new Map<string, Test[]>();
+      for (const testId of booking.testIds as string[]) {
+        const test = await storage.getTest(testId);
+        if (!test) continue;
+        const container = containers[test.id] || test.container;
+        if (!(sampleContainers as readonly string[]).includes(container)) {
+          return res.status(400).json({ message: `Unknown container for ${test.name}` });
+        }
+        groups.set(container, [...(groups.get(container) || []), test]);
+      }
 
-      // In production: Generate PDF, send email/SMS notifications
+      const admin = (req as any).user;
+      const created: Sample[] = [];
+      for (const [container, tests] of Array.from(groups.entries())) {
+        const sample = await storage.createSample({
+          bookingId: booking.id,
+          accessionNumber: await storage.generateAccessionNumber(),
+          container,
+          // Tests in one container share a specimen; the first one names it
+          sampleType: container === 'urine' ? 'Urine' : tests[0].sampleType,
+          testIds: tests.map((t) => t.id),
+          collectedAt: collectedDate,
+          collectedBy: collectedBy.trim(),
+        });
+        await storage.createSampleEvent({
+          sampleId: sample.id,
+          status: 'collected',
+          note: `Collected by ${collectedBy.trim()}`,
+          performedBy: admin.id,
+        });
+        created.push(sample);
+      }
 
-      res.json({ report, result, downloadUrl: `/api/reports/download/${secureDownloadToken}` });
+      if (booking.status === 'pending') {
+        await storage.updateBookingStatus(booking.id, 'collected');
+      }
+      res.json(created);
     } catch (error) {
-      console.error("Error generating report:", error);
-      res.status(500).json({ message: "Failed to generate report" });
+      console.error("Error collecting samples:", error);
+      res.status(500).json({ message: "Failed to record sample collection" });
     }
   });
 
-  // Create test
-  app.post("/api/admin/tests", authenticateToken, adminOnly, async (req, res) => {
+  // Tube labels for a booking's samples, or one sample with ?sampleId=, as a
+  // PDF or as ZPL (?format=zpl) to send straight to the label printer
+  app.get("/api/admin/bookings/:id/labels", authenticateToken, adminOnly, async (req, res) => {
     try {
-      const { name, code, category, price, duration, description, parameters } = req.body;
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      // Rejected tubes are only relabelled when asked for by id
+      const samples = (await storage.getSamplesByBooking(booking.id))
+        .filter((s) => (req.query.sampleId ? s.id === req.query.sampleId : s.status !== 'rejected'));
+      if (samples.length === 0) {
+        return res.status(404).json({ message: "No samples have been collected for this booking" });
+      }
 
-      if (!name || !code || !category || !price || !duration || !parameters) {
-        return res.status(400).json({ message: "Missing required fields" });
+      const labels = await getSampleLabels(booking, samples);
+      if (req.query.format === 'zpl') {
+        res.setHeader('Content-Type', 'text/plain');
+        res.setHeader('Content-Disposition', `attachment; filename="labels-${samples[0].accessionNumber}.zpl"`);
+        return res.send(generateLabelsZpl(labels));
       }
 
-      const existing = await storage.getTestByCode(code);
-      if (existing) {
-        return res.status(400).json({ message: "Test code already exists" });
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="labels-${samples[0].accessionNumber}.pdf"`);
+      res.send(await generateLabelsPdf(labels));
+    } catch (error) {
+      console.error("Error generating labels:", error);
+      res.status(500).json({ message: "Failed to generate labels" });
+    }
+  });
+
+  // Look up a scanned accession number for result entry
+  app.get("/api/admin/samples/:accession", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const sample = await storage.getSampleByAccession(req.params.accession.trim());
+      const booking = sample && await storage.getBooking(sample.bookingId);
+      if (!sample || !booking) {
+        return res.status(404).json({ message: "No sample with this barcode" });
+      }
+      if (sample.status === 'rejected') {
+        return res.status(400).json({ message: "This sample was rejected; use the recollected sample's barcode" });
       }
 
-      const test = await storage.createTest({
-        name,
-        code,
-        category,
-        price: price.toString(),
-        duration,
-        description: description || null,
-        parameters,
+      const completedTestIds = (await storage.getResultsByBooking(booking.id)).map((r) => r.testId);
+      res.json({
+        sample,
+        bookingId: booking.id,
+        patientId: booking.patientId,
+        pendingTestIds: sample.testIds.filter((id) => !completedTestIds.includes(id)),
       });
+    } catch (error) {
+      console.error("Error looking up sample:", error);
+      res.status(500).json({ message: "Failed to look up sample" });
+    }
+  });
 
-      res.json(test);
+  app.get("/api/admin/samples/:id/events", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const events = await storage.getSampleEvents(req.params.id);
+      const withNames = await Promise.all(events.map(async (event) => {
+        const admin = await storage.getAdmin(event.performedBy);
+        return { ...event, performedByName: admin?.name || null };
+      }));
+      res.json(withNames);
     } catch (error) {
-      console.error("Error creating test:", error);
-      res.status(500).json({ message: "Failed to create test" });
+      console.error("Error fetching sample events:", error);
+      res.status(500).json({ message: "Failed to fetch sample history" });
+    }
+  });
+
+  // Move a sample one step along its chain of custody
+  app.patch("/api/admin/samples/:id/status", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { status, note } = req.body as { status: SampleStatus; note?: string };
+      const admin = (req as any).user;
+
+      const sample = await storage.getSample(req.params.id);
+      if (!sample) {
+        return res.status(404).json({ message: "Sample not found" });
+      }
+      if (!(sampleStatusTransitions[sample.status as SampleStatus] || []).includes(status)) {
+        return res.status(400).json({ message: `A ${sample.status.replace('_', ' ')} sample cannot be marked ${String(status).replace('_', ' ')}` });
+      }
+
+      const updated = await storage.updateSampleStatus(sample.id, status);
+      await storage.createSampleEvent({ sampleId: sample.id, status, note: note?.trim() || null, performedBy: admin.id });
+
+      // Work has started on the booking once any of its samples reaches the bench
+      const booking = await storage.getBooking(sample.bookingId);
+      if (status === 'processing' && booking && (booking.status === 'pending' || booking.status === 'collected')) {
+        await storage.updateBookingStatus(booking.id, 'processing');
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating sample status:", error);
+      res.status(500).json({ message: "Failed to update sample status" });
+    }
+  });
+
+  // Reject an unusable sample. Its tests move off the original booking onto a
+  // new, already-paid booking for recollection, and the patient is emailed.
+  // If the booking's other tests all have results, their report is created.
+  app.post("/api/admin/samples/:id/reject", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { reason, note, slot } = req.body as { reason: string; note?: string; slot?: string };
+      const admin = (req as any).user;
+
+      if (!(sampleRejectionReasons as readonly string[]).includes(reason)) {
+        return res.status(400).json({ message: "Select a rejection reason" });
+      }
+      if (reason === 'other' && !note?.trim()) {
+        return res.status(400).json({ message: "Describe why the sample is being rejected" });
+      }
+      const recollectionSlot = slot ? new Date(slot) : new Date();
+      if (isNaN(recollectionSlot.getTime())) {
+        return res.status(400).json({ message: "Invalid recollection time" });
+      }
+
+      const sample = await storage.getSample(req.params.id);
+      const booking = sample && await storage.getBooking(sample.bookingId);
+      if (!sample || !booking) {
+        return res.status(404).json({ message: "Sample not found" });
+      }
+      if (!sampleRejectableStatuses.includes(sample.status as SampleStatus)) {
+        return res.status(400).json({ message: `A ${sample.status} sample cannot be rejected` });
+      }
+      const bookingResults = await storage.getResultsByBooking(booking.id);
+      if (bookingResults.some((r) => sample.testIds.includes(r.testId))) {
+        return res.status(400).json({ message: "Results have already been entered from this sample" });
+      }
+
+      const rejected = await storage.rejectSample(sample.id, reason, note?.trim() || null);
+      await storage.createSampleEvent({
+        sampleId: sample.id,
+        status: 'rejected',
+        note: [sampleRejectionReasonLabels[reason], note?.trim()].filter(Boolean).join(": "),
+        performedBy: admin.id,
+      });
+
+      const recollection = await storage.createBooking({
+        patientId: booking.patientId,
+        guestName: booking.guestName,
+        referringDoctorId: booking.referringDoctorId,
+        recollectionOfId: booking.id,
+        phone: booking.phone,
+        email: booking.email,
+        testIds: sample.testIds,
+        type: booking.type,
+        slot: recollectionSlot,
+        status: "pending",
+        priority: booking.priority,
+        paymentMethod: booking.paymentMethod,
+        paymentStatus: "verified",
+        amountPaid: "0",
+        paymentDate: new Date(),
+        paymentVerifiedAt: new Date(),
+        paymentVerifiedBy: admin.id,
+      });
+
+      const remainingTestIds = (booking.testIds as string[]).filter((id) => !sample.testIds.includes(id));
+      const remaining = await storage.setBookingTests(booking.id, remainingTestIds);
+      let report: Report | null = null;
+      if (remainingTestIds.length === 0) {
+        await storage.updateBookingStatus(booking.id, 'sample_rejected');
+      } else if (remainingTestIds.every((id) => bookingResults.some((r) => r.testId === id))) {
+        // The rejected tube held the only tests still waiting, so the rest
+        // of the booking is now complete and gets its report
+        const reportResults = orderBookingResults(remaining!, bookingResults);
+        report = await createConsolidatedReport(reportResults[0].patientId, booking.id, reportResults);
+      }
+
+      const patient = booking.patientId ? await storage.getPatient(booking.patientId) : undefined;
+      const email = patient?.email || booking.email;
+      let patientNotified = false;
+      if (email) {
+        const tests = await Promise.all(sample.testIds.map((id) => storage.getTest(id)));
+        patientNotified = await sendSampleRejectionNotice(email, {
+          patientName: patient?.name || booking.guestName || "Patient",
+          accessionNumber: sample.accessionNumber,
+          reason: sampleRejectionReasonLabels[reason],
+          testNames: tests.filter((t): t is Test => !!t).map((t) => t.name),
+          recollectionSlot,
+          homeCollection: booking.type === 'pickup',
+        });
+      }
+
+      res.json({ sample: rejected, recollection, patientNotified, report });
+    } catch (error) {
+      console.error("Error rejecting sample:", error);
+      res.status(500).json({ message: "Failed to reject sample" });
+    }
+  });
+
+  // Verify booking payment
+  app.patch("/api/admin/bookings/:id/verify-payment", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const admin = (req as any).user;
+
+      const booking = await storage.getBooking(id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      if (booking.paymentStatus !== 'paid_unverified') {
+        return res.status(400).json({ message: "Payment is not pending verification" });
+      }
+
+      const updated = await storage.verifyBookingPayment(id, admin.id);
+      if (!updated) {
+        return res.status(500).json({ message: "Failed to verify payment" });
+      }
+      await accrueBookingCommission(updated);
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error verifying payment:", error);
+      res.status(500).json({ message: "Failed to verify payment" });
+    }
+  });
+
+  // Commission rules
+  app.get("/api/admin/commission/rules", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      res.json(await storage.getCommissionRules());
+    } catch (error) {
+      console.error("Error fetching commission rules:", error);
+      res.status(500).json({ message: "Failed to fetch commission rules" });
+    }
+  });
+
+  // Saving a rule for a doctor/category pair that already has one replaces it
+  app.post("/api/admin/commission/rules", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { doctorId, category, rateType, rate } = req.body;
+      const value = Number(rate);
+
+      if (!commissionRateTypes.includes(rateType) || !(value >= 0) || (rateType === 'percent' && value > 100)) {
+        return res.status(400).json({ message: "Enter a percentage up to 100 or a flat amount" });
+      }
+      if (doctorId && !(await storage.getDoctor(doctorId))) {
+        return res.status(400).json({ message: "Doctor not found" });
+      }
+
+      const rules = await storage.getCommissionRules();
+      const existing = rules.find((r) => r.doctorId === (doctorId || null) && r.category === (category || null));
+      const rule = existing
+        ? await storage.updateCommissionRule(existing.id, { rateType, rate: value.toFixed(2) })
+        : await storage.createCommissionRule({
+            doctorId: doctorId || null,
+            category: category || null,
+            rateType,
+            rate: value.toFixed(2),
+          });
+      res.json(rule);
+    } catch (error) {
+      console.error("Error saving commission rule:", error);
+      res.status(500).json({ message: "Failed to save commission rule" });
+    }
+  });
+
+  app.delete("/api/admin/commission/rules/:id", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      await storage.deleteCommissionRule(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting commission rule:", error);
+      res.status(500).json({ message: "Failed to delete commission rule" });
+    }
+  });
+
+  // Commission accrued in a month (?month=YYYY-MM, default this month), with
+  // the statement each entry has been billed on
+  app.get("/api/admin/commission/ledger", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const range = getMonthRange((req.query.month as string) || currentMonth());
+      if (!range) {
+        return res.status(400).json({ message: "Month must be in YYYY-MM format" });
+      }
+      const entries = await storage.getCommissionEntriesBetween(range.start, range.end);
+      const lines = await describeCommissionEntries(entries);
+      res.json(entries.map((entry, i) => ({
+        ...lines[i],
+        id: entry.id,
+        doctorId: entry.doctorId,
+        bookingId: entry.bookingId,
+        statementId: entry.statementId,
+      })));
+    } catch (error) {
+      console.error("Error fetching commission ledger:", error);
+      res.status(500).json({ message: "Failed to fetch commission ledger" });
+    }
+  });
+
+  app.get("/api/admin/commission/statements", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const month = (req.query.month as string) || currentMonth();
+      if (!getMonthRange(month)) {
+        return res.status(400).json({ message: "Month must be in YYYY-MM format" });
+      }
+      res.json(await storage.getCommissionStatementsByMonth(month));
+    } catch (error) {
+      console.error("Error fetching commission statements:", error);
+      res.status(500).json({ message: "Failed to fetch statements" });
+    }
+  });
+
+  // Statements are produced once a month has ended, so their totals are final
+  app.post("/api/admin/commission/statements", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { month } = req.body;
+      if (!month || !getMonthRange(month)) {
+        return res.status(400).json({ message: "Month must be in YYYY-MM format" });
+      }
+      if (month >= currentMonth()) {
+        return res.status(400).json({ message: "Statements can only be produced for months that have ended" });
+      }
+      res.json(await buildMonthlyStatements(month));
+    } catch (error) {
+      console.error("Error generating commission statements:", error);
+      res.status(500).json({ message: "Failed to generate statements" });
+    }
+  });
+
+  // Statement as a download (?format=csv|pdf)
+  app.get("/api/admin/commission/statements/:id/export", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const statement = await storage.getCommissionStatement(req.params.id);
+      const doctor = statement && await storage.getDoctor(statement.doctorId);
+      if (!statement || !doctor) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+
+      const lines = await describeCommissionEntries(await storage.getCommissionEntriesByStatement(statement.id));
+      const fileName = `Commission-${statement.month}-${(doctor.registrationNumber || doctor.name).replace(/[^A-Za-z0-9]+/g, "-")}`;
+
+      if (req.query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+        return res.send(buildStatementCsv(lines, statement.totalAmount));
+      }
+
+      const pdf = await generateCommissionStatementPdf({ doctor, statement, lines });
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${fileName}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error exporting commission statement:", error);
+      res.status(500).json({ message: "Failed to export statement" });
+    }
+  });
+
+  // Record that a statement has been paid out to the doctor
+  app.post("/api/admin/commission/statements/:id/settle", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const admin = (req as any).user;
+      const statement = await storage.getCommissionStatement(req.params.id);
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+      if (statement.settledAt) {
+        return res.status(400).json({ message: "Statement is already settled" });
+      }
+
+      const updated = await storage.settleCommissionStatement(
+        statement.id,
+        admin.id,
+        req.body.paymentReference?.trim() || null
+      );
+      res.json(updated);
+    } catch (error) {
+      console.error("Error settling commission statement:", error);
+      res.status(500).json({ message: "Failed to settle statement" });
+    }
+  });
+
+  // Get all reports
+  app.get("/api/admin/reports", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const reports = await storage.getAllReports();
+      
+      const reportsWithDetails = await Promise.all(
+        reports.map(async (report) => {
+          const patient = await storage.getPatient(report.patientId);
+          const sections = await getReportSections(report);
+          const tests = sections.map((s) => s.test);
+          const [verifiedBy, authorisedBy, releasedBy, deltaAcknowledgedBy] = await Promise.all(
+            [report.technicallyVerifiedBy, report.authorisedBy, report.releasedBy, report.deltaAcknowledgedBy].map(async (adminId) => {
+              const admin = adminId ? await storage.getAdmin(adminId) : undefined;
+              return admin ? admin.name : null;
+            })
+          );
+          return {
+            ...report,
+            patient,
+            test: tests[0] || null,
+            tests,
+            results: sections.map((s) => s.result),
+            verifiedByName: verifiedBy,
+            authorisedByName: authorisedBy,
+            releasedByName: releasedBy,
+            deltaAcknowledgedByName: deltaAcknowledgedBy,
+          };
+        })
+      );
+
+      res.json(reportsWithDetails);
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  // Run the delta and critical value checks while the technician is still
+  // typing
+  app.post("/api/admin/results/check", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { patientId, testId, bookingId, collectedAt, parameterResults } = req.body as {
+        patientId: string;
+        testId: string;
+        bookingId?: string;
+        collectedAt?: string;
+        parameterResults: ParameterResult[];
+      };
+
+      if (!patientId || !testId || !parameterResults) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
+      const [patient, test] = await Promise.all([storage.getPatient(patientId), storage.getTest(testId)]);
+      if (!patient || !test) {
+        return res.status(404).json({ message: "Patient or test not found" });
+      }
+
+      const bookingResultIds = bookingId
+        ? (await storage.getResultsByBooking(bookingId)).map((r) => r.id)
+        : [];
+      // Resolved for the collection date, as they will be when the result is saved
+      const collectedDate = getCollectionDate(bookingId ? await findTestSample(bookingId, testId) : undefined, collectedAt);
+      const withRanges = applyReferenceRanges(test, patient, collectedDate, parameterResults);
+      res.json(await checkParameterResults(patient, test, withRanges, collectedDate, bookingResultIds));
+    } catch (error) {
+      console.error("Error checking results:", error);
+      res.status(500).json({ message: "Failed to check results" });
+    }
+  });
+
+  // Generate report
+  app.post("/api/admin/reports/generate", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { patientId, testId, technician, parameterResults } = req.body as ResultEntry;
+
+      if (!patientId || !testId || !technician || !parameterResults) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
+      const outcome = await enterTestResult(req.body);
+      if ('status' in outcome) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+
+      const { result, report, pendingTests } = outcome;
+      if (!report) {
+        return res.json({ report: null, result, pendingTests, hasCriticalValues: hasCriticalValues(result.parameterResults) });
+      }
+
+      // The report starts in the "entered" state; it only reaches the patient
+      // once it has been verified, authorised and released
+
+      res.json({
+        report,
+        result,
+        pendingTests: 0,
+        hasCriticalValues: report.hasCriticalValues,
+        downloadUrl: `/api/reports/download/${report.secureDownloadToken}`,
+      });
+    } catch (error) {
+      console.error("Error generating report:", error);
+      res.status(500).json({ message: "Failed to generate report" });
+    }
+  });
+
+  // Every booked test still waiting for results, most urgent first and then
+  // oldest sample first, for the department benches
+  app.get("/api/admin/worklist", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const closedStatuses = ['report_ready', 'delivered', 'sample_rejected'];
+      const openBookings = (await storage.getAllBookings())
+        .filter((b) => b.patientId && !closedStatuses.includes(b.status));
+      const testsById = new Map((await storage.getAllTests()).map((t) => [t.id, t]));
+
+      const items: WorklistItem[] = [];
+      for (const booking of openBookings) {
+        const [patient, bookingResults, samples, imports] = await Promise.all([
+          storage.getPatient(booking.patientId!),
+          storage.getResultsByBooking(booking.id),
+          storage.getSamplesByBooking(booking.id),
+          storage.getPendingAnalyserImportsByBooking(booking.id),
+        ]);
+        if (!patient) continue;
+
+        for (const testId of booking.testIds as string[]) {
+          const test = testsById.get(testId);
+          if (!test || bookingResults.some((r) => r.testId === testId)) continue;
+          const sample = samples.find((s) => s.testIds.includes(testId));
+          items.push({
+            bookingId: booking.id,
+            priority: booking.priority,
+            slot: booking.slot,
+            patient: { id: patient.id, patientId: patient.patientId, name: patient.name, gender: patient.gender, dob: patient.dob },
+            test: { id: test.id, name: test.name, code: test.code, category: test.category, parameters: test.parameters },
+            sample: sample
+              ? { id: sample.id, accessionNumber: sample.accessionNumber, status: sample.status, collectedAt: sample.collectedAt }
+              : null,
+            dueAt: sample ? getDueAt(sample.collectedAt, test.tatMinutes) : null,
+            imported: sample ? getImportedValues(imports, test, sample.id) : null,
+          });
+        }
+      }
+
+      const priorityRank = (priority: string) => {
+        const rank = (bookingPriorities as readonly string[]).indexOf(priority);
+        return rank === -1 ? bookingPriorities.length : rank;
+      };
+      // Tests not yet collected have no collection time and go last
+      const collectedTime = (item: WorklistItem) =>
+        item.sample ? new Date(item.sample.collectedAt).getTime() : Infinity;
+      items.sort((a, b) =>
+        priorityRank(a.priority) - priorityRank(b.priority) ||
+        collectedTime(a) - collectedTime(b) ||
+        new Date(a.slot).getTime() - new Date(b.slot).getTime()
+      );
+
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching worklist:", error);
+      res.status(500).json({ message: "Failed to fetch worklist" });
+    }
+  });
+
+  // Bulk result entry from the worklist. Each row is saved on its own, so one
+  // bad row does not hold up the rest; failures come back with their reason.
+  app.post("/api/admin/worklist/results", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { technician, entries } = req.body as {
+        technician: string;
+        entries: { bookingId: string; testId: string; parameterResults: ParameterResult[] }[];
+      };
+
+      if (!technician?.trim()) {
+        return res.status(400).json({ message: "Enter the technician's name" });
+      }
+      if (!Array.isArray(entries) || entries.length === 0) {
+        return res.status(400).json({ message: "No results to save" });
+      }
+
+      const saved: { bookingId: string; testId: string; reportId: string | null }[] = [];
+      const failed: { bookingId: string; testId: string; message: string }[] = [];
+      for (const entry of entries) {
+        const booking = await storage.getBooking(entry.bookingId);
+        if (!booking?.patientId) {
+          failed.push({ bookingId: entry.bookingId, testId: entry.testId, message: "Booking not found" });
+          continue;
+        }
+        const outcome = await enterTestResult({
+          patientId: booking.patientId,
+          testId: entry.testId,
+          bookingId: booking.id,
+          technician: technician.trim(),
+          parameterResults: entry.parameterResults,
+        });
+        if ('status' in outcome) {
+          failed.push({ bookingId: entry.bookingId, testId: entry.testId, message: outcome.message });
+        } else {
+          saved.push({ bookingId: entry.bookingId, testId: entry.testId, reportId: outcome.report?.id || null });
+        }
+      }
+
+      res.json({ saved, failed });
+    } catch (error) {
+      console.error("Error saving worklist results:", error);
+      res.status(500).json({ message: "Failed to save results" });
+    }
+  });
+
+  // Collected tests not yet released, with their deadlines
+  app.get("/api/admin/tat/board", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      res.json(await buildTatBoard());
+    } catch (error) {
+      console.error("Error fetching TAT board:", error);
+      res.status(500).json({ message: "Failed to fetch turnaround board" });
+    }
+  });
+
+  // Released turnaround statistics for ?from=YYYY-MM-DD&to=YYYY-MM-DD, both
+  // days included; the last 90 days by default
+  app.get("/api/admin/tat/stats", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const day = /^\d{4}-\d{2}-\d{2}$/;
+      const { from, to } = req.query as { from?: string; to?: string };
+      if ((from && !day.test(from)) || (to && !day.test(to))) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+      }
+
+      const end = to ? new Date(`${to}T00:00:00`) : new Date(new Date().setHours(0, 0, 0, 0));
+      end.setDate(end.getDate() + 1);
+      const start = from ? new Date(`${from}T00:00:00`) : new Date(end.getTime() - 90 * 24 * 60 * 60 * 1000);
+      if (start >= end) {
+        return res.status(400).json({ message: "The start date must be before the end date" });
+      }
+
+      res.json(await buildTatStats(start, end));
+    } catch (error) {
+      console.error("Error fetching TAT stats:", error);
+      res.status(500).json({ message: "Failed to fetch turnaround statistics" });
+    }
+  });
+
+  // Internal QC: control materials with their target mean and SD
+  app.get("/api/admin/qc/materials", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      res.json(await storage.getQcMaterials());
+    } catch (error) {
+      console.error("Error fetching QC materials:", error);
+      res.status(500).json({ message: "Failed to fetch QC materials" });
+    }
+  });
+
+  app.post("/api/admin/qc/materials", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { paramCode, analyser, lotNumber, level, mean, sd, expiresAt } = req.body;
+      if (!paramCode || !analyser?.trim() || !lotNumber?.trim()) {
+        return res.status(400).json({ message: "Parameter, analyser and lot number are required" });
+      }
+      if (!qcLevels.includes(level)) {
+        return res.status(400).json({ message: "Invalid control level" });
+      }
+      if (!Number.isFinite(Number(mean)) || !(Number(sd) > 0)) {
+        return res.status(400).json({ message: "Mean must be a number and SD greater than zero" });
+      }
+
+      const material = await storage.createQcMaterial({
+        paramCode,
+        analyser: analyser.trim(),
+        lotNumber: lotNumber.trim(),
+        level,
+        mean: String(mean),
+        sd: String(sd),
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+      });
+      res.json(material);
+    } catch (error) {
+      console.error("Error creating QC material:", error);
+      res.status(500).json({ message: "Failed to create QC material" });
+    }
+  });
+
+  // Retire a lot, or correct its targets once enough baseline runs are in
+  app.patch("/api/admin/qc/materials/:id", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { mean, sd, isActive } = req.body;
+      if ((mean !== undefined && !Number.isFinite(Number(mean))) || (sd !== undefined && !(Number(sd) > 0))) {
+        return res.status(400).json({ message: "Mean must be a number and SD greater than zero" });
+      }
+
+      const material = await storage.updateQcMaterial(req.params.id, {
+        ...(mean !== undefined && { mean: String(mean) }),
+        ...(sd !== undefined && { sd: String(sd) }),
+        ...(isActive !== undefined && { isActive: !!isActive }),
+      });
+      if (!material) {
+        return res.status(404).json({ message: "QC material not found" });
+      }
+      res.json(material);
+    } catch (error) {
+      console.error("Error updating QC material:", error);
+      res.status(500).json({ message: "Failed to update QC material" });
+    }
+  });
+
+  // Runs of one control for its Levey-Jennings chart, the last 30 days by
+  // default or ?days=N
+  app.get("/api/admin/qc/materials/:id/runs", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 366);
+      const to = new Date();
+      const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+      res.json(await storage.getQcRunsByMaterial(req.params.id, from, to));
+    } catch (error) {
+      console.error("Error fetching QC runs:", error);
+      res.status(500).json({ message: "Failed to fetch QC runs" });
+    }
+  });
+
+  // Record a control value; the Westgard outcome comes back with the run
+  app.post("/api/admin/qc/runs", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { materialId, value, runAt, note } = req.body;
+      const material = await storage.getQcMaterial(materialId);
+      if (!material) {
+        return res.status(404).json({ message: "QC material not found" });
+      }
+      if (!material.isActive) {
+        return res.status(400).json({ message: "This control lot has been retired" });
+      }
+      if (value === "" || value === null || !Number.isFinite(Number(value))) {
+        return res.status(400).json({ message: "Enter the measured control value" });
+      }
+
+      const at = runAt ? new Date(runAt) : new Date();
+      if (isNaN(at.getTime()) || at > new Date()) {
+        return res.status(400).json({ message: "Invalid run time" });
+      }
+
+      const run = await recordQcRun(material, Number(value), at, note?.trim() || null, (req as any).user.id);
+      res.json(run);
+    } catch (error) {
+      console.error("Error recording QC run:", error);
+      res.status(500).json({ message: "Failed to record QC run" });
+    }
+  });
+
+  // Controls that stand failed today; reports using them cannot be released
+  app.get("/api/admin/qc/failures", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      res.json(await getQcFailures(new Date()));
+    } catch (error) {
+      console.error("Error fetching QC failures:", error);
+      res.status(500).json({ message: "Failed to fetch QC failures" });
+    }
+  });
+
+  // Analyser interface: instrument code mappings
+  app.get("/api/admin/analyser/mappings", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      res.json(await storage.getInstrumentCodeMappings());
+    } catch (error) {
+      console.error("Error fetching instrument code mappings:", error);
+      res.status(500).json({ message: "Failed to fetch code mappings" });
+    }
+  });
+
+  app.post("/api/admin/analyser/mappings", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { analyser, instrumentCode, paramCode, factor } = req.body;
+      if (!analyser?.trim() || !instrumentCode?.trim() || !paramCode) {
+        return res.status(400).json({ message: "Analyser, instrument code and parameter are required" });
+      }
+      if (factor !== undefined && factor !== "" && !(Number(factor) > 0)) {
+        return res.status(400).json({ message: "The conversion factor must be greater than zero" });
+      }
+
+      const existing = (await storage.getInstrumentCodeMappings()).find(
+        (m) => m.analyser.toLowerCase() === analyser.trim().toLowerCase() &&
+          m.instrumentCode.toLowerCase() === instrumentCode.trim().toLowerCase()
+      );
+      if (existing) {
+        return res.status(400).json({ message: `${instrumentCode.trim()} is already mapped to ${existing.paramCode} for this analyser` });
+      }
+
+      const mapping = await storage.createInstrumentCodeMapping({
+        analyser: analyser.trim(),
+        instrumentCode: instrumentCode.trim(),
+        paramCode,
+        factor: factor ? String(factor) : "1",
+      });
+      res.json(mapping);
+    } catch (error) {
+      console.error("Error creating instrument code mapping:", error);
+      res.status(500).json({ message: "Failed to create code mapping" });
+    }
+  });
+
+  app.delete("/api/admin/analyser/mappings/:id", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      await storage.deleteInstrumentCodeMapping(req.params.id);
+      res.json({ message: "Mapping deleted" });
+    } catch (error) {
+      console.error("Error deleting instrument code mapping:", error);
+      res.status(500).json({ message: "Failed to delete code mapping" });
+    }
+  });
+
+  // Results received from analysers, newest first, optionally ?status=
+  app.get("/api/admin/analyser/imports", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !(analyserImportStatuses as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: "Invalid import status" });
+      }
+      res.json(await storage.getAnalyserImports(status));
+    } catch (error) {
+      console.error("Error fetching analyser imports:", error);
+      res.status(500).json({ message: "Failed to fetch analyser imports" });
+    }
+  });
+
+  // Import a message pasted or uploaded by hand, framed or as bare records
+  app.post("/api/admin/analyser/imports", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { data } = req.body;
+      if (typeof data !== "string" || !data.trim()) {
+        return res.status(400).json({ message: "Paste or upload an ASTM message" });
+      }
+
+      const imports = await importAstmData(data, "upload");
+      if (imports.length === 0) {
+        return res.status(400).json({ message: "No results found. Check the message has H, O and R records." });
+      }
+      res.json(imports);
+    } catch (error) {
+      console.error("Error importing analyser message:", error);
+      res.status(500).json({ message: "Failed to import analyser message" });
+    }
+  });
+
+  app.post("/api/admin/analyser/imports/:id/rematch", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const analyserImport = await storage.getAnalyserImport(req.params.id);
+      if (!analyserImport) {
+        return res.status(404).json({ message: "Import not found" });
+      }
+      if (analyserImport.status !== "unmatched") {
+        return res.status(400).json({ message: "Only unmatched imports can be matched again" });
+      }
+      res.json(await rematchAnalyserImport(analyserImport));
+    } catch (error) {
+      console.error("Error rematching analyser import:", error);
+      res.status(500).json({ message: "Failed to match analyser import" });
+    }
+  });
+
+  // Set aside results that should not be used, e.g. a run repeated after a
+  // flag; they stop appearing on the worklist
+  app.post("/api/admin/analyser/imports/:id/discard", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const analyserImport = await storage.getAnalyserImport(req.params.id);
+      if (!analyserImport) {
+        return res.status(404).json({ message: "Import not found" });
+      }
+      if (analyserImport.status === "applied") {
+        return res.status(400).json({ message: "These results have already been saved" });
+      }
+      res.json(await storage.setAnalyserImportStatus(analyserImport.id, "discarded"));
+    } catch (error) {
+      console.error("Error discarding analyser import:", error);
+      res.status(500).json({ message: "Failed to discard analyser import" });
+    }
+  });
+
+  // Advance a report through the authorisation workflow
+  app.patch("/api/admin/reports/:id/status", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { status } = req.body as { status: ReportStatus };
+
+      const report = await storage.getReport(id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const transition = reportStatusTransitions[report.status as ReportStatus];
+      if (!transition || transition.next !== status) {
+        return res.status(400).json({ message: `A report in status "${report.status}" cannot move to "${status}"` });
+      }
+
+      const admin = await storage.getAdmin((req as any).user.id);
+      if (!admin || !transition.roles.includes(admin.role as AdminRole)) {
+        return res.status(403).json({ message: `Only ${transition.roles.join(" or ")} users can perform this step` });
+      }
+
+      if (status === 'released' && report.hasCriticalValues) {
+        const notifications = await getCurrentCriticalNotifications(report);
+        if (notifications.length === 0) {
+          return res.status(400).json({
+            message: "Critical values must be communicated and logged before release, including after any amendment",
+          });
+        }
+      }
+
+      if (status === 'released' && !report.deltaAcknowledgedAt) {
+        const sections = await getReportSections(report);
+        if (sections.some((s) => hasDeltaFailures(s.result.parameterResults))) {
+          return res.status(400).json({ message: "Delta check failures must be acknowledged before release" });
+        }
+      }
+
+      if (status === 'released') {
+        const failures = await getReportQcFailures(await getReportSections(report));
+        if (failures.length > 0) {
+          const controls = failures.map((f) => `${f.paramCode} on ${f.analyser} (${f.violations.join(", ")})`);
+          return res.status(400).json({
+            message: `QC failed for ${controls.join("; ")}. Rerun the controls before releasing this report.`,
+          });
+        }
+      }
+
+      let updated = await storage.updateReportStatus(id, status, admin.id);
+      if (!updated) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      // The download link's lifetime starts once the patient can use it
+      if (status === 'released') {
+        updated = await storage.setReportDownloadExpiry(updated.id, getDownloadLinkExpiry()) || updated;
+      }
+
+      // Re-render so the PDF carries the new sign-off stamps
+      await renderReportPdf(updated, getPublicBaseUrl(req));
+
+      if (status === 'released' && updated.bookingId) {
+        await storage.updateBookingStatus(updated.bookingId, "report_ready");
+      }
+
+      // Releasing an amended version retires the version it corrects and
+      // makes its corrections the released values
+      if (status === 'released' && updated.amendsReportId) {
+        for (const amended of updated.amendedResults || []) {
+          await storage.updateResultParameters(amended.resultId, amended.parameterResults);
+        }
+        await storage.supersedeReport(updated.amendsReportId, updated.id);
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating report status:", error);
+      res.status(500).json({ message: "Failed to update report status" });
+    }
+  });
+
+  // Amend a result on a report. Unreleased reports are corrected in place and
+  // go back through verification; released reports get a new version that
+  // replaces the old one once it is released. The corrections stay on the
+  // new version until then, so the released values are untouched.
+  app.post("/api/admin/reports/:id/amend", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { resultId, parameterResults, reason } = req.body as {
+        resultId: string;
+        parameterResults: ParameterResult[];
+        reason: string;
+      };
+      const admin = (req as any).user;
+
+      if (!resultId || !Array.isArray(parameterResults) || !reason?.trim()) {
+        return res.status(400).json({ message: "Result, corrected values and a reason are required" });
+      }
+
+      const report = await storage.getReport(id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (report.supersededBy) {
+        return res.status(400).json({ message: "This report has been superseded. Amend the current version instead." });
+      }
+      if (await storage.getAmendingReport(report.id)) {
+        return res.status(400).json({ message: "An amended version of this report is already awaiting release" });
+      }
+
+      const sections = await getReportSections(report);
+      const section = sections.find((s) => s.result.id === resultId);
+      const patient = await storage.getPatient(report.patientId);
+      if (!section || !patient) {
+        return res.status(400).json({ message: "Result does not belong to this report" });
+      }
+      const { result, test } = section;
+
+      // Only values and comments come from the client. The parameters, units
+      // and ranges are rebuilt from the stored result and the test.
+      const unknown = parameterResults
+        .filter((p) => !result.parameterResults.some((r) => r.parameterName === p?.parameterName))
+        .map((p) => p?.parameterName);
+      const missing = result.parameterResults
+        .filter((r) => !parameterResults.some((p) => p?.parameterName === r.parameterName))
+        .map((r) => r.parameterName);
+      if (unknown.length > 0 || missing.length > 0) {
+        return res.status(400).json({
+          message: unknown.length > 0
+            ? `Unknown parameters: ${unknown.join(", ")}`
+            : `Values are missing for ${missing.join(", ")}`,
+        });
+      }
+
+      const params = test.parameters as TestParameter[];
+      const corrected = result.parameterResults.map((previous) => {
+        const sent = parameterResults.find((p) => p.parameterName === previous.parameterName)!;
+        const { comment, ...rest } = previous;
+        const newComment = typeof sent.comment === "string" ? sent.comment.trim() : comment;
+        return {
+          ...rest,
+          value: String(sent.value ?? "").trim(),
+          unit: params.find((p) => p.name === previous.parameterName)?.unit ?? previous.unit,
+          ...(newComment && { comment: newComment }),
+        };
+      });
+
+      const invalidValues = findInvalidQualitativeValues(test, corrected);
+      if (invalidValues.length > 0) {
+        return res.status(400).json({ message: `Choose a listed result for ${invalidValues.join(", ")}` });
+      }
+
+      // Ranges are resolved again for the collection date, and derived values
+      // recalculated, so both are part of the recorded changes
+      const collectedDate = new Date(result.collectedAt);
+      const checkedResults = await checkParameterResults(
+        patient,
+        test,
+        applyReferenceRanges(test, patient, collectedDate, corrected),
+        collectedDate,
+        sections.map((s) => s.result.id)
+      );
+
+      const changes: ParameterChange[] = checkedResults
+        .map((param) => {
+          const previous = result.parameterResults.find((p) => p.parameterName === param.parameterName)!;
+          return {
+            parameterName: param.parameterName,
+            previousValue: previous.value,
+            newValue: param.value,
+            ...(previous.normalRange !== param.normalRange && {
+              previousRange: previous.normalRange,
+              newRange: param.normalRange,
+            }),
+            ...(previous.unit !== param.unit && { previousUnit: previous.unit, newUnit: param.unit }),
+          };
+        })
+        .filter((change) =>
+          change.previousValue !== change.newValue || change.newRange !== undefined || change.newUnit !== undefined
+        );
+
+      if (changes.length === 0) {
+        return res.status(400).json({ message: "No values were changed" });
+      }
+
+      await storage.createResultAmendment({
+        resultId: result.id,
+        reportId: report.id,
+        previousParameterResults: result.parameterResults,
+        changes,
+        reason: reason.trim(),
+        amendedBy: admin.id,
+      });
+      await alertCriticalValues(report.patientId, test, checkedResults);
+
+      const updatedResults = sections.map((s) =>
+        s.result.id === result.id ? { ...s.result, parameterResults: checkedResults } : s.result
+      );
+      const resultHash = computeResultHash(updatedResults);
+      const critical = updatedResults.some((r) => hasCriticalValues(r.parameterResults));
+
+      let amended: Report | undefined;
+      if (report.status !== 'released') {
+        // A pending amended version collects further corrections; an original
+        // report was never released, so its results can change directly
+        if (report.amendsReportId) {
+          await storage.setReportAmendedResults(report.id, [
+            ...(report.amendedResults || []).filter((a) => a.resultId !== result.id),
+            { resultId: result.id, parameterResults: checkedResults },
+          ]);
+        } else {
+          await storage.updateResultParameters(result.id, checkedResults);
+        }
+        await storage.resetReportStatus(report.id);
+        await storage.setReportCriticalValues(report.id, critical);
+        amended = await storage.updateReportVerification(report.id, report.verificationCode || generateVerificationCode(), resultHash);
+      } else {
+        amended = await storage.createReport({
+          patientId: report.patientId,
+          resultId: report.resultId,
+          bookingId: report.bookingId,
+          pdfPath: null,
+          secureDownloadToken: generateSecureToken(),
+          verificationCode: generateVerificationCode(),
+          resultHash,
+          status: "entered",
+          version: report.version + 1,
+          amendsReportId: report.id,
+          amendedResults: [{ resultId: result.id, parameterResults: checkedResults }],
+          hasCriticalValues: critical,
+        });
+      }
+
+      if (amended) {
+        await renderReportPdf(amended, getPublicBaseUrl(req));
+      }
+
+      res.json({ report: amended, changes });
+    } catch (error) {
+      console.error("Error amending report:", error);
+      res.status(500).json({ message: "Failed to amend report" });
+    }
+  });
+
+  // Confirm that delta check failures on a report have been investigated
+  app.post("/api/admin/reports/:id/acknowledge-delta", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const sections = await getReportSections(report);
+      if (!sections.some((s) => hasDeltaFailures(s.result.parameterResults))) {
+        return res.status(400).json({ message: "This report has no delta check failures" });
+      }
+
+      const updated = await storage.acknowledgeReportDelta(report.id, (req as any).user.id);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error acknowledging delta check:", error);
+      res.status(500).json({ message: "Failed to acknowledge delta check" });
+    }
+  });
+
+  // Reports held for critical values that nobody has logged a call for yet
+  app.get("/api/admin/critical-alerts", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const heldReports = await storage.getUnreleasedCriticalReports();
+
+      const alerts = await Promise.all(
+        heldReports.map(async (report) => {
+          const notifications = await getCurrentCriticalNotifications(report);
+          if (notifications.length > 0) return null;
+
+          const patient = await storage.getPatient(report.patientId);
+          const sections = await getReportSections(report);
+          return {
+            reportId: report.id,
+            patient,
+            generatedAt: report.generatedAt,
+            criticalValues: sections.flatMap((s) =>
+              s.result.parameterResults
+                .filter((p) => p.isCritical)
+                .map((p) => ({ testName: s.test.name, parameterName: p.parameterName, value: p.value, unit: p.unit }))
+            ),
+          };
+        })
+      );
+
+      res.json(alerts.filter((a) => !!a));
+    } catch (error) {
+      console.error("Error fetching critical alerts:", error);
+      res.status(500).json({ message: "Failed to fetch critical alerts" });
+    }
+  });
+
+  // Log that a critical value was communicated
+  app.post("/api/admin/reports/:id/critical-notifications", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { recipientType, recipientName, method, notifiedAt, notes } = req.body;
+
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (!report.hasCriticalValues) {
+        return res.status(400).json({ message: "This report has no critical values" });
+      }
+      if (!criticalRecipientTypes.includes(recipientType) || !notificationMethods.includes(method)) {
+        return res.status(400).json({ message: "Invalid recipient or notification method" });
+      }
+      if (!recipientName?.trim()) {
+        return res.status(400).json({ message: "Name of the person informed is required" });
+      }
+
+      const notification = await storage.createCriticalNotification({
+        reportId: report.id,
+        recipientType,
+        recipientName: recipientName.trim(),
+        method,
+        notifiedAt: notifiedAt ? new Date(notifiedAt) : new Date(),
+        notifiedBy: (req as any).user.id,
+        notes: notes || null,
+      });
+
+      res.json(notification);
+    } catch (error) {
+      console.error("Error logging critical notification:", error);
+      res.status(500).json({ message: "Failed to log critical notification" });
+    }
+  });
+
+  app.get("/api/admin/reports/:id/critical-notifications", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const notifications = await storage.getCriticalNotificationsByReport(req.params.id);
+
+      const withNames = await Promise.all(
+        notifications.map(async (notification) => {
+          const admin = await storage.getAdmin(notification.notifiedBy);
+          return { ...notification, notifiedByName: admin?.name || null };
+        })
+      );
+
+      res.json(withNames);
+    } catch (error) {
+      console.error("Error fetching critical notifications:", error);
+      res.status(500).json({ message: "Failed to fetch critical notifications" });
+    }
+  });
+
+  // Amendment audit trail for a report and every version before it
+  app.get("/api/admin/reports/:id/amendments", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      let report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const amendments = [];
+      while (report) {
+        amendments.unshift(...await storage.getAmendmentsByReport(report.id));
+        report = report.amendsReportId ? await storage.getReport(report.amendsReportId) : undefined;
+      }
+
+      const amendmentsWithDetails = await Promise.all(
+        amendments.map(async (amendment) => {
+          const amendedBy = await storage.getAdmin(amendment.amendedBy);
+          return { ...amendment, amendedByName: amendedBy?.name || null };
+        })
+      );
+
+      res.json(amendmentsWithDetails);
+    } catch (error) {
+      console.error("Error fetching amendments:", error);
+      res.status(500).json({ message: "Failed to fetch amendments" });
+    }
+  });
+
+  // Preview a report PDF (admin, any status)
+  app.get("/api/admin/reports/:id/preview", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const filePath = await ensureReportPdf(report, getPublicBaseUrl(req));
+      if (!filePath) {
+        return res.status(404).json({ message: "Report data is incomplete" });
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      sendReportPdf(res, filePath);
+    } catch (error) {
+      console.error("Error previewing report:", error);
+      res.status(500).json({ message: "Failed to preview report" });
+    }
+  });
+
+  // The report as an HL7 v2.5 ORU^R01 message for partner hospital systems
+  app.get("/api/admin/reports/:id/hl7", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const exportData = await getReportExport(report, getPublicBaseUrl(req));
+      if (!exportData) {
+        return res.status(404).json({ message: "Report data is incomplete" });
+      }
+
+      res.setHeader('Content-Type', 'application/hl7-v2; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="report-${report.id}.hl7"`);
+      res.send(buildHl7Oru(exportData));
+    } catch (error) {
+      console.error("Error exporting HL7 message:", error);
+      res.status(500).json({ message: "Failed to export HL7 message" });
+    }
+  });
+
+  // The report as a FHIR R4 Bundle: DiagnosticReport, Observations and Patient
+  app.get("/api/admin/reports/:id/fhir", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const exportData = await getReportExport(report, getPublicBaseUrl(req));
+      if (!exportData) {
+        return res.status(404).json({ message: "Report data is incomplete" });
+      }
+
+      res.setHeader('Content-Type', 'application/fhir+json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="report-${report.id}.fhir.json"`);
+      res.send(JSON.stringify(buildFhirBundle(exportData), null, 2));
+    } catch (error) {
+      console.error("Error exporting FHIR bundle:", error);
+      res.status(500).json({ message: "Failed to export FHIR bundle" });
+    }
+  });
+
+  // Withdraw a report's download link immediately. Links to earlier and later
+  // versions open the same current report, so they are withdrawn too.
+  app.post("/api/admin/reports/:id/revoke-link", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      let updated = report;
+      for (const version of await getReportVersionChain(report)) {
+        if (version.downloadTokenRevokedAt) continue;
+        const revoked = await storage.revokeReportDownloadToken(version.id);
+        if (version.id === report.id && revoked) updated = revoked;
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error revoking report link:", error);
+      res.status(500).json({ message: "Failed to revoke link" });
+    }
+  });
+
+  // Issue a new download link for the current version, invalidating the old
+  // one and the links to earlier versions. expiresInDays of 0 gives a link
+  // that does not expire.
+  app.post("/api/admin/reports/:id/regenerate-link", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { expiresInDays } = req.body;
+      const days = expiresInDays === undefined ? REPORT_LINK_TTL_DAYS : Number(expiresInDays);
+      if (isNaN(days) || days < 0) {
+        return res.status(400).json({ message: "Link lifetime must be zero or a positive number of days" });
+      }
+
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (report.supersededBy) {
+        return res.status(400).json({ message: "Issue the new link from the current version of this report" });
+      }
+
+      for (const version of await getReportVersionChain(report)) {
+        if (version.id !== report.id && !version.downloadTokenRevokedAt) {
+          await storage.revokeReportDownloadToken(version.id);
+        }
+      }
+      const updated = await storage.replaceReportDownloadToken(report.id, generateSecureToken(), getDownloadLinkExpiry(days));
+      res.json(updated);
+    } catch (error) {
+      console.error("Error regenerating report link:", error);
+      res.status(500).json({ message: "Failed to regenerate link" });
+    }
+  });
+
+  // Who has opened a report's download link
+  app.get("/api/admin/reports/:id/access-log", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const logs = await storage.getReportAccessLogs(req.params.id);
+      res.json(logs);
+    } catch (error) {
+      console.error("Error fetching report access log:", error);
+      res.status(500).json({ message: "Failed to fetch access log" });
+    }
+  });
+
+  // Create test
+  app.post("/api/admin/tests", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { name, code, category, price, duration, tatMinutes, description, parameters, sampleType, container } = req.body;
+
+      if (!name || !code || !category || !price || !duration || !parameters) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+      if (container && !(sampleContainers as readonly string[]).includes(container)) {
+        return res.status(400).json({ message: "Invalid container" });
+      }
+      if (tatMinutes !== undefined && !(Number.isInteger(tatMinutes) && tatMinutes > 0)) {
+        return res.status(400).json({ message: "Turnaround time must be a positive number of minutes" });
+      }
+      const parameterError = Array.isArray(parameters)
+        ? findInvalidParameterSettings(parameters) || findInvalidParameterFormulas(parameters) ||
+          findInvalidParameterCoding(parameters)
+        : null;
+      if (parameterError) {
+        return res.status(400).json({ message: parameterError });
+      }
+
+      const existing = await storage.getTestByCode(code);
+      if (existing) {
+        return res.status(400).json({ message: "Test code already exists" });
+      }
+
+      const test = await storage.createTest({
+        name,
+        code,
+        category,
+        price: price.toString(),
+        duration,
+        tatMinutes: tatMinutes || 1440,
+        description: description || null,
+        parameters,
+        sampleType: sampleType || "Blood",
+        container: container || "plain",
+      });
+
+      res.json(test);
+    } catch (error) {
+      console.error("Error creating test:", error);
+      res.status(500).json({ message: "Failed to create test" });
+    }
+  });
+
+  app.patch("/api/admin/tests/:id/tat", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { tatMinutes } = req.body;
+      if (!(Number.isInteger(tatMinutes) && tatMinutes > 0)) {
+        return res.status(400).json({ message: "Turnaround time must be a positive number of minutes" });
+      }
+
+      const test = await storage.updateTestTat(req.params.id, tatMinutes);
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      res.json(test);
+    } catch (error) {
+      console.error("Error updating test TAT:", error);
+      res.status(500).json({ message: "Failed to update turnaround time" });
+    }
+  });
+
+  // Change the checks, reference ranges and formulas on an existing test's
+  // parameters, matched by paramCode.
+  // Only the fields sent are changed; null clears one.
+  app.patch("/api/admin/tests/:id/parameters", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { parameters: edits } = req.body;
+      if (!Array.isArray(edits)) {
+        return res.status(400).json({ message: "Parameters are required" });
+      }
+
+      const test = await storage.getTest(req.params.id);
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+
+      const parameters = (test.parameters as TestParameter[]).map((param) => {
+        const entry = edits.find((e: { paramCode?: string }) => e?.paramCode === param.paramCode);
+        if (!entry) return param;
+        const updated: Record<string, unknown> = { ...param };
+        for (const field of EDITABLE_PARAMETER_FIELDS) {
+          if (!(field in entry)) continue;
+          if (entry[field] === null) {
+            delete updated[field];
+          } else {
+            updated[field] = entry[field];
+          }
+        }
+        return updated as unknown as TestParameter;
+      });
+      const parameterError = findInvalidParameterSettings(parameters) || findInvalidParameterFormulas(parameters);
+      if (parameterError) {
+        return res.status(400).json({ message: parameterError });
+      }
+
+      const updated = await storage.updateTestParameters(test.id, parameters);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating test parameters:", error);
+      res.status(500).json({ message: "Failed to update parameters" });
+    }
+  });
+
+  // LOINC code, UCUM unit, precision, method and specimen of each parameter,
+  // matched by paramCode. Fields left out of an entry are cleared.
+  app.patch("/api/admin/tests/:id/coding", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { parameters: coding } = req.body;
+      if (!Array.isArray(coding)) {
+        return res.status(400).json({ message: "Parameters are required" });
+      }
+
+      const test = await storage.getTest(req.params.id);
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+
+      const parameters = (test.parameters as TestParameter[]).map((param) => {
+        const { loinc, ucumUnit, precision, method, specimen, ...rest } = param;
+        const entry = coding.find((c: { paramCode?: string }) => c?.paramCode === param.paramCode);
+        if (!entry) return param;
+        const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+        return {
+          ...rest,
+          ...(text(entry.loinc) && { loinc: text(entry.loinc) }),
+          ...(text(entry.ucumUnit) && { ucumUnit: text(entry.ucumUnit) }),
+          ...(entry.precision !== undefined && entry.precision !== null && { precision: entry.precision }),
+          ...(text(entry.method) && { method: text(entry.method) }),
+          ...(text(entry.specimen) && { specimen: text(entry.specimen) }),
+        };
+      });
+      const codingError = findInvalidParameterCoding(parameters);
+      if (codingError) {
+        return res.status(400).json({ message: codingError });
+      }
+
+      const updated = await storage.updateTestParameters(test.id, parameters);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating parameter coding:", error);
+      res.status(500).json({ message: "Failed to update parameter coding" });
+    }
+  });
+
+  // Canned interpretive comments for a test
+  app.get("/api/admin/tests/:id/comments", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const comments = await storage.getTestComments(req.params.id);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error fetching test comments:", error);
+      res.status(500).json({ message: "Failed to fetch test comments" });
+    }
+  });
+
+  app.post("/api/admin/tests/:id/comments", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      const { title, body } = req.body;
+
+      if (!title?.trim() || !body?.trim()) {
+        return res.status(400).json({ message: "Title and comment text are required" });
+      }
+
+      const test = await storage.getTest(req.params.id);
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+
+      const comment = await storage.createTestComment({
+        testId: test.id,
+        title: title.trim(),
+        body: body.trim(),
+      });
+
+      res.json(comment);
+    } catch (error) {
+      console.error("Error creating test comment:", error);
+      res.status(500).json({ message: "Failed to create test comment" });
+    }
+  });
+
+  app.delete("/api/admin/test-comments/:id", authenticateToken, adminOnly, async (req, res) => {
+    try {
+      await storage.deleteTestComment(req.params.id);
+      res.json({ message: "Comment deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting test comment:", error);
+      res.status(500).json({ message: "Failed to delete test comment" });
     }
   });
 
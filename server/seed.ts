@@ -1,6 +1,7 @@
 import { db } from "./db";
-import { tests, admins } from "@shared/schema";
+import { tests, admins, type TestParameter } from "@shared/schema";
 import bcrypt from "bcrypt";
+import { eq } from "drizzle-orm";
 
 const seedTests = [
   {
@@ -9,15 +10,31 @@ const seedTests = [
     category: "Hematology",
     price: "450",
     duration: "24 hours",
+    tatMinutes: 1440,
     description: "Comprehensive blood test that evaluates overall health and detects a wide range of disorders.",
     parameters: [
-      { name: "Hemoglobin", unit: "g/dL", normalRange: "12-16", paramCode: "HGB" },
-      { name: "RBC Count", unit: "million/mcL", normalRange: "4.5-5.5", paramCode: "RBC" },
-      { name: "WBC Count", unit: "cells/mcL", normalRange: "4500-11000", paramCode: "WBC" },
-      { name: "Platelets", unit: "cells/mcL", normalRange: "150000-400000", paramCode: "PLT" },
-      { name: "MCV", unit: "fL", normalRange: "80-100", paramCode: "MCV" },
-      { name: "MCH", unit: "pg", normalRange: "27-33", paramCode: "MCH" },
-      { name: "MCHC", unit: "g/dL", normalRange: "32-36", paramCode: "MCHC" },
+      { name: "Hemoglobin", unit: "g/dL", normalRange: "12-16", paramCode: "HGB", deltaLimit: 2, deltaLimitType: "absolute" as const, criticalLow: 7, criticalHigh: 20,
+        loinc: "718-7", ucumUnit: "g/dL", precision: 1,
+        referenceIntervals: [
+          { ageMin: 0, ageMax: 30, ageUnit: "days" as const, range: "14-24" },
+          { ageMin: 1, ageMax: 12, ageUnit: "months" as const, range: "10-14" },
+          { ageMin: 1, ageMax: 12, ageUnit: "years" as const, range: "11-14.5" },
+          { sex: "male" as const, ageMin: 12, ageUnit: "years" as const, range: "13-17" },
+          { sex: "female" as const, ageMin: 12, ageUnit: "years" as const, range: "12-16" },
+        ] },
+      { name: "RBC Count", unit: "million/mcL", normalRange: "4.5-5.5", paramCode: "RBC", loinc: "789-8", ucumUnit: "10*6/uL", precision: 2,
+        referenceIntervals: [
+          { sex: "male" as const, ageMin: 12, ageUnit: "years" as const, range: "4.5-5.9" },
+          { sex: "female" as const, ageMin: 12, ageUnit: "years" as const, range: "4.1-5.1" },
+        ] },
+      { name: "WBC Count", unit: "cells/mcL", normalRange: "4500-11000", paramCode: "WBC", criticalLow: 2000, criticalHigh: 30000,
+        loinc: "6690-2", ucumUnit: "/uL", precision: 0 },
+      { name: "Platelets", unit: "cells/mcL", normalRange: "150000-400000", paramCode: "PLT", deltaLimit: 50, deltaLimitType: "percent" as const, criticalLow: 50000, criticalHigh: 1000000,
+        loinc: "777-3", ucumUnit: "/uL", precision: 0 },
+      { name: "MCV", unit: "fL", normalRange: "80-100", paramCode: "MCV", deltaLimit: 5, deltaLimitType: "absolute" as const,
+        loinc: "787-2", ucumUnit: "fL", precision: 1 },
+      { name: "MCH", unit: "pg", normalRange: "27-33", paramCode: "MCH", loinc: "785-6", ucumUnit: "pg", precision: 1 },
+      { name: "MCHC", unit: "g/dL", normalRange: "32-36", paramCode: "MCHC", loinc: "786-4", ucumUnit: "g/dL", precision: 1 },
     ],
   },
   {
@@ -26,9 +43,11 @@ const seedTests = [
     category: "Diabetes",
     price: "80",
     duration: "4 hours",
+    tatMinutes: 240,
     description: "Measures blood glucose levels after an overnight fast.",
     parameters: [
-      { name: "Fasting Blood Glucose", unit: "mg/dL", normalRange: "70-100", paramCode: "FBG" },
+      { name: "Fasting Blood Glucose", unit: "mg/dL", normalRange: "70-100", paramCode: "FBG", criticalLow: 50, criticalHigh: 400,
+        loinc: "1558-6", ucumUnit: "mg/dL", precision: 0, method: "GOD-POD", specimen: "Fluoride plasma" },
     ],
   },
   {
@@ -37,9 +56,11 @@ const seedTests = [
     category: "Diabetes",
     price: "80",
     duration: "4 hours",
+    tatMinutes: 240,
     description: "Measures blood glucose levels 2 hours after eating.",
     parameters: [
-      { name: "Postprandial Blood Glucose", unit: "mg/dL", normalRange: "<140", paramCode: "PPBG" },
+      { name: "Postprandial Blood Glucose", unit: "mg/dL", normalRange: "<140", paramCode: "PPBG",
+        loinc: "1521-4", ucumUnit: "mg/dL", precision: 0, method: "GOD-POD", specimen: "Fluoride plasma" },
     ],
   },
   {
@@ -48,15 +69,19 @@ const seedTests = [
     category: "Biochemistry",
     price: "650",
     duration: "24 hours",
+    tatMinutes: 1440,
     description: "Comprehensive panel to assess liver health and function.",
     parameters: [
       { name: "Bilirubin Total", unit: "mg/dL", normalRange: "0.1-1.2", paramCode: "TBIL" },
       { name: "Bilirubin Direct", unit: "mg/dL", normalRange: "0-0.3", paramCode: "DBIL" },
+      { name: "Bilirubin Indirect", unit: "mg/dL", normalRange: "0.1-1.0", paramCode: "IBIL", type: "calculated" as const, formula: "TBIL - DBIL" },
       { name: "SGOT (AST)", unit: "U/L", normalRange: "10-40", paramCode: "AST" },
       { name: "SGPT (ALT)", unit: "U/L", normalRange: "7-56", paramCode: "ALT" },
       { name: "Alkaline Phosphatase", unit: "U/L", normalRange: "44-147", paramCode: "ALP" },
       { name: "Total Protein", unit: "g/dL", normalRange: "6-8.3", paramCode: "TP" },
       { name: "Albumin", unit: "g/dL", normalRange: "3.5-5", paramCode: "ALB" },
+      { name: "Globulin", unit: "g/dL", normalRange: "2.0-3.5", paramCode: "GLOB", type: "calculated" as const, formula: "TP - ALB" },
+      { name: "A/G Ratio", unit: "", normalRange: "1.0-2.2", paramCode: "AGR", type: "calculated" as const, formula: "ALB / (TP - ALB)" },
     ],
   },
   {
@@ -65,13 +90,27 @@ const seedTests = [
     category: "Biochemistry",
     price: "550",
     duration: "24 hours",
+    tatMinutes: 1440,
     description: "Evaluates kidney health and function.",
     parameters: [
       { name: "Blood Urea", unit: "mg/dL", normalRange: "7-20", paramCode: "BUN" },
-      { name: "Creatinine", unit: "mg/dL", normalRange: "0.6-1.2", paramCode: "CREAT" },
-      { name: "Uric Acid", unit: "mg/dL", normalRange: "3.5-7.2", paramCode: "UA" },
-      { name: "Sodium", unit: "mEq/L", normalRange: "136-145", paramCode: "NA" },
-      { name: "Potassium", unit: "mEq/L", normalRange: "3.5-5.0", paramCode: "K" },
+      { name: "Creatinine", unit: "mg/dL", normalRange: "0.6-1.2", paramCode: "CREAT", deltaLimit: 50, deltaLimitType: "percent" as const,
+        referenceIntervals: [
+          { ageMax: 12, ageUnit: "years" as const, range: "0.3-0.7" },
+          { sex: "male" as const, ageMin: 12, ageUnit: "years" as const, range: "0.7-1.3" },
+          { sex: "female" as const, ageMin: 12, ageUnit: "years" as const, range: "0.6-1.1" },
+        ] },
+      // CKD-EPI 2021 creatinine equation
+      { name: "eGFR", unit: "mL/min/1.73m²", normalRange: ">=90", paramCode: "EGFR", type: "calculated" as const,
+        formula: "142 * pow(min(CREAT / (0.7 * FEMALE + 0.9 * (1 - FEMALE)), 1), -0.241 * FEMALE - 0.302 * (1 - FEMALE))"
+          + " * pow(max(CREAT / (0.7 * FEMALE + 0.9 * (1 - FEMALE)), 1), -1.2) * pow(0.9938, AGE) * (1 + 0.012 * FEMALE)" },
+      { name: "Uric Acid", unit: "mg/dL", normalRange: "3.5-7.2", paramCode: "UA",
+        referenceIntervals: [
+          { sex: "male" as const, ageUnit: "years" as const, range: "3.5-7.2" },
+          { sex: "female" as const, ageUnit: "years" as const, range: "2.6-6.0" },
+        ] },
+      { name: "Sodium", unit: "mEq/L", normalRange: "136-145", paramCode: "NA", deltaLimit: 8, deltaLimitType: "absolute" as const, criticalLow: 120, criticalHigh: 160 },
+      { name: "Potassium", unit: "mEq/L", normalRange: "3.5-5.0", paramCode: "K", deltaLimit: 1, deltaLimitType: "absolute" as const, criticalLow: 2.8, criticalHigh: 6.2 },
     ],
   },
   {
@@ -80,13 +119,15 @@ const seedTests = [
     category: "Biochemistry",
     price: "500",
     duration: "24 hours",
+    tatMinutes: 1440,
     description: "Measures cholesterol and triglyceride levels to assess cardiovascular health.",
     parameters: [
       { name: "Total Cholesterol", unit: "mg/dL", normalRange: "<200", paramCode: "TC" },
       { name: "HDL Cholesterol", unit: "mg/dL", normalRange: ">40", paramCode: "HDL" },
-      { name: "LDL Cholesterol", unit: "mg/dL", normalRange: "<100", paramCode: "LDL" },
       { name: "Triglycerides", unit: "mg/dL", normalRange: "<150", paramCode: "TG" },
-      { name: "VLDL", unit: "mg/dL", normalRange: "<30", paramCode: "VLDL" },
+      // Friedewald estimates
+      { name: "VLDL", unit: "mg/dL", normalRange: "<30", paramCode: "VLDL", type: "calculated" as const, formula: "TG / 5" },
+      { name: "LDL Cholesterol", unit: "mg/dL", normalRange: "<100", paramCode: "LDL", type: "calculated" as const, formula: "TC - HDL - TG / 5" },
     ],
   },
   {
@@ -95,6 +136,7 @@ const seedTests = [
     category: "Thyroid",
     price: "700",
     duration: "24 hours",
+    tatMinutes: 1440,
     description: "Comprehensive assessment of thyroid function.",
     parameters: [
       { name: "TSH", unit: "mIU/L", normalRange: "0.4-4.0", paramCode: "TSH" },
@@ -108,6 +150,7 @@ const seedTests = [
     category: "Biochemistry",
     price: "1200",
     duration: "48 hours",
+    tatMinutes: 2880,
     description: "Measures 25-hydroxyvitamin D levels in blood.",
     parameters: [
       { name: "Vitamin D (25-OH)", unit: "ng/mL", normalRange: "30-100", paramCode: "VITD" },
@@ -119,11 +162,12 @@ const seedTests = [
     category: "Urine",
     price: "150",
     duration: "4 hours",
+    tatMinutes: 240,
     description: "Physical, chemical, and microscopic examination of urine.",
     parameters: [
       { name: "pH", unit: "", normalRange: "4.5-8", paramCode: "PH" },
-      { name: "Protein", unit: "", normalRange: "Nil", paramCode: "PROT" },
-      { name: "Sugar", unit: "", normalRange: "Nil", paramCode: "SUG" },
+      { name: "Protein", unit: "", normalRange: "Nil", paramCode: "PROT", type: "qualitative" as const, options: ["Nil", "Trace", "1+", "2+", "3+", "4+"] },
+      { name: "Sugar", unit: "", normalRange: "Nil", paramCode: "SUG", type: "qualitative" as const, options: ["Nil", "Trace", "1+", "2+", "3+", "4+"] },
       { name: "RBC", unit: "/hpf", normalRange: "0-2", paramCode: "URBC" },
       { name: "WBC", unit: "/hpf", normalRange: "0-5", paramCode: "UWBC" },
     ],
@@ -134,27 +178,130 @@ const seedTests = [
     category: "Diabetes",
     price: "550",
     duration: "24 hours",
+    tatMinutes: 1440,
     description: "Measures average blood sugar control over the past 2-3 months.",
     parameters: [
       { name: "HbA1c", unit: "%", normalRange: "<5.7", paramCode: "A1C" },
     ],
   },
+  {
+    name: "HIV 1 & 2 Antibody",
+    code: "HIV",
+    category: "Serology",
+    price: "400",
+    duration: "24 hours",
+    tatMinutes: 1440,
+    description: "Screening test for antibodies to HIV types 1 and 2.",
+    parameters: [
+      { name: "HIV 1 & 2 Antibody", unit: "", normalRange: "Non-reactive", paramCode: "HIV", type: "qualitative" as const, options: ["Non-reactive", "Reactive"] },
+    ],
+  },
+  {
+    name: "Hepatitis B Surface Antigen (HBsAg)",
+    code: "HBSAG",
+    category: "Serology",
+    price: "350",
+    duration: "24 hours",
+    tatMinutes: 1440,
+    description: "Detects hepatitis B surface antigen to screen for hepatitis B infection.",
+    parameters: [
+      { name: "HBsAg", unit: "", normalRange: "Non-reactive", paramCode: "HBSAG", type: "qualitative" as const, options: ["Non-reactive", "Reactive"] },
+    ],
+  },
+  {
+    name: "Hepatitis C Antibody (Anti-HCV)",
+    code: "HCV",
+    category: "Serology",
+    price: "600",
+    duration: "24 hours",
+    tatMinutes: 1440,
+    description: "Screening test for antibodies to the hepatitis C virus.",
+    parameters: [
+      { name: "Anti-HCV", unit: "", normalRange: "Non-reactive", paramCode: "HCV", type: "qualitative" as const, options: ["Non-reactive", "Reactive"] },
+    ],
+  },
+  {
+    name: "VDRL (Syphilis Screening)",
+    code: "VDRL",
+    category: "Serology",
+    price: "200",
+    duration: "24 hours",
+    tatMinutes: 1440,
+    description: "Non-treponemal screening test for syphilis.",
+    parameters: [
+      { name: "VDRL", unit: "", normalRange: "Non-reactive", paramCode: "VDRL", type: "qualitative" as const, options: ["Non-reactive", "Reactive"] },
+    ],
+  },
+  {
+    name: "Dengue NS1 Antigen",
+    code: "DENGUENS1",
+    category: "Serology",
+    price: "600",
+    duration: "6 hours",
+    tatMinutes: 360,
+    description: "Detects dengue NS1 antigen for early diagnosis of dengue fever.",
+    parameters: [
+      { name: "Dengue NS1 Antigen", unit: "", normalRange: "Negative", paramCode: "NS1", type: "qualitative" as const, options: ["Negative", "Positive"] },
+    ],
+  },
 ];
 
+// Parameter settings that change how a result is entered. Tests seeded
+// before these existed get them from the catalog; other settings are left to
+// the lab, which may have changed them.
+const BACKFILLED_PARAMETER_FIELDS = ["type", "formula", "options"] as const;
+
+// Bring an existing test's parameters up to the catalog: parameters it lacks
+// (such as calculated ones added later) are added, and entry settings it
+// lacks are filled in by paramCode. Returns null when nothing changes.
+function backfillParameters(existing: TestParameter[], catalog: TestParameter[]): TestParameter[] | null {
+  let changed = false;
+  const merged = catalog.map((seedParam) => {
+    const current = existing.find((p) => p.paramCode === seedParam.paramCode);
+    if (!current) {
+      changed = true;
+      return seedParam;
+    }
+    const filled: TestParameter = { ...current };
+    for (const field of BACKFILLED_PARAMETER_FIELDS) {
+      if (filled[field] === undefined && seedParam[field] !== undefined) {
+        Object.assign(filled, { [field]: seedParam[field] });
+        changed = true;
+      }
+    }
+    return filled;
+  });
+  const custom = existing.filter((p) => !catalog.some((seedParam) => seedParam.paramCode === p.paramCode));
+  return changed ? [...merged, ...custom] : null;
+}
+
 export async function seedDatabase() {
   try {
     console.log("Seeding database...");
 
-    // Check if tests exist
-    const existingTests = await db.select().from(tests).limit(1);
-    if (existingTests.length === 0) {
+    // Add any catalog tests that are missing, so tests added to the seed
+    // later reach existing databases too
+    const existingCodes = (await db.select({ code: tests.code }).from(tests)).map((t) => t.code);
+    const missingTests = seedTests.filter((t) => !existingCodes.includes(t.code));
+    if (missingTests.length > 0) {
       console.log("Seeding tests...");
-      await db.insert(tests).values(seedTests);
-      console.log(`Inserted ${seedTests.length} tests`);
+      await db.insert(tests).values(missingTests);
+      console.log(`Inserted ${missingTests.length} tests`);
     } else {
       console.log("Tests already exist, skipping seed");
     }
 
+    const existingTests = await db.select().from(tests);
+    for (const seedTest of seedTests) {
+      const existing = existingTests.find((t) => t.code === seedTest.code);
+      if (!existing || missingTests.includes(seedTest)) continue;
+      const parameters = backfillParameters(existing.parameters as TestParameter[], seedTest.parameters as TestParameter[]);
+      if (parameters) {
+        await db.update(tests).set({ parameters }).where(eq(tests.id, existing.id));
+        console.log(`Updated parameters of ${seedTest.code} from the catalog`);
+      }
+    }
+
     // Create default admin
     const existingAdmin = await db.select().from(admins).limit(1);
     if (existingAdmin.length === 0) {
@@ -171,6 +318,26 @@ export async function seedDatabase() {
       console.log("Admin already exists, skipping");
     }
 
+    // Reports can only be authorised by a pathologist account. It is only
+    // created when PATHOLOGIST_PASSWORD is set, so no database is given an
+    // account with a known password.
+    const existingPathologist = await db.select().from(admins).where(eq(admins.role, "pathologist")).limit(1);
+    if (existingPathologist.length > 0) {
+      console.log("Pathologist already exists, skipping");
+    } else if (!process.env.PATHOLOGIST_PASSWORD) {
+      console.log("No pathologist account; set PATHOLOGIST_PASSWORD to create one");
+    } else {
+      console.log("Creating pathologist...");
+      const hashedPassword = await bcrypt.hash(process.env.PATHOLOGIST_PASSWORD, 10);
+      await db.insert(admins).values({
+        username: process.env.PATHOLOGIST_USERNAME || "pathologist",
+        password: hashedPassword,
+        name: "Consultant Pathologist",
+        role: "pathologist",
+      });
+      console.log(`Created pathologist user (username: ${process.env.PATHOLOGIST_USERNAME || "pathologist"})`);
+    }
+
     console.log("Database seeding complete!");
   } catch (error) {
     console.error("Error seeding database:", error);
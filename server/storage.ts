@@ -1,17 +1,45 @@
 import { 
-  patients, tests, results, reports, bookings, otps, admins, reviews, advertisements,
+  patients, doctors, tests, testComments, results, reports, resultAmendments, criticalNotifications, reportAccessLogs, reportShares, bookings, samples, sampleEvents,
+  commissionRules, commissionEntries, commissionStatements, qcMaterials, qcRuns, instrumentCodeMappings, analyserImports, otps, admins, reviews, advertisements,
   type Patient, type InsertPatient,
-  type Test, type InsertTest,
+  type Doctor, type InsertDoctor,
+  type Test, type InsertTest, type TestParameter,
+  type TestComment, type InsertTestComment,
   type Result, type InsertResult,
   type Report, type InsertReport,
+  type ResultAmendment, type InsertResultAmendment,
+  type CriticalNotification, type InsertCriticalNotification,
+  type ReportAccessLog, type InsertReportAccessLog,
+  type ReportShare, type InsertReportShare,
+  type ParameterResult, type AmendedResult,
   type Booking, type InsertBooking,
+  type Sample, type InsertSample, type SampleEvent, type InsertSampleEvent,
+  type CommissionRule, type InsertCommissionRule,
+  type CommissionEntry, type InsertCommissionEntry,
+  type CommissionStatement, type InsertCommissionStatement,
+  type QcMaterial, type InsertQcMaterial, type QcRun, type InsertQcRun,
+  type InstrumentCodeMapping, type InsertInstrumentCodeMapping, type AnalyserImport, type InsertAnalyserImport,
+  type AnalyserImportStatus, type AnalyserValue,
   type Otp, type InsertOtp,
   type Admin, type InsertAdmin,
   type Review, type InsertReview,
   type Advertisement, type InsertAdvertisement,
+  type ReportStatus,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, or, ilike, desc, and, gte, sql } from "drizzle-orm";
+import { eq, ne, or, ilike, desc, and, gte, lt, isNull, inArray, sql } from "drizzle-orm";
+
+// What matching an analyser import to a sample decides
+export type AnalyserImportMatch = Pick<AnalyserImport, "sampleId" | "bookingId" | "status" | "note"> & {
+  values: AnalyserValue[];
+};
+
+export interface DoctorReferralCount {
+  doctorId: string;
+  results: number;
+  patients: number;
+  lastReferralAt: Date | null;
+}
 
 export interface IStorage {
   // Patients
@@ -27,23 +55,79 @@ export interface IStorage {
   updatePatientPassword(id: string, password: string): Promise<Patient | undefined>;
   updatePatientEmailVerified(id: string, verified: boolean): Promise<Patient | undefined>;
 
+  // Referring doctors
+  getDoctor(id: string): Promise<Doctor | undefined>;
+  getDoctorByUsername(username: string): Promise<Doctor | undefined>;
+  getAllDoctors(): Promise<Doctor[]>;
+  createDoctor(doctor: InsertDoctor): Promise<Doctor>;
+  updateDoctor(id: string, doctor: Partial<InsertDoctor>): Promise<Doctor | undefined>;
+  getDoctorReferralCounts(): Promise<DoctorReferralCount[]>;
+
   // Tests
   getTest(id: string): Promise<Test | undefined>;
   getTestByCode(code: string): Promise<Test | undefined>;
   getAllTests(): Promise<Test[]>;
   createTest(test: InsertTest): Promise<Test>;
+  updateTestTat(id: string, tatMinutes: number): Promise<Test | undefined>;
+  updateTestParameters(id: string, parameters: TestParameter[]): Promise<Test | undefined>;
+
+  // Test comment library
+  getTestComments(testId: string): Promise<TestComment[]>;
+  createTestComment(comment: InsertTestComment): Promise<TestComment>;
+  deleteTestComment(id: string): Promise<void>;
 
   // Results
   getResult(id: string): Promise<Result | undefined>;
   getResultsByPatient(patientId: string): Promise<Result[]>;
+  getResultsByDoctor(doctorId: string): Promise<Result[]>;
+  getResultsByBooking(bookingId: string): Promise<Result[]>;
   createResult(result: InsertResult): Promise<Result>;
+  updateResultParameters(id: string, parameterResults: ParameterResult[]): Promise<Result | undefined>;
+
+  // Result amendments
+  createResultAmendment(amendment: InsertResultAmendment): Promise<ResultAmendment>;
+  getAmendmentsByReport(reportId: string): Promise<ResultAmendment[]>;
+
+  // Critical value notifications
+  createCriticalNotification(notification: InsertCriticalNotification): Promise<CriticalNotification>;
+  getCriticalNotificationsByReport(reportId: string): Promise<CriticalNotification[]>;
 
   // Reports
   getReport(id: string): Promise<Report | undefined>;
   getReportByToken(token: string): Promise<Report | undefined>;
+  getReportByVerificationCode(code: string): Promise<Report | undefined>;
   getReportsByPatient(patientId: string): Promise<Report[]>;
+  getReportByBooking(bookingId: string): Promise<Report | undefined>;
+  getAmendingReport(reportId: string): Promise<Report | undefined>;
+  getOriginalReportByBooking(bookingId: string): Promise<Report | undefined>;
+  getOriginalReportsReleasedBetween(from: Date, to: Date): Promise<Report[]>;
   getAllReports(): Promise<Report[]>;
   createReport(report: InsertReport): Promise<Report>;
+  updateReportPdfPath(id: string, pdfPath: string): Promise<Report | undefined>;
+  updateReportVerification(id: string, verificationCode: string, resultHash: string): Promise<Report | undefined>;
+  updateReportStatus(id: string, status: ReportStatus, adminId: string): Promise<Report | undefined>;
+  resetReportStatus(id: string): Promise<Report | undefined>;
+  supersedeReport(id: string, supersededBy: string): Promise<Report | undefined>;
+  setReportAmendedResults(id: string, amendedResults: AmendedResult[]): Promise<Report | undefined>;
+  acknowledgeReportDelta(id: string, adminId: string): Promise<Report | undefined>;
+  setReportCriticalValues(id: string, hasCriticalValues: boolean): Promise<Report | undefined>;
+  getUnreleasedCriticalReports(): Promise<Report[]>;
+  setReportDownloadExpiry(id: string, expiresAt: Date | null): Promise<Report | undefined>;
+  replaceReportDownloadToken(id: string, token: string, expiresAt: Date | null): Promise<Report | undefined>;
+  revokeReportDownloadToken(id: string): Promise<Report | undefined>;
+
+  // Report download access log
+  logReportAccess(entry: InsertReportAccessLog): Promise<ReportAccessLog>;
+  getReportAccessLogs(reportId: string): Promise<ReportAccessLog[]>;
+
+  // Patient share links
+  createReportShare(share: InsertReportShare): Promise<ReportShare>;
+  getReportShare(id: string): Promise<ReportShare | undefined>;
+  getReportShareByToken(token: string): Promise<ReportShare | undefined>;
+  getReportSharesByPatient(patientId: string): Promise<ReportShare[]>;
+  recordReportShareView(id: string): Promise<ReportShare | undefined>;
+  recordReportShareFailedPin(id: string, revoke: boolean): Promise<ReportShare | undefined>;
+  revokeReportShare(id: string): Promise<ReportShare | undefined>;
 
   // Bookings
   getBooking(id: string): Promise<Booking | undefined>;
@@ -51,6 +135,9 @@ export interface IStorage {
   getAllBookings(): Promise<Booking[]>;
   createBooking(booking: InsertBooking): Promise<Booking>;
   updateBookingStatus(id: string, status: string): Promise<Booking | undefined>;
+  setBookingReferringDoctor(id: string, doctorId: string | null): Promise<Booking | undefined>;
+  setBookingTests(id: string, testIds: string[]): Promise<Booking | undefined>;
+  setBookingPriority(id: string, priority: string): Promise<Booking | undefined>;
   updateBookingPayment(id: string, paymentData: {
     paymentMethod: string;
     paymentStatus: string;
@@ -60,6 +147,55 @@ export interface IStorage {
   }): Promise<Booking | undefined>;
   verifyBookingPayment(id: string, adminId: string): Promise<Booking | undefined>;
 
+  // Samples
+  getSample(id: string): Promise<Sample | undefined>;
+  getSampleByAccession(accessionNumber: string): Promise<Sample | undefined>;
+  getSamplesByBooking(bookingId: string): Promise<Sample[]>;
+  createSample(sample: InsertSample): Promise<Sample>;
+  generateAccessionNumber(): Promise<string>;
+  updateSampleStatus(id: string, status: string): Promise<Sample | undefined>;
+  rejectSample(id: string, reason: string, note: string | null): Promise<Sample | undefined>;
+  getSampleEvents(sampleId: string): Promise<SampleEvent[]>;
+  createSampleEvent(event: InsertSampleEvent): Promise<SampleEvent>;
+
+  // Referral commission
+  getCommissionRules(): Promise<CommissionRule[]>;
+  createCommissionRule(rule: InsertCommissionRule): Promise<CommissionRule>;
+  updateCommissionRule(id: string, rule: Partial<InsertCommissionRule>): Promise<CommissionRule | undefined>;
+  deleteCommissionRule(id: string): Promise<void>;
+  getCommissionEntriesByBooking(bookingId: string): Promise<CommissionEntry[]>;
+  getCommissionEntriesByStatement(statementId: string): Promise<CommissionEntry[]>;
+  getCommissionEntriesBetween(from: Date, to: Date): Promise<CommissionEntry[]>;
+  createCommissionEntries(entries: InsertCommissionEntry[]): Promise<CommissionEntry[]>;
+  deleteCommissionEntriesByBooking(bookingId: string): Promise<void>;
+  assignCommissionEntries(entryIds: string[], statementId: string): Promise<void>;
+  getCommissionStatement(id: string): Promise<CommissionStatement | undefined>;
+  getCommissionStatementsByMonth(month: string): Promise<CommissionStatement[]>;
+  createCommissionStatement(statement: InsertCommissionStatement): Promise<CommissionStatement>;
+  updateCommissionStatementTotals(id: string, totalAmount: string, entryCount: number): Promise<CommissionStatement | undefined>;
+  settleCommissionStatement(id: string, adminId: string, paymentReference: string | null): Promise<CommissionStatement | undefined>;
+
+  // Internal quality control
+  getQcMaterials(): Promise<QcMaterial[]>;
+  getQcMaterial(id: string): Promise<QcMaterial | undefined>;
+  createQcMaterial(material: InsertQcMaterial): Promise<QcMaterial>;
+  updateQcMaterial(id: string, material: Partial<InsertQcMaterial>): Promise<QcMaterial | undefined>;
+  getQcRunsByMaterial(materialId: string, from: Date, to: Date): Promise<QcRun[]>;
+  getRecentQcRuns(paramCode: string, analyser: string, before: Date, limit: number): Promise<QcRun[]>;
+  getQcRunsBetween(from: Date, to: Date, paramCodes?: string[]): Promise<QcRun[]>;
+  createQcRun(run: InsertQcRun): Promise<QcRun>;
+
+  // Analyser interface
+  getInstrumentCodeMappings(): Promise<InstrumentCodeMapping[]>;
+  createInstrumentCodeMapping(mapping: InsertInstrumentCodeMapping): Promise<InstrumentCodeMapping>;
+  deleteInstrumentCodeMapping(id: string): Promise<void>;
+  getAnalyserImport(id: string): Promise<AnalyserImport | undefined>;
+  getAnalyserImports(status?: string): Promise<AnalyserImport[]>;
+  getPendingAnalyserImportsByBooking(bookingId: string): Promise<AnalyserImport[]>;
+  createAnalyserImport(analyserImport: InsertAnalyserImport): Promise<AnalyserImport>;
+  updateAnalyserImportMatch(id: string, match: AnalyserImportMatch): Promise<AnalyserImport | undefined>;
+  setAnalyserImportStatus(id: string, status: AnalyserImportStatus): Promise<AnalyserImport | undefined>;
+
   // OTP
   createOtp(otp: InsertOtp): Promise<Otp>;
   verifyOtp(contact: string, otp: string, purpose: string): Promise<Otp | undefined>;
@@ -176,6 +312,44 @@ export class DatabaseStorage implements IStorage {
     return `${prefix}${count.toString().padStart(4, '0')}`;
   }
 
+  // Referring doctors
+  async getDoctor(id: string): Promise<Doctor | undefined> {
+    const [doctor] = await db.select().from(doctors).where(eq(doctors.id, id));
+    return doctor || undefined;
+  }
+
+  async getDoctorByUsername(username: string): Promise<Doctor | undefined> {
+    const [doctor] = await db.select().from(doctors).where(eq(doctors.username, username));
+    return doctor || undefined;
+  }
+
+  async getAllDoctors(): Promise<Doctor[]> {
+    return db.select().from(doctors).orderBy(doctors.name);
+  }
+
+  async createDoctor(doctor: InsertDoctor): Promise<Doctor> {
+    const [created] = await db.insert(doctors).values(doctor).returning();
+    return created;
+  }
+
+  async updateDoctor(id: string, doctor: Partial<InsertDoctor>): Promise<Doctor | undefined> {
+    const [updated] = await db.update(doctors).set(doctor).where(eq(doctors.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async getDoctorReferralCounts(): Promise<DoctorReferralCount[]> {
+    const rows = await db.select({
+      doctorId: results.referringDoctorId,
+      results: sql<number>`count(*)::int`,
+      patients: sql<number>`count(distinct ${results.patientId})::int`,
+      lastReferralAt: sql<Date | null>`max(${results.collectedAt})`,
+    })
+      .from(results)
+      .where(sql`${results.referringDoctorId} is not null`)
+      .groupBy(results.referringDoctorId);
+    return rows.map((row) => ({ ...row, doctorId: row.doctorId! }));
+  }
+
   // Tests
   async getTest(id: string): Promise<Test | undefined> {
     const [test] = await db.select().from(tests).where(eq(tests.id, id));
@@ -196,6 +370,38 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async updateTestTat(id: string, tatMinutes: number): Promise<Test | undefined> {
+    const [updated] = await db.update(tests)
+      .set({ tatMinutes })
+      .where(eq(tests.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async updateTestParameters(id: string, parameters: TestParameter[]): Promise<Test | undefined> {
+    const [updated] = await db.update(tests)
+      .set({ parameters })
+      .where(eq(tests.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Test comment library
+  async getTestComments(testId: string): Promise<TestComment[]> {
+    return db.select().from(testComments)
+      .where(eq(testComments.testId, testId))
+      .orderBy(testComments.title);
+  }
+
+  async createTestComment(comment: InsertTestComment): Promise<TestComment> {
+    const [created] = await db.insert(testComments).values(comment).returning();
+    return created;
+  }
+
+  async deleteTestComment(id: string): Promise<void> {
+    await db.delete(testComments).where(eq(testComments.id, id));
+  }
+
   // Results
   async getResult(id: string): Promise<Result | undefined> {
     const [result] = await db.select().from(results).where(eq(results.id, id));
@@ -208,11 +414,55 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(results.createdAt));
   }
 
+  async getResultsByDoctor(doctorId: string): Promise<Result[]> {
+    return db.select().from(results)
+      .where(eq(results.referringDoctorId, doctorId))
+      .orderBy(desc(results.collectedAt));
+  }
+
+  async getResultsByBooking(bookingId: string): Promise<Result[]> {
+    return db.select().from(results)
+      .where(eq(results.bookingId, bookingId))
+      .orderBy(results.createdAt);
+  }
+
   async createResult(result: InsertResult): Promise<Result> {
     const [created] = await db.insert(results).values(result).returning();
     return created;
   }
 
+  async updateResultParameters(id: string, parameterResults: ParameterResult[]): Promise<Result | undefined> {
+    const [updated] = await db.update(results)
+      .set({ parameterResults })
+      .where(eq(results.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Result amendments
+  async createResultAmendment(amendment: InsertResultAmendment): Promise<ResultAmendment> {
+    const [created] = await db.insert(resultAmendments).values(amendment).returning();
+    return created;
+  }
+
+  async getAmendmentsByReport(reportId: string): Promise<ResultAmendment[]> {
+    return db.select().from(resultAmendments)
+      .where(eq(resultAmendments.reportId, reportId))
+      .orderBy(resultAmendments.createdAt);
+  }
+
+  // Critical value notifications
+  async createCriticalNotification(notification: InsertCriticalNotification): Promise<CriticalNotification> {
+    const [created] = await db.insert(criticalNotifications).values(notification).returning();
+    return created;
+  }
+
+  async getCriticalNotificationsByReport(reportId: string): Promise<CriticalNotification[]> {
+    return db.select().from(criticalNotifications)
+      .where(eq(criticalNotifications.reportId, reportId))
+      .orderBy(criticalNotifications.notifiedAt);
+  }
+
   // Reports
   async getReport(id: string): Promise<Report | undefined> {
     const [report] = await db.select().from(reports).where(eq(reports.id, id));
@@ -224,12 +474,40 @@ export class DatabaseStorage implements IStorage {
     return report || undefined;
   }
 
+  async getReportByVerificationCode(code: string): Promise<Report | undefined> {
+    const [report] = await db.select().from(reports).where(eq(reports.verificationCode, code));
+    return report || undefined;
+  }
+
   async getReportsByPatient(patientId: string): Promise<Report[]> {
     return db.select().from(reports)
       .where(eq(reports.patientId, patientId))
       .orderBy(desc(reports.generatedAt));
   }
 
+  async getReportByBooking(bookingId: string): Promise<Report | undefined> {
+    const [report] = await db.select().from(reports).where(eq(reports.bookingId, bookingId));
+    return report || undefined;
+  }
+
+  // First version of a booking's report; amendments carry the bookingId too
+  async getOriginalReportByBooking(bookingId: string): Promise<Report | undefined> {
+    const [report] = await db.select().from(reports)
+      .where(and(eq(reports.bookingId, bookingId), isNull(reports.amendsReportId)));
+    return report || undefined;
+  }
+
+  async getOriginalReportsReleasedBetween(from: Date, to: Date): Promise<Report[]> {
+    return db.select().from(reports)
+      .where(and(isNull(reports.amendsReportId), gte(reports.releasedAt, from), lt(reports.releasedAt, to)))
+      .orderBy(reports.releasedAt);
+  }
+
+  async getAmendingReport(reportId: string): Promise<Report | undefined> {
+    const [report] = await db.select().from(reports).where(eq(reports.amendsReportId, reportId));
+    return report || undefined;
+  }
+
   async getAllReports(): Promise<Report[]> {
     return db.select().from(reports).orderBy(desc(reports.generatedAt));
   }
@@ -239,6 +517,183 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async updateReportPdfPath(id: string, pdfPath: string): Promise<Report | undefined> {
+    const [updated] = await db.update(reports)
+      .set({ pdfPath })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async updateReportStatus(id: string, status: ReportStatus, adminId: string): Promise<Report | undefined> {
+    const now = new Date();
+    const stamps: Partial<Report> =
+      status === "technically_verified" ? { technicallyVerifiedBy: adminId, technicallyVerifiedAt: now } :
+      status === "pathologist_authorised" ? { authorisedBy: adminId, authorisedAt: now } :
+      status === "released" ? { releasedBy: adminId, releasedAt: now } :
+      {};
+    const [updated] = await db.update(reports)
+      .set({ status, ...stamps })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Send a report back to the start of the workflow, clearing sign-offs
+  async resetReportStatus(id: string): Promise<Report | undefined> {
+    const [updated] = await db.update(reports)
+      .set({
+        status: "entered",
+        technicallyVerifiedBy: null,
+        technicallyVerifiedAt: null,
+        authorisedBy: null,
+        authorisedAt: null,
+        releasedBy: null,
+        releasedAt: null,
+        deltaAcknowledgedBy: null,
+        deltaAcknowledgedAt: null,
+      })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async supersedeReport(id: string, supersededBy: string): Promise<Report | undefined> {
+    const [updated] = await db.update(reports)
+      .set({ supersededBy })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async setReportAmendedResults(id: string, amendedResults: AmendedResult[]): Promise<Report | undefined> {
+    const [updated] = await db.update(reports)
+      .set({ amendedResults })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async acknowledgeReportDelta(id: string, adminId: string): Promise<Report | undefined> {
+    const [updated] = await db.update(reports)
+      .set({ deltaAcknowledgedBy: adminId, deltaAcknowledgedAt: new Date() })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async setReportCriticalValues(id: string, hasCriticalValues: boolean): Promise<Report | undefined> {
+    const [updated] = await db.update(reports)
+      .set({ hasCriticalValues })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getUnreleasedCriticalReports(): Promise<Report[]> {
+    return db.select().from(reports)
+      .where(and(
+        eq(reports.hasCriticalValues, true),
+        ne(reports.status, "released"),
+        isNull(reports.supersededBy),
+      ))
+      .orderBy(reports.generatedAt);
+  }
+
+  async setReportDownloadExpiry(id: string, expiresAt: Date | null): Promise<Report | undefined> {
+    const [updated] = await db.update(reports)
+      .set({ downloadTokenExpiresAt: expiresAt })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async replaceReportDownloadToken(id: string, token: string, expiresAt: Date | null): Promise<Report | undefined> {
+    const [updated] = await db.update(reports)
+      .set({ secureDownloadToken: token, downloadTokenExpiresAt: expiresAt, downloadTokenRevokedAt: null })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async revokeReportDownloadToken(id: string): Promise<Report | undefined> {
+    const [updated] = await db.update(reports)
+      .set({ downloadTokenRevokedAt: new Date() })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Report download access log
+  async logReportAccess(entry: InsertReportAccessLog): Promise<ReportAccessLog> {
+    const [created] = await db.insert(reportAccessLogs).values(entry).returning();
+    return created;
+  }
+
+  async getReportAccessLogs(reportId: string): Promise<ReportAccessLog[]> {
+    return db.select().from(reportAccessLogs)
+      .where(eq(reportAccessLogs.reportId, reportId))
+      .orderBy(desc(reportAccessLogs.accessedAt));
+  }
+
+  // Patient share links
+  async createReportShare(share: InsertReportShare): Promise<ReportShare> {
+    const [created] = await db.insert(reportShares).values(share).returning();
+    return created;
+  }
+
+  async getReportShare(id: string): Promise<ReportShare | undefined> {
+    const [share] = await db.select().from(reportShares).where(eq(reportShares.id, id));
+    return share || undefined;
+  }
+
+  async getReportShareByToken(token: string): Promise<ReportShare | undefined> {
+    const [share] = await db.select().from(reportShares).where(eq(reportShares.token, token));
+    return share || undefined;
+  }
+
+  async getReportSharesByPatient(patientId: string): Promise<ReportShare[]> {
+    return db.select().from(reportShares)
+      .where(eq(reportShares.patientId, patientId))
+      .orderBy(desc(reportShares.createdAt));
+  }
+
+  // A correct PIN also clears earlier failed attempts
+  async recordReportShareView(id: string): Promise<ReportShare | undefined> {
+    const [updated] = await db.update(reportShares)
+      .set({ viewCount: sql`${reportShares.viewCount} + 1`, lastViewedAt: new Date(), failedPinAttempts: 0 })
+      .where(eq(reportShares.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async recordReportShareFailedPin(id: string, revoke: boolean): Promise<ReportShare | undefined> {
+    const [updated] = await db.update(reportShares)
+      .set({
+        failedPinAttempts: sql`${reportShares.failedPinAttempts} + 1`,
+        ...(revoke && { revokedAt: new Date() }),
+      })
+      .where(eq(reportShares.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async revokeReportShare(id: string): Promise<ReportShare | undefined> {
+    const [updated] = await db.update(reportShares)
+      .set({ revokedAt: new Date() })
+      .where(eq(reportShares.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async updateReportVerification(id: string, verificationCode: string, resultHash: string): Promise<Report | undefined> {
+    const [updated] = await db.update(reports)
+      .set({ verificationCode, resultHash })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
   // Bookings
   async getBooking(id: string): Promise<Booking | undefined> {
     const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
@@ -268,6 +723,30 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  async setBookingReferringDoctor(id: string, doctorId: string | null): Promise<Booking | undefined> {
+    const [updated] = await db.update(bookings)
+      .set({ referringDoctorId: doctorId })
+      .where(eq(bookings.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async setBookingTests(id: string, testIds: string[]): Promise<Booking | undefined> {
+    const [updated] = await db.update(bookings)
+      .set({ testIds })
+      .where(eq(bookings.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async setBookingPriority(id: string, priority: string): Promise<Booking | undefined> {
+    const [updated] = await db.update(bookings)
+      .set({ priority })
+      .where(eq(bookings.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
   async updateBookingPayment(id: string, paymentData: {
     paymentMethod: string;
     paymentStatus: string;
@@ -300,6 +779,246 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  // Samples
+  async getSample(id: string): Promise<Sample | undefined> {
+    const [sample] = await db.select().from(samples).where(eq(samples.id, id));
+    return sample || undefined;
+  }
+
+  async getSampleByAccession(accessionNumber: string): Promise<Sample | undefined> {
+    const [sample] = await db.select().from(samples).where(eq(samples.accessionNumber, accessionNumber));
+    return sample || undefined;
+  }
+
+  async getSamplesByBooking(bookingId: string): Promise<Sample[]> {
+    return db.select().from(samples).where(eq(samples.bookingId, bookingId)).orderBy(samples.accessionNumber);
+  }
+
+  async createSample(sample: InsertSample): Promise<Sample> {
+    const [created] = await db.insert(samples).values(sample).returning();
+    return created;
+  }
+
+  // Accession numbers are all digits (YYMMDD + daily sequence) so they print
+  // as compact Code 128 barcodes
+  async generateAccessionNumber(): Promise<string> {
+    const prefix = new Date().toISOString().slice(2, 10).replace(/-/g, '');
+
+    const [result] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(samples)
+      .where(ilike(samples.accessionNumber, `${prefix}%`));
+
+    const count = (result?.count || 0) + 1;
+    return `${prefix}${count.toString().padStart(4, '0')}`;
+  }
+
+  async updateSampleStatus(id: string, status: string): Promise<Sample | undefined> {
+    const [updated] = await db.update(samples)
+      .set({ status })
+      .where(eq(samples.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async rejectSample(id: string, reason: string, note: string | null): Promise<Sample | undefined> {
+    const [updated] = await db.update(samples)
+      .set({ status: 'rejected', rejectionReason: reason, rejectionNote: note })
+      .where(eq(samples.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getSampleEvents(sampleId: string): Promise<SampleEvent[]> {
+    return db.select().from(sampleEvents)
+      .where(eq(sampleEvents.sampleId, sampleId))
+      .orderBy(sampleEvents.createdAt);
+  }
+
+  async createSampleEvent(event: InsertSampleEvent): Promise<SampleEvent> {
+    const [created] = await db.insert(sampleEvents).values(event).returning();
+    return created;
+  }
+
+  // Referral commission
+  async getCommissionRules(): Promise<CommissionRule[]> {
+    return db.select().from(commissionRules).orderBy(commissionRules.createdAt);
+  }
+
+  async createCommissionRule(rule: InsertCommissionRule): Promise<CommissionRule> {
+    const [created] = await db.insert(commissionRules).values(rule).returning();
+    return created;
+  }
+
+  async updateCommissionRule(id: string, rule: Partial<InsertCommissionRule>): Promise<CommissionRule | undefined> {
+    const [updated] = await db.update(commissionRules).set(rule).where(eq(commissionRules.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteCommissionRule(id: string): Promise<void> {
+    await db.delete(commissionRules).where(eq(commissionRules.id, id));
+  }
+
+  async getCommissionEntriesByBooking(bookingId: string): Promise<CommissionEntry[]> {
+    return db.select().from(commissionEntries).where(eq(commissionEntries.bookingId, bookingId));
+  }
+
+  async getCommissionEntriesByStatement(statementId: string): Promise<CommissionEntry[]> {
+    return db.select().from(commissionEntries)
+      .where(eq(commissionEntries.statementId, statementId))
+      .orderBy(commissionEntries.accruedAt);
+  }
+
+  async getCommissionEntriesBetween(from: Date, to: Date): Promise<CommissionEntry[]> {
+    return db.select().from(commissionEntries)
+      .where(and(gte(commissionEntries.accruedAt, from), lt(commissionEntries.accruedAt, to)))
+      .orderBy(commissionEntries.accruedAt);
+  }
+
+  async createCommissionEntries(entries: InsertCommissionEntry[]): Promise<CommissionEntry[]> {
+    if (entries.length === 0) return [];
+    return db.insert(commissionEntries).values(entries).returning();
+  }
+
+  async deleteCommissionEntriesByBooking(bookingId: string): Promise<void> {
+    await db.delete(commissionEntries).where(eq(commissionEntries.bookingId, bookingId));
+  }
+
+  async assignCommissionEntries(entryIds: string[], statementId: string): Promise<void> {
+    if (entryIds.length === 0) return;
+    await db.update(commissionEntries)
+      .set({ statementId })
+      .where(inArray(commissionEntries.id, entryIds));
+  }
+
+  async getCommissionStatement(id: string): Promise<CommissionStatement | undefined> {
+    const [statement] = await db.select().from(commissionStatements).where(eq(commissionStatements.id, id));
+    return statement || undefined;
+  }
+
+  async getCommissionStatementsByMonth(month: string): Promise<CommissionStatement[]> {
+    return db.select().from(commissionStatements).where(eq(commissionStatements.month, month));
+  }
+
+  async createCommissionStatement(statement: InsertCommissionStatement): Promise<CommissionStatement> {
+    const [created] = await db.insert(commissionStatements).values(statement).returning();
+    return created;
+  }
+
+  async updateCommissionStatementTotals(id: string, totalAmount: string, entryCount: number): Promise<CommissionStatement | undefined> {
+    const [updated] = await db.update(commissionStatements)
+      .set({ totalAmount, entryCount })
+      .where(eq(commissionStatements.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async settleCommissionStatement(id: string, adminId: string, paymentReference: string | null): Promise<CommissionStatement | undefined> {
+    const [updated] = await db.update(commissionStatements)
+      .set({ settledAt: new Date(), settledBy: adminId, paymentReference })
+      .where(eq(commissionStatements.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Internal quality control
+  async getQcMaterials(): Promise<QcMaterial[]> {
+    return db.select().from(qcMaterials).orderBy(qcMaterials.paramCode, qcMaterials.analyser, qcMaterials.level);
+  }
+
+  async getQcMaterial(id: string): Promise<QcMaterial | undefined> {
+    const [material] = await db.select().from(qcMaterials).where(eq(qcMaterials.id, id));
+    return material || undefined;
+  }
+
+  async createQcMaterial(material: InsertQcMaterial): Promise<QcMaterial> {
+    const [created] = await db.insert(qcMaterials).values(material).returning();
+    return created;
+  }
+
+  async updateQcMaterial(id: string, material: Partial<InsertQcMaterial>): Promise<QcMaterial | undefined> {
+    const [updated] = await db.update(qcMaterials).set(material).where(eq(qcMaterials.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async getQcRunsByMaterial(materialId: string, from: Date, to: Date): Promise<QcRun[]> {
+    return db.select().from(qcRuns)
+      .where(and(eq(qcRuns.materialId, materialId), gte(qcRuns.runAt, from), lt(qcRuns.runAt, to)))
+      .orderBy(qcRuns.runAt);
+  }
+
+  // Every level's runs for a parameter on an analyser, newest first; the
+  // Westgard rules read across levels as well as down one level's history
+  async getRecentQcRuns(paramCode: string, analyser: string, before: Date, limit: number): Promise<QcRun[]> {
+    return db.select().from(qcRuns)
+      .where(and(eq(qcRuns.paramCode, paramCode), eq(qcRuns.analyser, analyser), lt(qcRuns.runAt, before)))
+      .orderBy(desc(qcRuns.runAt))
+      .limit(limit);
+  }
+
+  async getQcRunsBetween(from: Date, to: Date, paramCodes?: string[]): Promise<QcRun[]> {
+    const inRange = and(gte(qcRuns.runAt, from), lt(qcRuns.runAt, to));
+    if (paramCodes && paramCodes.length === 0) return [];
+    return db.select().from(qcRuns)
+      .where(paramCodes ? and(inRange, inArray(qcRuns.paramCode, paramCodes)) : inRange)
+      .orderBy(qcRuns.runAt);
+  }
+
+  async createQcRun(run: InsertQcRun): Promise<QcRun> {
+    const [created] = await db.insert(qcRuns).values(run).returning();
+    return created;
+  }
+
+  // Analyser interface
+  async getInstrumentCodeMappings(): Promise<InstrumentCodeMapping[]> {
+    return db.select().from(instrumentCodeMappings)
+      .orderBy(instrumentCodeMappings.analyser, instrumentCodeMappings.instrumentCode);
+  }
+
+  async createInstrumentCodeMapping(mapping: InsertInstrumentCodeMapping): Promise<InstrumentCodeMapping> {
+    const [created] = await db.insert(instrumentCodeMappings).values(mapping).returning();
+    return created;
+  }
+
+  async deleteInstrumentCodeMapping(id: string): Promise<void> {
+    await db.delete(instrumentCodeMappings).where(eq(instrumentCodeMappings.id, id));
+  }
+
+  async getAnalyserImport(id: string): Promise<AnalyserImport | undefined> {
+    const [analyserImport] = await db.select().from(analyserImports).where(eq(analyserImports.id, id));
+    return analyserImport || undefined;
+  }
+
+  async getAnalyserImports(status?: string): Promise<AnalyserImport[]> {
+    return db.select().from(analyserImports)
+      .where(status ? eq(analyserImports.status, status) : undefined)
+      .orderBy(desc(analyserImports.receivedAt));
+  }
+
+  // Newest first, so a rerun's values win over the first run's
+  async getPendingAnalyserImportsByBooking(bookingId: string): Promise<AnalyserImport[]> {
+    return db.select().from(analyserImports)
+      .where(and(eq(analyserImports.bookingId, bookingId), eq(analyserImports.status, "pending")))
+      .orderBy(desc(analyserImports.receivedAt));
+  }
+
+  async createAnalyserImport(analyserImport: InsertAnalyserImport): Promise<AnalyserImport> {
+    const [created] = await db.insert(analyserImports).values(analyserImport).returning();
+    return created;
+  }
+
+  async updateAnalyserImportMatch(id: string, match: AnalyserImportMatch): Promise<AnalyserImport | undefined> {
+    const [updated] = await db.update(analyserImports).set(match).where(eq(analyserImports.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async setAnalyserImportStatus(id: string, status: AnalyserImportStatus): Promise<AnalyserImport | undefined> {
+    const [updated] = await db.update(analyserImports)
+      .set({ status, appliedAt: status === "applied" ? new Date() : null })
+      .where(eq(analyserImports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
   // OTP
   async createOtp(otp: InsertOtp): Promise<Otp> {
     // Delete any existing OTPs for this contact and purpose
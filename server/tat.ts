@@ -0,0 +1,135 @@
+import { storage } from "./storage";
+import type { Result, Test, TatBoardItem, TatState, TatStats, TatSummary } from "@shared/schema";
+
+const DUE_SOON_FRACTION = 0.25;
+
+export function getDueAt(collectedAt: Date, tatMinutes: number): Date {
+  return new Date(new Date(collectedAt).getTime() + tatMinutes * 60000);
+}
+
+export function getTatState(dueAt: Date, tatMinutes: number, now: Date = new Date()): TatState {
+  const remaining = dueAt.getTime() - now.getTime();
+  if (remaining < 0) return "overdue";
+  return remaining < tatMinutes * 60000 * DUE_SOON_FRACTION ? "due_soon" : "on_track";
+}
+
+// Every collected test on a booking whose report has not been released,
+// soonest deadline first. The clock starts when the sample is collected, so
+// tests on bookings without samples have no deadline yet and are left out.
+export async function buildTatBoard(now: Date = new Date()): Promise<TatBoardItem[]> {
+  const testsById = new Map((await storage.getAllTests()).map((t) => [t.id, t]));
+  const bookings = (await storage.getAllBookings()).filter((b) => b.status !== "sample_rejected");
+
+  const items: TatBoardItem[] = [];
+  for (const booking of bookings) {
+    const samples = (await storage.getSamplesByBooking(booking.id)).filter((s) => s.status !== "rejected");
+    if (samples.length === 0) continue;
+    const report = await storage.getOriginalReportByBooking(booking.id);
+    if (report?.releasedAt) continue;
+
+    const [patient, bookingResults] = await Promise.all([
+      booking.patientId ? storage.getPatient(booking.patientId) : undefined,
+      storage.getResultsByBooking(booking.id),
+    ]);
+    for (const testId of booking.testIds as string[]) {
+      const test = testsById.get(testId);
+      const sample = samples.find((s) => s.testIds.includes(testId));
+      if (!test || !sample) continue;
+      const dueAt = getDueAt(sample.collectedAt, test.tatMinutes);
+      items.push({
+        bookingId: booking.id,
+        priority: booking.priority,
+        patientName: patient?.name || booking.guestName || "Guest",
+        patientId: patient?.patientId || null,
+        testId: test.id,
+        testName: test.name,
+        testCode: test.code,
+        category: test.category,
+        accessionNumber: sample.accessionNumber,
+        collectedAt: new Date(sample.collectedAt).toISOString(),
+        dueAt: dueAt.toISOString(),
+        tatMinutes: test.tatMinutes,
+        state: getTatState(dueAt, test.tatMinutes, now),
+        resultEntered: bookingResults.some((r) => r.testId === testId),
+      });
+    }
+  }
+  return items.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+// Nearest-rank percentile of values sorted ascending
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+interface TatRecord {
+  test: Test;
+  month: string;
+  minutes: number;
+}
+
+function summariseTat(records: { minutes: number; test: Test }[]): TatSummary {
+  const sorted = records.map((r) => r.minutes).sort((a, b) => a - b);
+  return {
+    count: records.length,
+    withinTat: records.filter((r) => r.minutes <= r.test.tatMinutes).length,
+    medianMinutes: Math.round(percentile(sorted, 50)),
+    p90Minutes: Math.round(percentile(sorted, 90)),
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(key(item), [...(groups.get(key(item)) || []), item]);
+  }
+  return groups;
+}
+
+// Turnaround from collection to release for every result first released in
+// [from, to), against each test's target. Amended reports are not counted
+// again: the clock stops at the first release.
+export async function buildTatStats(from: Date, to: Date): Promise<TatStats> {
+  const testsById = new Map((await storage.getAllTests()).map((t) => [t.id, t]));
+  const records: TatRecord[] = [];
+
+  for (const report of await storage.getOriginalReportsReleasedBetween(from, to)) {
+    const releasedAt = new Date(report.releasedAt!);
+    const reportResults: Result[] = report.bookingId
+      ? await storage.getResultsByBooking(report.bookingId)
+      : [await storage.getResult(report.resultId)].filter((r): r is Result => !!r);
+    for (const result of reportResults) {
+      const test = testsById.get(result.testId);
+      if (!test) continue;
+      records.push({
+        test,
+        month: `${releasedAt.getFullYear()}-${String(releasedAt.getMonth() + 1).padStart(2, "0")}`,
+        minutes: (releasedAt.getTime() - new Date(result.collectedAt).getTime()) / 60000,
+      });
+    }
+  }
+
+  const byCategory = Array.from(groupBy(records, (r) => r.test.category).entries())
+    .map(([category, group]) => ({ category, ...summariseTat(group) }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+
+  const byTest = Array.from(groupBy(records, (r) => r.test.id).values())
+    .map((group) => {
+      const test = group[0].test;
+      return {
+        testId: test.id,
+        testName: test.name,
+        testCode: test.code,
+        category: test.category,
+        tatMinutes: test.tatMinutes,
+        ...summariseTat(group),
+      };
+    })
+    .sort((a, b) => a.category.localeCompare(b.category) || a.testName.localeCompare(b.testName));
+
+  const byMonth = Array.from(groupBy(records, (r) => `${r.month}|${r.test.category}`).values())
+    .map((group) => ({ month: group[0].month, category: group[0].test.category, ...summariseTat(group) }))
+    .sort((a, b) => a.month.localeCompare(b.month) || a.category.localeCompare(b.category));
+
+  return { from: from.toISOString(), to: to.toISOString(), byCategory, byTest, byMonth };
+}
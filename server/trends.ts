@@ -0,0 +1,134 @@
+import { storage } from "./storage";
+import { tagParameterCodes, parseNumericValue, getRangeBounds } from "./result-checks";
+import type {
+  Result, Test, TestParameter, ParameterResult, ParameterTrend, TrendParameter, TrendPoint, CumulativeTestSummary,
+} from "@shared/schema";
+
+// Tag every result's values with paramCodes so the same analyte lines up
+// across tests (e.g. Creatinine in KFT and in a standalone test)
+async function tagHistory(history: Result[]): Promise<{ result: Result; values: ParameterResult[] }[]> {
+  const testCache = new Map<string, Test | undefined>();
+  const tagged = [];
+  for (const result of history) {
+    if (!testCache.has(result.testId)) {
+      testCache.set(result.testId, await storage.getTest(result.testId));
+    }
+    const test = testCache.get(result.testId);
+    tagged.push({ result, values: test ? tagParameterCodes(test, result.parameterResults) : result.parameterResults });
+  }
+  return tagged;
+}
+
+// Parameters with at least one numeric value in the history, most recently
+// measured first
+export async function listTrendParameters(history: Result[]): Promise<TrendParameter[]> {
+  const found = new Map<string, TrendParameter>();
+  for (const { result, values } of await tagHistory(history)) {
+    for (const p of values) {
+      if (!p.paramCode || isNaN(parseNumericValue(p.value))) continue;
+      const date = new Date(result.collectedAt).toISOString();
+      const existing = found.get(p.paramCode);
+      if (existing) {
+        existing.count++;
+        if (date > existing.lastDate) existing.lastDate = date;
+      } else {
+        found.set(p.paramCode, { paramCode: p.paramCode, parameterName: p.parameterName, unit: p.unit, count: 1, lastDate: date });
+      }
+    }
+  }
+  return Array.from(found.values()).sort((a, b) => b.lastDate.localeCompare(a.lastDate));
+}
+
+// Time series of one paramCode, oldest first. Non-numeric values are left
+// out since they cannot be plotted. Null if the patient has never had it.
+export async function getParameterTrend(history: Result[], paramCode: string, since?: Date): Promise<ParameterTrend | null> {
+  const points: TrendPoint[] = [];
+  let latest: ParameterResult | undefined;
+
+  for (const { result, values } of await tagHistory(history)) {
+    const collectedAt = new Date(result.collectedAt);
+    for (const p of values) {
+      const value = parseNumericValue(p.value);
+      if (p.paramCode !== paramCode || isNaN(value)) continue;
+      latest = latest || p;
+      if (since && collectedAt < since) continue;
+      points.push({
+        date: collectedAt.toISOString(),
+        value,
+        displayValue: p.value,
+        ...(p.flag && { flag: p.flag }),
+        normalRange: p.normalRange,
+        ...getRangeBounds(p.normalRange),
+      });
+    }
+  }
+
+  if (!latest) return null;
+  points.sort((a, b) => a.date.localeCompare(b.date));
+  return { paramCode, parameterName: latest.parameterName, unit: latest.unit, points };
+}
+
+// Tests in the history with how many visits each has, most recent first
+export async function listCumulativeTests(history: Result[]): Promise<CumulativeTestSummary[]> {
+  const found = new Map<string, CumulativeTestSummary>();
+  for (const result of history) {
+    const date = new Date(result.collectedAt).toISOString();
+    const existing = found.get(result.testId);
+    if (existing) {
+      existing.count++;
+      if (date > existing.lastDate) existing.lastDate = date;
+      continue;
+    }
+    const test = await storage.getTest(result.testId);
+    if (test) {
+      found.set(test.id, { testId: test.id, testName: test.name, testCode: test.code, count: 1, lastDate: date });
+    }
+  }
+  return Array.from(found.values()).sort((a, b) => b.lastDate.localeCompare(a.lastDate));
+}
+
+export interface CumulativeRow {
+  parameterName: string;
+  unit: string;
+  normalRange: string;
+  // One entry per column; undefined where the parameter was not reported
+  values: (ParameterResult | undefined)[];
+}
+
+export interface CumulativeTable {
+  dates: Date[];
+  rows: CumulativeRow[];
+}
+
+// Lay out every result of one test as parameters x collection dates, oldest
+// date first. Rows follow the test definition; parameters since removed from
+// the test are kept at the end so old values are not lost.
+export function buildCumulativeTable(history: Result[], test: Test): CumulativeTable {
+  const visits = history
+    .filter((r) => r.testId === test.id)
+    .sort((a, b) => new Date(a.collectedAt).getTime() - new Date(b.collectedAt).getTime());
+
+  const names = (test.parameters as TestParameter[]).map((p) => p.name);
+  for (const visit of visits) {
+    for (const p of visit.parameterResults) {
+      if (!names.includes(p.parameterName)) names.push(p.parameterName);
+    }
+  }
+
+  const rows = names
+    .map((name) => {
+      const values = visits.map((v) => v.parameterResults.find((p) => p.parameterName === name && p.value));
+      // Unit and range are taken from the latest visit that reported it
+      const latest = [...values].reverse().find(Boolean);
+      const param = (test.parameters as TestParameter[]).find((p) => p.name === name);
+      return {
+        parameterName: name,
+        unit: latest?.unit || param?.unit || "",
+        normalRange: latest?.normalRange || param?.normalRange || "",
+        values,
+      };
+    })
+    .filter((row) => row.values.some(Boolean));
+
+  return { dates: visits.map((v) => new Date(v.collectedAt)), rows };
+}
@@ -0,0 +1,195 @@
+import type { TestParameter } from "./schema";
+
+// Formulas for calculated parameters are plain arithmetic over other
+// parameters' paramCodes, e.g. "TC - HDL - TG / 5". Supported: numbers,
+// + - * / ^, parentheses, min(), max(), pow(), and the patient variables
+// AGE (years) and FEMALE (1 or 0). They are parsed here rather than passed
+// to eval so the same code runs safely in the browser and on the server.
+
+export const FORMULA_PATIENT_VARIABLES = ["AGE", "FEMALE"] as const;
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "op"; value: string };
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /^\s*(?:(\d+\.?\d*|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|([-+*/^(),]))/;
+  let rest = formula;
+  while (rest.trim()) {
+    const match = pattern.exec(rest);
+    if (!match) {
+      throw new Error(`Unexpected character "${rest.trim()[0]}" in formula`);
+    }
+    if (match[1] !== undefined) tokens.push({ type: "number", value: parseFloat(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: "name", value: match[2] });
+    else tokens.push({ type: "op", value: match[3] });
+    rest = rest.slice(match[0].length);
+  }
+  return tokens;
+}
+
+// Recursive descent over: expr = term (+|- term)*, term = unary (*|/ unary)*,
+// unary = -unary | power, power = primary (^ unary)?
+function parse(formula: string, variables: Record<string, number | undefined>): number {
+  const tokens = tokenize(formula);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.type === "op" && peek()!.value === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}" in formula`);
+    pos++;
+  };
+
+  function expression(): number {
+    let value = term();
+    while (isOp("+") || isOp("-")) {
+      const op = tokens[pos++].value;
+      const right = term();
+      value = op === "+" ? value + right : value - right;
+    }
+    return value;
+  }
+
+  function term(): number {
+    let value = unary();
+    while (isOp("*") || isOp("/")) {
+      const op = tokens[pos++].value;
+      const right = unary();
+      value = op === "*" ? value * right : value / right;
+    }
+    return value;
+  }
+
+  function unary(): number {
+    if (isOp("-")) {
+      pos++;
+      return -unary();
+    }
+    return power();
+  }
+
+  function power(): number {
+    const base = primary();
+    if (isOp("^")) {
+      pos++;
+      return Math.pow(base, unary());
+    }
+    return base;
+  }
+
+  function primary(): number {
+    const token = tokens[pos++];
+    if (!token) throw new Error("Formula ended unexpectedly");
+
+    if (token.type === "number") return token.value;
+
+    if (token.type === "name") {
+      if (isOp("(")) {
+        const fn = FUNCTIONS[token.value.toLowerCase()];
+        if (!fn) throw new Error(`Unknown function "${token.value}"`);
+        pos++;
+        const args = [expression()];
+        while (isOp(",")) {
+          pos++;
+          args.push(expression());
+        }
+        expectOp(")");
+        return fn(...args);
+      }
+      const value = variables[token.value];
+      return value === undefined ? NaN : value;
+    }
+
+    if (token.value === "(") {
+      const value = expression();
+      expectOp(")");
+      return value;
+    }
+    throw new Error(`Unexpected "${token.value}" in formula`);
+  }
+
+  const result = expression();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected "${tokens[pos].value}" in formula`);
+  }
+  return result;
+}
+
+// Evaluate a formula; null when a referenced value is missing or the result
+// is not a finite number (e.g. division by zero)
+export function evaluateFormula(formula: string, variables: Record<string, number | undefined>): number | null {
+  try {
+    const value = parse(formula, variables);
+    return Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Names a formula refers to, excluding function names. Throws with a
+// readable message if the formula cannot be parsed.
+export function getFormulaVariables(formula: string): string[] {
+  const tokens = tokenize(formula);
+  parse(formula, {});
+  return Array.from(new Set(
+    tokens
+      .filter((t, i) => t.type === "name" && !(tokens[i + 1]?.type === "op" && tokens[i + 1].value === "("))
+      .map((t) => t.value as string)
+  ));
+}
+
+export interface FormulaPatient {
+  age?: number;
+  female: boolean;
+}
+
+// Fill in every calculated parameter from the entered values. Formulas may
+// use other calculated parameters, so evaluation repeats until nothing
+// changes. Values are rounded to the parameter's decimal places, or 2 when it
+// has none; values that cannot be calculated are left blank.
+export function computeCalculatedValues<T extends { parameterName: string; value: string }>(
+  params: TestParameter[],
+  values: T[],
+  patient: FormulaPatient
+): T[] {
+  const calculated = params.filter((p) => p.type === "calculated" && p.formula);
+  if (calculated.length === 0) return values;
+
+  let current = values;
+  for (let pass = 0; pass < calculated.length; pass++) {
+    const variables: Record<string, number | undefined> = {
+      AGE: patient.age,
+      FEMALE: patient.female ? 1 : 0,
+    };
+    for (const param of params) {
+      const entered = current.find((v) => v.parameterName === param.name);
+      const num = entered ? parseFloat(entered.value) : NaN;
+      variables[param.paramCode] = isNaN(num) ? undefined : num;
+    }
+
+    let changed = false;
+    current = current.map((v) => {
+      const param = calculated.find((p) => p.name === v.parameterName);
+      if (!param) return v;
+      const result = evaluateFormula(param.formula!, variables);
+      // Rounded as the parameter is printed, so the stored, flagged and
+      // printed values agree
+      const factor = 10 ** (param.precision ?? 2);
+      const value = result === null ? "" : String(Math.round(result * factor) / factor);
+      if (value === v.value) return v;
+      changed = true;
+      return { ...v, value };
+    });
+    if (!changed) break;
+  }
+  return current;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, decimal, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -19,24 +19,64 @@ export const patients = pgTable("patients", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Referring doctors. Results and bookings link here so referrals can be
+// counted per doctor; username/password are set for doctors who use the
+// portal to see their patients' reports.
+export const doctors = pgTable("doctors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  registrationNumber: varchar("registration_number", { length: 50 }).unique(),
+  qualification: text("qualification"),
+  specialty: text("specialty"),
+  clinicName: text("clinic_name"),
+  phone: text("phone"),
+  email: text("email"),
+  address: text("address"),
+  username: text("username").unique(),
+  password: text("password"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const tests = pgTable("tests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   code: varchar("code", { length: 50 }).notNull().unique(),
   category: varchar("category", { length: 100 }).notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  // Shown to patients; tatMinutes is the turnaround the lab commits to,
+  // counted from collection to report release
   duration: varchar("duration", { length: 50 }).notNull(),
+  tatMinutes: integer("tat_minutes").notNull().default(1440),
   description: text("description"),
   parameters: jsonb("parameters").$type<TestParameter[]>().notNull(),
+  // Specimen and tube the test is run on; tests sharing a container are
+  // drawn into one sample at collection
+  sampleType: text("sample_type").notNull().default("Blood"),
+  container: varchar("container", { length: 20 }).notNull().default("plain"),
+});
+
+// Canned interpretive comments a technician can insert into a test's results
+export const testComments = pgTable("test_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  testId: varchar("test_id").references(() => tests.id).notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const results = pgTable("results", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   patientId: varchar("patient_id").references(() => patients.id).notNull(),
   testId: varchar("test_id").references(() => tests.id).notNull(),
+  bookingId: varchar("booking_id").references(() => bookings.id),
   parameterResults: jsonb("parameter_results").$type<ParameterResult[]>().notNull(),
   technician: text("technician").notNull(),
   referredBy: text("referred_by"),
+  referringDoctorId: varchar("referring_doctor_id").references(() => doctors.id),
+  sampleId: varchar("sample_id").references(() => samples.id),
+  remarks: text("remarks"),
+  interpretation: text("interpretation"),
   collectedAt: timestamp("collected_at").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -48,19 +88,103 @@ export const reports = pgTable("reports", {
   bookingId: varchar("booking_id").references(() => bookings.id),
   pdfPath: text("pdf_path"),
   secureDownloadToken: text("secure_download_token").notNull().unique(),
+  downloadTokenExpiresAt: timestamp("download_token_expires_at"),
+  downloadTokenRevokedAt: timestamp("download_token_revoked_at"),
+  verificationCode: varchar("verification_code", { length: 20 }).unique(),
+  resultHash: text("result_hash"),
+  // Reports that existed before the release workflow were already visible,
+  // so adding the column fills them in as released. New reports are always
+  // created as "entered".
+  status: varchar("status", { length: 30 }).notNull().default("released"),
+  technicallyVerifiedBy: varchar("technically_verified_by").references(() => admins.id),
+  technicallyVerifiedAt: timestamp("technically_verified_at"),
+  authorisedBy: varchar("authorised_by").references(() => admins.id),
+  authorisedAt: timestamp("authorised_at"),
+  releasedBy: varchar("released_by").references(() => admins.id),
+  releasedAt: timestamp("released_at"),
+  version: integer("version").notNull().default(1),
+  amendsReportId: varchar("amends_report_id").references((): AnyPgColumn => reports.id),
+  supersededBy: varchar("superseded_by").references((): AnyPgColumn => reports.id),
+  // An amended version keeps its corrections here until it is released; the
+  // results themselves hold the released values until then
+  amendedResults: jsonb("amended_results").$type<AmendedResult[]>(),
+  deltaAcknowledgedBy: varchar("delta_acknowledged_by").references(() => admins.id),
+  deltaAcknowledgedAt: timestamp("delta_acknowledged_at"),
+  hasCriticalValues: boolean("has_critical_values").notNull().default(false),
   generatedAt: timestamp("generated_at").defaultNow().notNull(),
 });
 
+// Audit trail of corrections: each row keeps the values a result had before
+// the amendment, what changed, why, and who made the change
+export const resultAmendments = pgTable("result_amendments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  resultId: varchar("result_id").references(() => results.id).notNull(),
+  reportId: varchar("report_id").references(() => reports.id).notNull(),
+  previousParameterResults: jsonb("previous_parameter_results").$type<ParameterResult[]>().notNull(),
+  changes: jsonb("changes").$type<ParameterChange[]>().notNull(),
+  reason: text("reason").notNull(),
+  amendedBy: varchar("amended_by").references(() => admins.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Record of who was told about a critical (panic) value on a report, by
+// whom and when; a critical report cannot be released without one
+export const criticalNotifications = pgTable("critical_notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").references(() => reports.id).notNull(),
+  recipientType: varchar("recipient_type", { length: 30 }).notNull(),
+  recipientName: text("recipient_name").notNull(),
+  method: varchar("method", { length: 20 }).notNull(),
+  notifiedAt: timestamp("notified_at").notNull(),
+  notifiedBy: varchar("notified_by").references(() => admins.id).notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every request made with a report's download link, whether or not the PDF
+// was served, so a leaked link can be traced
+export const reportAccessLogs = pgTable("report_access_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").references(() => reports.id).notNull(),
+  outcome: varchar("outcome", { length: 30 }).notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  accessedAt: timestamp("accessed_at").defaultNow().notNull(),
+});
+
+// Links a patient hands out (typically to a doctor) for one report, or for
+// every report when reportId is empty. Separate from the report's own
+// download token so each link can carry its own expiry, PIN and revocation.
+export const reportShares = pgTable("report_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").references(() => patients.id).notNull(),
+  reportId: varchar("report_id").references(() => reports.id),
+  token: text("token").notNull().unique(),
+  label: text("label"),
+  pinHash: text("pin_hash"),
+  failedPinAttempts: integer("failed_pin_attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  viewCount: integer("view_count").notNull().default(0),
+  lastViewedAt: timestamp("last_viewed_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const bookings = pgTable("bookings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   patientId: varchar("patient_id").references(() => patients.id),
   guestName: text("guest_name"),
+  referringDoctorId: varchar("referring_doctor_id").references(() => doctors.id),
+  // Set on the free booking created when one of this booking's samples is
+  // rejected, pointing back at the original
+  recollectionOfId: varchar("recollection_of_id").references((): AnyPgColumn => bookings.id),
   phone: text("phone").notNull(),
   email: text("email"),
   testIds: jsonb("test_ids").$type<string[]>().notNull(),
   type: varchar("type", { length: 20 }).notNull(),
   slot: timestamp("slot").notNull(),
   status: varchar("status", { length: 30 }).notNull().default("pending"),
+  priority: varchar("priority", { length: 20 }).notNull().default("routine"),
   paymentMethod: varchar("payment_method", { length: 50 }),
   paymentStatus: varchar("payment_status", { length: 50 }).notNull().default("pending"),
   transactionId: text("transaction_id"),
@@ -74,6 +198,136 @@ export const bookings = pgTable("bookings", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// A physical specimen collected for a booking. Each container drawn gets its
+// own accession number, printed as a barcode on the tube label.
+export const samples = pgTable("samples", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id").references(() => bookings.id).notNull(),
+  accessionNumber: varchar("accession_number", { length: 20 }).notNull().unique(),
+  container: varchar("container", { length: 20 }).notNull(),
+  sampleType: text("sample_type").notNull(),
+  testIds: jsonb("test_ids").$type<string[]>().notNull(),
+  collectedAt: timestamp("collected_at").notNull(),
+  collectedBy: text("collected_by").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("collected"),
+  rejectionReason: varchar("rejection_reason", { length: 20 }),
+  rejectionNote: text("rejection_note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Chain of custody: one row each time a sample changes hands or state
+export const sampleEvents = pgTable("sample_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sampleId: varchar("sample_id").references(() => samples.id).notNull(),
+  status: varchar("status", { length: 20 }).notNull(),
+  note: text("note"),
+  performedBy: varchar("performed_by").references(() => admins.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Commission paid to referring doctors. The most specific rule wins: doctor
+// and category, then doctor, then category, then the lab-wide default (both
+// empty).
+export const commissionRules = pgTable("commission_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  doctorId: varchar("doctor_id").references(() => doctors.id),
+  category: text("category"),
+  rateType: varchar("rate_type", { length: 20 }).notNull(),
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One ledger line per test of a paid, referred booking. The rule applied is
+// copied so later rule changes do not alter what was accrued.
+export const commissionEntries = pgTable("commission_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  doctorId: varchar("doctor_id").references(() => doctors.id).notNull(),
+  bookingId: varchar("booking_id").references(() => bookings.id).notNull(),
+  testId: varchar("test_id").references(() => tests.id).notNull(),
+  category: text("category").notNull(),
+  baseAmount: decimal("base_amount", { precision: 10, scale: 2 }).notNull(),
+  rateType: varchar("rate_type", { length: 20 }).notNull(),
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  statementId: varchar("statement_id").references((): AnyPgColumn => commissionStatements.id),
+  accruedAt: timestamp("accrued_at").defaultNow().notNull(),
+});
+
+// A doctor's payout for one calendar month (month is "YYYY-MM")
+export const commissionStatements = pgTable("commission_statements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  doctorId: varchar("doctor_id").references(() => doctors.id).notNull(),
+  month: varchar("month", { length: 7 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  entryCount: integer("entry_count").notNull(),
+  settledAt: timestamp("settled_at"),
+  settledBy: varchar("settled_by").references(() => admins.id),
+  paymentReference: text("payment_reference"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A control lot at one level, run on one analyser for one parameter. The
+// mean and SD are the lab's own targets from its baseline runs.
+export const qcMaterials = pgTable("qc_materials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paramCode: varchar("param_code", { length: 50 }).notNull(),
+  analyser: text("analyser").notNull(),
+  lotNumber: text("lot_number").notNull(),
+  level: varchar("level", { length: 20 }).notNull(),
+  mean: decimal("mean", { precision: 12, scale: 4 }).notNull(),
+  sd: decimal("sd", { precision: 12, scale: 4 }).notNull(),
+  expiresAt: timestamp("expires_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One measurement of a control. Westgard rules are evaluated when the run is
+// recorded and the outcome kept with it, as the paper register would.
+export const qcRuns = pgTable("qc_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  materialId: varchar("material_id").references(() => qcMaterials.id).notNull(),
+  paramCode: varchar("param_code", { length: 50 }).notNull(),
+  analyser: text("analyser").notNull(),
+  value: decimal("value", { precision: 12, scale: 4 }).notNull(),
+  zScore: decimal("z_score", { precision: 8, scale: 3 }).notNull(),
+  violations: jsonb("violations").$type<WestgardRule[]>().notNull(),
+  outcome: varchar("outcome", { length: 20 }).notNull(),
+  note: text("note"),
+  performedBy: varchar("performed_by").references(() => admins.id).notNull(),
+  runAt: timestamp("run_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// How an analyser names a parameter, and the factor that converts its unit
+// to ours (e.g. 1000 for WBC in 10^3/uL against cells/mcL). Codes that
+// already equal a paramCode need no mapping.
+export const instrumentCodeMappings = pgTable("instrument_code_mappings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  analyser: text("analyser").notNull(),
+  instrumentCode: varchar("instrument_code", { length: 50 }).notNull(),
+  paramCode: varchar("param_code", { length: 50 }).notNull(),
+  factor: decimal("factor", { precision: 12, scale: 6 }).notNull().default("1"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Results an analyser sent for one specimen, held until a technician reviews
+// them on the worklist. Unmatched imports keep the barcode so they can be
+// matched again once the sample is collected or the code is mapped.
+export const analyserImports = pgTable("analyser_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  analyser: text("analyser").notNull(),
+  accessionNumber: varchar("accession_number", { length: 40 }).notNull(),
+  sampleId: varchar("sample_id").references(() => samples.id),
+  bookingId: varchar("booking_id").references(() => bookings.id),
+  values: jsonb("values").$type<AnalyserValue[]>().notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  note: text("note"),
+  source: varchar("source", { length: 20 }).notNull(),
+  receivedAt: timestamp("received_at").notNull(),
+  appliedAt: timestamp("applied_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const otps = pgTable("otps", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   contact: text("contact").notNull(),
@@ -123,6 +377,39 @@ export interface TestParameter {
   unit: string;
   normalRange: string;
   paramCode: string;
+  // Defaults to numeric entry when omitted
+  type?: ParameterType;
+  // Calculated parameters: arithmetic over other paramCodes (see shared/formula.ts)
+  formula?: string;
+  // Qualitative parameters: the answers offered in the pick list
+  options?: string[];
+  // Largest plausible change from the patient's previous value
+  deltaLimit?: number;
+  deltaLimitType?: DeltaLimitType;
+  // Panic values that must be phoned through before the report is released
+  criticalLow?: number;
+  criticalHigh?: number;
+  // Sex- and age-specific ranges; normalRange is used when none match
+  referenceIntervals?: ReferenceInterval[];
+  // Standard coding for results sent to other systems: the LOINC code and
+  // the unit in UCUM notation, e.g. 718-7 and g/dL
+  loinc?: string;
+  ucumUnit?: string;
+  // Decimal places numeric values are printed and exported with
+  precision?: number;
+  // Printed under the parameter name on the report
+  method?: string;
+  specimen?: string;
+}
+
+// An age band is [ageMin, ageMax) in ageUnit; an omitted bound or sex matches
+// every patient
+export interface ReferenceInterval {
+  sex?: ReferenceSex;
+  ageMin?: number;
+  ageMax?: number;
+  ageUnit: AgeUnit;
+  range: string;
 }
 
 export interface ParameterResult {
@@ -130,7 +417,130 @@ export interface ParameterResult {
   value: string;
   unit: string;
   normalRange: string;
+  paramCode?: string;
   isAbnormal?: boolean;
+  flag?: ResultFlag;
+  isCritical?: boolean;
+  deltaCheck?: DeltaCheck;
+  comment?: string;
+}
+
+// One numeric value of a parameter over a patient's history, with the
+// bounds of the reference range that applied to it
+export interface TrendPoint {
+  date: string;
+  value: number;
+  displayValue: string;
+  flag?: ResultFlag;
+  normalRange: string;
+  low?: number;
+  high?: number;
+}
+
+export interface ParameterTrend {
+  paramCode: string;
+  parameterName: string;
+  unit: string;
+  points: TrendPoint[];
+}
+
+export interface TrendParameter {
+  paramCode: string;
+  parameterName: string;
+  unit: string;
+  count: number;
+  lastDate: string;
+}
+
+// A test in the patient's history, offered for a cumulative report
+export interface CumulativeTestSummary {
+  testId: string;
+  testName: string;
+  testCode: string;
+  count: number;
+  lastDate: string;
+}
+
+export interface DeltaCheck {
+  previousValue: string;
+  previousDate: string;
+  change: number;
+  limit: number;
+  limitType: DeltaLimitType;
+  exceeded: boolean;
+}
+
+export interface ParameterChange {
+  parameterName: string;
+  previousValue: string;
+  newValue: string;
+  // Set only when the amendment moved the reference range or unit, e.g. after
+  // the test definition changed
+  previousRange?: string;
+  newRange?: string;
+  previousUnit?: string;
+  newUnit?: string;
+}
+
+// Corrected values carried by an amended report version
+export interface AmendedResult {
+  resultId: string;
+  parameterResults: ParameterResult[];
+}
+
+// A booked, collected test whose report has not been released yet
+export interface TatBoardItem {
+  bookingId: string;
+  priority: string;
+  patientName: string;
+  patientId: string | null;
+  testId: string;
+  testName: string;
+  testCode: string;
+  category: string;
+  accessionNumber: string;
+  collectedAt: string;
+  dueAt: string;
+  tatMinutes: number;
+  state: TatState;
+  resultEntered: boolean;
+}
+
+// Released turnaround for a group of results. Times are in minutes.
+export interface TatSummary {
+  count: number;
+  withinTat: number;
+  medianMinutes: number;
+  p90Minutes: number;
+}
+
+export interface TatStats {
+  from: string;
+  to: string;
+  byCategory: (TatSummary & { category: string })[];
+  byTest: (TatSummary & { testId: string; testName: string; testCode: string; category: string; tatMinutes: number })[];
+  byMonth: (TatSummary & { month: string; category: string })[];
+}
+
+// One result from an analyser. paramCode is null when the instrument code
+// has no mapping; value is already converted to our unit.
+export interface AnalyserValue {
+  instrumentCode: string;
+  paramCode: string | null;
+  value: string;
+  unit: string;
+  flags?: string;
+}
+
+// A control whose latest run on a day was rejected by the Westgard rules
+export interface QcFailure {
+  materialId: string;
+  paramCode: string;
+  analyser: string;
+  lotNumber: string;
+  level: string;
+  runAt: string;
+  violations: WestgardRule[];
 }
 
 export const insertPatientSchema = createInsertSchema(patients).omit({
@@ -138,25 +548,128 @@ export const insertPatientSchema = createInsertSchema(patients).omit({
   createdAt: true,
 });
 
+export const insertDoctorSchema = createInsertSchema(doctors).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertTestSchema = createInsertSchema(tests).omit({
   id: true,
 });
 
+export const insertTestCommentSchema = createInsertSchema(testComments).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertResultSchema = createInsertSchema(results).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertReportSchema = createInsertSchema(reports).omit({
+export const insertReportSchema = createInsertSchema(reports, {
+  amendedResults: z.array(z.object({
+    resultId: z.string(),
+    parameterResults: z.array(z.custom<ParameterResult>()),
+  })).nullable().optional(),
+}).omit({
   id: true,
   generatedAt: true,
 });
 
+export const insertResultAmendmentSchema = createInsertSchema(resultAmendments, {
+  previousParameterResults: z.array(z.custom<ParameterResult>()),
+  changes: z.array(z.object({
+    parameterName: z.string(),
+    previousValue: z.string(),
+    newValue: z.string(),
+    previousRange: z.string().optional(),
+    newRange: z.string().optional(),
+    previousUnit: z.string().optional(),
+    newUnit: z.string().optional(),
+  })),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCriticalNotificationSchema = createInsertSchema(criticalNotifications).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReportAccessLogSchema = createInsertSchema(reportAccessLogs).omit({
+  id: true,
+  accessedAt: true,
+});
+
+export const insertReportShareSchema = createInsertSchema(reportShares).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertBookingSchema = createInsertSchema(bookings).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertSampleSchema = createInsertSchema(samples, {
+  testIds: z.array(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSampleEventSchema = createInsertSchema(sampleEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCommissionRuleSchema = createInsertSchema(commissionRules).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCommissionEntrySchema = createInsertSchema(commissionEntries).omit({
+  id: true,
+  accruedAt: true,
+});
+
+export const insertCommissionStatementSchema = createInsertSchema(commissionStatements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertQcMaterialSchema = createInsertSchema(qcMaterials).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertQcRunSchema = createInsertSchema(qcRuns, {
+  violations: z.lazy(() => z.array(z.enum(westgardRules))),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertInstrumentCodeMappingSchema = createInsertSchema(instrumentCodeMappings).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAnalyserImportSchema = createInsertSchema(analyserImports, {
+  values: z.array(z.object({
+    instrumentCode: z.string(),
+    paramCode: z.string().nullable(),
+    value: z.string(),
+    unit: z.string(),
+    flags: z.string().optional(),
+  })),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertOtpSchema = createInsertSchema(otps).omit({
   id: true,
   createdAt: true,
@@ -179,14 +692,44 @@ export const insertAdvertisementSchema = createInsertSchema(advertisements).omit
 
 export type Patient = typeof patients.$inferSelect;
 export type InsertPatient = z.infer<typeof insertPatientSchema>;
+export type Doctor = typeof doctors.$inferSelect;
+export type InsertDoctor = z.infer<typeof insertDoctorSchema>;
 export type Test = typeof tests.$inferSelect;
 export type InsertTest = z.infer<typeof insertTestSchema>;
+export type TestComment = typeof testComments.$inferSelect;
+export type InsertTestComment = z.infer<typeof insertTestCommentSchema>;
 export type Result = typeof results.$inferSelect;
 export type InsertResult = z.infer<typeof insertResultSchema>;
 export type Report = typeof reports.$inferSelect;
 export type InsertReport = z.infer<typeof insertReportSchema>;
+export type ResultAmendment = typeof resultAmendments.$inferSelect;
+export type InsertResultAmendment = z.infer<typeof insertResultAmendmentSchema>;
+export type CriticalNotification = typeof criticalNotifications.$inferSelect;
+export type InsertCriticalNotification = z.infer<typeof insertCriticalNotificationSchema>;
+export type ReportAccessLog = typeof reportAccessLogs.$inferSelect;
+export type InsertReportAccessLog = z.infer<typeof insertReportAccessLogSchema>;
+export type ReportShare = typeof reportShares.$inferSelect;
+export type InsertReportShare = z.infer<typeof insertReportShareSchema>;
 export type Booking = typeof bookings.$inferSelect;
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
+export type Sample = typeof samples.$inferSelect;
+export type InsertSample = z.infer<typeof insertSampleSchema>;
+export type SampleEvent = typeof sampleEvents.$inferSelect;
+export type InsertSampleEvent = z.infer<typeof insertSampleEventSchema>;
+export type CommissionRule = typeof commissionRules.$inferSelect;
+export type InsertCommissionRule = z.infer<typeof insertCommissionRuleSchema>;
+export type CommissionEntry = typeof commissionEntries.$inferSelect;
+export type InsertCommissionEntry = z.infer<typeof insertCommissionEntrySchema>;
+export type CommissionStatement = typeof commissionStatements.$inferSelect;
+export type InsertCommissionStatement = z.infer<typeof insertCommissionStatementSchema>;
+export type QcMaterial = typeof qcMaterials.$inferSelect;
+export type InsertQcMaterial = z.infer<typeof insertQcMaterialSchema>;
+export type QcRun = typeof qcRuns.$inferSelect;
+export type InsertQcRun = z.infer<typeof insertQcRunSchema>;
+export type InstrumentCodeMapping = typeof instrumentCodeMappings.$inferSelect;
+export type InsertInstrumentCodeMapping = z.infer<typeof insertInstrumentCodeMappingSchema>;
+export type AnalyserImport = typeof analyserImports.$inferSelect;
+export type InsertAnalyserImport = z.infer<typeof insertAnalyserImportSchema>;
 export type Otp = typeof otps.$inferSelect;
 export type InsertOtp = z.infer<typeof insertOtpSchema>;
 export type Admin = typeof admins.$inferSelect;
@@ -196,11 +739,113 @@ export type InsertReview = z.infer<typeof insertReviewSchema>;
 export type Advertisement = typeof advertisements.$inferSelect;
 export type InsertAdvertisement = z.infer<typeof insertAdvertisementSchema>;
 
-export const bookingStatuses = ["pending", "collected", "processing", "report_ready", "delivered"] as const;
+// sample_rejected: every sample was rejected and its tests moved to a
+// recollection booking, so nothing is left to report on this one
+export const bookingStatuses = ["pending", "collected", "processing", "report_ready", "delivered", "sample_rejected"] as const;
 export type BookingStatus = typeof bookingStatuses[number];
 
+// Most urgent first; worklists sort on this order
+export const bookingPriorities = ["stat", "urgent", "routine"] as const;
+export type BookingPriority = typeof bookingPriorities[number];
+
+// due_soon once less than a quarter of the turnaround time is left
+export const tatStates = ["on_track", "due_soon", "overdue"] as const;
+export type TatState = typeof tatStates[number];
+
+export const adminRoles = ["admin", "technician", "pathologist"] as const;
+export type AdminRole = typeof adminRoles[number];
+
+export const parameterTypes = ["numeric", "calculated", "qualitative"] as const;
+export type ParameterType = typeof parameterTypes[number];
+
+export const referenceSexes = ["male", "female"] as const;
+export type ReferenceSex = typeof referenceSexes[number];
+
+export const ageUnits = ["days", "months", "years"] as const;
+export type AgeUnit = typeof ageUnits[number];
+
+// H/L outside the reference range, HH/LL beyond the critical limits, A for
+// an unexpected result against a non-numeric range (e.g. "Nil")
+export const resultFlags = ["H", "L", "HH", "LL", "A"] as const;
+export type ResultFlag = typeof resultFlags[number];
+
+export const deltaLimitTypes = ["absolute", "percent"] as const;
+export type DeltaLimitType = typeof deltaLimitTypes[number];
+
+export const criticalRecipientTypes = ["patient", "referring_doctor"] as const;
+export type CriticalRecipientType = typeof criticalRecipientTypes[number];
+
+export const notificationMethods = ["phone", "sms", "email", "in_person"] as const;
+export type NotificationMethod = typeof notificationMethods[number];
+
+// What happened when a download link was opened
+export const reportAccessOutcomes = [
+  "served", "redirected", "expired", "revoked", "not_released", "payment_pending", "booking_missing",
+] as const;
+export type ReportAccessOutcome = typeof reportAccessOutcomes[number];
+
+export const reportStatuses = ["entered", "technically_verified", "pathologist_authorised", "released"] as const;
+export type ReportStatus = typeof reportStatuses[number];
+
+// Each report moves one step at a time; only the listed roles may take a step
+export const reportStatusTransitions: Record<ReportStatus, { next: ReportStatus; roles: AdminRole[] } | null> = {
+  entered: { next: "technically_verified", roles: ["technician", "pathologist", "admin"] },
+  technically_verified: { next: "pathologist_authorised", roles: ["pathologist"] },
+  pathologist_authorised: { next: "released", roles: ["pathologist", "admin"] },
+  released: null,
+};
+
 export const paymentStatuses = ["pending", "paid_unverified", "verified", "cash_on_delivery", "pay_at_lab"] as const;
 export type PaymentStatus = typeof paymentStatuses[number];
 
+// Collection tubes and containers
+export const sampleContainers = ["edta", "plain", "fluoride", "urine"] as const;
+export type SampleContainer = typeof sampleContainers[number];
+
+export const sampleStatuses = ["collected", "in_transit", "received", "processing", "stored", "discarded", "rejected"] as const;
+export type SampleStatus = typeof sampleStatuses[number];
+
+// Where a sample may go next. Samples drawn at the lab skip transit.
+// Rejection is its own step, allowed until the sample has been processed.
+export const sampleStatusTransitions: Record<SampleStatus, SampleStatus[]> = {
+  collected: ["in_transit", "received"],
+  in_transit: ["received"],
+  received: ["processing"],
+  processing: ["stored"],
+  stored: ["discarded"],
+  discarded: [],
+  rejected: ["discarded"],
+};
+
+export const sampleRejectableStatuses: SampleStatus[] = ["collected", "in_transit", "received", "processing"];
+
+export const sampleRejectionReasons = ["haemolysed", "clotted", "insufficient", "other"] as const;
+export type SampleRejectionReason = typeof sampleRejectionReasons[number];
+
+export const qcLevels = ["low", "normal", "high"] as const;
+export type QcLevel = typeof qcLevels[number];
+
+// 1-2s only warns; any other violation rejects the run
+export const westgardRules = ["1-2s", "1-3s", "2-2s", "R-4s", "4-1s", "10x"] as const;
+export type WestgardRule = typeof westgardRules[number];
+
+export const qcOutcomes = ["accepted", "warning", "rejected"] as const;
+export type QcOutcome = typeof qcOutcomes[number];
+
+// pending: matched to a sample and waiting for review on the worklist;
+// applied: every test on the sample has been saved
+export const analyserImportStatuses = ["pending", "unmatched", "applied", "discarded"] as const;
+export type AnalyserImportStatus = typeof analyserImportStatuses[number];
+
+export const analyserImportSources = ["listener", "file", "upload"] as const;
+export type AnalyserImportSource = typeof analyserImportSources[number];
+
+// A LOINC code is a number and a check digit, e.g. 2345-7
+export const loincCodePattern = /^\d{1,7}-\d$/;
+export const MAX_PARAMETER_PRECISION = 6;
+
+export const commissionRateTypes = ["percent", "flat"] as const;
+export type CommissionRateType = typeof commissionRateTypes[number];
+
 export const paymentMethods = ["upi", "debit_card", "credit_card", "net_banking", "wallet", "bank_transfer", "cash_on_delivery", "pay_at_lab"] as const;
 export type PaymentMethod = typeof paymentMethods[number];